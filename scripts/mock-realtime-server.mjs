@@ -0,0 +1,218 @@
+/**
+ * @file scripts/mock-realtime-server.mjs
+ * @description Dependency-free mock of the realtime endpoint for local development
+ *
+ * Serves both transports the client understands:
+ *   ws://localhost:5050/api/realtime        WebSocket
+ *   http://localhost:5050/api/realtime/sse  Server-Sent Events
+ *
+ * Control endpoints:
+ *   POST /emit  body `{ "type": "...", "payload": {...} }` is broadcast to every client
+ *   POST /drop  closes every connection (exercise reconnect/backoff)
+ *
+ * Usage:
+ *   npm run realtime:mock
+ *   NEXT_PUBLIC_REALTIME_URL=http://localhost:5050/api/realtime npm run dev
+ */
+
+import http from "node:http";
+import crypto from "node:crypto";
+
+const PORT = Number(process.env.MOCK_REALTIME_PORT || 5050);
+const PATH = "/api/realtime";
+// Emit a demo notification every N ms (0 disables)
+const DEMO_INTERVAL_MS = Number(process.env.MOCK_REALTIME_INTERVAL_MS ?? 15000);
+
+const wsClients = new Set();
+const sseClients = new Set();
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+// ==================== WEBSOCKET FRAMING ====================
+
+function encodeTextFrame(text) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x81, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+function handleUpgrade(req, socket) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const key = req.headers["sec-websocket-key"];
+
+  if (url.pathname !== PATH || !key) {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+
+  const accept = crypto
+    .createHash("sha1")
+    .update(key + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11")
+    .digest("base64");
+
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "\r\n",
+    ].join("\r\n")
+  );
+
+  wsClients.add(socket);
+  log(`ws client connected (token: ${url.searchParams.get("token") ? "yes" : "no"})`);
+
+  // Only control frames matter here; client messages are ignored
+  socket.on("data", (chunk) => {
+    const opcode = chunk[0] & 0x0f;
+    if (opcode === 0x8) socket.end(Buffer.from([0x88, 0x00]));
+    if (opcode === 0x9) socket.write(Buffer.from([0x8a, 0x00]));
+  });
+  socket.on("close", () => wsClients.delete(socket));
+  socket.on("error", () => wsClients.delete(socket));
+}
+
+// ==================== SSE ====================
+
+function handleSSE(req, res) {
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write(": connected\n\n");
+
+  sseClients.add(res);
+  log("sse client connected");
+
+  // Comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(": ping\n\n"), 20000);
+  req.on("close", () => {
+    clearInterval(keepAlive);
+    sseClients.delete(res);
+  });
+}
+
+// ==================== BROADCAST ====================
+
+function broadcast(event) {
+  const data = JSON.stringify(event);
+  wsClients.forEach((socket) => socket.write(encodeTextFrame(data)));
+  sseClients.forEach((res) => res.write(`data: ${data}\n\n`));
+  log(`-> ${event.type} (${wsClients.size} ws, ${sseClients.size} sse)`);
+}
+
+function dropAll() {
+  wsClients.forEach((socket) => socket.destroy());
+  sseClients.forEach((res) => res.end());
+  wsClients.clear();
+  sseClients.clear();
+  log("dropped all connections");
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function log(message) {
+  console.log(`[mock-realtime] ${message}`);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === `${PATH}/sse`) {
+    handleSSE(req, res);
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/emit") {
+    try {
+      const event = JSON.parse(await readBody(req));
+      if (typeof event.type !== "string" || !("payload" in event)) {
+        throw new Error("Expected { type, payload }");
+      }
+      broadcast(event);
+      res.writeHead(202, CORS_HEADERS);
+      res.end();
+    } catch (err) {
+      res.writeHead(400, { ...CORS_HEADERS, "Content-Type": "text/plain" });
+      res.end(String(err.message || err));
+    }
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/drop") {
+    dropAll();
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  res.writeHead(404, CORS_HEADERS);
+  res.end();
+});
+
+server.on("upgrade", handleUpgrade);
+
+server.listen(PORT, () => {
+  log(`listening on http://localhost:${PORT}${PATH}`);
+});
+
+if (DEMO_INTERVAL_MS > 0) {
+  let counter = 0;
+  setInterval(() => {
+    if (wsClients.size + sseClients.size === 0) return;
+    counter += 1;
+    broadcast({
+      type: "notification:created",
+      payload: {
+        _id: `mock-${Date.now()}`,
+        user: "mock",
+        type: "SYSTEM",
+        title: "Mock notification",
+        message: `Demo event #${counter} from the mock realtime server`,
+        isRead: false,
+        createdAt: new Date().toISOString(),
+      },
+    });
+  }, DEMO_INTERVAL_MS);
+}
+
+process.on("SIGINT", () => {
+  dropAll();
+  server.close(() => process.exit(0));
+});
@@ -0,0 +1,71 @@
+/**
+ * @file src/components/account/AccountStatusBanner.tsx
+ * @description Site-wide banner for a suspended account, or the latest warning until dismissed
+ */
+
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, ShieldAlert, X } from "lucide-react";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { formatSuspensionRemaining } from "@/lib/moderation";
+import { formatRelativeTime } from "@/lib/utils";
+
+// Id of the last warning the user closed; a newer warning shows again
+const STORAGE_KEY = "devmatch:dismissed-warning";
+
+export default function AccountStatusBanner() {
+  const { isSuspended, suspendedUntil, suspensionReason, warningCount, latestWarning } =
+    useAccountStatus();
+  const [dismissedId, setDismissedId] = useLocalStorage<string | null>(STORAGE_KEY, null);
+
+  if (isSuspended) {
+    return (
+      <div className="border-b border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+        <div className="mx-auto flex max-w-7xl flex-wrap items-center gap-x-3 gap-y-1">
+          <ShieldAlert size={18} className="shrink-0 text-red-400" />
+          <p className="flex-1">
+            <span className="font-semibold text-red-100">Your account is suspended</span>{" "}
+            {formatSuspensionRemaining(suspendedUntil)}. You can still browse, but posting,
+            commenting and applying are paused.
+            {suspensionReason && <span className="text-red-300"> Reason: {suspensionReason}</span>}
+          </p>
+          <Link
+            href="/appeal"
+            className="rounded-lg border border-red-400/40 px-3 py-1 font-medium text-red-100 hover:bg-red-500/20"
+          >
+            Appeal
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!latestWarning || latestWarning._id === dismissedId) return null;
+
+  return (
+    <div className="border-b border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+      <div className="mx-auto flex max-w-7xl items-center gap-3">
+        <AlertTriangle size={18} className="shrink-0 text-amber-400" />
+        <p className="flex-1">
+          <span className="font-semibold text-amber-100">
+            You received a warning {formatRelativeTime(latestWarning.createdAt).toLowerCase()}
+          </span>
+          : {latestWarning.reason}
+          {warningCount > 1 && (
+            <span className="text-amber-300"> ({warningCount} warnings on this account)</span>
+          )}
+          . Further violations may lead to a suspension.
+        </p>
+        <button
+          onClick={() => setDismissedId(latestWarning._id)}
+          className="rounded p-1 text-amber-300 hover:bg-amber-500/20 hover:text-amber-100"
+          aria-label="Dismiss warning"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
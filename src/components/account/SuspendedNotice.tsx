@@ -0,0 +1,74 @@
+/**
+ * @file src/components/account/SuspendedNotice.tsx
+ * @description Shown in place of a page or form that suspended users can't use
+ */
+
+"use client";
+
+import Link from "next/link";
+import { ShieldAlert } from "lucide-react";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
+import { formatSuspensionRemaining } from "@/lib/moderation";
+import { cn } from "@/lib/utils";
+
+interface SuspendedNoticeProps {
+  // What the user was trying to do, e.g. "apply to jobs"
+  action?: string;
+  // Inline in a form instead of filling the page
+  compact?: boolean;
+  className?: string;
+}
+
+export default function SuspendedNotice({
+  action = "do this",
+  compact,
+  className,
+}: SuspendedNoticeProps) {
+  const { suspendedUntil } = useAccountStatus();
+
+  if (compact) {
+    return (
+      <p
+        className={cn(
+          "flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700",
+          className
+        )}
+      >
+        <ShieldAlert size={16} className="shrink-0" />
+        <span>
+          Your account is suspended, so you can&apos;t {action} right now.{" "}
+          <Link href="/appeal" className="font-medium underline">
+            Appeal
+          </Link>
+        </span>
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("max-w-md mx-auto px-4 py-16 text-center", className)}>
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+        <ShieldAlert className="mx-auto mb-3 text-red-600" size={32} />
+        <h2 className="text-xl font-bold text-red-800 mb-2">Account suspended</h2>
+        <p className="text-red-600 mb-4">
+          You can&apos;t {action} while your account is suspended. The suspension lasts{" "}
+          {formatSuspensionRemaining(suspendedUntil).replace(/^for /, "")}.
+        </p>
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={() => window.history.back()}
+            className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-100"
+          >
+            Go Back
+          </button>
+          <Link
+            href="/appeal"
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+          >
+            Appeal suspension
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
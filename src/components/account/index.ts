@@ -0,0 +1,7 @@
+/**
+ * @file src/components/account/index.ts
+ * @description Export all account status components
+ */
+
+export { default as AccountStatusBanner } from "./AccountStatusBanner";
+export { default as SuspendedNotice } from "./SuspendedNotice";
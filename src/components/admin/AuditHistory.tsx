@@ -0,0 +1,123 @@
+/**
+ * @file src/components/admin/AuditHistory.tsx
+ * @description Recent admin actions on one user, job, skill or report, for confirmation modals
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { History } from "lucide-react";
+import { adminService } from "@/services/adminService";
+import LoadingSpinner from "@/components/common/Loading";
+import {
+  AUDIT_ACTION_LABELS,
+  DESTRUCTIVE_AUDIT_ACTIONS,
+  getAuditChanges,
+  getAuditHistoryHref,
+} from "@/lib/audit";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type { AuditLogEntry, AuditTargetType } from "@/types";
+
+interface AuditHistoryProps {
+  targetType: AuditTargetType;
+  targetId: string;
+  limit?: number;
+  className?: string;
+}
+
+interface HistoryResult {
+  key: string;
+  entries: AuditLogEntry[] | null;
+  total: number;
+}
+
+export default function AuditHistory({
+  targetType,
+  targetId,
+  limit = 5,
+  className,
+}: AuditHistoryProps) {
+  const [result, setResult] = useState<HistoryResult | null>(null);
+  const key = `${targetType}:${targetId}`;
+  const loading = result?.key !== key;
+
+  useEffect(() => {
+    let alive = true;
+
+    adminService
+      .getAuditLog({ targetType, targetId, limit })
+      .then((res) => {
+        if (alive) {
+          setResult({
+            key: `${targetType}:${targetId}`,
+            entries: res.data.items,
+            total: res.data.pagination.total,
+          });
+        }
+      })
+      .catch(() => {
+        if (alive) setResult({ key: `${targetType}:${targetId}`, entries: null, total: 0 });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [targetType, targetId, limit]);
+
+  return (
+    <div className={cn("rounded-lg border border-gray-200 bg-gray-50 p-3", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="flex items-center gap-1.5 text-sm font-medium text-gray-700">
+          <History size={14} />
+          Admin history
+        </h4>
+        {!loading && (result?.total ?? 0) > 0 && (
+          <Link
+            href={getAuditHistoryHref(targetType, targetId)}
+            className="text-xs text-blue-600 hover:text-blue-700"
+          >
+            View all {result?.total}
+          </Link>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : !result?.entries ? (
+        <p className="text-xs text-gray-500">Couldn&apos;t load the audit history.</p>
+      ) : result.entries.length === 0 ? (
+        <p className="text-xs text-gray-500">No previous admin actions.</p>
+      ) : (
+        <ul className="space-y-2 max-h-40 overflow-y-auto">
+          {result.entries.map((entry) => (
+            <li key={entry._id} className="text-xs text-gray-600">
+              <p>
+                <span
+                  className={cn(
+                    "font-medium",
+                    DESTRUCTIVE_AUDIT_ACTIONS.includes(entry.action)
+                      ? "text-red-700"
+                      : "text-gray-900"
+                  )}
+                >
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                </span>{" "}
+                by @{entry.actor?.username ?? "unknown"} &middot;{" "}
+                {formatRelativeTime(entry.createdAt)}
+              </p>
+              {getAuditChanges(entry).map((change) => (
+                <p key={change.field} className="text-gray-500">
+                  {change.field}: {change.before} &rarr; {change.after}
+                </p>
+              ))}
+              {entry.reason && <p className="italic text-gray-500">&ldquo;{entry.reason}&rdquo;</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * @file src/components/admin/BulkProgressModal.tsx
+ * @description Progress of a bulk admin operation, then what succeeded and what failed
+ */
+
+"use client";
+
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, CheckCircle, RefreshCw, X } from "lucide-react";
+import type { BulkProgress } from "@/hooks/useBulkOperation";
+
+interface BulkProgressModalProps {
+  progress: BulkProgress | null;
+  onCancel: () => void;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+export default function BulkProgressModal({
+  progress,
+  onCancel,
+  onRetry,
+  onClose,
+}: BulkProgressModalProps) {
+  return (
+    <AnimatePresence>
+      {progress && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="bg-white rounded-2xl max-w-lg w-full p-6 shadow-xl"
+            role="dialog"
+            aria-live="polite"
+          >
+            <ProgressBody progress={progress} />
+
+            <div className="flex justify-end gap-3 mt-6">
+              {progress.running ? (
+                <button
+                  onClick={onCancel}
+                  className="px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Stop after current
+                </button>
+              ) : (
+                <>
+                  {progress.failures.length > 0 && (
+                    <button
+                      onClick={onRetry}
+                      className="px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2 transition-colors"
+                    >
+                      <RefreshCw size={16} />
+                      Retry failed
+                    </button>
+                  )}
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Done
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function ProgressBody({ progress }: { progress: BulkProgress }) {
+  const { title, total, succeeded, failures, skipped, running } = progress;
+  const processed = succeeded + failures.length;
+  const percent = total > 0 ? Math.round((processed / total) * 100) : 100;
+
+  return (
+    <>
+      <div className="flex items-center gap-4 mb-4">
+        <div
+          className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${
+            running
+              ? "bg-blue-100 text-blue-600"
+              : failures.length > 0
+                ? "bg-yellow-100 text-yellow-600"
+                : "bg-green-100 text-green-600"
+          }`}
+        >
+          {running ? (
+            <RefreshCw size={22} className="animate-spin" />
+          ) : failures.length > 0 ? (
+            <AlertTriangle size={24} />
+          ) : (
+            <CheckCircle size={24} />
+          )}
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          <p className="text-sm text-gray-500">
+            {running
+              ? `${processed} of ${total} processed`
+              : `${succeeded} succeeded` +
+                (failures.length > 0 ? `, ${failures.length} failed` : "") +
+                (skipped > 0 ? `, ${skipped} skipped` : "")}
+          </p>
+        </div>
+      </div>
+
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all ${failures.length > 0 ? "bg-yellow-500" : "bg-blue-600"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Failed</h4>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {failures.map((failure) => (
+              <li key={failure.key} className="flex items-start gap-2 px-3 py-2 text-sm">
+                <X size={14} className="text-red-500 mt-0.5 flex-shrink-0" />
+                <span className="font-medium text-gray-900">{failure.label}</span>
+                <span className="text-gray-500">{failure.error}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
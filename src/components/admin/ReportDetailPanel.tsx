@@ -0,0 +1,398 @@
+/**
+ * @file src/components/admin/ReportDetailPanel.tsx
+ * @description Admin panel for every report against one target: the target itself,
+ * who reported it and why, assignment, and resolving with a required note
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  Flag,
+  Trash2,
+  UserCheck,
+  X,
+  XCircle,
+} from "lucide-react";
+import type { AxiosError } from "axios";
+import { adminService } from "@/services/adminService";
+import { getErrorMessage } from "@/services/api";
+import Avatar from "@/components/common/Avatar";
+import AuditHistory from "./AuditHistory";
+import ReportTargetPreview from "./ReportTargetPreview";
+import {
+  MAX_RESOLUTION_NOTE_LENGTH,
+  REPORT_ACTION_LABELS,
+  REPORT_ACTION_SHORTCUTS,
+  REPORT_TARGET_LABELS,
+  getReportReasonLabel,
+  type ReportGroup,
+} from "@/lib/reports";
+import { cn, formatDate, formatRelativeTime, isTypingTarget } from "@/lib/utils";
+import type { AuditTargetType, Report, ReportAction, User } from "@/types";
+
+export type AdminOption = Pick<User, "_id" | "username">;
+
+interface ReportDetailPanelProps {
+  group: ReportGroup | null;
+  // Action picked from a quick button in the list before the panel opened
+  initialAction?: ReportAction | null;
+  admins: AdminOption[];
+  currentAdminId?: string;
+  onClose: () => void;
+  // Receives reports as the API returned them after assigning or resolving
+  onUpdated: (reports: Report[]) => void;
+}
+
+const ACTION_STYLES: Record<ReportAction, { icon: typeof Flag; className: string }> = {
+  DISMISS: { icon: XCircle, className: "bg-gray-100 text-gray-700 hover:bg-gray-200" },
+  WARN: { icon: AlertTriangle, className: "bg-yellow-100 text-yellow-700 hover:bg-yellow-200" },
+  REMOVE: { icon: Trash2, className: "bg-red-100 text-red-700 hover:bg-red-200" },
+  BAN: { icon: Ban, className: "bg-red-600 text-white hover:bg-red-700" },
+};
+
+// The user or job a resolution would act on, whose past admin actions matter
+const getAuditTarget = (
+  report: Report
+): { targetType: AuditTargetType; targetId: string } | null => {
+  if (report.targetType === "JOB") return { targetType: "JOB", targetId: report.targetId };
+  const userId =
+    report.reportedUser?._id ??
+    (report.targetType === "USER" ? report.targetId : report.reportedContent?.author?._id);
+  return userId ? { targetType: "USER", targetId: userId } : null;
+};
+
+export default function ReportDetailPanel(props: ReportDetailPanelProps) {
+  const { group, onClose } = props;
+
+  return (
+    <AnimatePresence>
+      {group && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+          >
+            <PanelBody key={group.key} {...props} group={group} />
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function PanelBody({
+  group,
+  initialAction,
+  admins,
+  currentAdminId,
+  onClose,
+  onUpdated,
+}: ReportDetailPanelProps & { group: ReportGroup }) {
+  // Every report on this target, not just the ones on the current page
+  const [allReports, setAllReports] = useState<Report[] | null>(null);
+  const [action, setAction] = useState<ReportAction | null>(initialAction ?? null);
+  const [note, setNote] = useState("");
+  const [resolving, setResolving] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const noteRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    adminService
+      .getReports({ type: group.targetType, targetId: group.targetId, limit: 100 })
+      .then((res) => {
+        if (alive) setAllReports(res.data.items);
+      })
+      .catch(() => {
+        // The page's own reports are still enough to act on
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [group.targetType, group.targetId]);
+
+  const reports = allReports ?? group.reports;
+  const pending = reports.filter((r) => r.status !== "RESOLVED");
+  const resolved = reports.find((r) => r.status === "RESOLVED" && r.resolution);
+  const primary = reports[0] ?? group.reports[0];
+  const assignee = pending.find((r) => r.assignedTo)?.assignedTo ?? null;
+  const auditTarget = getAuditTarget(primary);
+  const trimmedNote = note.trim();
+  const canResolve = pending.length > 0 && Boolean(action) && Boolean(trimmedNote) && !resolving;
+
+  const applyUpdates = (updated: Report[]) => {
+    const byId = new Map(updated.map((r) => [r._id, r]));
+    setAllReports(reports.map((r) => byId.get(r._id) ?? r));
+    onUpdated(updated);
+  };
+
+  const handleAssign = async (adminId: string | null) => {
+    if (pending.length === 0 || assigning) return;
+    setAssigning(true);
+    try {
+      const res = await adminService.assignReports(
+        pending.map((r) => r._id),
+        adminId
+      );
+      applyUpdates(res.data);
+    } catch {
+      // The API client toasts failures
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!canResolve || !action) return;
+    setResolving(true);
+    setError(null);
+    try {
+      const res = await adminService.resolveReports(
+        pending.map((r) => r._id),
+        action,
+        trimmedNote
+      );
+      applyUpdates(res.data);
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err as AxiosError));
+      setResolving(false);
+    }
+  };
+
+  const pickAction = (next: ReportAction) => {
+    setAction(next);
+    noteRef.current?.focus();
+  };
+
+  // Latest handlers for the document listener, which is bound once
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    keyHandlerRef.current = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+        return;
+      }
+      if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        handleResolve();
+        return;
+      }
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const shortcut = REPORT_ACTION_SHORTCUTS[e.key.toLowerCase()];
+      if (shortcut && pending.length > 0) {
+        e.preventDefault();
+        pickAction(shortcut);
+      } else if (e.key.toLowerCase() === "a" && currentAdminId) {
+        e.preventDefault();
+        handleAssign(currentAdminId);
+      }
+    };
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  return (
+    <>
+      {/* Header */}
+      <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            Reported {REPORT_TARGET_LABELS[group.targetType]}
+          </h2>
+          <p className="text-sm text-gray-500">
+            {reports.length} {reports.length === 1 ? "report" : "reports"}
+            {pending.length > 0 && <> &middot; {pending.length} open</>}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+          title="Close (Esc)"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <section>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">Reported content</h3>
+          <ReportTargetPreview report={primary} />
+        </section>
+
+        {/* Assignment */}
+        {pending.length > 0 && (
+          <section className="flex flex-wrap items-center gap-3">
+            <h3 className="text-sm font-medium text-gray-500">Assigned to</h3>
+            <select
+              value={assignee?._id ?? ""}
+              onChange={(e) => handleAssign(e.target.value || null)}
+              disabled={assigning}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            >
+              <option value="">Unassigned</option>
+              {admins.map((admin) => (
+                <option key={admin._id} value={admin._id}>
+                  @{admin.username}
+                  {admin._id === currentAdminId ? " (me)" : ""}
+                </option>
+              ))}
+              {/* Assignee no longer in the admin list */}
+              {assignee && !admins.some((a) => a._id === assignee._id) && (
+                <option value={assignee._id}>@{assignee.username}</option>
+              )}
+            </select>
+            {currentAdminId && assignee?._id !== currentAdminId && (
+              <button
+                onClick={() => handleAssign(currentAdminId)}
+                disabled={assigning}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                <UserCheck size={14} />
+                Assign to me
+              </button>
+            )}
+          </section>
+        )}
+
+        {/* Individual reports */}
+        <section>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">Reports</h3>
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+            {reports.map((report) => (
+              <li key={report._id} className="flex items-start gap-3 p-3">
+                <Avatar
+                  src={report.reporter?.avatar}
+                  name={report.reporter?.username ?? "?"}
+                  size="sm"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      @{report.reporter?.username ?? "Unknown"}
+                    </span>{" "}
+                    &middot; {getReportReasonLabel(report.reason)}
+                  </p>
+                  {report.description && (
+                    <p className="text-sm text-gray-600 whitespace-pre-wrap">
+                      {report.description}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {formatRelativeTime(report.createdAt)}
+                    {report.status === "RESOLVED" && report.action && (
+                      <> &middot; {REPORT_ACTION_LABELS[report.action]}</>
+                    )}
+                  </p>
+                </div>
+                {report.status === "RESOLVED" && (
+                  <CheckCircle size={16} className="text-green-500 shrink-0" />
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {/* Earlier resolution */}
+        {resolved && (
+          <section className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm">
+            <p className="text-green-800">
+              {resolved.action && REPORT_ACTION_LABELS[resolved.action]} by @
+              {resolved.resolvedBy?.username ?? "unknown"}
+              {resolved.resolvedAt && <> on {formatDate(resolved.resolvedAt)}</>}
+            </p>
+            <p className="mt-1 text-gray-700 whitespace-pre-wrap">{resolved.resolution}</p>
+          </section>
+        )}
+
+        {/* Past admin actions on the reported user or job */}
+        {auditTarget && (
+          <AuditHistory targetType={auditTarget.targetType} targetId={auditTarget.targetId} />
+        )}
+      </div>
+
+      {/* Resolve */}
+      {pending.length > 0 && (
+        <div className="border-t border-gray-200 bg-gray-50 px-6 py-4 rounded-b-xl space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ACTION_STYLES) as ReportAction[]).map((key) => {
+              const { icon: Icon, className } = ACTION_STYLES[key];
+              const shortcut = Object.keys(REPORT_ACTION_SHORTCUTS).find(
+                (k) => REPORT_ACTION_SHORTCUTS[k] === key
+              );
+              return (
+                <button
+                  key={key}
+                  onClick={() => pickAction(key)}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors",
+                    className,
+                    action === key && "ring-2 ring-offset-1 ring-blue-500"
+                  )}
+                >
+                  <Icon size={16} />
+                  {REPORT_ACTION_LABELS[key]}
+                  {shortcut && (
+                    <kbd className="ml-1 rounded border border-current/30 px-1 text-[10px] opacity-70">
+                      {shortcut}
+                    </kbd>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div>
+            <textarea
+              ref={noteRef}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              maxLength={MAX_RESOLUTION_NOTE_LENGTH}
+              placeholder="Resolution note (required) - what you found and why you chose this action"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+            {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-500">
+              Applies to {pending.length} open {pending.length === 1 ? "report" : "reports"}
+              {" "}&middot; Ctrl+Enter to resolve
+            </p>
+            <button
+              onClick={handleResolve}
+              disabled={!canResolve}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {resolving ? "Resolving..." : action ? REPORT_ACTION_LABELS[action] : "Pick an action"}
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
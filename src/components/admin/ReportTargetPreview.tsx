@@ -0,0 +1,270 @@
+/**
+ * @file src/components/admin/ReportTargetPreview.tsx
+ * @description The reported post, comment thread, user profile or job, rendered inline
+ * in the admin report panel
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Briefcase, ExternalLink, MapPin, MessageSquare } from "lucide-react";
+import { adminService } from "@/services/adminService";
+import Avatar from "@/components/common/Avatar";
+import LoadingSpinner from "@/components/common/Loading";
+import { cn, formatNumber, formatRelativeTime } from "@/lib/utils";
+import type { Comment, Post, Report, ReportTargetPreview as Preview } from "@/types";
+
+interface ReportTargetPreviewProps {
+  // Any report in the group; the target is the same for all of them
+  report: Report;
+}
+
+interface PreviewResult {
+  key: string;
+  preview: Preview | null;
+}
+
+export default function ReportTargetPreview({ report }: ReportTargetPreviewProps) {
+  const [result, setResult] = useState<PreviewResult | null>(null);
+  const loading = result?.key !== report._id;
+
+  useEffect(() => {
+    let alive = true;
+
+    adminService
+      .getReportTarget(report._id)
+      .then((res) => {
+        if (alive) setResult({ key: report._id, preview: res.data });
+      })
+      .catch(() => {
+        if (alive) setResult({ key: report._id, preview: null });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [report._id]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  const preview = result?.preview;
+  if (!preview) return <SnapshotFallback report={report} />;
+
+  switch (preview.targetType) {
+    case "POST":
+      return preview.post ? <PostCard post={preview.post} highlighted /> : <Removed what="post" />;
+
+    case "COMMENT":
+      if (!preview.comment) return <Removed what="comment" />;
+      return (
+        <div className="space-y-2">
+          {preview.post ? (
+            <PostCard post={preview.post} compact />
+          ) : (
+            <p className="text-xs text-gray-500">The post this comment was on has been deleted.</p>
+          )}
+          <ul className="ml-4 space-y-2 border-l-2 border-gray-200 pl-3">
+            {(preview.thread.length > 0 ? preview.thread : [preview.comment]).map((c) => (
+              <CommentRow key={c._id} comment={c} highlighted={c._id === preview.comment?._id} />
+            ))}
+          </ul>
+        </div>
+      );
+
+    case "USER": {
+      const { user, profile, stats } = preview;
+      if (!user) return <Removed what="account" />;
+      const location = [profile?.location?.city, profile?.location?.country]
+        .filter(Boolean)
+        .join(", ");
+      return (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+          <div className="flex items-start gap-3">
+            <Avatar src={user.avatar} name={user.username} />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <Link
+                  href={`/profile/${encodeURIComponent(user.username)}`}
+                  target="_blank"
+                  className="font-medium text-gray-900 hover:text-blue-600"
+                >
+                  @{user.username}
+                </Link>
+                <span className="text-xs text-gray-500">{user.role}</span>
+                {user.status === "BANNED" && (
+                  <span className="rounded bg-red-100 px-1.5 text-xs text-red-700">Banned</span>
+                )}
+              </div>
+              {(profile?.headline || profile?.positionTitle) && (
+                <p className="text-sm text-gray-700">
+                  {profile.headline || `${profile.positionTitle} at ${profile.companyName}`}
+                </p>
+              )}
+              {location && (
+                <p className="mt-0.5 flex items-center gap-1 text-xs text-gray-500">
+                  <MapPin size={12} />
+                  {location}
+                </p>
+              )}
+              {(profile?.bio || profile?.companyDescription) && (
+                <p className="mt-2 whitespace-pre-wrap text-sm text-gray-700 line-clamp-4">
+                  {profile.bio || profile.companyDescription}
+                </p>
+              )}
+              <p className="mt-2 text-xs text-gray-500">
+                Joined {formatRelativeTime(user.createdAt)}
+                {stats && (
+                  <>
+                    {" "}
+                    &middot; {formatNumber(stats.posts)} posts &middot;{" "}
+                    {formatNumber(stats.followers)} followers
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    case "JOB": {
+      const { job } = preview;
+      if (!job) return <Removed what="job" />;
+      return (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-medium text-gray-900">{job.title}</p>
+              <p className="flex items-center gap-1 text-sm text-gray-600">
+                <Briefcase size={14} />
+                {job.companyName} &middot; {job.workType}
+                {!job.isActive && <span className="text-xs text-gray-500">(inactive)</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                Posted by @{job.recruiter?.username ?? "unknown"}{" "}
+                {formatRelativeTime(job.createdAt)}
+              </p>
+            </div>
+            <Link
+              href={`/jobs/${job._id}`}
+              target="_blank"
+              className="p-1 text-gray-400 hover:text-blue-600"
+              title="Open job"
+            >
+              <ExternalLink size={16} />
+            </Link>
+          </div>
+          <p className="mt-3 max-h-48 overflow-y-auto whitespace-pre-wrap text-sm text-gray-700">
+            {job.description}
+          </p>
+        </div>
+      );
+    }
+  }
+}
+
+function PostCard({
+  post,
+  highlighted,
+  compact,
+}: {
+  post: Post;
+  highlighted?: boolean;
+  compact?: boolean;
+}) {
+  return (
+    <div
+      className={cn(
+        "rounded-lg border p-4",
+        highlighted ? "border-red-200 bg-red-50" : "border-gray-200 bg-gray-50"
+      )}
+    >
+      <div className="mb-2 flex items-center gap-2">
+        <Avatar src={post.author?.avatar} name={post.author?.username ?? "?"} size="xs" />
+        <span className="text-sm font-medium text-gray-900">
+          @{post.author?.username ?? "unknown"}
+        </span>
+        <span className="text-xs text-gray-500">{formatRelativeTime(post.createdAt)}</span>
+      </div>
+      <p className={cn("whitespace-pre-wrap text-sm text-gray-800", compact && "line-clamp-3")}>
+        {post.content}
+      </p>
+      {post.repo && (
+        <p className="mt-2 text-xs text-gray-500">Shared repo: {post.repo.fullName}</p>
+      )}
+      {post.jobPost && (
+        <p className="mt-2 text-xs text-gray-500">Shared job: {post.jobPost.title}</p>
+      )}
+      {!compact && (
+        <p className="mt-2 flex items-center gap-3 text-xs text-gray-500">
+          <span>{formatNumber(post.likesCount)} likes</span>
+          <span className="flex items-center gap-1">
+            <MessageSquare size={12} />
+            {formatNumber(post.commentsCount)}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function CommentRow({ comment, highlighted }: { comment: Comment; highlighted: boolean }) {
+  return (
+    <li
+      className={cn(
+        "rounded-lg p-2 text-sm",
+        highlighted ? "border border-red-200 bg-red-50" : "text-gray-600"
+      )}
+    >
+      <p className="text-xs text-gray-500">
+        <span className="font-medium text-gray-900">
+          @{comment.author?.username ?? "unknown"}
+        </span>{" "}
+        &middot; {formatRelativeTime(comment.createdAt)}
+        {highlighted && <span className="ml-2 text-red-600">Reported</span>}
+      </p>
+      <p className="whitespace-pre-wrap text-gray-800">{comment.content}</p>
+    </li>
+  );
+}
+
+function Removed({ what }: { what: string }) {
+  return (
+    <p className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-500">
+      This {what} has been deleted.
+    </p>
+  );
+}
+
+// What the report captured when it was filed, if the live target can't be loaded
+function SnapshotFallback({ report }: { report: Report }) {
+  const content = report.reportedContent;
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <p className="mb-1 text-xs text-gray-500">
+        Couldn&apos;t load the current version; showing what was reported.
+      </p>
+      {content ? (
+        <>
+          <p className="text-sm text-gray-800">
+            {content.content ?? content.title ?? (content.username && `@${content.username}`)}
+          </p>
+          {content.author && (
+            <p className="mt-1 text-xs text-gray-500">By @{content.author.username}</p>
+          )}
+        </>
+      ) : report.reportedUser ? (
+        <p className="text-sm text-gray-800">@{report.reportedUser.username}</p>
+      ) : (
+        <p className="text-sm text-gray-500">No snapshot was saved with this report.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * @file src/components/admin/SkillImportModal.tsx
+ * @description Pick a skills CSV, validate it against existing skills and preview
+ * what would be created or changed before anything is saved
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, FileUp, Upload, X } from "lucide-react";
+import type { AxiosError } from "axios";
+import { adminService } from "@/services/adminService";
+import { getErrorMessage } from "@/services/api";
+import LoadingSpinner from "@/components/common/Loading";
+import { parseCsv } from "@/lib/csv";
+import {
+  planSkillImport,
+  type SkillImportKind,
+  type SkillImportPlan,
+  type SkillImportRow,
+} from "@/lib/skillImport";
+
+interface SkillImportModalProps {
+  open: boolean;
+  onClose: () => void;
+  // Receives the create and update rows once the admin confirms
+  onImport: (rows: SkillImportRow[]) => void;
+}
+
+const KIND_STYLES: Record<SkillImportKind, { label: string; className: string }> = {
+  create: { label: "New", className: "bg-green-100 text-green-800" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-800" },
+  unchanged: { label: "No change", className: "bg-gray-100 text-gray-600" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-800" },
+};
+
+export default function SkillImportModal({ open, onClose, onImport }: SkillImportModalProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<SkillImportPlan | null>(null);
+  const [reading, setReading] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const reset = () => {
+    setFileName("");
+    setPlan(null);
+    setShowUnchanged(false);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setPlan(null);
+    setReading(true);
+    try {
+      // Compare against every skill, not just the filtered list on the page
+      const [text, existing] = await Promise.all([file.text(), adminService.getAllSkills()]);
+      setPlan(planSkillImport(parseCsv(text), existing));
+    } catch (err) {
+      setPlan({ rows: [], error: getErrorMessage(err as AxiosError) });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const rows = plan?.rows ?? [];
+  const count = (kind: SkillImportKind) => rows.filter((row) => row.kind === kind).length;
+  const actionable = rows.filter((row) => row.kind === "create" || row.kind === "update");
+  const visible = showUnchanged ? rows : rows.filter((row) => row.kind !== "unchanged");
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          onClick={close}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col shadow-xl"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Import Skills</h2>
+                <p className="text-sm text-gray-500">
+                  CSV with name and category columns; slug, icon and active are optional
+                </p>
+              </div>
+              <button
+                onClick={close}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                aria-label="Close"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              <label className="flex items-center gap-3 p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50/40 transition-colors">
+                <FileUp className="text-gray-400" size={24} />
+                <span className="text-sm text-gray-600">
+                  {fileName || "Choose a .csv file (an export from this page works as a template)"}
+                </span>
+                <input
+                  ref={inputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="sr-only"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </label>
+
+              {reading && (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner size="md" />
+                </div>
+              )}
+
+              {plan?.error && (
+                <div className="mt-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <AlertTriangle size={16} />
+                  {plan.error}
+                </div>
+              )}
+
+              {rows.length > 0 && (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 mt-4 mb-3 text-sm">
+                    {(["create", "update", "unchanged", "invalid"] as const).map((kind) => (
+                      <span
+                        key={kind}
+                        className={`px-2.5 py-1 rounded-full font-medium ${KIND_STYLES[kind].className}`}
+                      >
+                        {count(kind)} {KIND_STYLES[kind].label.toLowerCase()}
+                      </span>
+                    ))}
+                    {count("unchanged") > 0 && (
+                      <label className="ml-auto flex items-center gap-2 text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={showUnchanged}
+                          onChange={(e) => setShowUnchanged(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Show unchanged
+                      </label>
+                    )}
+                  </div>
+
+                  <div className="border border-gray-200 rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">
+                            Line
+                          </th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">
+                            Skill
+                          </th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">
+                            Result
+                          </th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">
+                            Details
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {visible.map((row) => (
+                          <tr key={row.line} className="align-top">
+                            <td className="px-3 py-2 text-gray-400 tabular-nums">{row.line}</td>
+                            <td className="px-3 py-2 font-medium text-gray-900">
+                              {row.name || <span className="text-gray-400">(no name)</span>}
+                            </td>
+                            <td className="px-3 py-2">
+                              <span
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[row.kind].className}`}
+                              >
+                                {KIND_STYLES[row.kind].label}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2 text-gray-600">
+                              {row.kind === "invalid" &&
+                                row.errors.map((error) => (
+                                  <p key={error} className="text-red-600">
+                                    {error}
+                                  </p>
+                                ))}
+                              {row.kind === "create" && row.data && (
+                                <p>
+                                  {row.data.category}
+                                  {row.data.isActive === false && " · inactive"}
+                                </p>
+                              )}
+                              {row.changes.map((change) => (
+                                <p key={change.field}>
+                                  {change.field}:{" "}
+                                  <span className="text-red-600 line-through">{change.before}</span>{" "}
+                                  &rarr; <span className="text-green-700">{change.after}</span>
+                                </p>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-gray-200">
+              <p className="text-sm text-gray-500">
+                {count("invalid") > 0 &&
+                  `${count("invalid")} invalid row${count("invalid") === 1 ? "" : "s"} will be skipped`}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={close}
+                  className="px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    onImport(actionable);
+                    reset();
+                  }}
+                  disabled={actionable.length === 0}
+                  className="px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2 transition-colors"
+                >
+                  <Upload size={18} />
+                  {actionable.length > 0
+                    ? `Import ${actionable.length} change${actionable.length === 1 ? "" : "s"}`
+                    : "Nothing to import"}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,268 @@
+/**
+ * @file src/components/admin/SkillMergeModal.tsx
+ * @description Merge a duplicate skill into another: pick the skill to keep, preview
+ * how many profiles and jobs move over, then confirm
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, ArrowRight, GitMerge, X } from "lucide-react";
+import type { AxiosError } from "axios";
+import { adminService } from "@/services/adminService";
+import { getErrorMessage } from "@/services/api";
+import LoadingSpinner from "@/components/common/Loading";
+import { getDescendantIds, getLikelyDuplicates } from "@/lib/skillTaxonomy";
+import type { Skill, SkillMergePreview } from "@/types";
+
+interface SkillMergeModalProps {
+  // The duplicate that goes away
+  source: Skill | null;
+  onClose: () => void;
+  // Receives the skill that was kept, with its new usage count and aliases
+  onMerged: (target: Skill) => void;
+}
+
+interface PreviewResult {
+  key: string;
+  preview: SkillMergePreview | null;
+  error: string | null;
+}
+
+export default function SkillMergeModal({ source, onClose, onMerged }: SkillMergeModalProps) {
+  return (
+    <AnimatePresence>
+      {source && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] flex flex-col shadow-xl"
+          >
+            <MergeForm key={source._id} source={source} onClose={onClose} onMerged={onMerged} />
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function MergeForm({ source, onClose, onMerged }: SkillMergeModalProps & { source: Skill }) {
+  const [allSkills, setAllSkills] = useState<Skill[] | null>(null);
+  const [targetId, setTargetId] = useState("");
+  const [result, setResult] = useState<PreviewResult | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+
+  const previewLoading = Boolean(targetId) && result?.key !== targetId;
+  const preview = result?.key === targetId ? result.preview : null;
+
+  useEffect(() => {
+    let alive = true;
+
+    adminService
+      .getAllSkills()
+      .then((skills) => {
+        if (alive) setAllSkills(skills);
+      })
+      .catch(() => {
+        if (alive) setAllSkills([]);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!targetId) return;
+    let alive = true;
+
+    adminService
+      .previewSkillMerge(source._id, targetId)
+      .then((res) => {
+        if (alive) setResult({ key: targetId, preview: res.data, error: null });
+      })
+      .catch((err) => {
+        if (alive) {
+          setResult({ key: targetId, preview: null, error: getErrorMessage(err as AxiosError) });
+        }
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [source._id, targetId]);
+
+  // Merging into a sub-skill would leave that sub-skill as its own parent
+  const descendants = allSkills ? getDescendantIds(source._id, allSkills) : new Set<string>();
+  const targets = (allSkills ?? [])
+    .filter((skill) => skill._id !== source._id && !descendants.has(skill._id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const suggested = getLikelyDuplicates(source, targets);
+  const others = targets.filter((skill) => !suggested.includes(skill));
+
+  const handleMerge = async () => {
+    setMerging(true);
+    setMergeError(null);
+    try {
+      const res = await adminService.mergeSkills(source._id, targetId);
+      onMerged(res.data);
+    } catch (err) {
+      setMergeError(getErrorMessage(err as AxiosError));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center">
+            <GitMerge className="text-red-600" size={20} />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Merge {source.name}</h2>
+            <p className="text-sm text-gray-500">
+              Used by {source.usageCount || 0} profiles and jobs
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+        <div>
+          <label htmlFor="merge-target" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Merge into
+          </label>
+          <select
+            id="merge-target"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            disabled={!allSkills}
+            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+          >
+            <option value="">{allSkills ? "Choose the skill to keep" : "Loading skills..."}</option>
+            {suggested.length > 0 && (
+              <optgroup label="Likely duplicates">
+                {suggested.map((skill) => (
+                  <option key={skill._id} value={skill._id}>
+                    {skill.name} ({skill.usageCount || 0})
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label={suggested.length > 0 ? "All skills" : "Skills"}>
+              {others.map((skill) => (
+                <option key={skill._id} value={skill._id}>
+                  {skill.name} ({skill.usageCount || 0})
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        </div>
+
+        {previewLoading && (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="md" />
+          </div>
+        )}
+
+        {result?.key === targetId && result.error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertTriangle size={16} />
+            {result.error}
+          </div>
+        )}
+
+        {preview && (
+          <div className="rounded-lg border border-gray-200 divide-y divide-gray-100 text-sm">
+            <div className="flex items-center justify-center gap-3 px-4 py-3 bg-gray-50">
+              <span className="font-medium text-gray-500 line-through">{preview.source.name}</span>
+              <ArrowRight size={16} className="text-gray-400" />
+              <span className="font-semibold text-gray-900">{preview.target.name}</span>
+            </div>
+            <PreviewLine label="Developer profiles moved" value={preview.profiles.toLocaleString()} />
+            <PreviewLine label="Job posts moved" value={preview.jobs.toLocaleString()} />
+            <PreviewLine
+              label={`${preview.target.name} usage`}
+              value={`${(preview.target.usageCount || 0).toLocaleString()} → ${preview.usageCountAfter.toLocaleString()}`}
+            />
+            {preview.children > 0 && (
+              <PreviewLine
+                label="Sub-skills moved under it"
+                value={preview.children.toLocaleString()}
+              />
+            )}
+            {preview.aliasesAdded.length > 0 && (
+              <div className="px-4 py-2.5">
+                <p className="text-gray-600 mb-1.5">New aliases for {preview.target.name}</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {preview.aliasesAdded.map((alias) => (
+                    <span key={alias} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                      {alias}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {preview && (
+          <p className="text-sm text-gray-500">
+            {preview.source.name} is deleted after the merge. This cannot be undone.
+          </p>
+        )}
+
+        {mergeError && <p className="text-sm text-red-600">{mergeError}</p>}
+      </div>
+
+      {/* Footer */}
+      <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+        <button
+          onClick={onClose}
+          className="px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleMerge}
+          disabled={!preview || merging}
+          className="px-4 py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 flex items-center gap-2 transition-colors"
+        >
+          {merging ? <LoadingSpinner size="sm" /> : <GitMerge size={18} />}
+          {preview ? `Merge into ${preview.target.name}` : "Merge"}
+        </button>
+      </div>
+    </>
+  );
+}
+
+function PreviewLine({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between px-4 py-2.5">
+      <span className="text-gray-600">{label}</span>
+      <span className="font-medium text-gray-900 tabular-nums">{value}</span>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * @file src/components/admin/SkillTaxonomyModal.tsx
+ * @description Edit a skill's aliases and parent, checking that no alias already
+ * points to another skill and that the parent doesn't create a cycle
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, ChevronRight, Save, Tags, X } from "lucide-react";
+import type { AxiosError } from "axios";
+import { adminService } from "@/services/adminService";
+import { getErrorMessage } from "@/services/api";
+import LoadingSpinner from "@/components/common/Loading";
+import {
+  getAliasConflicts,
+  getChildSkills,
+  getParentOptions,
+  getSkillPath,
+  parseAliasInput,
+} from "@/lib/skillTaxonomy";
+import type { Skill } from "@/types";
+
+interface SkillTaxonomyModalProps {
+  skill: Skill | null;
+  onClose: () => void;
+  onSaved: (skill: Skill) => void;
+}
+
+export default function SkillTaxonomyModal({ skill, onClose, onSaved }: SkillTaxonomyModalProps) {
+  return (
+    <AnimatePresence>
+      {skill && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] flex flex-col shadow-xl"
+          >
+            {/* Keyed so the form starts from each skill's saved values */}
+            <TaxonomyForm key={skill._id} skill={skill} onClose={onClose} onSaved={onSaved} />
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function TaxonomyForm({ skill, onClose, onSaved }: SkillTaxonomyModalProps & { skill: Skill }) {
+  const [allSkills, setAllSkills] = useState<Skill[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [aliasInput, setAliasInput] = useState((skill.aliases ?? []).join(", "));
+  const [parent, setParent] = useState(skill.parent ?? "");
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Conflicts and cycles have to be checked against every skill, not the filtered page
+  useEffect(() => {
+    let alive = true;
+
+    adminService
+      .getAllSkills()
+      .then((skills) => {
+        if (alive) setAllSkills(skills);
+      })
+      .catch((err) => {
+        if (alive) setLoadError(getErrorMessage(err as AxiosError));
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const aliases = parseAliasInput(aliasInput);
+  const conflicts = allSkills ? getAliasConflicts(aliases, skill, allSkills) : [];
+  const parentOptions = allSkills ? getParentOptions(skill, allSkills) : [];
+  const children = allSkills ? getChildSkills(skill._id, allSkills) : [];
+  const parentSkill = allSkills?.find((other) => other._id === parent);
+  const path = parentSkill && allSkills ? [...getSkillPath(parentSkill, allSkills), skill] : [];
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const res = await adminService.updateSkillTaxonomy(skill._id, {
+        aliases,
+        parent: parent || null,
+      });
+      onSaved(res.data);
+    } catch (err) {
+      setSaveError(getErrorMessage(err as AxiosError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+            <Tags className="text-blue-600" size={20} />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{skill.name}</h2>
+            <p className="text-sm text-gray-500">Aliases and parent skill</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+        {loadError && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertTriangle size={16} />
+            {loadError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="skill-aliases" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Aliases
+          </label>
+          <input
+            id="skill-aliases"
+            type="text"
+            value={aliasInput}
+            onChange={(e) => setAliasInput(e.target.value)}
+            placeholder="e.g., ReactJS, React.js"
+            className={`w-full px-4 py-2.5 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              conflicts.length > 0 ? "border-red-300" : "border-gray-300"
+            }`}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Comma separated. Searching for an alias finds {skill.name}.
+          </p>
+          {aliases.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {aliases.map((alias) => (
+                <span key={alias} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                  {alias}
+                </span>
+              ))}
+            </div>
+          )}
+          {conflicts.map((conflict) => (
+            <p key={conflict} className="mt-1 text-sm text-red-600">
+              {conflict}
+            </p>
+          ))}
+        </div>
+
+        <div>
+          <label htmlFor="skill-parent" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Parent skill
+          </label>
+          <select
+            id="skill-parent"
+            value={parent}
+            onChange={(e) => setParent(e.target.value)}
+            disabled={!allSkills}
+            className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+          >
+            <option value="">None (top level)</option>
+            {parentOptions.map((option) => (
+              <option key={option._id} value={option._id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+          {path.length > 0 && (
+            <p className="flex flex-wrap items-center gap-1 mt-2 text-xs text-gray-500">
+              {path.map((step, index) => (
+                <span key={step._id} className="flex items-center gap-1">
+                  {index > 0 && <ChevronRight size={12} />}
+                  <span className={step._id === skill._id ? "font-medium text-gray-900" : ""}>
+                    {step.name}
+                  </span>
+                </span>
+              ))}
+            </p>
+          )}
+        </div>
+
+        {children.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1.5">Sub-skills</h3>
+            <div className="flex flex-wrap gap-1.5">
+              {children.map((child) => (
+                <span key={child._id} className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded text-xs">
+                  {child.name}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!allSkills && !loadError && (
+          <div className="flex justify-center py-2">
+            <LoadingSpinner size="sm" />
+          </div>
+        )}
+
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+      </div>
+
+      {/* Footer */}
+      <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+        <button
+          onClick={onClose}
+          className="px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !allSkills || conflicts.length > 0}
+          className="px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2 transition-colors"
+        >
+          {saving ? <LoadingSpinner size="sm" /> : <Save size={18} />}
+          Save
+        </button>
+      </div>
+    </>
+  );
+}
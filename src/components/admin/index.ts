@@ -4,5 +4,10 @@
  */
 
 // Admin pages are auto-routed by Next.js from src/pages/admin/
-// No exports needed here
-export {};
\ No newline at end of file
+export { default as AuditHistory } from "./AuditHistory";
+export { default as BulkProgressModal } from "./BulkProgressModal";
+export { default as ReportDetailPanel } from "./ReportDetailPanel";
+export { default as ReportTargetPreview } from "./ReportTargetPreview";
+export { default as SkillImportModal } from "./SkillImportModal";
+export { default as SkillMergeModal } from "./SkillMergeModal";
+export { default as SkillTaxonomyModal } from "./SkillTaxonomyModal";
@@ -0,0 +1,394 @@
+/**
+ * @file src/components/applications/ApplicationDrawer.tsx
+ * @description Slide-over with an applicant's profile, cover letter, resume,
+ * interview, status controls and the private notes timeline
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  FiBriefcase,
+  FiCalendar,
+  FiExternalLink,
+  FiFileText,
+  FiGithub,
+  FiMail,
+  FiMapPin,
+  FiMessageSquare,
+  FiUser,
+  FiX,
+} from "react-icons/fi";
+import toast from "react-hot-toast";
+import { applicationService } from "@/services";
+import { Badge, Button, Input, Loading, SkillBadge } from "@/components/common";
+import { InterviewCard } from "@/components/interviews";
+import type {
+  Application,
+  ApplicationStatus,
+  HiringStage,
+  Interview,
+  ScreeningQuestion,
+} from "@/types";
+import { getStageConfig } from "./applicationStatusConfig";
+import ApplicationTimeline from "./ApplicationTimeline";
+import ScreeningAnswers from "./ScreeningAnswers";
+
+interface ApplicationDrawerProps {
+  // Board copy of the application; its status stays authoritative while open
+  application: Application | null;
+  stages: HiringStage[];
+  screeningQuestions?: ScreeningQuestion[];
+  currentUserId?: string;
+  onClose: () => void;
+  onMove: (status: ApplicationStatus, note?: string) => Promise<boolean>;
+  interview?: Interview;
+  // Opens the slot form (new interview, or new times for the current one)
+  onScheduleInterview: () => void;
+  onInterviewUpdated: (interview: Interview) => void;
+}
+
+type DrawerPanelProps = Omit<ApplicationDrawerProps, "application"> & {
+  application: Application;
+};
+
+// Keyed by application id so each applicant starts with fresh state
+function DrawerPanel({
+  application,
+  stages,
+  screeningQuestions = [],
+  currentUserId,
+  onClose,
+  onMove,
+  interview,
+  onScheduleInterview,
+  onInterviewUpdated,
+}: DrawerPanelProps) {
+  const [detail, setDetail] = useState<Application | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [nextStatus, setNextStatus] = useState<ApplicationStatus | "">("");
+  const [statusNote, setStatusNote] = useState("");
+  const [moving, setMoving] = useState(false);
+
+  const applicationId = application._id;
+
+  // Load the full record (notes and history are only on the detail endpoint)
+  useEffect(() => {
+    let cancelled = false;
+
+    applicationService
+      .getApplication(applicationId)
+      .then((res) => {
+        if (!cancelled) setDetail(res.data);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setFailed(true);
+        toast.error("Failed to load application details");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId]);
+
+  // Close on Escape
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [applicationId, onClose]);
+
+  const current = detail ? { ...detail, status: application.status } : application;
+
+  const handleMove = async () => {
+    if (!nextStatus) return;
+    setMoving(true);
+    const ok = await onMove(nextStatus, statusNote.trim() || undefined);
+    setMoving(false);
+    if (!ok) return;
+
+    setNextStatus("");
+    setStatusNote("");
+    applicationService
+      .getApplication(applicationId)
+      .then((res) => setDetail(res.data))
+      .catch(() => {});
+  };
+
+  // Note mutations return the updated application; the API client toasts failures
+  const runNoteAction = async (action: () => Promise<{ data: Application }>) => {
+    try {
+      const res = await action();
+      setDetail(res.data);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const addNote = (content: string) =>
+    runNoteAction(() => applicationService.addNote(applicationId, content));
+
+  const editNote = (noteId: string, content: string) =>
+    runNoteAction(() => applicationService.updateNote(applicationId, noteId, content));
+
+  const deleteNote = (noteId: string) => {
+    if (!window.confirm("Delete this note?")) return;
+    runNoteAction(() => applicationService.deleteNote(applicationId, noteId));
+  };
+
+  const profile = current.developerProfile;
+  const statusConfig = getStageConfig(stages, current.status);
+  const StatusIcon = statusConfig.icon;
+  const canSchedule = statusConfig.kind === "OPEN";
+  const moveOptions = stages.filter(
+    (stage) => stage.kind !== "WITHDRAWN" && stage.key !== current.status
+  );
+
+  return (
+    <motion.aside
+      initial={{ x: "100%" }}
+      animate={{ x: 0 }}
+      exit={{ x: "100%" }}
+      transition={{ type: "spring", damping: 28 }}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Application from ${current.applicant?.username ?? "applicant"}`}
+      className="fixed right-0 top-0 bottom-0 z-50 flex w-full max-w-xl flex-col bg-white shadow-xl"
+    >
+      {/* Header */}
+      <div className="flex items-start gap-3 border-b border-gray-200 p-5">
+        <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded-full bg-gray-200 flex items-center justify-center">
+          {current.applicant?.avatar ? (
+            <img
+              src={current.applicant.avatar}
+              alt={current.applicant.username}
+              className="h-12 w-12 object-cover"
+            />
+          ) : (
+            <FiUser className="h-5 w-5 text-gray-500" />
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          <h2 className="truncate text-lg font-semibold text-gray-900">
+            {current.applicant?.username ?? "Unknown applicant"}
+          </h2>
+          <p className="truncate text-sm text-gray-500">
+            {profile?.headline || "Developer"}
+          </p>
+          <Badge variant={statusConfig.variant} className="mt-2">
+            <StatusIcon className="mr-1 h-3 w-3" />
+            {statusConfig.label}
+          </Badge>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close"
+        >
+          <FiX className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-6 overflow-y-auto p-5">
+        {/* Profile */}
+        <section className="space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-600">
+            {current.applicant?.email && (
+              <a
+                href={`mailto:${current.applicant.email}`}
+                className="flex items-center gap-1.5 hover:text-blue-600"
+              >
+                <FiMail className="h-4 w-4" />
+                {current.applicant.email}
+              </a>
+            )}
+            {profile?.githubUsername && (
+              <a
+                href={`https://github.com/${profile.githubUsername}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1.5 hover:text-blue-600"
+              >
+                <FiGithub className="h-4 w-4" />
+                {profile.githubUsername}
+              </a>
+            )}
+            {profile && (
+              <span className="flex items-center gap-1.5">
+                <FiBriefcase className="h-4 w-4" />
+                {profile.yearsOfExperience} yrs experience
+              </span>
+            )}
+            {profile?.location?.city && (
+              <span className="flex items-center gap-1.5">
+                <FiMapPin className="h-4 w-4" />
+                {[profile.location.city, profile.location.country].filter(Boolean).join(", ")}
+              </span>
+            )}
+          </div>
+
+          {profile?.bio && <p className="text-sm text-gray-700">{profile.bio}</p>}
+
+          {profile?.skills && profile.skills.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {profile.skills.map((skill) => (
+                <SkillBadge key={skill}>{skill}</SkillBadge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {current.applicant?.username && (
+              <>
+                <Link href={`/profile/${encodeURIComponent(current.applicant.username)}`}>
+                  <Button variant="outline" size="sm" leftIcon={<FiExternalLink />}>
+                    View Profile
+                  </Button>
+                </Link>
+                <Link href={`/messages?to=${encodeURIComponent(current.applicant.username)}`}>
+                  <Button variant="outline" size="sm" leftIcon={<FiMessageSquare />}>
+                    Message
+                  </Button>
+                </Link>
+              </>
+            )}
+            {(current.resume?.url || current.resumeUrl) && (
+              <a
+                href={current.resume?.url || current.resumeUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={current.resume?.fileName}
+              >
+                <Button variant="outline" size="sm" leftIcon={<FiFileText />}>
+                  Resume
+                </Button>
+              </a>
+            )}
+          </div>
+        </section>
+
+        {/* Cover letter */}
+        <section>
+          <h3 className="mb-2 text-sm font-semibold text-gray-900">Cover Letter</h3>
+          {current.coverLetter ? (
+            <p className="whitespace-pre-line rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+              {current.coverLetter}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500">No cover letter provided.</p>
+          )}
+        </section>
+
+        {/* Screening answers */}
+        {(screeningQuestions.length > 0 || !!current.screeningAnswers?.length) && (
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">Screening Questions</h3>
+            <ScreeningAnswers questions={screeningQuestions} answers={current.screeningAnswers} />
+          </section>
+        )}
+
+        {/* Interview */}
+        <section>
+          <h3 className="mb-2 text-sm font-semibold text-gray-900">Interview</h3>
+          {interview && (
+            <InterviewCard
+              interview={interview}
+              viewer="RECRUITER"
+              onUpdated={onInterviewUpdated}
+              onProposeNewTimes={onScheduleInterview}
+            />
+          )}
+          {(!interview || interview.status === "CANCELLED") && canSchedule && (
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<FiCalendar />}
+              onClick={onScheduleInterview}
+              className={interview ? "mt-3" : ""}
+            >
+              Schedule interview
+            </Button>
+          )}
+          {!interview && !canSchedule && (
+            <p className="text-sm text-gray-500">No interview was scheduled.</p>
+          )}
+        </section>
+
+        {/* Status */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900">Change Status</h3>
+          <div className="flex flex-wrap gap-2">
+            {moveOptions.map((stage) => (
+              <button
+                key={stage.key}
+                onClick={() => setNextStatus(nextStatus === stage.key ? "" : stage.key)}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+                  nextStatus === stage.key
+                    ? "border-blue-500 bg-blue-50 text-blue-700"
+                    : "border-gray-200 text-gray-600 hover:border-gray-300"
+                }`}
+              >
+                {stage.label}
+              </button>
+            ))}
+          </div>
+          {nextStatus && (
+            <div className="flex gap-2">
+              <Input
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                placeholder="Reason (optional, kept in the timeline)"
+                className="flex-1"
+              />
+              <Button size="sm" onClick={handleMove} isLoading={moving}>
+                Move
+              </Button>
+            </div>
+          )}
+        </section>
+
+        {/* Timeline */}
+        <section>
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Activity</h3>
+          {failed ? (
+            <p className="text-sm text-gray-500">Activity could not be loaded.</p>
+          ) : !detail ? (
+            <Loading size="sm" />
+          ) : (
+            <ApplicationTimeline
+              application={current}
+              stages={stages}
+              currentUserId={currentUserId}
+              onAddNote={addNote}
+              onEditNote={editNote}
+              onDeleteNote={deleteNote}
+            />
+          )}
+        </section>
+      </div>
+    </motion.aside>
+  );
+}
+
+export default function ApplicationDrawer({ application, ...props }: ApplicationDrawerProps) {
+  return (
+    <AnimatePresence>
+      {application && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 bg-black/40"
+            onClick={props.onClose}
+          />
+          <DrawerPanel key={application._id} application={application} {...props} />
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
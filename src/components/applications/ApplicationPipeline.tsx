@@ -0,0 +1,143 @@
+/**
+ * @file src/components/applications/ApplicationPipeline.tsx
+ * @description Kanban board of applications, one column per pipeline status.
+ * Cards are moved by drag-and-drop; dragging a selected card moves the whole selection.
+ */
+
+import { useState } from "react";
+import { FiInbox } from "react-icons/fi";
+import { cn } from "@/lib/utils";
+import { getBoardStages } from "@/lib/hiringStages";
+import type {
+  Application,
+  ApplicationStatus,
+  HiringStage,
+  Interview,
+  ScreeningQuestion,
+} from "@/types";
+import { getStageConfig } from "./applicationStatusConfig";
+import PipelineCard from "./PipelineCard";
+
+interface ApplicationPipelineProps {
+  // Already in display order; columns keep it
+  applications: Application[];
+  // The job's pipeline; hired and withdrawn stages are not columns
+  stages: HiringStage[];
+  // The job's screening questions, for answer previews on cards
+  screeningQuestions?: ScreeningQuestion[];
+  matchScores?: Record<string, number>;
+  // Latest interview per application id
+  interviews?: Record<string, Interview>;
+  counts: Partial<Record<ApplicationStatus, number>>;
+  selectedIds: Set<string>;
+  savingIds: Set<string>;
+  onToggleSelect: (id: string) => void;
+  onOpen: (id: string) => void;
+  onMove: (ids: string[], status: ApplicationStatus) => void;
+}
+
+export default function ApplicationPipeline({
+  applications,
+  stages,
+  screeningQuestions = [],
+  matchScores = {},
+  interviews = {},
+  counts,
+  selectedIds,
+  savingIds,
+  onToggleSelect,
+  onOpen,
+  onMove,
+}: ApplicationPipelineProps) {
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
+  const [overStatus, setOverStatus] = useState<ApplicationStatus | null>(null);
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, id: string) => {
+    const ids = selectedIds.has(id) ? Array.from(selectedIds) : [id];
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", ids.join(","));
+    setDraggingIds(ids);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingIds([]);
+    setOverStatus(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+    e.preventDefault();
+    const ids = e.dataTransfer.getData("text/plain").split(",").filter(Boolean);
+    handleDragEnd();
+    if (ids.length > 0) onMove(ids, status);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {getBoardStages(stages).map(({ key: status }) => {
+        const config = getStageConfig(stages, status);
+        const Icon = config.icon;
+        const columnApps = applications.filter((app) => app.status === status);
+        const isOver = overStatus === status && draggingIds.length > 0;
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              if (overStatus !== status) setOverStatus(status);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                setOverStatus(null);
+              }
+            }}
+            onDrop={(e) => handleDrop(e, status)}
+            className={cn(
+              "flex min-h-[16rem] w-72 flex-shrink-0 flex-col rounded-xl border border-t-4 bg-gray-100/70 transition-colors",
+              config.accent,
+              isOver ? "border-blue-400 bg-blue-50" : "border-gray-200"
+            )}
+          >
+            <div className="flex items-center justify-between px-3 py-2.5">
+              <div className="flex items-center gap-2 font-semibold text-gray-800">
+                <Icon className="h-4 w-4" />
+                {config.label}
+              </div>
+              <span className="rounded-full bg-white px-2 py-0.5 text-xs font-medium text-gray-600 shadow-sm">
+                {counts[status] ?? 0}
+              </span>
+            </div>
+
+            <div className="flex-1 space-y-2 px-2 pb-2">
+              {columnApps.length === 0 ? (
+                <div className="flex h-full min-h-[8rem] flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-200 text-xs text-gray-400">
+                  <FiInbox className="mb-1 h-5 w-5" />
+                  {isOver ? "Drop here" : "No applications"}
+                </div>
+              ) : (
+                columnApps.map((application) => (
+                  <PipelineCard
+                    key={application._id}
+                    application={application}
+                    stages={stages}
+                    screeningQuestions={screeningQuestions}
+                    matchScore={matchScores[application._id]}
+                    interview={interviews[application._id]}
+                    selected={selectedIds.has(application._id)}
+                    saving={savingIds.has(application._id)}
+                    onToggleSelect={onToggleSelect}
+                    onOpen={() => onOpen(application._id)}
+                    onMove={(next) => onMove([application._id], next)}
+                    onDragStart={(e) => handleDragStart(e, application._id)}
+                    onDragEnd={handleDragEnd}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
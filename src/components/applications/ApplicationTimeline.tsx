@@ -0,0 +1,220 @@
+/**
+ * @file src/components/applications/ApplicationTimeline.tsx
+ * @description Chronological timeline of status changes and private notes on an application
+ */
+
+import { useState } from "react";
+import { FiEdit2, FiMessageSquare, FiSend, FiTrash2 } from "react-icons/fi";
+import { Button, Markdown, Textarea } from "@/components/common";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { getInitialStage } from "@/lib/hiringStages";
+import type {
+  Application,
+  ApplicationNote,
+  ApplicationStatusChange,
+  HiringStage,
+} from "@/types";
+import { getStageConfig } from "./applicationStatusConfig";
+
+export type TimelineEntry =
+  | { kind: "applied"; at: string }
+  | { kind: "status"; at: string; change: ApplicationStatusChange }
+  | { kind: "note"; at: string; note: ApplicationNote };
+
+// Merge the application's status history and notes, oldest first
+export const buildTimeline = (application: Application): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [
+    { kind: "applied", at: application.appliedAt || application.createdAt },
+    ...(application.statusHistory ?? []).map(
+      (change): TimelineEntry => ({ kind: "status", at: change.changedAt, change })
+    ),
+    ...(application.notes ?? []).map(
+      (note): TimelineEntry => ({ kind: "note", at: note.createdAt, note })
+    ),
+  ];
+  return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+};
+
+interface NoteEntryProps {
+  note: ApplicationNote;
+  canEdit: boolean;
+  onEdit: (noteId: string, content: string) => Promise<boolean>;
+  onDelete: (noteId: string) => void;
+}
+
+function NoteEntry({ note, canEdit, onEdit, onDelete }: NoteEntryProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(note.content);
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    const ok = await onEdit(note._id, draft.trim());
+    setSaving(false);
+    if (ok) setEditing(false);
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50/60 p-3">
+      <div className="mb-1.5 flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          <span className="font-medium text-gray-700">
+            {note.author?.username ?? "Recruiter"}
+          </span>{" "}
+          &middot; {formatRelativeTime(note.createdAt)}
+          {note.updatedAt !== note.createdAt && " (edited)"}
+        </span>
+        {canEdit && !editing && (
+          <span className="flex items-center gap-1">
+            <button
+              onClick={() => {
+                setDraft(note.content);
+                setEditing(true);
+              }}
+              className="rounded p-1 hover:bg-amber-100 hover:text-gray-700"
+              aria-label="Edit note"
+            >
+              <FiEdit2 className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => onDelete(note._id)}
+              className="rounded p-1 hover:bg-red-100 hover:text-red-600"
+              aria-label="Delete note"
+            >
+              <FiTrash2 className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={4} />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={save} isLoading={saving} disabled={!draft.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Markdown content={note.content} />
+      )}
+    </div>
+  );
+}
+
+interface ApplicationTimelineProps {
+  application: Application;
+  stages: HiringStage[];
+  currentUserId?: string;
+  onAddNote: (content: string) => Promise<boolean>;
+  onEditNote: (noteId: string, content: string) => Promise<boolean>;
+  onDeleteNote: (noteId: string) => void;
+}
+
+export default function ApplicationTimeline({
+  application,
+  stages,
+  currentUserId,
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
+}: ApplicationTimelineProps) {
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const entries = buildTimeline(application);
+
+  const submit = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    const ok = await onAddNote(draft.trim());
+    setSaving(false);
+    if (ok) setDraft("");
+  };
+
+  return (
+    <div>
+      <ol className="relative space-y-4 border-l border-gray-200 pl-5">
+        {entries.map((entry, index) => {
+          const key = entry.kind === "note" ? entry.note._id : `${entry.kind}-${index}`;
+
+          if (entry.kind === "note") {
+            return (
+              <li key={key} className="relative">
+                <span className="absolute -left-[27px] top-3 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-amber-400 ring-4 ring-white" />
+                <NoteEntry
+                  note={entry.note}
+                  canEdit={!!currentUserId && entry.note.author?._id === currentUserId}
+                  onEdit={onEditNote}
+                  onDelete={onDeleteNote}
+                />
+              </li>
+            );
+          }
+
+          const status =
+            entry.kind === "status" ? entry.change.status : getInitialStage(stages).key;
+          const config = getStageConfig(stages, status);
+          const Icon = config.icon;
+
+          return (
+            <li key={key} className="relative">
+              <span
+                className={cn(
+                  "absolute -left-[27px] top-0.5 flex h-3.5 w-3.5 items-center justify-center rounded-full ring-4 ring-white",
+                  entry.kind === "applied" ? "bg-gray-400" : "bg-blue-500"
+                )}
+              />
+              <p className="flex items-center gap-1.5 text-sm text-gray-800">
+                <Icon className="h-3.5 w-3.5 text-gray-500" />
+                {entry.kind === "applied" ? (
+                  "Applied"
+                ) : (
+                  <>
+                    Moved to <span className="font-medium">{config.label}</span>
+                    {entry.change.changedBy?.username && (
+                      <span className="text-gray-500">by {entry.change.changedBy.username}</span>
+                    )}
+                  </>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">{formatRelativeTime(entry.at)}</p>
+              {entry.kind === "status" && entry.change.note && (
+                <p className="mt-1 text-sm text-gray-600">{entry.change.note}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* New note */}
+      <div className="mt-6 space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <FiMessageSquare className="h-4 w-4" />
+          Private note
+        </label>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={3}
+          placeholder="Only recruiters on this job can see notes. Markdown is supported."
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            leftIcon={<FiSend />}
+            onClick={submit}
+            isLoading={saving}
+            disabled={!draft.trim()}
+          >
+            Add Note
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * @file src/components/applications/PipelineCard.tsx
+ * @description Draggable applicant card for the application pipeline board
+ */
+
+import Link from "next/link";
+import {
+  FiCalendar,
+  FiClock,
+  FiExternalLink,
+  FiGithub,
+  FiMessageSquare,
+  FiUser,
+} from "react-icons/fi";
+import { MatchBadge } from "@/components/match";
+import { INTERVIEW_STATUS_CONFIG, getSelectedSlot } from "@/components/interviews";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { formatDateTimeInZone } from "@/utils/formatters";
+import type {
+  Application,
+  ApplicationStatus,
+  HiringStage,
+  Interview,
+  ScreeningQuestion,
+} from "@/types";
+import ScreeningAnswers from "./ScreeningAnswers";
+
+interface PipelineCardProps {
+  application: Application;
+  stages: HiringStage[];
+  screeningQuestions: ScreeningQuestion[];
+  matchScore?: number;
+  interview?: Interview;
+  selected: boolean;
+  saving: boolean;
+  onToggleSelect: (id: string) => void;
+  onOpen: () => void;
+  onMove: (status: ApplicationStatus) => void;
+  onDragStart: (e: React.DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+}
+
+export default function PipelineCard({
+  application,
+  stages,
+  screeningQuestions,
+  matchScore,
+  interview,
+  selected,
+  saving,
+  onToggleSelect,
+  onOpen,
+  onMove,
+  onDragStart,
+  onDragEnd,
+}: PipelineCardProps) {
+  const { applicant, developerProfile } = application;
+  const name = applicant?.username ?? "Unknown applicant";
+  const interviewSlot = interview && getSelectedSlot(interview);
+
+  return (
+    <div
+      draggable={!saving}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "group rounded-lg border bg-white p-3 shadow-sm transition",
+        "cursor-grab active:cursor-grabbing hover:shadow-md",
+        selected ? "border-blue-500 ring-2 ring-blue-100" : "border-gray-200",
+        saving && "opacity-60"
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => onToggleSelect(application._id)}
+          aria-label={`Select ${name}`}
+          className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+
+        <div className="h-9 w-9 flex-shrink-0 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
+          {applicant?.avatar ? (
+            <img src={applicant.avatar} alt={name} className="h-9 w-9 object-cover" />
+          ) : (
+            <FiUser className="h-4 w-4 text-gray-500" />
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <button
+            onClick={onOpen}
+            className="block max-w-full truncate text-left font-medium text-gray-900 hover:text-blue-600"
+          >
+            {name}
+          </button>
+          <p className="truncate text-xs text-gray-500">
+            {developerProfile?.headline || "Developer"}
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+        {matchScore !== undefined && <MatchBadge score={matchScore} />}
+        <span className="flex items-center gap-1">
+          <FiCalendar className="h-3.5 w-3.5" />
+          {formatRelativeTime(application.appliedAt || application.createdAt)}
+        </span>
+        {developerProfile?.githubUsername && (
+          <a
+            href={`https://github.com/${developerProfile.githubUsername}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 hover:text-blue-600"
+          >
+            <FiGithub className="h-3.5 w-3.5" />
+            {developerProfile.githubUsername}
+          </a>
+        )}
+      </div>
+
+      {interview && interview.status !== "CANCELLED" && (
+        <button
+          onClick={onOpen}
+          className="mt-2 flex w-full items-center gap-1.5 rounded-md bg-blue-50 px-2 py-1 text-left text-xs text-blue-700 hover:bg-blue-100"
+        >
+          <FiClock className="h-3.5 w-3.5 flex-shrink-0" />
+          {interview.status === "SCHEDULED" && interviewSlot
+            ? `Interview ${formatDateTimeInZone(interviewSlot.start, undefined, {
+                year: undefined,
+                timeZoneName: undefined,
+              })}`
+            : INTERVIEW_STATUS_CONFIG[interview.status].label}
+        </button>
+      )}
+
+      <ScreeningAnswers
+        questions={screeningQuestions}
+        answers={application.screeningAnswers}
+        compact
+        className="mt-2"
+      />
+
+      {application.coverLetter && (
+        <p className="mt-2 line-clamp-2 text-xs text-gray-600">{application.coverLetter}</p>
+      )}
+
+      <div className="mt-3 flex items-center justify-between gap-2">
+        {applicant?.username ? (
+          <div className="flex items-center gap-3">
+            <Link
+              href={`/profile/${encodeURIComponent(applicant.username)}`}
+              className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+            >
+              <FiExternalLink className="h-3.5 w-3.5" />
+              Profile
+            </Link>
+            <Link
+              href={`/messages?to=${encodeURIComponent(applicant.username)}`}
+              className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+            >
+              <FiMessageSquare className="h-3.5 w-3.5" />
+              Message
+            </Link>
+          </div>
+        ) : (
+          <span />
+        )}
+
+        {/* Keyboard and touch alternative to dragging */}
+        <select
+          value={application.status}
+          onChange={(e) => onMove(e.target.value as ApplicationStatus)}
+          disabled={saving}
+          aria-label={`Move ${name}`}
+          className="rounded-md border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700 focus:border-blue-500 focus:outline-none"
+        >
+          {stages
+            .filter((stage) => stage.kind !== "WITHDRAWN")
+            .map((stage) => (
+              <option key={stage.key} value={stage.key}>
+                {stage.label}
+              </option>
+            ))}
+        </select>
+      </div>
+    </div>
+  );
+}
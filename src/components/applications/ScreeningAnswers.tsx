@@ -0,0 +1,112 @@
+/**
+ * @file src/components/applications/ScreeningAnswers.tsx
+ * @description An applicant's answers to the job's screening questions, with knockout flags
+ */
+
+import { FiAlertTriangle } from "react-icons/fi";
+import { cn } from "@/lib/utils";
+import { findAnswer, formatScreeningAnswer, qualifies } from "@/lib/screeningQuestions";
+import type { ScreeningAnswer, ScreeningQuestion } from "@/types";
+
+interface ScreeningAnswersProps {
+  questions: ScreeningQuestion[];
+  answers?: ScreeningAnswer[];
+  // Card variant: knockout flag and a few short answers
+  compact?: boolean;
+  className?: string;
+}
+
+const COMPACT_LIMIT = 2;
+
+interface AnswerRow {
+  id: string;
+  prompt: string;
+  answer?: string;
+  long: boolean;
+  failed: boolean;
+}
+
+// Current questions in order, then answers to questions removed since applying
+const buildRows = (questions: ScreeningQuestion[], answers: ScreeningAnswer[] = []): AnswerRow[] => [
+  ...questions.map((question) => {
+    const answer = findAnswer(answers, question.id);
+    return {
+      id: question.id,
+      prompt: question.prompt,
+      answer: answer && formatScreeningAnswer(answer.value),
+      long: question.type === "LONG_TEXT",
+      failed: !qualifies(question, answer),
+    };
+  }),
+  ...answers
+    .filter((answer) => !questions.some((question) => question.id === answer.questionId))
+    .map((answer) => ({
+      id: answer.questionId,
+      prompt: answer.prompt || "Removed question",
+      answer: formatScreeningAnswer(answer.value),
+      long: false,
+      failed: false,
+    })),
+];
+
+export default function ScreeningAnswers({
+  questions,
+  answers,
+  compact = false,
+  className,
+}: ScreeningAnswersProps) {
+  const rows = buildRows(questions, answers);
+  const failed = rows.filter((row) => row.failed);
+
+  if (compact) {
+    const shown = rows.filter((row) => row.answer && !row.long).slice(0, COMPACT_LIMIT);
+    if (failed.length === 0 && shown.length === 0) return null;
+
+    return (
+      <div className={cn("space-y-1 text-xs", className)}>
+        {failed.length > 0 && (
+          <p
+            className="flex items-center gap-1 font-medium text-red-600"
+            title={failed.map((row) => row.prompt).join("\n")}
+          >
+            <FiAlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            Knocked out on {failed.length} {failed.length === 1 ? "question" : "questions"}
+          </p>
+        )}
+        {shown.map((row) => (
+          <p key={row.id} className="truncate text-gray-600" title={`${row.prompt} ${row.answer}`}>
+            <span className="text-gray-400">{row.prompt}</span> {row.answer}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  if (rows.length === 0) return null;
+
+  return (
+    <dl className={cn("space-y-3", className)}>
+      {rows.map((row) => (
+        <div key={row.id}>
+          <dt className="flex items-center gap-1.5 text-xs font-medium text-gray-500">
+            {row.prompt}
+            {row.failed && (
+              <span className="flex items-center gap-1 rounded-full bg-red-50 px-2 py-0.5 text-red-600">
+                <FiAlertTriangle className="h-3 w-3" />
+                Knockout
+              </span>
+            )}
+          </dt>
+          <dd
+            className={cn(
+              "mt-0.5 whitespace-pre-line text-sm",
+              row.answer ? "text-gray-800" : "italic text-gray-400"
+            )}
+          >
+            {row.answer ?? "No answer"}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * @file src/components/applications/ScreeningFilterBar.tsx
+ * @description Filter a job's applicants by a screening answer or by knockout result
+ */
+
+import { FiFilter, FiX } from "react-icons/fi";
+import { getChoiceOptions, type ScreeningFilter } from "@/lib/screeningQuestions";
+import type { ScreeningQuestion } from "@/types";
+
+interface ScreeningFilterBarProps {
+  questions: ScreeningQuestion[];
+  filter: ScreeningFilter;
+  onFilterChange: (filter: ScreeningFilter) => void;
+  hideKnockedOut: boolean;
+  onHideKnockedOutChange: (hide: boolean) => void;
+  // Applicants left after filtering, out of `total`
+  matching: number;
+  total: number;
+}
+
+const FIELD_CLASS =
+  "rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-blue-500 focus:outline-none";
+
+export default function ScreeningFilterBar({
+  questions,
+  filter,
+  onFilterChange,
+  hideKnockedOut,
+  onHideKnockedOutChange,
+  matching,
+  total,
+}: ScreeningFilterBarProps) {
+  const question = questions.find((q) => q.id === filter.questionId);
+  const hasKnockouts = questions.some((q) => q.knockout);
+  const active = !!filter.value || hideKnockedOut;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 bg-white px-4 py-3">
+      <FiFilter className="h-4 w-4 text-gray-400" />
+
+      <select
+        value={filter.questionId}
+        onChange={(e) => onFilterChange({ questionId: e.target.value, value: "" })}
+        aria-label="Filter by screening question"
+        className={`${FIELD_CLASS} max-w-xs`}
+      >
+        <option value="">Filter by answer…</option>
+        {questions.map((q) => (
+          <option key={q.id} value={q.id}>
+            {q.prompt}
+          </option>
+        ))}
+      </select>
+
+      {question && (question.type === "SHORT_TEXT" || question.type === "LONG_TEXT") && (
+        <input
+          value={filter.value}
+          onChange={(e) => onFilterChange({ ...filter, value: e.target.value })}
+          placeholder="Answer contains…"
+          aria-label="Answer contains"
+          className={FIELD_CLASS}
+        />
+      )}
+
+      {question?.type === "NUMBER" && (
+        <input
+          type="number"
+          value={filter.value}
+          onChange={(e) => onFilterChange({ ...filter, value: e.target.value })}
+          placeholder="At least…"
+          aria-label="Minimum answer"
+          className={`${FIELD_CLASS} w-32`}
+        />
+      )}
+
+      {question && getChoiceOptions(question).length > 0 && (
+        <select
+          value={filter.value}
+          onChange={(e) => onFilterChange({ ...filter, value: e.target.value })}
+          aria-label="Answer"
+          className={FIELD_CLASS}
+        >
+          <option value="">Any answer</option>
+          {getChoiceOptions(question).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {hasKnockouts && (
+        <label className="ml-2 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={hideKnockedOut}
+            onChange={(e) => onHideKnockedOutChange(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Hide knocked out
+        </label>
+      )}
+
+      {active && (
+        <div className="ml-auto flex items-center gap-3 text-sm text-gray-500">
+          {matching} of {total} applicants
+          <button
+            onClick={() => {
+              onFilterChange({ questionId: "", value: "" });
+              onHideKnockedOutChange(false);
+            }}
+            className="flex items-center gap-1 text-gray-500 hover:text-gray-700"
+          >
+            <FiX className="h-4 w-4" />
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * @file src/components/applications/StageBadge.tsx
+ * @description Badge for an application's hiring stage in its job's pipeline
+ */
+
+import { Badge } from "@/components/common";
+import type { ApplicationStatus, HiringStage } from "@/types";
+import { getStageConfig } from "./applicationStatusConfig";
+
+interface StageBadgeProps {
+  stages: HiringStage[];
+  status: ApplicationStatus;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export default function StageBadge({ stages, status, size, className }: StageBadgeProps) {
+  const config = getStageConfig(stages, status);
+  const Icon = config.icon;
+
+  return (
+    <Badge variant={config.variant} size={size} className={className}>
+      <Icon className="mr-1 h-3 w-3" />
+      {config.label}
+    </Badge>
+  );
+}
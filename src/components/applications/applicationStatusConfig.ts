@@ -0,0 +1,82 @@
+/**
+ * @file src/components/applications/applicationStatusConfig.ts
+ * @description Label, badge and icon for each hiring stage, plus pipeline helpers
+ */
+
+import type { IconType } from "react-icons";
+import { FiAward, FiCalendar, FiCheck, FiClock, FiFileText, FiX } from "react-icons/fi";
+import { findStage, getOpenStages } from "@/lib/hiringStages";
+import type {
+  Application,
+  ApplicationStats,
+  ApplicationStatus,
+  HiringStage,
+  HiringStageKind,
+} from "@/types";
+
+export interface StageStyle {
+  variant: "default" | "primary" | "success" | "warning" | "danger" | "outline";
+  icon: IconType;
+  accent: string;
+}
+
+export interface StageConfig extends StageStyle {
+  key: ApplicationStatus;
+  label: string;
+  kind: HiringStageKind;
+}
+
+const OUTCOME_STYLES: Record<Exclude<HiringStageKind, "OPEN">, StageStyle> = {
+  HIRED: { variant: "success", icon: FiCheck, accent: "border-t-emerald-600" },
+  REJECTED: { variant: "danger", icon: FiX, accent: "border-t-red-400" },
+  WITHDRAWN: { variant: "outline", icon: FiX, accent: "border-t-gray-300" },
+};
+
+// In-progress stages are styled by position; after the first they cycle
+const OPEN_STYLES: StageStyle[] = [
+  { variant: "warning", icon: FiClock, accent: "border-t-yellow-400" },
+  { variant: "default", icon: FiFileText, accent: "border-t-blue-400" },
+  { variant: "primary", icon: FiCheck, accent: "border-t-green-500" },
+  { variant: "primary", icon: FiCalendar, accent: "border-t-indigo-400" },
+  { variant: "success", icon: FiAward, accent: "border-t-purple-400" },
+];
+
+const openStyle = (position: number) =>
+  position <= 0
+    ? OPEN_STYLES[0]
+    : OPEN_STYLES[((position - 1) % (OPEN_STYLES.length - 1)) + 1];
+
+/**
+ * Display config for a status in a job's pipeline
+ */
+export function getStageConfig(stages: HiringStage[], key: ApplicationStatus): StageConfig {
+  const stage = findStage(stages, key);
+  const style =
+    stage.kind === "OPEN"
+      ? openStyle(getOpenStages(stages).findIndex((s) => s.key === stage.key))
+      : OUTCOME_STYLES[stage.kind];
+  return { ...stage, ...style };
+}
+
+export const countByStatus = (applications: Application[]) =>
+  applications.reduce((acc, app) => {
+    acc[app.status] = (acc[app.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ApplicationStatus, number>>);
+
+/**
+ * Stats after moving the given applications to `status`
+ * Used to keep server-side counts in step with an optimistic move
+ */
+export const applyMoveToStats = (
+  stats: ApplicationStats,
+  moved: Application[],
+  status: ApplicationStatus
+): ApplicationStats => {
+  const byStatus = { ...stats.byStatus };
+  moved.forEach((app) => {
+    byStatus[app.status] = Math.max(0, (byStatus[app.status] || 0) - 1);
+    byStatus[status] = (byStatus[status] || 0) + 1;
+  });
+  return { ...stats, byStatus };
+};
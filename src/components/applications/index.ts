@@ -0,0 +1,13 @@
+/**
+ * @file src/components/applications/index.ts
+ * @description Export all application components
+ */
+
+export { default as ApplicationDrawer } from "./ApplicationDrawer";
+export { default as ApplicationPipeline } from "./ApplicationPipeline";
+export { default as ApplicationTimeline, buildTimeline } from "./ApplicationTimeline";
+export { default as PipelineCard } from "./PipelineCard";
+export { default as ScreeningAnswers } from "./ScreeningAnswers";
+export { default as ScreeningFilterBar } from "./ScreeningFilterBar";
+export { default as StageBadge } from "./StageBadge";
+export { getStageConfig, countByStatus, applyMoveToStats } from "./applicationStatusConfig";
@@ -0,0 +1,62 @@
+/**
+ * @file src/components/apply/ApplyStepper.tsx
+ * @description Progress indicator for the apply wizard; earlier steps can be revisited
+ */
+
+import { FiCheck } from "react-icons/fi";
+import { cn } from "@/lib/utils";
+import type { ApplyStep } from "@/types";
+import { APPLY_STEP_LABELS } from "./applySteps";
+
+interface ApplyStepperProps {
+  steps: ApplyStep[];
+  current: ApplyStep;
+  onSelect: (step: ApplyStep) => void;
+}
+
+export default function ApplyStepper({ steps, current, onSelect }: ApplyStepperProps) {
+  const currentIndex = steps.indexOf(current);
+
+  return (
+    <ol className="flex items-center gap-2">
+      {steps.map((step, index) => {
+        const done = index < currentIndex;
+        const active = index === currentIndex;
+
+        return (
+          <li key={step} className="flex flex-1 items-center gap-2 last:flex-none">
+            <button
+              type="button"
+              onClick={() => onSelect(step)}
+              disabled={!done}
+              aria-current={active ? "step" : undefined}
+              className="flex items-center gap-2 disabled:cursor-default"
+            >
+              <span
+                className={cn(
+                  "flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full text-xs font-semibold",
+                  done && "bg-blue-600 text-white",
+                  active && "border-2 border-blue-600 text-blue-600",
+                  !done && !active && "border border-gray-300 text-gray-400"
+                )}
+              >
+                {done ? <FiCheck className="h-3.5 w-3.5" /> : index + 1}
+              </span>
+              <span
+                className={cn(
+                  "hidden text-sm sm:inline",
+                  active ? "font-medium text-gray-900" : "text-gray-500"
+                )}
+              >
+                {APPLY_STEP_LABELS[step]}
+              </span>
+            </button>
+            {index < steps.length - 1 && (
+              <span className={cn("h-px flex-1", done ? "bg-blue-600" : "bg-gray-200")} />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,370 @@
+/**
+ * @file src/components/apply/ApplyWizard.tsx
+ * @description Multi-step application form; progress autosaves as a draft per job.
+ * Mount once the job is loaded: the saved draft is read when the wizard mounts.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { FiArrowLeft, FiArrowRight, FiRotateCcw, FiSend } from "react-icons/fi";
+import toast from "react-hot-toast";
+import type { AxiosError } from "axios";
+import { applicationService } from "@/services";
+import { getErrorMessage } from "@/services/api";
+import { useApplicationDrafts, type ApplicationDraftFields } from "@/hooks/useApplicationDrafts";
+import { useMatchProfile } from "@/hooks/useMatchProfile";
+import { useAuthStore } from "@/store/authStore";
+import { Button, Card, CardBody, CardHeader, Textarea } from "@/components/common";
+import { ResumePicker } from "@/components/resumes";
+import { AssistPanel } from "@/components/assist";
+import ScreeningQuestionFields from "@/components/jobs/ScreeningQuestionFields";
+import {
+  buildScreeningRules,
+  emptyScreeningValues,
+  formatScreeningAnswer,
+  restoreScreeningValues,
+  toScreeningAnswers,
+  type ScreeningFormValues,
+} from "@/lib/screeningQuestions";
+import { formatRelativeTime } from "@/lib/utils";
+import { validateForm } from "@/utils/validators";
+import type { ApplyStep, AssistProfileContext, JobPostDetails } from "@/types";
+import ApplyStepper from "./ApplyStepper";
+import ProfileReviewStep from "./ProfileReviewStep";
+import { APPLY_STEP_LABELS, getApplySteps } from "./applySteps";
+
+interface ApplyWizardProps {
+  job: JobPostDetails;
+  onSubmitted: () => void;
+  onAlreadyApplied: () => void;
+}
+
+const COVER_LETTER_MIN = 50;
+const COVER_LETTER_MAX = 5000;
+
+const STEP_HINTS: Record<ApplyStep, string> = {
+  profile: "Check what the recruiter will see",
+  resume: "Attach a resume from your library or upload one",
+  coverLetter: "Tell the recruiter why you're a great fit for this role",
+  questions: "Answer the recruiter's screening questions",
+  confirm: "Review your application before sending it",
+};
+
+export default function ApplyWizard({ job, onSubmitted, onAlreadyApplied }: ApplyWizardProps) {
+  const { getDraft, saveDraft, discardDraft } = useApplicationDrafts();
+  const username = useAuthStore((state) => state.user?.username);
+  const sessionProfile = useAuthStore((state) => state.profile);
+  const matchProfile = useMatchProfile();
+  const questions = job.screeningQuestions ?? [];
+  const steps = getApplySteps(questions.length > 0);
+
+  const [restored] = useState(() => getDraft(job._id));
+  const [step, setStep] = useState<ApplyStep>(
+    restored && steps.includes(restored.step) ? restored.step : "profile"
+  );
+  const [coverLetter, setCoverLetter] = useState(restored?.coverLetter ?? "");
+  const [resumeId, setResumeId] = useState(restored?.resumeId);
+  const [resumeName, setResumeName] = useState(restored?.resumeName);
+  const [answers, setAnswers] = useState<ScreeningFormValues>(() =>
+    restoreScreeningValues(questions, restored?.answers)
+  );
+  const [savedAt, setSavedAt] = useState(restored?.updatedAt);
+  const [showRestored, setShowRestored] = useState(!!restored);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const stepIndex = steps.indexOf(step);
+
+  // What the writing assistant may draw on when drafting
+  const assistProfile: AssistProfileContext = {
+    username,
+    headline: sessionProfile?.headline,
+    bio: sessionProfile?.bio,
+    skills: matchProfile?.skills,
+    yearsOfExperience: matchProfile?.yearsOfExperience,
+  };
+
+  // Every change is written through to the draft
+  const persist = (changes: ApplicationDraftFields) => {
+    saveDraft(job, changes);
+    setSavedAt(new Date().toISOString());
+  };
+
+  const goTo = (next: ApplyStep) => {
+    setStep(next);
+    persist({ step: next });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const validateCoverLetter = () => {
+    const result = validateForm(
+      { coverLetter: coverLetter.trim() },
+      {
+        coverLetter: [
+          { required: true, message: "Please write a cover letter" },
+          {
+            minLength: COVER_LETTER_MIN,
+            message: `Cover letter must be at least ${COVER_LETTER_MIN} characters`,
+          },
+          {
+            maxLength: COVER_LETTER_MAX,
+            message: `Cover letter cannot exceed ${COVER_LETTER_MAX} characters`,
+          },
+        ],
+      }
+    );
+    setErrors(result.errors);
+    return result.isValid;
+  };
+
+  const validateAnswers = () => {
+    const result = validateForm(answers, buildScreeningRules(questions));
+    setAnswerErrors(result.errors);
+    return result.isValid;
+  };
+
+  const changeCoverLetter = (value: string) => {
+    setCoverLetter(value);
+    persist({ coverLetter: value });
+    if (errors.coverLetter) setErrors({});
+  };
+
+  const handleNext = () => {
+    if (step === "coverLetter" && !validateCoverLetter()) return;
+    if (step === "questions" && !validateAnswers()) return;
+    goTo(steps[stepIndex + 1]);
+  };
+
+  const handleStartOver = () => {
+    discardDraft(job._id);
+    setStep("profile");
+    setCoverLetter("");
+    setResumeId(undefined);
+    setResumeName(undefined);
+    setAnswers(emptyScreeningValues(questions));
+    setErrors({});
+    setAnswerErrors({});
+    setSavedAt(undefined);
+    setShowRestored(false);
+  };
+
+  const handleSubmit = async () => {
+    // A restored draft can skip steps, so everything is checked again
+    if (!validateCoverLetter()) {
+      goTo("coverLetter");
+      return;
+    }
+    if (!validateAnswers()) {
+      goTo("questions");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await applicationService.applyToJob(job._id, {
+        coverLetter: coverLetter.trim(),
+        resumeId: resumeId ?? undefined,
+        screeningAnswers: toScreeningAnswers(questions, answers),
+      });
+      discardDraft(job._id);
+      toast.success("Application submitted successfully!");
+      onSubmitted();
+    } catch (err) {
+      const message = getErrorMessage(err as AxiosError);
+      if (message.toLowerCase().includes("already applied")) {
+        discardDraft(job._id);
+        onAlreadyApplied();
+      }
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="mb-4 flex items-center justify-between gap-2">
+          <div>
+            <h2 className="font-semibold text-gray-900">{APPLY_STEP_LABELS[step]}</h2>
+            <p className="text-sm text-gray-500">{STEP_HINTS[step]}</p>
+          </div>
+          {savedAt && (
+            <span className="flex-shrink-0 text-xs text-gray-400">
+              Draft saved {formatRelativeTime(savedAt).toLowerCase()}
+            </span>
+          )}
+        </div>
+        <ApplyStepper steps={steps} current={step} onSelect={goTo} />
+      </CardHeader>
+
+      <CardBody className="space-y-4">
+        {showRestored && restored && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-blue-50 px-4 py-3 text-sm text-blue-800">
+            <span>
+              Picked up where you left off — draft from{" "}
+              {formatRelativeTime(restored.updatedAt).toLowerCase()}.
+            </span>
+            <button
+              type="button"
+              onClick={handleStartOver}
+              className="flex items-center gap-1 font-medium hover:text-blue-900"
+            >
+              <FiRotateCcw className="h-4 w-4" />
+              Start over
+            </button>
+          </div>
+        )}
+
+        {step === "profile" && <ProfileReviewStep job={job} />}
+
+        {step === "resume" && (
+          <ResumePicker
+            value={resumeId}
+            onChange={(id, resume) => {
+              setResumeId(id);
+              setResumeName(resume?.fileName);
+              persist({ resumeId: id, resumeName: resume?.fileName });
+            }}
+          />
+        )}
+
+        {step === "coverLetter" && (
+          <div>
+            <AssistPanel
+              surface="coverLetter"
+              text={coverLetter}
+              job={{
+                title: job.title,
+                companyName: job.companyName,
+                description: job.description,
+                requiredSkills: job.requiredSkills,
+                preferredSkills: job.preferredSkills,
+              }}
+              profile={assistProfile}
+              onApply={changeCoverLetter}
+              className="mb-4"
+            />
+            <Textarea
+              label="Cover Letter *"
+              value={coverLetter}
+              onChange={(e) => changeCoverLetter(e.target.value)}
+              placeholder="Introduce yourself and explain why you're interested in this position. Highlight relevant experience and skills that make you a strong candidate..."
+              rows={10}
+              error={errors.coverLetter}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {coverLetter.length}/{COVER_LETTER_MAX} characters (minimum {COVER_LETTER_MIN})
+            </p>
+          </div>
+        )}
+
+        {step === "questions" && (
+          <ScreeningQuestionFields
+            questions={questions}
+            values={answers}
+            errors={answerErrors}
+            onChange={(questionId, value) => {
+              const next = { ...answers, [questionId]: value };
+              setAnswers(next);
+              persist({ answers: next });
+              if (answerErrors[questionId]) {
+                setAnswerErrors((prev) => ({ ...prev, [questionId]: "" }));
+              }
+            }}
+          />
+        )}
+
+        {step === "confirm" && (
+          <dl className="divide-y divide-gray-100 text-sm">
+            <ReviewRow label="Resume" onEdit={() => goTo("resume")}>
+              {resumeId ? resumeName || "Resume selected" : "No resume"}
+            </ReviewRow>
+            <ReviewRow label="Cover letter" onEdit={() => goTo("coverLetter")}>
+              {coverLetter.trim() ? (
+                <span className="line-clamp-4 whitespace-pre-line">{coverLetter.trim()}</span>
+              ) : (
+                <span className="italic text-gray-400">Not written yet</span>
+              )}
+            </ReviewRow>
+            {questions.length > 0 && (
+              <ReviewRow label="Questions" onEdit={() => goTo("questions")}>
+                <ul className="space-y-2">
+                  {questions.map((question) => {
+                    const answer = toScreeningAnswers([question], answers)[0];
+                    return (
+                      <li key={question.id}>
+                        <p className="text-gray-500">{question.prompt}</p>
+                        <p>
+                          {answer ? (
+                            formatScreeningAnswer(answer.value)
+                          ) : (
+                            <span className="italic text-gray-400">No answer</span>
+                          )}
+                        </p>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </ReviewRow>
+            )}
+          </dl>
+        )}
+
+        <div className="flex items-center justify-between gap-3 pt-4">
+          {stepIndex > 0 ? (
+            <Button
+              type="button"
+              variant="ghost"
+              leftIcon={<FiArrowLeft />}
+              onClick={() => goTo(steps[stepIndex - 1])}
+              disabled={submitting}
+            >
+              Back
+            </Button>
+          ) : (
+            <span />
+          )}
+
+          {step === "confirm" ? (
+            <Button type="button" leftIcon={<FiSend />} isLoading={submitting} onClick={handleSubmit}>
+              Submit Application
+            </Button>
+          ) : (
+            <Button type="button" rightIcon={<FiArrowRight />} onClick={handleNext}>
+              Continue
+            </Button>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+/* --------------------------------- Helpers -------------------------------- */
+
+function ReviewRow({
+  label,
+  onEdit,
+  children,
+}: {
+  label: string;
+  onEdit: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex gap-4 py-3">
+      <dt className="w-28 flex-shrink-0 font-medium text-gray-700">{label}</dt>
+      <dd className="min-w-0 flex-1 text-gray-800">{children}</dd>
+      <button
+        type="button"
+        onClick={onEdit}
+        className="flex-shrink-0 text-sm text-blue-600 hover:text-blue-700"
+      >
+        Edit
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * @file src/components/apply/ProfileReviewStep.tsx
+ * @description First apply step: what the recruiter will see of the developer's profile
+ */
+
+import Link from "next/link";
+import { FiAlertCircle, FiEdit2 } from "react-icons/fi";
+import { Badge } from "@/components/common";
+import { MatchBadge, MatchBreakdown } from "@/components/match";
+import { useAuthStore } from "@/store/authStore";
+import { useMatchProfile } from "@/hooks/useMatchProfile";
+import { useSkillCatalog } from "@/hooks/useSkillCatalog";
+import { scoreMatch } from "@/lib/matchScore";
+import type { JobPostDetails } from "@/types";
+
+interface ProfileReviewStepProps {
+  job: JobPostDetails;
+}
+
+export default function ProfileReviewStep({ job }: ProfileReviewStepProps) {
+  const user = useAuthStore((state) => state.user);
+  const profile = useAuthStore((state) => state.profile);
+  const matchProfile = useMatchProfile();
+  const skillCatalog = useSkillCatalog();
+  const match = matchProfile ? scoreMatch(job, matchProfile, skillCatalog) : null;
+
+  const skills = matchProfile?.skills ?? [];
+  const headline = typeof profile?.headline === "string" ? profile.headline : "";
+  const years = matchProfile?.yearsOfExperience;
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-gray-600">
+        Recruiters see your profile next to your application. Make sure it&apos;s up to date —
+        your draft is saved if you leave to edit it.
+      </p>
+
+      <div className="rounded-lg border border-gray-200 p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900">{user?.username}</p>
+            <p className="text-sm text-gray-600">
+              {headline || <span className="italic text-gray-400">No headline</span>}
+            </p>
+            {years !== undefined && (
+              <p className="mt-1 text-xs text-gray-500">
+                {years} {years === 1 ? "year" : "years"} of experience
+              </p>
+            )}
+          </div>
+          {user?.username && (
+            <Link
+              href={`/profile/${encodeURIComponent(user.username)}`}
+              className="flex flex-shrink-0 items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <FiEdit2 className="h-4 w-4" />
+              Edit profile
+            </Link>
+          )}
+        </div>
+
+        {skills.length > 0 ? (
+          <div className="mt-3 flex flex-wrap gap-1">
+            {skills.map((skill) => (
+              <Badge key={skill} size="sm">
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="mt-3 flex items-center gap-1 text-sm text-yellow-700">
+            <FiAlertCircle className="h-4 w-4" />
+            Add skills to your profile so recruiters can see how you fit.
+          </p>
+        )}
+      </div>
+
+      {match && (
+        <div>
+          <div className="mb-3 flex items-center gap-2">
+            <h3 className="text-sm font-semibold text-gray-900">Fit for this job</h3>
+            <MatchBadge score={match.score} />
+          </div>
+          <MatchBreakdown result={match} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * @file src/components/apply/applySteps.ts
+ * @description Steps of the apply wizard
+ */
+
+import type { ApplyStep } from "@/types";
+
+export const APPLY_STEP_LABELS: Record<ApplyStep, string> = {
+  profile: "Profile",
+  resume: "Resume",
+  coverLetter: "Cover letter",
+  questions: "Questions",
+  confirm: "Confirm",
+};
+
+const ALL_STEPS: ApplyStep[] = ["profile", "resume", "coverLetter", "questions", "confirm"];
+
+// Jobs without screening questions skip that step
+export const getApplySteps = (hasQuestions: boolean): ApplyStep[] =>
+  ALL_STEPS.filter((step) => hasQuestions || step !== "questions");
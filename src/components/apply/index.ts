@@ -0,0 +1,9 @@
+/**
+ * @file src/components/apply/index.ts
+ * @description Export all apply wizard components
+ */
+
+export { default as ApplyStepper } from "./ApplyStepper";
+export { default as ApplyWizard } from "./ApplyWizard";
+export { default as ProfileReviewStep } from "./ProfileReviewStep";
+export { APPLY_STEP_LABELS, getApplySteps } from "./applySteps";
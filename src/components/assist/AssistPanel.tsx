@@ -0,0 +1,149 @@
+/**
+ * @file src/components/assist/AssistPanel.tsx
+ * @description Writing assistant toolbar for a text editor: draft, tighten and tone review,
+ * with the response streamed in below
+ */
+
+"use client";
+
+import { useRef } from "react";
+import { FiCheck, FiEdit3, FiRefreshCw, FiScissors, FiSquare, FiUserCheck, FiX } from "react-icons/fi";
+import { Button } from "@/components/common";
+import { useAssist } from "@/hooks/useAssist";
+import { cn } from "@/lib/utils";
+import type {
+  AssistJobContext,
+  AssistProfileContext,
+  AssistRequest,
+  AssistSurface,
+  AssistTask,
+} from "@/types";
+
+interface AssistPanelProps {
+  surface: AssistSurface;
+  // Current editor text
+  text: string;
+  job?: AssistJobContext;
+  profile?: AssistProfileContext;
+  // Replace the editor text with the assistant's version
+  onApply: (text: string) => void;
+  className?: string;
+}
+
+const TASKS: { task: AssistTask; label: string; icon: typeof FiEdit3; needsText: boolean }[] = [
+  { task: "draft", label: "Draft for me", icon: FiEdit3, needsText: false },
+  { task: "tighten", label: "Tighten", icon: FiScissors, needsText: true },
+  { task: "review", label: "Check tone", icon: FiUserCheck, needsText: true },
+];
+
+const RESULT_TITLES: Record<AssistTask, string> = {
+  draft: "Suggested draft",
+  tighten: "Tightened version",
+  review: "Tone & inclusiveness",
+};
+
+export default function AssistPanel({
+  surface,
+  text,
+  job,
+  profile,
+  onApply,
+  className,
+}: AssistPanelProps) {
+  const { task, output, status, error, run, stop, reset } = useAssist();
+  const lastRequest = useRef<AssistRequest | null>(null);
+  const streaming = status === "streaming";
+
+  const start = (next: AssistTask) => {
+    const request: AssistRequest = { task: next, surface, text, job, profile };
+    lastRequest.current = request;
+    run(request);
+  };
+
+  const apply = () => {
+    onApply(output.trim());
+    reset();
+  };
+
+  return (
+    <div className={cn("rounded-lg border border-gray-200 bg-gray-50 p-3", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+          Writing assistant
+        </span>
+        {TASKS.map(({ task: option, label, icon: Icon, needsText }) => (
+          <Button
+            key={option}
+            type="button"
+            variant="outline"
+            size="sm"
+            leftIcon={<Icon />}
+            onClick={() => start(option)}
+            disabled={streaming || (needsText && !text.trim())}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {task && status !== "idle" && (
+        <div className="mt-3 rounded-lg border border-gray-200 bg-white p-3" aria-live="polite">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-gray-900">{RESULT_TITLES[task]}</p>
+            {streaming ? (
+              <button
+                type="button"
+                onClick={stop}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+              >
+                <FiSquare className="h-3 w-3" />
+                Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={reset}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Dismiss"
+              >
+                <FiX className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+
+          {status === "error" ? (
+            <div className="flex items-center justify-between gap-2 text-sm text-red-600">
+              <span>{error}</span>
+              <button
+                type="button"
+                onClick={() => lastRequest.current && run(lastRequest.current)}
+                className="flex items-center gap-1 font-medium hover:text-red-700"
+              >
+                <FiRefreshCw className="h-4 w-4" />
+                Retry
+              </button>
+            </div>
+          ) : (
+            <p className="max-h-72 overflow-y-auto whitespace-pre-wrap text-sm text-gray-800">
+              {output}
+              {streaming && (
+                <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-blue-500 align-middle" />
+              )}
+            </p>
+          )}
+
+          {status === "done" && task !== "review" && output.trim() && (
+            <div className="mt-3 flex gap-2">
+              <Button type="button" size="sm" leftIcon={<FiCheck />} onClick={apply}>
+                {text.trim() ? "Replace my text" : "Use this"}
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={reset}>
+                Discard
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
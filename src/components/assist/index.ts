@@ -0,0 +1,6 @@
+/**
+ * @file src/components/assist/index.ts
+ * @description Export all writing assistant components
+ */
+
+export { default as AssistPanel } from "./AssistPanel";
@@ -13,7 +13,7 @@ import { FiMail, FiLock, FiEye, FiEyeOff, FiGithub } from "react-icons/fi";
 import toast from "react-hot-toast";
 import { useAuthStore } from "@/store/authStore";
 import { Button, Input } from "@/components/common";
-import { isValidEmail } from "@/lib/utils";
+import { getSafeRedirect, isValidEmail } from "@/lib/utils";
 
 export default function LoginForm() {
   const router = useRouter();
@@ -68,7 +68,9 @@ export default function LoginForm() {
     try {
       await login(formData.email, formData.password);
       toast.success("Welcome back!");
-      router.push("/");
+      // Back to the page that sent the user here
+      const redirect = new URLSearchParams(window.location.search).get("redirect");
+      router.push(getSafeRedirect(redirect));
     } catch (error: any) {
       console.log("LOGIN ERROR:", error);
 
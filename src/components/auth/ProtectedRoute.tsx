@@ -9,26 +9,36 @@ import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuthStore } from "@/store/authStore";
 import { PageLoading } from "@/components/common";
+import { SuspendedNotice } from "@/components/account";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
+import { getLoginUrl } from "@/lib/utils";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: string[];
   redirectTo?: string;
+  // Pages that post or apply; suspended users see why instead of the page
+  requireActive?: boolean;
+  // Finishes "You can't ..." in the suspended notice
+  action?: string;
 }
 
 export default function ProtectedRoute({
   children,
   allowedRoles,
   redirectTo = "/login",
+  requireActive,
+  action,
 }: ProtectedRouteProps) {
   const router = useRouter();
   const { user, isAuthenticated, isLoading } = useAuthStore();
+  const { isSuspended } = useAccountStatus();
 
   useEffect(() => {
     if (isLoading) return;
 
     if (!isAuthenticated) {
-      router.push(redirectTo);
+      router.push(redirectTo === "/login" ? getLoginUrl() : redirectTo);
       return;
     }
 
@@ -49,5 +59,9 @@ export default function ProtectedRoute({
     return null;
   }
 
+  if (requireActive && isSuspended) {
+    return <SuspendedNotice action={action} />;
+  }
+
   return <>{children}</>;
 }
@@ -5,22 +5,35 @@
 
 "use client";
 
+import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import LoadingSpinner from "../common/Loading";
+import { SuspendedNotice } from "@/components/account";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
+import { getLoginUrl } from "@/lib/utils";
 
 interface RoleRouteProps {
   children: React.ReactNode;
   allowedRoles: string[];
+  // Turn suspended users away, e.g. from job posting
+  requireActive?: boolean;
+  // e.g. "post jobs"; passed to SuspendedNotice
+  action?: string;
 }
 
-const RoleRoute = ({ children, allowedRoles }: RoleRouteProps) => {
-  const { user, isAuthenticated } = useAuth();
-  // If your AuthContext provides a different loading state, use it here.
-  const loading = false; // Replace with actual loading logic if available
+const RoleRoute = ({ children, allowedRoles, requireActive, action }: RoleRouteProps) => {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { isSuspended } = useAccountStatus();
   const router = useRouter();
 
-  if (loading) {
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push(getLoginUrl());
+    }
+  }, [isLoading, isAuthenticated, router]);
+
+  if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-[400px]">
         <LoadingSpinner size="lg" />
@@ -29,8 +42,7 @@ const RoleRoute = ({ children, allowedRoles }: RoleRouteProps) => {
   }
 
   if (!isAuthenticated) {
-    // Redirect to login
-    router.push("/login");
+    // Redirecting to login
     return (
       <div className="flex justify-center items-center min-h-[400px]">
         <LoadingSpinner size="lg" />
@@ -61,6 +73,10 @@ const RoleRoute = ({ children, allowedRoles }: RoleRouteProps) => {
     );
   }
 
+  if (requireActive && isSuspended) {
+    return <SuspendedNotice action={action} />;
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,69 @@
+/**
+ * @file src/components/bookmarks/BookmarkButton.tsx
+ * @description Save-for-later toggle for jobs, repos and developers
+ */
+
+"use client";
+
+import { FiBookmark } from "react-icons/fi";
+import { cn } from "@/lib/utils";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { useToast } from "@/contexts/ToastContext";
+import type { BookmarkTarget } from "@/types";
+
+interface BookmarkButtonProps {
+  target: BookmarkTarget;
+  // "light" for the gray/white pages, "dark" for the glass pages
+  tone?: "light" | "dark";
+  showLabel?: boolean;
+  className?: string;
+}
+
+const TONE_STYLES = {
+  light: {
+    base: "border-gray-300 text-gray-600 hover:bg-gray-50 hover:text-gray-900",
+    active: "border-blue-200 bg-blue-50 text-blue-600 hover:bg-blue-100",
+  },
+  dark: {
+    base: "border-white/15 text-white/75 hover:bg-white/10 hover:text-white",
+    active: "border-white bg-white text-black hover:bg-white/90",
+  },
+};
+
+export default function BookmarkButton({
+  target,
+  tone = "light",
+  showLabel = false,
+  className,
+}: BookmarkButtonProps) {
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const toast = useToast();
+  const saved = isBookmarked(target.type, target.targetId);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards are links; don't navigate when toggling
+    e.preventDefault();
+    e.stopPropagation();
+    const nowSaved = toggleBookmark(target);
+    toast.success(nowSaved ? "Saved for later" : "Removed from saved");
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove bookmark" : "Save for later"}
+      title={saved ? "Remove bookmark" : "Save for later"}
+      className={cn(
+        "inline-flex items-center justify-center gap-2 rounded-xl border font-medium transition-colors",
+        showLabel ? "px-4 py-2 text-sm" : "p-2",
+        saved ? TONE_STYLES[tone].active : TONE_STYLES[tone].base,
+        className
+      )}
+    >
+      <FiBookmark className={cn("h-4 w-4", saved && "fill-current")} />
+      {showLabel && (saved ? "Saved" : "Save")}
+    </button>
+  );
+}
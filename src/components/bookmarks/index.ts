@@ -0,0 +1,6 @@
+/**
+ * @file src/components/bookmarks/index.ts
+ * @description Export all bookmark components
+ */
+
+export { default as BookmarkButton } from "./BookmarkButton";
@@ -0,0 +1,67 @@
+/**
+ * @file src/components/charts/BarList.tsx
+ * @description Ranked horizontal bars (top repos, skills, sources), scaled to the largest value
+ */
+
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { CHART_COLORS } from "./chartUtils";
+
+export interface BarListItem {
+  key: string;
+  label: string;
+  value: number;
+  href?: string;
+}
+
+interface BarListProps {
+  items: BarListItem[];
+  color?: string;
+  formatValue?: (value: number) => string;
+  // Rows after this are dropped
+  limit?: number;
+  // Largest first; pass false to keep the given order (e.g. pipeline stages)
+  sorted?: boolean;
+  emptyMessage?: string;
+  className?: string;
+}
+
+export default function BarList({
+  items,
+  color = CHART_COLORS[0],
+  formatValue = (value) => value.toLocaleString(),
+  limit = 8,
+  sorted = true,
+  emptyMessage = "No data yet",
+  className,
+}: BarListProps) {
+  const rows = (sorted ? [...items].sort((a, b) => b.value - a.value) : items).slice(0, limit);
+  const max = Math.max(1, ...rows.map((row) => row.value));
+
+  if (rows.length === 0) {
+    return <p className={cn("py-6 text-center text-sm opacity-60", className)}>{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className={cn("space-y-2", className)}>
+      {rows.map((row) => (
+        <li key={row.key} className="relative">
+          <div
+            className="absolute inset-y-0 left-0 rounded-md"
+            style={{ width: `${(row.value / max) * 100}%`, backgroundColor: color, opacity: 0.15 }}
+          />
+          <div className="relative flex items-center justify-between gap-3 px-3 py-1.5 text-sm">
+            {row.href ? (
+              <Link href={row.href} className="truncate hover:underline">
+                {row.label}
+              </Link>
+            ) : (
+              <span className="truncate">{row.label}</span>
+            )}
+            <span className="flex-shrink-0 font-medium tabular-nums">{formatValue(row.value)}</span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * @file src/components/charts/CohortTable.tsx
+ * @description Retention triangle: one row per cohort, one column per period since it
+ * started, each cell shaded by the share of the cohort still active
+ */
+
+import { cn } from "@/lib/utils";
+
+export interface CohortRow {
+  key: string;
+  label: string;
+  size: number;
+  // Active members per period; index 0 is the starting period
+  active: number[];
+}
+
+interface CohortTableProps {
+  rows: CohortRow[];
+  // Column heading for a period index, e.g. (1) => "Week 1"
+  periodLabel?: (index: number) => string;
+  // Hex color for the cell shading
+  color?: string;
+  emptyMessage?: string;
+  className?: string;
+}
+
+export default function CohortTable({
+  rows,
+  periodLabel = (index) => `Week ${index}`,
+  color = "#3b82f6",
+  emptyMessage = "No cohorts in this period",
+  className,
+}: CohortTableProps) {
+  if (rows.length === 0) {
+    return <p className="py-6 text-center text-sm opacity-60">{emptyMessage}</p>;
+  }
+
+  const periods = Math.max(...rows.map((row) => row.active.length));
+
+  return (
+    <div className={cn("overflow-x-auto", className)}>
+      <table className="w-full border-separate border-spacing-1 text-xs tabular-nums">
+        <thead>
+          <tr className="opacity-60">
+            <th className="px-2 py-1 text-left font-medium">Cohort</th>
+            <th className="px-2 py-1 text-right font-medium">Users</th>
+            {Array.from({ length: periods }, (_, index) => (
+              <th key={index} className="px-2 py-1 text-center font-medium whitespace-nowrap">
+                {periodLabel(index)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="px-2 py-1 whitespace-nowrap font-medium">{row.label}</td>
+              <td className="px-2 py-1 text-right">{row.size.toLocaleString()}</td>
+              {Array.from({ length: periods }, (_, index) => {
+                // Later periods haven't happened yet for recent cohorts
+                if (index >= row.active.length) return <td key={index} />;
+                const share = row.size > 0 ? row.active[index] / row.size : 0;
+                return (
+                  <td
+                    key={index}
+                    title={`${row.active[index].toLocaleString()} of ${row.size.toLocaleString()}`}
+                    className={cn(
+                      "rounded px-2 py-1 text-center",
+                      share > 0.5 ? "text-white" : undefined
+                    )}
+                    style={{
+                      backgroundColor: `${color}${Math.round((0.08 + share * 0.92) * 255)
+                        .toString(16)
+                        .padStart(2, "0")}`,
+                    }}
+                  >
+                    {Math.round(share * 100)}%
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
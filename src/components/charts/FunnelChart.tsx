@@ -0,0 +1,57 @@
+/**
+ * @file src/components/charts/FunnelChart.tsx
+ * @description Funnel of sequential steps, each bar sized against the first step
+ * and labelled with its conversion from the step before
+ */
+
+import { cn } from "@/lib/utils";
+import { CHART_COLORS } from "./chartUtils";
+
+export interface FunnelChartStep {
+  label: string;
+  count: number;
+}
+
+interface FunnelChartProps {
+  steps: FunnelChartStep[];
+  color?: string;
+  className?: string;
+}
+
+export default function FunnelChart({ steps, color = CHART_COLORS[0], className }: FunnelChartProps) {
+  const first = Math.max(1, steps[0]?.count ?? 0);
+
+  return (
+    <ol className={cn("space-y-3", className)}>
+      {steps.map((step, index) => {
+        const previous = index > 0 ? steps[index - 1].count : null;
+        const conversion =
+          previous !== null && previous > 0 ? Math.round((step.count / previous) * 100) : null;
+
+        return (
+          <li key={step.label}>
+            <div className="mb-1 flex items-baseline justify-between gap-2 text-sm">
+              <span className="font-medium">{step.label}</span>
+              <span className="tabular-nums">
+                {step.count.toLocaleString()}
+                {conversion !== null && (
+                  <span className="ml-2 text-xs opacity-60">{conversion}% of previous</span>
+                )}
+              </span>
+            </div>
+            <div className="h-3 overflow-hidden rounded-full bg-current/10">
+              <div
+                className="h-full rounded-full transition-all"
+                style={{
+                  width: `${(step.count / first) * 100}%`,
+                  backgroundColor: color,
+                  opacity: 1 - index * 0.15,
+                }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * @file src/components/charts/LineChart.tsx
+ * @description Responsive line/area chart for daily series, with a hover tooltip.
+ * Axis text inherits the surrounding text color, so it works on light and dark pages.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { CHART_COLORS, niceMax } from "./chartUtils";
+
+export interface LineSeries {
+  name: string;
+  values: number[];
+  // Hex color; defaults to the palette
+  color?: string;
+}
+
+interface LineChartProps {
+  // One label per point, shared by every series
+  labels: string[];
+  series: LineSeries[];
+  height?: number;
+  formatValue?: (value: number) => string;
+  // Fill the area under each line
+  area?: boolean;
+  className?: string;
+}
+
+const MAX_X_LABELS = 6;
+
+export default function LineChart({
+  labels,
+  series,
+  height = 200,
+  formatValue = (value) => value.toLocaleString(),
+  area = true,
+  className,
+}: LineChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const count = labels.length;
+  const max = niceMax(Math.max(0, ...series.flatMap((line) => line.values)));
+  const width = Math.max(1, count - 1);
+  const x = (index: number) => (count > 1 ? index : 0.5);
+  const y = (value: number) => 100 - (value / max) * 100;
+
+  const labelStep = Math.max(1, Math.ceil(count / MAX_X_LABELS));
+  const colored = series.map((line, index) => ({
+    ...line,
+    color: line.color ?? CHART_COLORS[index % CHART_COLORS.length],
+  }));
+
+  return (
+    <div className={cn("w-full", className)}>
+      {colored.length > 1 && (
+        <div className="mb-3 flex flex-wrap gap-4 text-xs">
+          {colored.map((line) => (
+            <span key={line.name} className="flex items-center gap-1.5 opacity-80">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: line.color }} />
+              {line.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {/* Y axis */}
+        <div
+          className="flex flex-col justify-between text-right text-[11px] tabular-nums opacity-50"
+          style={{ height }}
+        >
+          <span className="-translate-y-1/2">{formatValue(max)}</span>
+          <span>{formatValue(max / 2)}</span>
+          <span className="translate-y-1/2">0</span>
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div className="relative" style={{ height }} onMouseLeave={() => setHovered(null)}>
+            {/* Grid */}
+            {[0, 50, 100].map((top) => (
+              <div
+                key={top}
+                className="absolute inset-x-0 border-t border-current opacity-10"
+                style={{ top: `${top}%` }}
+              />
+            ))}
+
+            <svg
+              viewBox={`0 0 ${width} 100`}
+              preserveAspectRatio="none"
+              className="absolute inset-0 h-full w-full overflow-visible"
+              aria-hidden
+            >
+              {colored.map((line) => {
+                if (line.values.length === 0) return null;
+                const points = line.values.map((value, index) => `${x(index)},${y(value)}`);
+                return (
+                  <g key={line.name}>
+                    {area && count > 1 && (
+                      <polygon
+                        points={`0,100 ${points.join(" ")} ${width},100`}
+                        fill={line.color}
+                        opacity={0.08}
+                      />
+                    )}
+                    <polyline
+                      points={points.join(" ")}
+                      fill="none"
+                      stroke={line.color}
+                      strokeWidth={2}
+                      strokeLinejoin="round"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </g>
+                );
+              })}
+            </svg>
+
+            {/* Hover marker and tooltip */}
+            {hovered !== null && (
+              <>
+                <div
+                  className="pointer-events-none absolute inset-y-0 border-l border-dashed border-current opacity-30"
+                  style={{ left: `${(x(hovered) / width) * 100}%` }}
+                />
+                {colored.map((line) => (
+                  <span
+                    key={line.name}
+                    className="pointer-events-none absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white"
+                    style={{
+                      left: `${(x(hovered) / width) * 100}%`,
+                      top: `${y(line.values[hovered] ?? 0)}%`,
+                      backgroundColor: line.color,
+                    }}
+                  />
+                ))}
+                <div
+                  className={cn(
+                    "pointer-events-none absolute top-0 z-10 rounded-lg bg-gray-900 px-3 py-2 text-xs text-white shadow-lg",
+                    hovered > count / 2 ? "-translate-x-full -ml-2" : "ml-2"
+                  )}
+                  style={{ left: `${(x(hovered) / width) * 100}%` }}
+                >
+                  <p className="mb-1 font-medium">{labels[hovered]}</p>
+                  {colored.map((line) => (
+                    <p key={line.name} className="flex items-center gap-1.5 whitespace-nowrap">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: line.color }} />
+                      {line.name}: {formatValue(line.values[hovered] ?? 0)}
+                    </p>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {/* Hit areas, one per point */}
+            <div className="absolute inset-0 flex">
+              {labels.map((label, index) => (
+                <div
+                  key={`${label}-${index}`}
+                  className="h-full flex-1"
+                  onMouseEnter={() => setHovered(index)}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* X axis */}
+          <div className="relative mt-2 h-4 text-[11px] opacity-50">
+            {labels.map((label, index) =>
+              index % labelStep === 0 ? (
+                <span
+                  key={`${label}-${index}`}
+                  className="absolute -translate-x-1/2 whitespace-nowrap"
+                  style={{ left: `${(x(index) / width) * 100}%` }}
+                >
+                  {label}
+                </span>
+              ) : null
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
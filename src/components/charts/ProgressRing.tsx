@@ -0,0 +1,64 @@
+/**
+ * @file src/components/charts/ProgressRing.tsx
+ * @description Circular progress indicator with the percentage in the middle
+ */
+
+import { cn } from "@/lib/utils";
+import { CHART_COLORS } from "./chartUtils";
+
+interface ProgressRingProps {
+  // 0-100
+  value: number;
+  size?: number;
+  strokeWidth?: number;
+  color?: string;
+  className?: string;
+}
+
+export default function ProgressRing({
+  value,
+  size = 96,
+  strokeWidth = 8,
+  color = CHART_COLORS[0],
+  className,
+}: ProgressRingProps) {
+  const clamped = Math.min(100, Math.max(0, value));
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <div
+      className={cn("relative inline-flex items-center justify-center", className)}
+      style={{ width: size, height: size }}
+      role="progressbar"
+      aria-valuenow={Math.round(clamped)}
+      aria-valuemin={0}
+      aria-valuemax={100}
+    >
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke="currentColor"
+          strokeOpacity={0.1}
+          strokeWidth={strokeWidth}
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped / 100)}
+          className="transition-all duration-500"
+        />
+      </svg>
+      <span className="absolute text-lg font-bold tabular-nums">{Math.round(clamped)}%</span>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * @file src/components/charts/chartUtils.ts
+ * @description Shared palette and scale helpers for the chart components
+ */
+
+// Blue, emerald, amber, violet, rose, cyan
+export const CHART_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#8b5cf6", "#f43f5e", "#06b6d4"];
+
+/**
+ * Round an axis maximum up to 1, 2 or 5 times a power of ten, so gridline
+ * labels stay readable (e.g. 37 -> 50, 120 -> 200). Never below 1.
+ */
+export function niceMax(value: number): number {
+  if (value <= 1) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
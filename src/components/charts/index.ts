@@ -0,0 +1,11 @@
+/**
+ * @file src/components/charts/index.ts
+ * @description Export all chart components
+ */
+
+export { default as BarList, type BarListItem } from "./BarList";
+export { default as CohortTable, type CohortRow } from "./CohortTable";
+export { default as FunnelChart, type FunnelChartStep } from "./FunnelChart";
+export { default as LineChart, type LineSeries } from "./LineChart";
+export { default as ProgressRing } from "./ProgressRing";
+export { CHART_COLORS, niceMax } from "./chartUtils";
@@ -0,0 +1,98 @@
+/**
+ * @file src/components/common/Markdown.tsx
+ * @description Compact markdown renderer for user-written text (recruiter notes, messages)
+ */
+
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+interface MarkdownProps {
+  content: string;
+  // "dark" inherits the text colour, for message bubbles on a dark background
+  variant?: "light" | "dark";
+}
+
+const themes = {
+  light: {
+    root: "text-gray-700",
+    link: "text-blue-600 hover:text-blue-700",
+    heading: "text-gray-900",
+    blockquote: "border-gray-300 text-gray-500",
+    code: "bg-gray-100 text-gray-800",
+    pre: "bg-gray-100",
+  },
+  dark: {
+    root: "",
+    link: "opacity-90 hover:opacity-100",
+    heading: "",
+    blockquote: "border-current/30 opacity-75",
+    code: "bg-black/25",
+    pre: "bg-black/25",
+  },
+};
+
+export default function Markdown({ content, variant = "light" }: MarkdownProps) {
+  const theme = themes[variant];
+  const heading = `mb-1 font-semibold ${theme.heading}`;
+
+  return (
+    <div className={`text-sm break-words ${theme.root}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        skipHtml
+        components={{
+          p: ({ children }) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
+          a: ({ href, children }) => (
+            <a
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`underline underline-offset-2 ${theme.link}`}
+            >
+              {children}
+            </a>
+          ),
+          // Loading an image would tell whoever hosts it the reader's IP and when they read
+          // the text, so images stay links until the reader chooses to open one
+          img: ({ src, alt }) =>
+            typeof src === "string" && src ? (
+              <a
+                href={src}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`underline underline-offset-2 ${theme.link}`}
+              >
+                {alt ? `Image: ${alt}` : "Image"}
+              </a>
+            ) : null,
+          ul: ({ children }) => (
+            <ul className="mb-2 list-inside list-disc space-y-0.5">{children}</ul>
+          ),
+          ol: ({ children }) => (
+            <ol className="mb-2 list-inside list-decimal space-y-0.5">{children}</ol>
+          ),
+          h1: ({ children }) => <p className={heading}>{children}</p>,
+          h2: ({ children }) => <p className={heading}>{children}</p>,
+          h3: ({ children }) => <p className={heading}>{children}</p>,
+          blockquote: ({ children }) => (
+            <blockquote className={`mb-2 border-l-2 pl-3 ${theme.blockquote}`}>
+              {children}
+            </blockquote>
+          ),
+          code: ({ children }) => (
+            <code className={`rounded px-1 py-0.5 font-mono text-xs ${theme.code}`}>
+              {children}
+            </code>
+          ),
+          pre: ({ children }) => (
+            <pre className={`mb-2 overflow-x-auto rounded-lg p-3 text-xs ${theme.pre}`}>
+              {children}
+            </pre>
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
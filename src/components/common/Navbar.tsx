@@ -10,6 +10,10 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { motion, AnimatePresence, type Variants } from "framer-motion";
 import { useAuthStore } from "@/store/authStore";
+import { useNotificationStore } from "@/store/notificationStore";
+import { useMessageStore } from "@/store/messageStore";
+import { useOnClickOutside } from "@/hooks/useOnClickOutside";
+import NotificationBell from "@/components/notifications/NotificationBell";
 import {
   Menu,
   X,
@@ -23,6 +27,11 @@ import {
   ChevronDown,
   Shield,
   Sparkles,
+  Bell,
+  Bookmark,
+  Flag,
+  Mail,
+  LayoutDashboard,
 } from "lucide-react";
 
 const pop = {
@@ -47,24 +56,11 @@ const fade = {
   exit: { opacity: 0, transition: { duration: 0.12, ease: "easeIn" } },
 } satisfies Variants;
 
-function useOnClickOutside(
-  refs: Array<React.RefObject<HTMLElement | null>>,
-  handler: () => void
-) {
-  useEffect(() => {
-    const onDown = (e: MouseEvent) => {
-      const target = e.target as Node;
-      if (refs.some((r) => r.current && r.current.contains(target))) return;
-      handler();
-    };
-    document.addEventListener("mousedown", onDown);
-    return () => document.removeEventListener("mousedown", onDown);
-  }, [refs, handler]);
-}
-
 export default function Navbar() {
   const pathname = usePathname();
   const { user, isAuthenticated, logout, isLoading } = useAuthStore();
+  const unreadCount = useNotificationStore((state) => state.unreadCount);
+  const unreadMessages = useMessageStore((state) => state.unreadCount);
 
   const [mobileOpen, setMobileOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
@@ -142,100 +138,126 @@ export default function Navbar() {
             {isLoading ? (
               <div className="h-9 w-9 rounded-full bg-white/10 animate-pulse" />
             ) : isAuthenticated && user ? (
-              <div className="relative" ref={userMenuRef}>
-                <button
-                  type="button"
-                  onClick={() => setUserMenuOpen((v) => !v)}
-                  className="group inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+              <>
+                <Link
+                  href="/messages"
+                  className="relative inline-flex h-10 w-10 items-center justify-center rounded-2xl border border-white/10 bg-white/5 text-white/80 hover:bg-white/10 hover:text-white"
+                  aria-label={
+                    unreadMessages > 0 ? `Messages (${unreadMessages} unread)` : "Messages"
+                  }
                 >
-                  {user.avatar ? (
-                    <img
-                      src={user.avatar}
-                      alt={user.username}
-                      className="h-8 w-8 rounded-full object-cover border border-white/10"
-                    />
-                  ) : (
-                    <div className="grid h-8 w-8 place-items-center rounded-full bg-gradient-to-br from-sky-500/60 to-fuchsia-500/30 text-sm font-semibold text-white">
-                      {user.username?.charAt(0).toUpperCase()}
-                    </div>
+                  <Mail size={18} />
+                  {unreadMessages > 0 && (
+                    <span className="absolute -right-1 -top-1 grid min-w-[18px] place-items-center rounded-full bg-gradient-to-r from-sky-500 to-fuchsia-500 px-1 text-[10px] font-bold leading-[18px] text-white">
+                      {unreadMessages > 99 ? "99+" : unreadMessages}
+                    </span>
                   )}
-                  <span className="max-w-[140px] truncate font-medium">
-                    {user.username}
-                  </span>
-                  <ChevronDown
-                    size={16}
-                    className={[
-                      "text-white/55 transition-transform",
-                      userMenuOpen ? "rotate-180" : "",
-                    ].join(" ")}
-                  />
-                </button>
+                </Link>
+                <NotificationBell />
+                <div className="relative" ref={userMenuRef}>
+                  <button
+                    type="button"
+                    onClick={() => setUserMenuOpen((v) => !v)}
+                    className="group inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+                  >
+                    {user.avatar ? (
+                      <img
+                        src={user.avatar}
+                        alt={user.username}
+                        className="h-8 w-8 rounded-full object-cover border border-white/10"
+                      />
+                    ) : (
+                      <div className="grid h-8 w-8 place-items-center rounded-full bg-gradient-to-br from-sky-500/60 to-fuchsia-500/30 text-sm font-semibold text-white">
+                        {user.username?.charAt(0).toUpperCase()}
+                      </div>
+                    )}
+                    <span className="max-w-[140px] truncate font-medium">
+                      {user.username}
+                    </span>
+                    <ChevronDown
+                      size={16}
+                      className={[
+                        "text-white/55 transition-transform",
+                        userMenuOpen ? "rotate-180" : "",
+                      ].join(" ")}
+                    />
+                  </button>
 
-                <AnimatePresence>
-                  {userMenuOpen && (
-                    <motion.div
-                      initial="hidden"
-                      animate="visible"
-                      exit="exit"
-                      variants={pop}
-                      className="absolute right-0 mt-3 w-64 overflow-hidden rounded-2xl border border-white/10 bg-[#070A12]/95 shadow-[0_30px_120px_-60px_rgba(0,0,0,0.9)] backdrop-blur-md"
-                    >
-                      <div className="px-4 py-3 border-b border-white/10">
-                        <div className="text-sm font-semibold text-white/90">
-                          @{user.username}
-                        </div>
-                        <div className="mt-0.5 text-xs text-white/55">
-                          {user.email}
+                  <AnimatePresence>
+                    {userMenuOpen && (
+                      <motion.div
+                        initial="hidden"
+                        animate="visible"
+                        exit="exit"
+                        variants={pop}
+                        className="absolute right-0 mt-3 w-64 overflow-hidden rounded-2xl border border-white/10 bg-[#070A12]/95 shadow-[0_30px_120px_-60px_rgba(0,0,0,0.9)] backdrop-blur-md"
+                      >
+                        <div className="px-4 py-3 border-b border-white/10">
+                          <div className="text-sm font-semibold text-white/90">
+                            @{user.username}
+                          </div>
+                          <div className="mt-0.5 text-xs text-white/55">
+                            {user.email}
+                          </div>
                         </div>
-                      </div>
 
-                      <div className="py-2">
-                        <NavItem href="/profile" icon={User} label="Profile" />
-                        {user.role === "RECRUITER" && (
+                        <div className="py-2">
+                          <NavItem href="/profile" icon={User} label="Profile" />
+                          {user.role === "RECRUITER" && (
+                            <NavItem
+                              href="/my-jobs"
+                              icon={Briefcase}
+                              label="My Jobs"
+                            />
+                          )}
+                          {user.role === "DEVELOPER" && (
+                            <NavItem
+                              href="/dashboard"
+                              icon={LayoutDashboard}
+                              label="Dashboard"
+                            />
+                          )}
+                          {user.role === "DEVELOPER" && (
+                            <NavItem
+                              href="/my-applications"
+                              icon={Briefcase}
+                              label="My Applications"
+                            />
+                          )}
+                          <NavItem href="/saved" icon={Bookmark} label="Saved" />
+                          <NavItem href="/my-reports" icon={Flag} label="My Reports" />
+                          {user.role === "ADMIN" && (
+                            <NavItem
+                              href="/admin"
+                              icon={Shield}
+                              label="Admin Dashboard"
+                            />
+                          )}
                           <NavItem
-                            href="/my-jobs"
-                            icon={Briefcase}
-                            label="My Jobs"
+                            href="/settings"
+                            icon={Settings}
+                            label="Settings"
                           />
-                        )}
-                        {user.role === "DEVELOPER" && (
-                          <NavItem
-                            href="/my-applications"
-                            icon={Briefcase}
-                            label="My Applications"
-                          />
-                        )}
-                        {user.role === "ADMIN" && (
-                          <NavItem
-                            href="/admin"
-                            icon={Shield}
-                            label="Admin Dashboard"
-                          />
-                        )}
-                        <NavItem
-                          href="/settings"
-                          icon={Settings}
-                          label="Settings"
-                        />
-                      </div>
+                        </div>
 
-                      <div className="border-t border-white/10 p-2">
-                        <button
-                          type="button"
-                          onClick={() => {
-                            logout();
-                            setUserMenuOpen(false);
-                          }}
-                          className="flex w-full items-center gap-2 rounded-xl px-3 py-2 text-sm font-medium text-red-300 hover:bg-red-500/10"
-                        >
-                          <LogOut size={16} />
-                          Logout
-                        </button>
-                      </div>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </div>
+                        <div className="border-t border-white/10 p-2">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              logout();
+                              setUserMenuOpen(false);
+                            }}
+                            className="flex w-full items-center gap-2 rounded-xl px-3 py-2 text-sm font-medium text-red-300 hover:bg-red-500/10"
+                          >
+                            <LogOut size={16} />
+                            Logout
+                          </button>
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </div>
+              </>
             ) : (
               <>
                 <Link
@@ -301,6 +323,52 @@ export default function Navbar() {
                       </Link>
                     );
                   })}
+                  {isAuthenticated && (
+                    <Link
+                      href="/messages"
+                      className={[
+                        "flex items-center gap-3 rounded-xl px-3 py-2 text-sm font-medium",
+                        isActive("/messages")
+                          ? "bg-white/10 text-white"
+                          : "text-white/75 hover:bg-white/10 hover:text-white",
+                      ].join(" ")}
+                    >
+                      <Mail
+                        size={18}
+                        className={isActive("/messages") ? "text-sky-300" : "text-white/55"}
+                      />
+                      Messages
+                      {unreadMessages > 0 && (
+                        <span className="ml-auto rounded-full bg-white px-2 py-0.5 text-xs font-semibold text-black">
+                          {unreadMessages > 99 ? "99+" : unreadMessages}
+                        </span>
+                      )}
+                    </Link>
+                  )}
+                  {isAuthenticated && (
+                    <Link
+                      href="/notifications"
+                      className={[
+                        "flex items-center gap-3 rounded-xl px-3 py-2 text-sm font-medium",
+                        isActive("/notifications")
+                          ? "bg-white/10 text-white"
+                          : "text-white/75 hover:bg-white/10 hover:text-white",
+                      ].join(" ")}
+                    >
+                      <Bell
+                        size={18}
+                        className={
+                          isActive("/notifications") ? "text-sky-300" : "text-white/55"
+                        }
+                      />
+                      Notifications
+                      {unreadCount > 0 && (
+                        <span className="ml-auto rounded-full bg-white px-2 py-0.5 text-xs font-semibold text-black">
+                          {unreadCount > 99 ? "99+" : unreadCount}
+                        </span>
+                      )}
+                    </Link>
+                  )}
                 </div>
 
                 {!isAuthenticated && !isLoading && (
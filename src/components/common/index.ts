@@ -17,3 +17,4 @@ export { default as Card, CardHeader, CardBody, CardFooter } from "./Card";
 export { default as Avatar } from "./Avatar";
 export { default as Badge, SkillBadge } from "./Badge";
 export { default as ErrorState } from "./ErrorState";
+export { default as Markdown } from "./Markdown";
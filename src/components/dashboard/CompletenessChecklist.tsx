@@ -0,0 +1,88 @@
+/**
+ * @file src/components/dashboard/CompletenessChecklist.tsx
+ * @description Profile completeness ring plus the steps still missing, each linking to where it's fixed
+ */
+
+import Link from "next/link";
+import { CheckCircle2, ChevronRight, Circle } from "lucide-react";
+import { ProgressRing } from "@/components/charts";
+import type { ProfileCompleteness } from "@/types";
+
+interface CompletenessChecklistProps {
+  completeness: ProfileCompleteness;
+  username: string;
+}
+
+interface ChecklistItem {
+  label: string;
+  hint: string;
+  href: (username: string) => string;
+}
+
+const editProfile = (username: string) => `/profile/${encodeURIComponent(username)}`;
+
+// Keys as returned in `missingFields`; unknown keys fall back to a generic item
+const CHECKLIST_ITEMS: Record<string, ChecklistItem> = {
+  avatar: { label: "Add a profile photo", hint: "Profiles with a photo get more views", href: editProfile },
+  headline: { label: "Write a headline", hint: "One line recruiters see in search", href: editProfile },
+  bio: { label: "Write a bio", hint: "A few sentences about what you build", href: editProfile },
+  skills: { label: "Add your skills", hint: "Skills drive your job matches", href: editProfile },
+  yearsOfExperience: { label: "Add your experience", hint: "Used for job matching", href: editProfile },
+  location: { label: "Add your location", hint: "Helps with on-site and hybrid roles", href: editProfile },
+  preferredWorkTypes: { label: "Pick preferred work types", hint: "Remote, hybrid or on-site", href: editProfile },
+  githubUsername: { label: "Connect GitHub", hint: "Show your open-source work", href: editProfile },
+  pinnedRepos: { label: "Pin repositories", hint: "Showcase your best projects", href: () => "/search" },
+  portfolioUrl: { label: "Link your portfolio", hint: "Point recruiters at your work", href: editProfile },
+  linkedinUrl: { label: "Link LinkedIn", hint: "Recruiters often check it", href: editProfile },
+};
+
+// "githubUsername" -> "Add github username"
+const fallbackItem = (field: string): ChecklistItem => ({
+  label: `Add ${field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase()}`,
+  hint: "Missing from your profile",
+  href: editProfile,
+});
+
+export default function CompletenessChecklist({ completeness, username }: CompletenessChecklistProps) {
+  const missing = completeness.missingFields.map((field) => ({
+    field,
+    ...(CHECKLIST_ITEMS[field] ?? fallbackItem(field)),
+  }));
+
+  return (
+    <div className="flex flex-col gap-6 sm:flex-row sm:items-start">
+      <ProgressRing
+        value={completeness.completeness}
+        color={completeness.completeness >= 100 ? "#10b981" : "#3b82f6"}
+        className="mx-auto flex-shrink-0 text-gray-900 sm:mx-0"
+      />
+
+      {missing.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 size={18} />
+          Your profile is complete. Keep it fresh as your skills grow.
+        </div>
+      ) : (
+        <ul className="flex-1 divide-y divide-gray-100">
+          {missing.map((item) => (
+            <li key={item.field}>
+              <Link
+                href={item.href(username)}
+                className="group flex items-center gap-3 py-2.5 text-sm"
+              >
+                <Circle size={16} className="flex-shrink-0 text-gray-300" />
+                <span className="flex-1">
+                  <span className="font-medium text-gray-900 group-hover:text-blue-600">
+                    {item.label}
+                  </span>
+                  <span className="block text-xs text-gray-500">{item.hint}</span>
+                </span>
+                <ChevronRight size={16} className="text-gray-400 group-hover:text-blue-600" />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * @file src/components/dashboard/StatCard.tsx
+ * @description Headline number for a dashboard, with an optional note and
+ * period-over-period change underneath
+ */
+
+import { ArrowDownRight, ArrowUpRight, type LucideIcon } from "lucide-react";
+import { formatChange } from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+
+interface StatCardProps {
+  label: string;
+  value: number | string;
+  icon: LucideIcon;
+  note?: string;
+  // Change vs the previous period as a fraction (see percentChange); null hides it
+  change?: number | null;
+  // Color a drop green instead of red, e.g. for reports
+  lowerIsBetter?: boolean;
+  // Tailwind text color for the icon and value
+  accent?: string;
+  className?: string;
+}
+
+export default function StatCard({
+  label,
+  value,
+  icon: Icon,
+  note,
+  change,
+  lowerIsBetter = false,
+  accent = "text-gray-900",
+  className,
+}: StatCardProps) {
+  const hasChange = typeof change === "number";
+
+  return (
+    <div className={cn("bg-white rounded-lg border border-gray-200 p-4", className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">{label}</p>
+        <Icon size={16} className={cn("opacity-70", accent)} />
+      </div>
+      <p className={cn("mt-1 text-2xl font-bold tabular-nums", accent)}>
+        {typeof value === "number" ? value.toLocaleString() : value}
+      </p>
+      {(note || hasChange) && (
+        <p className="mt-1 flex flex-wrap items-center gap-x-2 text-xs text-gray-500">
+          {hasChange && (
+            <span
+              className={cn(
+                "inline-flex items-center font-medium",
+                change === 0
+                  ? "text-gray-500"
+                  : change > 0 !== lowerIsBetter
+                    ? "text-emerald-600"
+                    : "text-red-600"
+              )}
+            >
+              {change > 0 && <ArrowUpRight size={12} />}
+              {change < 0 && <ArrowDownRight size={12} />}
+              {formatChange(change)}
+            </span>
+          )}
+          {note}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @file src/components/dashboard/index.ts
+ * @description Export all dashboard components
+ */
+
+export { default as CompletenessChecklist } from "./CompletenessChecklist";
+export { default as StatCard } from "./StatCard";
@@ -9,7 +9,10 @@ import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import toast from "react-hot-toast";
-import { githubAPI, reviewAPINew, developerAPI } from "@/lib/api";
+import { githubService } from "@/services/githubService";
+import { reviewService } from "@/services/reviewService";
+import { developerService } from "@/services/developerService";
+import type { Review } from "@/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { PageLoading } from "@/components/common";
 import RepoHeader from "./RepoHeader";
@@ -44,19 +47,6 @@ interface RepoData {
   lastSyncedAt: string;
 }
 
-interface Review {
-  _id: string;
-  rating: number;
-  title: string;
-  content: string;
-  reviewer: {
-    _id: string;
-    username: string;
-    avatar: string | null;
-  };
-  createdAt: string;
-}
-
 function GlassCard({
   children,
   className = "",
@@ -119,11 +109,11 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
         let repoData: any;
 
         if (repoId.includes("/")) {
-          const repoResponse = await githubAPI.getRepoByFullName(repoId);
-          repoData = repoResponse.data?.data || repoResponse.data;
+          const repoResponse = await githubService.getRepoByFullName(repoId);
+          repoData = repoResponse.data;
         } else {
-          const repoResponse = await githubAPI.getRepo(repoId);
-          repoData = repoResponse.data?.data || repoResponse.data;
+          const repoResponse = await githubService.getRepo(repoId);
+          repoData = repoResponse.data;
         }
 
         if (!repoData) throw new Error("Repository not found");
@@ -168,10 +158,10 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
         // Fetch README if not included - USE fullName, not _id
         if (!mappedData.readme && mappedData.fullName) {
           try {
-            const readmeResponse = await githubAPI.getReadme(
+            const readmeResponse = await githubService.getReadme(
               mappedData.fullName
             );
-            const readmeData = readmeResponse.data?.data || readmeResponse.data;
+            const readmeData = readmeResponse.data;
             mappedData.readme =
               readmeData?.readme || readmeData?.content || null;
           } catch {
@@ -190,20 +180,14 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
         // Fetch reviews
         if (isValidMongoId) {
           try {
-            const reviewsResponse = await reviewAPINew.getByRepo(
+            const reviewsResponse = await reviewService.getRepoReviews(
               mappedData._id
             );
-            const reviewsData =
-              reviewsResponse.data?.data?.reviews ||
-              reviewsResponse.data?.data ||
-              [];
-
-            const mappedReviews = Array.isArray(reviewsData)
-              ? reviewsData.map((r: any) => ({
-                  ...r,
-                  reviewer: r.reviewer || r.author || null,
-                }))
-              : [];
+
+            const mappedReviews = reviewsResponse.data.items.map((r) => ({
+              ...r,
+              reviewer: r.reviewer || r.author || null,
+            }));
 
             setReviews(mappedReviews);
 
@@ -221,12 +205,11 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
           // Check if repo is pinned (only for authenticated developers)
           if (isAuthenticated && user?.role === "DEVELOPER") {
             try {
-              const pinnedResponse = await developerAPI.getPinnedRepos(
+              const pinnedResponse = await developerService.getPinnedRepos(
                 user.username
               );
-              const pinnedRepos = pinnedResponse.data?.data?.pinnedRepos || [];
-              const isRepoPinned = pinnedRepos.some(
-                (r: any) => r._id === mappedData._id
+              const isRepoPinned = pinnedResponse.data.some(
+                (r) => r._id === mappedData._id
               );
               setIsPinned(isRepoPinned);
             } catch (pinnedError) {
@@ -271,8 +254,8 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
       throw new Error("Invalid repository ID");
     }
 
-    const response = await reviewAPINew.createForRepo(mongoId, data);
-    const newReview = response.data?.data || response.data;
+    const response = await reviewService.createRepoReview(mongoId, data);
+    const newReview = response.data;
 
     const mappedReview = {
       ...newReview,
@@ -289,8 +272,8 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
     reviewId: string,
     data: { rating: number; title: string; content: string }
   ) => {
-    const response = await reviewAPINew.update(reviewId, data);
-    const updatedReview = response.data?.data || response.data;
+    const response = await reviewService.updateReview(reviewId, data);
+    const updatedReview = response.data;
 
     const mappedReview = {
       ...updatedReview,
@@ -307,7 +290,7 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
   // Handle review delete
   const handleReviewDelete = async (reviewId: string) => {
     try {
-      await reviewAPINew.delete(reviewId);
+      await reviewService.deleteReview(reviewId);
       setReviews((prev) => prev.filter((r) => r._id !== reviewId));
       setUserReview(null);
       toast.success("Review deleted");
@@ -336,11 +319,11 @@ export default function DetailsContainer({ repoId }: { repoId: string }) {
 
     try {
       if (isPinned) {
-        await developerAPI.unpinRepo(mongoId);
+        await developerService.unpinRepo(mongoId);
         setIsPinned(false);
         toast.success("Unpinned from profile");
       } else {
-        await developerAPI.pinRepo(mongoId);
+        await developerService.pinRepo(mongoId);
         setIsPinned(true);
         toast.success("Pinned to profile!");
       }
@@ -10,6 +10,9 @@ import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import { FiSend, FiTrash2, FiUser, FiMessageCircle } from "react-icons/fi";
 import { Avatar, Button, Textarea } from "@/components/common";
+import { ReportButton } from "@/components/reports";
+import { SuspendedNotice } from "@/components/account";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
 import { formatRelativeTime } from "@/lib/utils";
 
 interface Comment {
@@ -68,6 +71,7 @@ export default function RepoComments({
 }: RepoCommentsProps) {
   const [content, setContent] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isSuspended } = useAccountStatus();
 
   const easeOut = useMemo(() => [0.16, 1, 0.3, 1] as const, []);
 
@@ -107,7 +111,9 @@ export default function RepoComments({
       </div>
 
       {/* Comment Form */}
-      {isAuthenticated ? (
+      {isAuthenticated && isSuspended ? (
+        <SuspendedNotice compact action="comment" />
+      ) : isAuthenticated ? (
         <GlassPanel className="p-5 sm:p-6">
           <form onSubmit={handleSubmit} className="space-y-4">
             {/* If your shared Textarea component forces light styles, this wrapper still helps,
@@ -219,7 +225,7 @@ export default function RepoComments({
                             </div>
                           </div>
 
-                          {isMine && (
+                          {isMine ? (
                             <button
                               onClick={() => onDelete(comment._id)}
                               className="shrink-0 inline-flex items-center justify-center rounded-xl border border-white/10 bg-white/5 p-2 text-white/60 hover:text-red-200 hover:bg-red-500/10 hover:border-red-500/30 transition"
@@ -228,6 +234,16 @@ export default function RepoComments({
                             >
                               <FiTrash2 className="h-4 w-4" />
                             </button>
+                          ) : (
+                            <ReportButton
+                              target={{
+                                targetType: "COMMENT",
+                                targetId: comment._id,
+                                label: `Comment by @${comment.author.username}`,
+                              }}
+                              tone="dark"
+                              className="shrink-0"
+                            />
                           )}
                         </div>
 
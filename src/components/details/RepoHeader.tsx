@@ -18,6 +18,7 @@ import {
   FiArrowLeft,
 } from "react-icons/fi";
 import { Button, Badge } from "@/components/common";
+import { BookmarkButton } from "@/components/bookmarks";
 import { useToast } from "@/contexts/ToastContext";
 
 interface RepoHeaderProps {
@@ -136,6 +137,7 @@ export default function RepoHeader({
   const topics = Array.isArray(repo?.topics) ? repo.topics : [];
   const htmlUrl =
     repo?.htmlUrl || `https://github.com/${ownerLogin}/${repoName}`;
+  const fullName = repo?.fullName || `${ownerLogin}/${repoName}`;
 
   return (
     <header className="relative overflow-hidden bg-[#070A12]">
@@ -186,7 +188,7 @@ export default function RepoHeader({
               <div className="mt-3 flex flex-wrap items-center gap-2">
                 <span className="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/[0.04] px-3 py-1 text-xs text-white/70">
                   <FiGithub className="h-4 w-4 text-white/70" />
-                  {repo.fullName || `${ownerLogin}/${repoName}`}
+                  {fullName}
                 </span>
 
                 {reviewCount > 0 && (
@@ -279,6 +281,18 @@ export default function RepoHeader({
                     </Button>
                   )}
 
+                  <BookmarkButton
+                    target={{
+                      type: "REPO",
+                      targetId: fullName,
+                      title: fullName,
+                      subtitle: description || undefined,
+                      href: `/details/${fullName}`,
+                    }}
+                    tone="dark"
+                    showLabel
+                  />
+
                   <Button
                     variant="ghost"
                     className="p-2 rounded-xl text-white/80 hover:text-white hover:bg-white/10"
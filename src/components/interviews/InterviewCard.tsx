@@ -0,0 +1,283 @@
+/**
+ * @file src/components/interviews/InterviewCard.tsx
+ * @description Interview status with slot picking, reschedule/cancel actions
+ * and calendar download, for either side of the application
+ */
+
+"use client";
+
+import { useState } from "react";
+import { FiCalendar, FiCheck, FiDownload, FiRefreshCw, FiXCircle } from "react-icons/fi";
+import { interviewService } from "@/services";
+import { downloadIcs } from "@/lib/ics";
+import { Badge, Button, Input } from "@/components/common";
+import { formatTimeRange, getLocalTimeZone } from "@/utils/formatters";
+import type { Interview } from "@/types";
+import {
+  INTERVIEW_FORMAT_CONFIG,
+  INTERVIEW_STATUS_CONFIG,
+  buildInterviewIcs,
+  getSelectedSlot,
+  interviewIcsFilename,
+} from "./interviewConfig";
+
+interface InterviewCardProps {
+  interview: Interview;
+  viewer: "RECRUITER" | "DEVELOPER";
+  onUpdated: (interview: Interview) => void;
+  // Recruiter only: open the slot form pre-filled from this interview
+  onProposeNewTimes?: () => void;
+  className?: string;
+}
+
+type ReasonMode = "reschedule" | "cancel" | null;
+
+export default function InterviewCard({
+  interview,
+  viewer,
+  onUpdated,
+  onProposeNewTimes,
+  className = "",
+}: InterviewCardProps) {
+  const [pickedSlotId, setPickedSlotId] = useState("");
+  const [reasonMode, setReasonMode] = useState<ReasonMode>(null);
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const localZone = getLocalTimeZone();
+  const otherZone = interview.timeZone !== localZone ? interview.timeZone : null;
+  const status = INTERVIEW_STATUS_CONFIG[interview.status];
+  const format = INTERVIEW_FORMAT_CONFIG[interview.format];
+  const FormatIcon = format.icon;
+  const selectedSlot = getSelectedSlot(interview);
+  const isDeveloper = viewer === "DEVELOPER";
+  const isOpen = interview.status !== "CANCELLED";
+  const otherName = isDeveloper ? interview.recruiter.username : interview.applicant.username;
+
+  // The API client toasts failures; the card re-renders from the returned interview
+  const run = async (action: () => Promise<{ data: Interview }>) => {
+    setBusy(true);
+    try {
+      const res = await action();
+      onUpdated(res.data);
+      setReasonMode(null);
+      setReason("");
+      setPickedSlotId("");
+    } catch {
+      // handled by the API client
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSlot = () => {
+    if (!pickedSlotId) return;
+    run(() => interviewService.selectSlot(interview._id, pickedSlotId));
+  };
+
+  const submitReason = () => {
+    const trimmed = reason.trim() || undefined;
+    if (reasonMode === "cancel") {
+      run(() => interviewService.cancel(interview._id, trimmed));
+    } else if (reasonMode === "reschedule") {
+      run(() => interviewService.reschedule(interview._id, { reason: trimmed }));
+    }
+  };
+
+  const handleDownload = () => {
+    const ics = buildInterviewIcs(interview);
+    if (ics) downloadIcs(interviewIcsFilename(interview), ics);
+  };
+
+  const renderRange = (start: string, end: string) => (
+    <>
+      <span className="text-gray-900">{formatTimeRange(start, end, localZone)}</span>
+      {otherZone && (
+        <span className="block text-xs text-gray-500">
+          {formatTimeRange(start, end, otherZone)} for the recruiter
+        </span>
+      )}
+    </>
+  );
+
+  return (
+    <div className={`rounded-lg border border-gray-200 bg-gray-50 p-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <FiCalendar className="h-4 w-4 text-blue-600" />
+          Interview
+          <span className="flex items-center gap-1 font-normal text-gray-500">
+            · <FormatIcon className="h-3.5 w-3.5" /> {format.label}
+          </span>
+        </div>
+        <Badge variant={status.variant}>{status.label}</Badge>
+      </div>
+
+      {/* Scheduled time */}
+      {selectedSlot && interview.status === "SCHEDULED" && (
+        <p className="mt-3 text-sm">{renderRange(selectedSlot.start, selectedSlot.end)}</p>
+      )}
+
+      {/* Offered slots */}
+      {interview.status === "PROPOSED" && (
+        <div className="mt-3 space-y-2">
+          <p className="text-sm text-gray-600">
+            {isDeveloper
+              ? "Pick the time that works best for you:"
+              : `Waiting for ${otherName} to pick a time:`}
+          </p>
+          {interview.slots.map((slot) =>
+            isDeveloper ? (
+              <label
+                key={slot._id}
+                className={`flex cursor-pointer items-start gap-2 rounded-lg border bg-white p-2.5 text-sm transition ${
+                  pickedSlotId === slot._id
+                    ? "border-blue-500 ring-1 ring-blue-500"
+                    : "border-gray-200 hover:border-gray-300"
+                }`}
+              >
+                <input
+                  type="radio"
+                  name={`slot-${interview._id}`}
+                  checked={pickedSlotId === slot._id}
+                  onChange={() => setPickedSlotId(slot._id)}
+                  className="mt-0.5"
+                />
+                <span>{renderRange(slot.start, slot.end)}</span>
+              </label>
+            ) : (
+              <p key={slot._id} className="rounded-lg border border-gray-200 bg-white p-2.5 text-sm">
+                {renderRange(slot.start, slot.end)}
+              </p>
+            )
+          )}
+          {isDeveloper && (
+            <Button
+              size="sm"
+              onClick={confirmSlot}
+              disabled={!pickedSlotId}
+              isLoading={busy && !reasonMode}
+              leftIcon={<FiCheck />}
+            >
+              Confirm time
+            </Button>
+          )}
+        </div>
+      )}
+
+      {interview.status === "RESCHEDULE_REQUESTED" && (
+        <p className="mt-3 text-sm text-gray-600">
+          {isDeveloper
+            ? "You asked for other times. The recruiter will send new options."
+            : `${otherName} asked for other times.`}
+          {interview.rescheduleReason && (
+            <span className="mt-1 block italic text-gray-500">
+              &ldquo;{interview.rescheduleReason}&rdquo;
+            </span>
+          )}
+        </p>
+      )}
+
+      {interview.status === "CANCELLED" && (
+        <p className="mt-3 text-sm text-gray-600">
+          {interview.cancelledBy === viewer
+            ? "You cancelled this interview."
+            : `Cancelled by ${interview.cancelledBy === "RECRUITER" ? "the recruiter" : "the candidate"}.`}
+          {interview.cancelReason && (
+            <span className="mt-1 block italic text-gray-500">
+              &ldquo;{interview.cancelReason}&rdquo;
+            </span>
+          )}
+        </p>
+      )}
+
+      {(interview.location || interview.notes) && isOpen && (
+        <div className="mt-3 space-y-1 text-sm text-gray-600">
+          {interview.location && (
+            <p>
+              <span className="text-gray-500">{format.locationLabel}:</span>{" "}
+              {/^https?:\/\//.test(interview.location) ? (
+                <a
+                  href={interview.location}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline break-all"
+                >
+                  {interview.location}
+                </a>
+              ) : (
+                interview.location
+              )}
+            </p>
+          )}
+          {interview.notes && <p className="whitespace-pre-line">{interview.notes}</p>}
+        </div>
+      )}
+
+      {/* Reason prompt for reschedule/cancel */}
+      {reasonMode && (
+        <div className="mt-3 flex gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={
+              reasonMode === "cancel"
+                ? "Reason for cancelling (optional)"
+                : "Which times would suit you? (optional)"
+            }
+            maxLength={500}
+            autoFocus
+          />
+          <Button
+            size="sm"
+            variant={reasonMode === "cancel" ? "danger" : "primary"}
+            onClick={submitReason}
+            isLoading={busy}
+          >
+            {reasonMode === "cancel" ? "Cancel interview" : "Send"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setReasonMode(null)} disabled={busy}>
+            Back
+          </Button>
+        </div>
+      )}
+
+      {/* Actions */}
+      {!reasonMode && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {selectedSlot && (
+            <Button size="sm" variant="secondary" onClick={handleDownload} leftIcon={<FiDownload />}>
+              {interview.status === "CANCELLED" ? "Calendar cancellation" : "Add to calendar"}
+            </Button>
+          )}
+          {isOpen && isDeveloper && interview.status !== "RESCHEDULE_REQUESTED" && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setReasonMode("reschedule")}
+              leftIcon={<FiRefreshCw />}
+            >
+              Request other times
+            </Button>
+          )}
+          {isOpen && !isDeveloper && onProposeNewTimes && (
+            <Button size="sm" variant="ghost" onClick={onProposeNewTimes} leftIcon={<FiRefreshCw />}>
+              Propose new times
+            </Button>
+          )}
+          {isOpen && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setReasonMode("cancel")}
+              leftIcon={<FiXCircle />}
+              className="text-red-600 hover:bg-red-50"
+            >
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * @file src/components/interviews/ScheduleInterviewModal.tsx
+ * @description Recruiter form to propose interview time slots for an application
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { FiClock, FiPlus, FiTrash2, FiX } from "react-icons/fi";
+import { Button, Input, Textarea } from "@/components/common";
+import {
+  formatTimeZoneName,
+  fromDateTimeLocalValue,
+  getLocalTimeZone,
+  toDateTimeLocalValue,
+} from "@/utils/formatters";
+import type { Interview, InterviewFormat, InterviewProposal } from "@/types";
+import { INTERVIEW_DURATIONS, INTERVIEW_FORMAT_CONFIG } from "./interviewConfig";
+
+const MAX_SLOTS = 5;
+
+interface ScheduleInterviewModalProps {
+  open: boolean;
+  applicantName?: string;
+  // When proposing new times, the current interview pre-fills the form
+  interview?: Interview | null;
+  onClose: () => void;
+  onSubmit: (proposal: InterviewProposal) => Promise<boolean>;
+}
+
+type FormProps = Omit<ScheduleInterviewModalProps, "open">;
+
+interface SlotDraft {
+  key: number;
+  value: string;
+}
+
+let slotKey = 0;
+const newSlot = (value = ""): SlotDraft => ({ key: ++slotKey, value });
+
+// Next full hour tomorrow, a sensible first suggestion
+const defaultStart = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return toDateTimeLocalValue(date.toISOString());
+};
+
+const durationOf = (interview?: Interview | null) => {
+  const slot = interview?.slots[0];
+  if (!slot) return 45;
+  return Math.round((new Date(slot.end).getTime() - new Date(slot.start).getTime()) / 60000);
+};
+
+// Mounted only while open so every opening starts from a fresh form
+function ScheduleForm({ applicantName, interview, onClose, onSubmit }: FormProps) {
+  const [format, setFormat] = useState<InterviewFormat>(interview?.format ?? "VIDEO");
+  const [location, setLocation] = useState(interview?.location ?? "");
+  const [notes, setNotes] = useState(interview?.notes ?? "");
+  const [duration, setDuration] = useState(durationOf(interview));
+  const [slots, setSlots] = useState<SlotDraft[]>(() => [newSlot(defaultStart())]);
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const timeZone = getLocalTimeZone();
+  const durations = INTERVIEW_DURATIONS.includes(duration)
+    ? INTERVIEW_DURATIONS
+    : [...INTERVIEW_DURATIONS, duration].sort((a, b) => a - b);
+
+  // Close on Escape
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const updateSlot = (key: number, value: string) => {
+    setSlots((prev) => prev.map((slot) => (slot.key === key ? { ...slot, value } : slot)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const starts = slots.map((slot) => slot.value).filter(Boolean);
+    if (starts.length === 0) {
+      setError("Add at least one time slot.");
+      return;
+    }
+    if (new Set(starts).size !== starts.length) {
+      setError("Each time slot must be different.");
+      return;
+    }
+    if (starts.some((value) => new Date(value).getTime() <= Date.now())) {
+      setError("Time slots must be in the future.");
+      return;
+    }
+
+    setError("");
+    setSubmitting(true);
+    const ok = await onSubmit({
+      format,
+      location: location.trim() || undefined,
+      notes: notes.trim() || undefined,
+      timeZone,
+      slots: starts.sort().map((value) => {
+        const start = fromDateTimeLocalValue(value);
+        const end = new Date(new Date(start).getTime() + duration * 60000).toISOString();
+        return { start, end };
+      }),
+    });
+    setSubmitting(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.96 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.96 }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Schedule interview"
+      className="relative w-full max-w-lg overflow-hidden rounded-xl bg-white shadow-xl"
+    >
+      <form onSubmit={handleSubmit}>
+        <div className="flex items-start justify-between border-b border-gray-200 p-5">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {interview ? "Propose new times" : "Schedule interview"}
+            </h2>
+            {applicantName && (
+              <p className="text-sm text-gray-500">
+                {applicantName} picks one of the times you offer.
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <FiX className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="max-h-[70vh] space-y-5 overflow-y-auto p-5">
+          {/* Format */}
+          <div>
+            <span className="mb-1.5 block text-sm font-medium text-gray-700">Format</span>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(INTERVIEW_FORMAT_CONFIG) as InterviewFormat[]).map((key) => {
+                const config = INTERVIEW_FORMAT_CONFIG[key];
+                const Icon = config.icon;
+                return (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setFormat(key)}
+                    className={`flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition ${
+                      format === key
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-gray-200 text-gray-600 hover:border-gray-300"
+                    }`}
+                  >
+                    <Icon className="h-4 w-4" />
+                    {config.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <Input
+            label={`${INTERVIEW_FORMAT_CONFIG[format].locationLabel} (optional)`}
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            maxLength={300}
+          />
+
+          {/* Slots */}
+          <div className="space-y-2">
+            <div className="flex items-end justify-between gap-3">
+              <span className="block text-sm font-medium text-gray-700">Time slots</span>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <FiClock className="h-4 w-4" />
+                <select
+                  value={duration}
+                  onChange={(e) => setDuration(Number(e.target.value))}
+                  className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900"
+                >
+                  {durations.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes} min
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {slots.map((slot) => (
+              <div key={slot.key} className="flex items-center gap-2">
+                <input
+                  type="datetime-local"
+                  value={slot.value}
+                  onChange={(e) => updateSlot(slot.key, e.target.value)}
+                  aria-label="Slot start"
+                  className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setSlots((prev) => prev.filter((s) => s.key !== slot.key))}
+                  disabled={slots.length === 1}
+                  className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-40"
+                  aria-label="Remove slot"
+                >
+                  <FiTrash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+
+            {slots.length < MAX_SLOTS && (
+              <button
+                type="button"
+                onClick={() => setSlots((prev) => [...prev, newSlot()])}
+                className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                <FiPlus className="h-4 w-4" />
+                Add another time
+              </button>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Times are in your time zone, {formatTimeZoneName(timeZone)} ({timeZone}). The
+              candidate sees them in theirs.
+            </p>
+          </div>
+
+          <Textarea
+            label="Notes for the candidate (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            maxLength={1000}
+            placeholder="Who they'll meet, what to prepare…"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 p-4">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={submitting}>
+            {interview ? "Send new times" : "Send invitation"}
+          </Button>
+        </div>
+      </form>
+    </motion.div>
+  );
+}
+
+export default function ScheduleInterviewModal({ open, ...props }: ScheduleInterviewModalProps) {
+  return (
+    <AnimatePresence>
+      {open && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/40"
+            onClick={props.onClose}
+          />
+          <ScheduleForm {...props} />
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
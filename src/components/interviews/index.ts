@@ -0,0 +1,15 @@
+/**
+ * @file src/components/interviews/index.ts
+ * @description Export all interview components
+ */
+
+export { default as InterviewCard } from "./InterviewCard";
+export { default as ScheduleInterviewModal } from "./ScheduleInterviewModal";
+export {
+  INTERVIEW_STATUS_CONFIG,
+  INTERVIEW_FORMAT_CONFIG,
+  isActiveInterview,
+  latestByApplication,
+  getSelectedSlot,
+  buildInterviewIcs,
+} from "./interviewConfig";
@@ -0,0 +1,86 @@
+/**
+ * @file src/components/interviews/interviewConfig.ts
+ * @description Display config and helpers shared by the interview components
+ */
+
+import type { IconType } from "react-icons";
+import { FiMapPin, FiPhone, FiVideo } from "react-icons/fi";
+import { buildIcsEvent } from "@/lib/ics";
+import type { Interview, InterviewFormat, InterviewSlot, InterviewStatus } from "@/types";
+
+export const INTERVIEW_STATUS_CONFIG: Record<
+  InterviewStatus,
+  { label: string; variant: "default" | "primary" | "success" | "warning" | "danger" }
+> = {
+  PROPOSED: { label: "Awaiting time pick", variant: "warning" },
+  SCHEDULED: { label: "Scheduled", variant: "success" },
+  RESCHEDULE_REQUESTED: { label: "Reschedule requested", variant: "primary" },
+  CANCELLED: { label: "Cancelled", variant: "danger" },
+};
+
+export const INTERVIEW_FORMAT_CONFIG: Record<
+  InterviewFormat,
+  { label: string; icon: IconType; locationLabel: string }
+> = {
+  VIDEO: { label: "Video call", icon: FiVideo, locationLabel: "Meeting link" },
+  PHONE: { label: "Phone call", icon: FiPhone, locationLabel: "Phone number" },
+  ONSITE: { label: "On-site", icon: FiMapPin, locationLabel: "Address" },
+};
+
+export const INTERVIEW_DURATIONS = [15, 30, 45, 60, 90];
+
+// Interviews that still need something from someone
+export const isActiveInterview = (interview?: Interview | null): interview is Interview =>
+  !!interview && interview.status !== "CANCELLED";
+
+// Latest interview per application id (older, cancelled ones are superseded)
+export function latestByApplication(interviews: Interview[]): Record<string, Interview> {
+  const byApplication: Record<string, Interview> = {};
+  [...interviews]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((interview) => {
+      byApplication[interview.application] = interview;
+    });
+  return byApplication;
+}
+
+export function getSelectedSlot(interview: Interview): InterviewSlot | undefined {
+  return interview.slots.find((slot) => slot._id === interview.selectedSlotId);
+}
+
+/**
+ * .ics for the chosen slot, or null before one is picked.
+ * Cancelled interviews produce a cancellation that removes the event.
+ */
+export function buildInterviewIcs(interview: Interview): string | null {
+  const slot = getSelectedSlot(interview);
+  if (!slot) return null;
+
+  const format = INTERVIEW_FORMAT_CONFIG[interview.format];
+  const description = [
+    `${format.label} interview for ${interview.jobPost.title} at ${interview.jobPost.companyName}.`,
+    interview.location && `${format.locationLabel}: ${interview.location}`,
+    interview.notes,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return buildIcsEvent({
+    uid: `interview-${interview._id}@devmatch`,
+    start: slot.start,
+    end: slot.end,
+    summary: `Interview: ${interview.jobPost.title} (${interview.jobPost.companyName})`,
+    description,
+    location: interview.location,
+    sequence: Math.floor(new Date(interview.updatedAt).getTime() / 1000),
+    cancelled: interview.status === "CANCELLED",
+    organizer: { name: interview.recruiter.username, email: interview.recruiter.email },
+    attendees: [{ name: interview.applicant.username, email: interview.applicant.email }],
+  });
+}
+
+export const interviewIcsFilename = (interview: Interview) =>
+  `interview-${interview.jobPost.companyName}-${interview.jobPost.title}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
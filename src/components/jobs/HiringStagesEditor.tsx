@@ -0,0 +1,154 @@
+/**
+ * @file src/components/jobs/HiringStagesEditor.tsx
+ * @description Ordered list editor for a job's hiring stages
+ */
+
+"use client";
+
+import { FiArrowDown, FiArrowUp, FiPlus, FiRotateCcw, FiTrash2 } from "react-icons/fi";
+import { Button, Input } from "@/components/common";
+import {
+  DEFAULT_HIRING_STAGES,
+  MAX_OPEN_STAGES,
+  MAX_STAGE_LABEL_LENGTH,
+  TERMINAL_STAGE_KINDS,
+  getOpenStages,
+  getStageByKind,
+} from "@/lib/hiringStages";
+import type { HiringStage, HiringStageKind } from "@/types";
+
+interface HiringStagesEditorProps {
+  stages: HiringStage[];
+  onChange: (stages: HiringStage[]) => void;
+  error?: string;
+}
+
+const OUTCOME_HINTS: Record<Exclude<HiringStageKind, "OPEN">, string> = {
+  HIRED: "Candidate got the job",
+  REJECTED: "Candidate was turned down",
+  WITHDRAWN: "Candidate withdrew their application",
+};
+
+export default function HiringStagesEditor({ stages, onChange, error }: HiringStagesEditorProps) {
+  const open = getOpenStages(stages);
+  const outcomes = TERMINAL_STAGE_KINDS.map((kind) => getStageByKind(stages, kind));
+
+  // OPEN stages are edited as a list; outcomes always follow them
+  const setOpen = (next: HiringStage[]) => onChange([...next, ...outcomes]);
+
+  const renameOpen = (index: number, label: string) =>
+    setOpen(open.map((stage, i) => (i === index ? { ...stage, label } : stage)));
+
+  const moveOpen = (index: number, offset: number) => {
+    const next = [...open];
+    const [stage] = next.splice(index, 1);
+    next.splice(index + offset, 0, stage);
+    setOpen(next);
+  };
+
+  const renameOutcome = (kind: HiringStageKind, label: string) =>
+    onChange([
+      ...open,
+      ...outcomes.map((stage) => (stage.kind === kind ? { ...stage, label } : stage)),
+    ]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">In-progress stages</span>
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_HIRING_STAGES)}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <FiRotateCcw className="h-3.5 w-3.5" />
+            Reset to defaults
+          </button>
+        </div>
+
+        <ol className="space-y-2">
+          {open.map((stage, index) => (
+            <li key={stage.key || `new-${index}`} className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs font-medium text-gray-400">{index + 1}</span>
+              <Input
+                value={stage.label}
+                onChange={(e) => renameOpen(index, e.target.value)}
+                placeholder="Stage name, e.g. Tech screen"
+                maxLength={MAX_STAGE_LABEL_LENGTH}
+                aria-label={`Stage ${index + 1} name`}
+              />
+              <button
+                type="button"
+                onClick={() => moveOpen(index, -1)}
+                disabled={index === 0}
+                className="p-2 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                aria-label="Move stage up"
+              >
+                <FiArrowUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveOpen(index, 1)}
+                disabled={index === open.length - 1}
+                className="p-2 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                aria-label="Move stage down"
+              >
+                <FiArrowDown className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setOpen(open.filter((_, i) => i !== index))}
+                disabled={open.length === 1}
+                className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                aria-label="Remove stage"
+              >
+                <FiTrash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {open.length < MAX_OPEN_STAGES && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            leftIcon={<FiPlus />}
+            onClick={() => setOpen([...open, { key: "", label: "", kind: "OPEN" }])}
+            className="mt-2"
+          >
+            Add stage
+          </Button>
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          New applications start in the first stage. Applications in a removed stage are listed
+          as unassigned on the applications board until you move them.
+        </p>
+      </div>
+
+      <div>
+        <span className="mb-2 block text-sm font-medium text-gray-700">Outcomes</span>
+        <div className="space-y-2">
+          {outcomes.map((stage) => (
+            <div key={stage.kind} className="flex items-center gap-3">
+              <div className="w-56 flex-shrink-0">
+                <Input
+                  value={stage.label}
+                  onChange={(e) => renameOutcome(stage.kind, e.target.value)}
+                  maxLength={MAX_STAGE_LABEL_LENGTH}
+                  aria-label={`${stage.kind.toLowerCase()} stage name`}
+                />
+              </div>
+              <span className="text-xs text-gray-500">
+                {OUTCOME_HINTS[stage.kind as Exclude<HiringStageKind, "OPEN">]}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -19,14 +19,15 @@ import {
   FiCalendar,
   FiExternalLink,
   FiSend,
-  FiBookmark,
   FiShare2,
   FiCheckCircle,
   FiEdit2,
 } from 'react-icons/fi';
 import toast from 'react-hot-toast';
-import { jobAPINew } from '@/lib/api';
+import { jobService } from '@/services/jobService';
+import { applicationService } from '@/services/applicationService';
 import { useAuthStore } from '@/store/authStore';
+import { useAccountStatus } from '@/hooks/useAccountStatus';
 import {
   Card,
   CardBody,
@@ -36,71 +37,35 @@ import {
   Avatar,
   PageLoading,
 } from '@/components/common';
+import { BookmarkButton } from '@/components/bookmarks';
+import { ReportButton } from '@/components/reports';
+import { MatchBadge, MatchBreakdown } from '@/components/match';
+import { useMatchProfile } from '@/hooks/useMatchProfile';
+import { useSkillCatalog } from '@/hooks/useSkillCatalog';
 import { formatDate, formatRelativeTime } from '@/lib/utils';
-
-interface JobDetails {
-  _id: string;
-  title: string;
-  companyName: string;
-  description: string;
-  location: {
-    city?: string;
-    state?: string;
-    country?: string;
-  };
-  workType: string;
-  requiredSkills: string[];
-  preferredSkills: string[];
-  minYearsExperience: number;
-  maxYearsExperience: number | null;
-  salary?: {
-    min?: number;
-    max?: number;
-    currency?: string;
-    isVisible?: boolean;
-  };
-  employmentType: string;
-  applicationDeadline: string | null;
-  externalApplicationUrl: string | null;
-  isActive: boolean;
-  isFeatured: boolean;
-  viewCount: number;
-  createdAt: string;
-  recruiter: {
-    _id: string;
-    username: string;
-    avatar: string | null;
-  };
-  recruiterProfile?: {
-    companyName: string;
-    companyWebsite?: string;
-    companyDescription?: string;
-    companySize?: string;
-    industry?: string;
-    isVerified: boolean;
-  };
-  hasApplied?: boolean;
-  applicationCount?: number;
-}
+import { scoreMatch } from '@/lib/matchScore';
+import type { JobPostDetails } from '@/types';
 
 export default function JobDetailsContainer({ jobId }: { jobId: string }) {
   const router = useRouter();
   const { user, isAuthenticated } = useAuthStore();
+  const { isSuspended } = useAccountStatus();
 
-  const [job, setJob] = useState<JobDetails | null>(null);
+  const [job, setJob] = useState<JobPostDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isApplying, setIsApplying] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
 
   const isOwner = user?.id === job?.recruiter._id;
   const isDeveloper = user?.role === 'DEVELOPER';
+  const matchProfile = useMatchProfile();
+  const skillCatalog = useSkillCatalog();
 
   useEffect(() => {
     const fetchJob = async () => {
       try {
-        const response = await jobAPINew.getById(jobId);
-        setJob(response.data.data);
+        const response = await jobService.getJob(jobId);
+        setJob(response.data);
       } catch (err: any) {
         setError(err.response?.data?.message || 'Failed to load job');
         if (err.response?.status === 404) {
@@ -125,6 +90,11 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
       return;
     }
 
+    if (isSuspended) {
+      toast.error("Your account is suspended, so you can't apply right now");
+      return;
+    }
+
     if (job?.externalApplicationUrl) {
       window.open(job.externalApplicationUrl, '_blank');
       return;
@@ -132,7 +102,7 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
 
     setIsApplying(true);
     try {
-      await jobAPINew.apply(jobId);
+      await applicationService.applyToJob(jobId);
       setJob((prev) => prev ? { ...prev, hasApplied: true } : null);
       toast.success('Application submitted successfully!');
     } catch (err: any) {
@@ -193,6 +163,7 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
   }
 
   const salary = formatSalary();
+  const match = matchProfile ? scoreMatch(job, matchProfile, skillCatalog) : null;
 
   return (
     <motion.div
@@ -230,6 +201,7 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
                   {!job.isActive && (
                     <Badge variant="danger" size="sm">Closed</Badge>
                   )}
+                  {match && <MatchBadge score={match.score} />}
                 </div>
 
                 {/* Company */}
@@ -274,20 +246,38 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
                 <Button
                   onClick={handleApply}
                   isLoading={isApplying}
-                  disabled={job.hasApplied}
+                  disabled={job.hasApplied || isSuspended}
                   leftIcon={job.hasApplied ? <FiCheckCircle /> : <FiSend />}
                 >
                   {job.hasApplied ? 'Applied' : 'Apply Now'}
                 </Button>
               ) : null}
 
-              <Button variant="outline" onClick={() => setIsSaved(!isSaved)}>
-                <FiBookmark className={isSaved ? 'fill-current' : ''} />
-              </Button>
+              <BookmarkButton
+                target={{
+                  type: 'JOB',
+                  targetId: job._id,
+                  title: job.title,
+                  subtitle: job.companyName,
+                  href: `/jobs/${job._id}`,
+                }}
+                className="px-4"
+              />
 
               <Button variant="ghost" onClick={handleShare}>
                 <FiShare2 />
               </Button>
+
+              {!isOwner && (
+                <ReportButton
+                  target={{
+                    targetType: 'JOB',
+                    targetId: job._id,
+                    label: `${job.title} at ${job.companyName}`,
+                  }}
+                  className="px-3"
+                />
+              )}
             </div>
           </div>
         </div>
@@ -358,6 +348,19 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Match Breakdown */}
+            {match && (
+              <Card>
+                <CardHeader className="flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900">Your Match</h3>
+                  <MatchBadge score={match.score} size="md" />
+                </CardHeader>
+                <CardBody>
+                  <MatchBreakdown result={match} />
+                </CardBody>
+              </Card>
+            )}
+
             {/* Job Stats */}
             <Card>
               <CardBody className="space-y-4">
@@ -454,7 +457,12 @@ export default function JobDetailsContainer({ jobId }: { jobId: string }) {
                   <p className="text-sm text-gray-600 mb-4">
                     Apply now and take the next step in your career
                   </p>
-                  <Button onClick={handleApply} isLoading={isApplying} className="w-full">
+                  <Button
+                    onClick={handleApply}
+                    isLoading={isApplying}
+                    disabled={isSuspended}
+                    className="w-full"
+                  >
                     Apply Now
                   </Button>
                 </CardBody>
@@ -11,7 +11,8 @@ import Link from "next/link";
 import { motion } from "framer-motion";
 import { FiArrowLeft, FiPlus, FiX, FiSave, FiTrash2 } from "react-icons/fi";
 import toast from "react-hot-toast";
-import { jobAPINew, skillAPI } from "@/lib/api";
+import { jobService } from "@/services/jobService";
+import { skillService } from "@/services/skillService";
 import { useAuthStore } from "@/store/authStore";
 import {
   Card,
@@ -23,14 +24,35 @@ import {
   Badge,
   PageLoading,
 } from "@/components/common";
+import { AssistPanel } from "@/components/assist";
 import { cn } from "@/lib/utils";
+import {
+  DEFAULT_HIRING_STAGES,
+  getJobStages,
+  normalizeStages,
+  validateStages,
+} from "@/lib/hiringStages";
+import {
+  normalizeScreeningQuestions,
+  validateScreeningQuestions,
+} from "@/lib/screeningQuestions";
+import { matchSkills } from "@/lib/skillTaxonomy";
+import type {
+  EmploymentType,
+  HiringStage,
+  ScreeningQuestion,
+  Skill,
+  WorkType,
+} from "@/types";
+import HiringStagesEditor from "./HiringStagesEditor";
+import ScreeningQuestionsEditor from "./ScreeningQuestionsEditor";
 
 interface JobFormProps {
   jobId?: string;
 }
 
-const WORK_TYPES = ["REMOTE", "ONSITE", "HYBRID"];
-const EMPLOYMENT_TYPES = [
+const WORK_TYPES: WorkType[] = ["REMOTE", "ONSITE", "HYBRID"];
+const EMPLOYMENT_TYPES: EmploymentType[] = [
   "FULL_TIME",
   "PART_TIME",
   "CONTRACT",
@@ -40,13 +62,13 @@ const EMPLOYMENT_TYPES = [
 
 export default function JobForm({ jobId }: JobFormProps) {
   const router = useRouter();
-  const { user } = useAuthStore();
+  const { user, profile } = useAuthStore();
   const isEditing = !!jobId;
 
   const [loading, setLoading] = useState(isEditing);
   const [submitting, setSubmitting] = useState(false);
   const [deleting, setDeleting] = useState(false);
-  const [availableSkills, setAvailableSkills] = useState<any[]>([]);
+  const [availableSkills, setAvailableSkills] = useState<Skill[]>([]);
   const [skillSearch, setSkillSearch] = useState("");
   const [activeSkillType, setActiveSkillType] = useState<
     "required" | "preferred"
@@ -60,8 +82,8 @@ export default function JobForm({ jobId }: JobFormProps) {
       state: "",
       country: "",
     },
-    workType: "REMOTE",
-    employmentType: "FULL_TIME",
+    workType: "REMOTE" as WorkType,
+    employmentType: "FULL_TIME" as EmploymentType,
     requiredSkills: [] as string[],
     preferredSkills: [] as string[],
     minYearsExperience: 0,
@@ -75,16 +97,18 @@ export default function JobForm({ jobId }: JobFormProps) {
     applicationDeadline: "",
     externalApplicationUrl: "",
     isActive: true,
+    stages: DEFAULT_HIRING_STAGES as HiringStage[],
+    screeningQuestions: [] as ScreeningQuestion[],
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Fetch available skills on mount
   useEffect(() => {
-    skillAPI
-      .getAll()
+    skillService
+      .getSkills()
       .then((res) => {
-        setAvailableSkills(res.data.data || []);
+        setAvailableSkills(res.data);
       })
       .catch((err) => {
         console.error("Failed to fetch skills:", err);
@@ -95,10 +119,10 @@ export default function JobForm({ jobId }: JobFormProps) {
   useEffect(() => {
     if (isEditing && jobId) {
       setLoading(true);
-      jobAPINew
-        .getById(jobId)
+      jobService
+        .getJob(jobId)
         .then((res) => {
-          const job = res.data.data;
+          const job = res.data;
 
           // Check if current user owns this job
           if (job.recruiter._id !== user?.id && user?.role !== "ADMIN") {
@@ -132,6 +156,8 @@ export default function JobForm({ jobId }: JobFormProps) {
               : "",
             externalApplicationUrl: job.externalApplicationUrl || "",
             isActive: job.isActive ?? true,
+            stages: getJobStages(job),
+            screeningQuestions: job.screeningQuestions || [],
           });
         })
         .catch((err) => {
@@ -228,13 +254,11 @@ export default function JobForm({ jobId }: JobFormProps) {
     }));
   };
 
-  // Filter available skills based on search
-  const filteredSkills = availableSkills.filter(
-    (skill) =>
-      skill.name.toLowerCase().includes(skillSearch.toLowerCase()) &&
-      !formData.requiredSkills.includes(skill.slug) &&
-      !formData.preferredSkills.includes(skill.slug)
-  );
+  // Filter available skills based on search; aliases like "ReactJS" find React
+  const filteredSkills = matchSkills(availableSkills, skillSearch, {
+    exclude: [...formData.requiredSkills, ...formData.preferredSkills],
+    limit: 15,
+  });
 
   // Validate form
   const validate = (): boolean => {
@@ -291,6 +315,16 @@ export default function JobForm({ jobId }: JobFormProps) {
       }
     }
 
+    const stagesError = validateStages(formData.stages);
+    if (stagesError) {
+      newErrors.stages = stagesError;
+    }
+
+    const questionsError = validateScreeningQuestions(formData.screeningQuestions);
+    if (questionsError) {
+      newErrors.screeningQuestions = questionsError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -331,16 +365,18 @@ export default function JobForm({ jobId }: JobFormProps) {
         externalApplicationUrl:
           formData.externalApplicationUrl.trim() || undefined,
         isActive: formData.isActive,
+        stages: normalizeStages(formData.stages),
+        screeningQuestions: normalizeScreeningQuestions(formData.screeningQuestions),
       };
 
       if (isEditing) {
-        await jobAPINew.update(jobId!, payload);
+        await jobService.updateJob(jobId!, payload);
         toast.success("Job updated successfully!");
         router.push(`/jobs/${jobId}`);
       } else {
-        const response = await jobAPINew.create(payload);
+        const response = await jobService.createJob(payload);
         toast.success("Job posted successfully!");
-        router.push(`/jobs/${response.data.data._id}`);
+        router.push(`/jobs/${response.data._id}`);
       }
     } catch (err: any) {
       const message = err.response?.data?.message || "Failed to save job";
@@ -363,7 +399,7 @@ export default function JobForm({ jobId }: JobFormProps) {
     setDeleting(true);
 
     try {
-      await jobAPINew.delete(jobId!);
+      await jobService.deleteJob(jobId!);
       toast.success("Job deleted successfully");
       router.push("/jobs/manage");
     } catch (err: any) {
@@ -437,6 +473,26 @@ export default function JobForm({ jobId }: JobFormProps) {
 
                 {/* Description */}
                 <div>
+                  <AssistPanel
+                    surface="jobDescription"
+                    text={formData.description}
+                    job={{
+                      title: formData.title,
+                      companyName: profile?.companyName,
+                      requiredSkills: formData.requiredSkills,
+                      preferredSkills: formData.preferredSkills,
+                      minYearsExperience: formData.minYearsExperience,
+                      workType: formData.workType,
+                      employmentType: formData.employmentType,
+                    }}
+                    onApply={(description) => {
+                      setFormData((prev) => ({ ...prev, description }));
+                      if (errors.description) {
+                        setErrors((prev) => ({ ...prev, description: "" }));
+                      }
+                    }}
+                    className="mb-4"
+                  />
                   <Textarea
                     label="Job Description *"
                     name="description"
@@ -653,20 +709,35 @@ export default function JobForm({ jobId }: JobFormProps) {
                   <Input
                     value={skillSearch}
                     onChange={(e) => setSkillSearch(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Enter adds the best match instead of submitting the form
+                      if (e.key !== "Enter" || !skillSearch) return;
+                      e.preventDefault();
+                      if (filteredSkills[0]) {
+                        addSkill(filteredSkills[0].skill.slug, activeSkillType);
+                      }
+                    }}
                     placeholder="Search skills (e.g. React, Python, AWS)..."
                   />
 
                   {/* Skill Dropdown */}
                   {skillSearch && filteredSkills.length > 0 && (
                     <div className="absolute z-20 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-                      {filteredSkills.slice(0, 15).map((skill) => (
+                      {filteredSkills.map(({ skill, alias }) => (
                         <button
                           key={skill.slug}
                           type="button"
                           onClick={() => addSkill(skill.slug, activeSkillType)}
                           className="w-full px-4 py-2.5 text-left text-sm hover:bg-gray-50 flex items-center justify-between group"
                         >
-                          <span>{skill.name}</span>
+                          <span>
+                            {skill.name}
+                            {alias && (
+                              <span className="ml-2 text-xs text-gray-400">
+                                matches &ldquo;{alias}&rdquo;
+                              </span>
+                            )}
+                          </span>
                           <span
                             className={cn(
                               "text-xs opacity-0 group-hover:opacity-100 transition-opacity",
@@ -791,11 +862,66 @@ export default function JobForm({ jobId }: JobFormProps) {
             </Card>
           </motion.div>
 
-          {/* Additional Settings */}
+          {/* Hiring Stages */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.3 }}
+          >
+            <Card>
+              <CardHeader>
+                <h2 className="font-semibold text-gray-900">Hiring Stages</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  The steps candidates move through on your applications board
+                </p>
+              </CardHeader>
+              <CardBody>
+                <HiringStagesEditor
+                  stages={formData.stages}
+                  onChange={(stages) => {
+                    setFormData((prev) => ({ ...prev, stages }));
+                    if (errors.stages) setErrors((prev) => ({ ...prev, stages: "" }));
+                  }}
+                  error={errors.stages}
+                />
+              </CardBody>
+            </Card>
+          </motion.div>
+
+          {/* Screening Questions */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+          >
+            <Card>
+              <CardHeader>
+                <h2 className="font-semibold text-gray-900">Screening Questions</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  Asked on the application form. Knockout questions flag applicants who
+                  don&apos;t meet a hard requirement.
+                </p>
+              </CardHeader>
+              <CardBody>
+                <ScreeningQuestionsEditor
+                  questions={formData.screeningQuestions}
+                  onChange={(screeningQuestions) => {
+                    setFormData((prev) => ({ ...prev, screeningQuestions }));
+                    if (errors.screeningQuestions) {
+                      setErrors((prev) => ({ ...prev, screeningQuestions: "" }));
+                    }
+                  }}
+                  error={errors.screeningQuestions}
+                />
+              </CardBody>
+            </Card>
+          </motion.div>
+
+          {/* Additional Settings */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
           >
             <Card>
               <CardHeader>
@@ -854,7 +980,7 @@ export default function JobForm({ jobId }: JobFormProps) {
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.35 }}
+            transition={{ delay: 0.45 }}
             className="flex flex-col sm:flex-row items-center justify-between gap-4 pt-4"
           >
             {/* Delete Button (only for editing) */}
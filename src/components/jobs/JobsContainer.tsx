@@ -8,11 +8,13 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { motion } from "framer-motion";
-import { jobAPINew as jobAPI, skillAPI } from "@/lib/api";
+import { jobService } from "@/services/jobService";
+import { skillService } from "@/services/skillService";
 import { useAuthStore } from "@/store/authStore";
 import JobsHeader from "./JobsHeader";
 import JobsFilters from "./JobsFilters";
 import JobsList from "./JobsList";
+import type { JobPost, Skill } from "@/types";
 
 export interface JobFilters {
   q: string;
@@ -23,40 +25,7 @@ export interface JobFilters {
   sort: string;
 }
 
-export interface Job {
-  _id: string;
-  title: string;
-  companyName: string;
-  description: string;
-  location: {
-    city?: string;
-    state?: string;
-    country?: string;
-  };
-  workType: string;
-  requiredSkills: string[];
-  preferredSkills: string[];
-  minYearsExperience: number;
-  maxYearsExperience: number | null;
-  salary?: {
-    min?: number;
-    max?: number;
-    currency?: string;
-    isVisible?: boolean;
-  };
-  employmentType: string;
-  applicationDeadline: string | null;
-  isActive: boolean;
-  isFeatured: boolean;
-  viewCount: number;
-  createdAt: string;
-  recruiter: {
-    _id: string;
-    username: string;
-    avatar: string | null;
-  };
-  applicationCount?: number;
-}
+export type Job = JobPost;
 
 export default function JobsContainer() {
   const router = useRouter();
@@ -85,15 +54,15 @@ export default function JobsContainer() {
   const [page, setPage] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
   const [hasMore, setHasMore] = useState(true);
-  const [availableSkills, setAvailableSkills] = useState<any[]>([]);
+  const [availableSkills, setAvailableSkills] = useState<Skill[]>([]);
 
   // Ref for debounce timeout
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
 
   // Fetch available skills for filter
   useEffect(() => {
-    skillAPI.getAll().then((res) => {
-      setAvailableSkills(res.data.data || []);
+    skillService.getSkills().then((res) => {
+      setAvailableSkills(res.data);
     });
   }, []);
 
@@ -118,17 +87,18 @@ export default function JobsContainer() {
       setError(null);
 
       try {
-        const response = await jobAPI.getAll({
+        const response = await jobService.getJobs({
           q: searchFilters.q,
           skills:
-            searchFilters.skills.length > 0 ? searchFilters.skills : undefined,
+            searchFilters.skills.length > 0
+              ? searchFilters.skills.join(",")
+              : undefined,
           workType: searchFilters.workType || undefined,
           page: pageNum,
           limit: 10,
         });
 
-        const data = response.data.data;
-        const newJobs = data.jobs || [];
+        const { items: newJobs, pagination } = response.data;
 
         if (append) {
           setJobs((prev) => [...prev, ...newJobs]);
@@ -136,7 +106,7 @@ export default function JobsContainer() {
           setJobs(newJobs);
         }
 
-        setTotalCount(data.pagination?.total || 0);
+        setTotalCount(pagination.total);
         setHasMore(newJobs.length === 10);
       } catch (err: any) {
         console.error("Failed to fetch jobs:", err);
@@ -150,8 +120,8 @@ export default function JobsContainer() {
 
   // Fetch featured jobs
   useEffect(() => {
-    jobAPI.getFeatured(3).then((res) => {
-      setFeaturedJobs(res.data.data || []);
+    jobService.getFeaturedJobs(3).then((res) => {
+      setFeaturedJobs(res.data);
     });
   }, []);
 
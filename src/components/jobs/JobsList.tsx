@@ -24,8 +24,14 @@ import {
   Avatar,
   CardSkeleton,
 } from "@/components/common";
+import { BookmarkButton } from "@/components/bookmarks";
+import { MatchBadge } from "@/components/match";
+import { useMatchProfile } from "@/hooks/useMatchProfile";
+import { useSkillCatalog } from "@/hooks/useSkillCatalog";
 import { formatRelativeTime, formatNumber } from "@/lib/utils";
+import { scoreMatch, type MatchProfile } from "@/lib/matchScore";
 import { Job } from "./JobsContainer";
+import type { Skill } from "@/types";
 
 interface JobsListProps {
   jobs: Job[];
@@ -44,6 +50,10 @@ export default function JobsList({
   hasMore,
   onLoadMore,
 }: JobsListProps) {
+  // Developers see how well each job fits their profile
+  const matchProfile = useMatchProfile();
+  const skillCatalog = useSkillCatalog();
+
   // Error state
   if (error) {
     return (
@@ -111,7 +121,12 @@ export default function JobsList({
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
               >
-                <JobCard job={job} featured />
+                <JobCard
+                  job={job}
+                  matchProfile={matchProfile}
+                  skillCatalog={skillCatalog}
+                  featured
+                />
               </motion.div>
             ))}
           </div>
@@ -129,7 +144,7 @@ export default function JobsList({
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: Math.min(index * 0.05, 0.5) }}
             >
-              <JobCard job={job} />
+              <JobCard job={job} matchProfile={matchProfile} skillCatalog={skillCatalog} />
             </motion.div>
           ))}
         </div>
@@ -160,7 +175,17 @@ export default function JobsList({
 }
 
 // Individual Job Card
-function JobCard({ job, featured = false }: { job: Job; featured?: boolean }) {
+function JobCard({
+  job,
+  matchProfile,
+  skillCatalog,
+  featured = false,
+}: {
+  job: Job;
+  matchProfile: MatchProfile | null;
+  skillCatalog: Skill[];
+  featured?: boolean;
+}) {
   const formatSalary = () => {
     if (!job.salary?.isVisible || !job.salary.min) return null;
     const currency = job.salary.currency || "USD";
@@ -185,6 +210,7 @@ function JobCard({ job, featured = false }: { job: Job; featured?: boolean }) {
   };
 
   const salary = formatSalary();
+  const match = matchProfile ? scoreMatch(job, matchProfile, skillCatalog) : null;
 
   return (
     <Link href={`/jobs/${job._id}`}>
@@ -263,6 +289,18 @@ function JobCard({ job, featured = false }: { job: Job; featured?: boolean }) {
 
             {/* Right Side - Applicants & CTA */}
             <div className="flex sm:flex-col items-center sm:items-end justify-between sm:justify-center gap-2 sm:gap-3">
+              <div className="flex items-center gap-2">
+                {match && <MatchBadge score={match.score} />}
+                <BookmarkButton
+                  target={{
+                    type: "JOB",
+                    targetId: job._id,
+                    title: job.title,
+                    subtitle: job.companyName,
+                    href: `/jobs/${job._id}`,
+                  }}
+                />
+              </div>
               {job.applicationCount !== undefined && (
                 <div className="flex items-center gap-1 text-sm text-gray-500">
                   <FiUsers className="w-4 h-4" />
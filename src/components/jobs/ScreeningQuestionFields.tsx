@@ -0,0 +1,116 @@
+/**
+ * @file src/components/jobs/ScreeningQuestionFields.tsx
+ * @description Inputs for a job's screening questions on the apply form
+ */
+
+"use client";
+
+import { Input, Textarea } from "@/components/common";
+import { cn } from "@/lib/utils";
+import {
+  MAX_TEXT_ANSWER_LENGTH,
+  getChoiceOptions,
+  type ScreeningFormValues,
+} from "@/lib/screeningQuestions";
+import type { ScreeningQuestion } from "@/types";
+
+interface ScreeningQuestionFieldsProps {
+  questions: ScreeningQuestion[];
+  values: ScreeningFormValues;
+  errors: Record<string, string>;
+  onChange: (questionId: string, value: string | string[]) => void;
+}
+
+export default function ScreeningQuestionFields({
+  questions,
+  values,
+  errors,
+  onChange,
+}: ScreeningQuestionFieldsProps) {
+  return (
+    <div className="space-y-5">
+      {questions.map((question) => {
+        const label = `${question.prompt}${question.required ? " *" : ""}`;
+        const value = values[question.id];
+        const error = errors[question.id];
+
+        if (question.type === "SHORT_TEXT" || question.type === "NUMBER") {
+          return (
+            <Input
+              key={question.id}
+              label={label}
+              type={question.type === "NUMBER" ? "number" : "text"}
+              value={value as string}
+              onChange={(e) => onChange(question.id, e.target.value)}
+              maxLength={question.type === "SHORT_TEXT" ? MAX_TEXT_ANSWER_LENGTH.SHORT_TEXT : undefined}
+              error={error}
+            />
+          );
+        }
+
+        if (question.type === "LONG_TEXT") {
+          return (
+            <Textarea
+              key={question.id}
+              label={label}
+              value={value as string}
+              onChange={(e) => onChange(question.id, e.target.value)}
+              maxLength={MAX_TEXT_ANSWER_LENGTH.LONG_TEXT}
+              rows={4}
+              error={error}
+            />
+          );
+        }
+
+        const multiple = question.type === "MULTIPLE_CHOICE";
+        const selected = multiple ? (value as string[]) : [value as string];
+
+        return (
+          <fieldset key={question.id}>
+            <legend className="block text-sm font-medium text-gray-700 mb-1.5">
+              {label}
+              {multiple && (
+                <span className="ml-1 font-normal text-gray-500">(select all that apply)</span>
+              )}
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {getChoiceOptions(question).map((option) => {
+                const checked = selected.includes(option);
+                return (
+                  <label
+                    key={option}
+                    className={cn(
+                      "flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-2 text-sm transition-colors",
+                      checked
+                        ? "border-blue-500 bg-blue-50 text-blue-700"
+                        : "border-gray-300 text-gray-700 hover:border-gray-400"
+                    )}
+                  >
+                    <input
+                      type={multiple ? "checkbox" : "radio"}
+                      name={question.id}
+                      checked={checked}
+                      onChange={() =>
+                        onChange(
+                          question.id,
+                          multiple
+                            ? checked
+                              ? selected.filter((o) => o !== option)
+                              : [...selected, option]
+                            : option
+                        )
+                      }
+                      className="h-4 w-4 text-blue-600"
+                    />
+                    {option}
+                  </label>
+                );
+              })}
+            </div>
+            {error && <p className="mt-1.5 text-sm text-red-600">{error}</p>}
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+/**
+ * @file src/components/jobs/ScreeningQuestionsEditor.tsx
+ * @description Editor for the screening questions asked on a job's apply form
+ */
+
+"use client";
+
+import { FiArrowDown, FiArrowUp, FiPlus, FiTrash2, FiX } from "react-icons/fi";
+import { Button, Input } from "@/components/common";
+import { cn } from "@/lib/utils";
+import {
+  MAX_PROMPT_LENGTH,
+  MAX_QUESTION_OPTIONS,
+  MAX_SCREENING_QUESTIONS,
+  SCREENING_QUESTION_TYPES,
+  changeQuestionType,
+  createScreeningQuestion,
+  getChoiceOptions,
+} from "@/lib/screeningQuestions";
+import type { ScreeningQuestion, ScreeningQuestionType } from "@/types";
+
+interface ScreeningQuestionsEditorProps {
+  questions: ScreeningQuestion[];
+  onChange: (questions: ScreeningQuestion[]) => void;
+  error?: string;
+}
+
+const QUESTION_TYPES = Object.keys(SCREENING_QUESTION_TYPES) as ScreeningQuestionType[];
+
+export default function ScreeningQuestionsEditor({
+  questions,
+  onChange,
+  error,
+}: ScreeningQuestionsEditorProps) {
+  const update = (index: number, changes: Partial<ScreeningQuestion>) =>
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...questions];
+    const [question] = next.splice(index, 1);
+    next.splice(index + offset, 0, question);
+    onChange(next);
+  };
+
+  // Renaming an option keeps it qualifying
+  const renameOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index];
+    const previous = question.options?.[optionIndex];
+    update(index, {
+      options: question.options?.map((option, i) => (i === optionIndex ? value : option)),
+      qualifyingAnswers: question.qualifyingAnswers?.map((answer) =>
+        answer === previous ? value : answer
+      ),
+    });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const removed = question.options?.[optionIndex];
+    update(index, {
+      options: question.options?.filter((_, i) => i !== optionIndex),
+      qualifyingAnswers: question.qualifyingAnswers?.filter((answer) => answer !== removed),
+    });
+  };
+
+  const toggleQualifying = (index: number, option: string) => {
+    const current = questions[index].qualifyingAnswers ?? [];
+    update(index, {
+      qualifyingAnswers: current.includes(option)
+        ? current.filter((answer) => answer !== option)
+        : [...current, option],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No questions yet. Applicants will only be asked for a cover letter.
+        </p>
+      )}
+
+      {questions.map((question, index) => {
+        const config = SCREENING_QUESTION_TYPES[question.type];
+        const choices = getChoiceOptions(question).filter((option) => option.trim());
+
+        return (
+          <div key={question.id} className="rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs font-medium text-gray-400">{index + 1}</span>
+              <select
+                value={question.type}
+                onChange={(e) =>
+                  onChange(
+                    questions.map((q, i) =>
+                      i === index ? changeQuestionType(q, e.target.value as ScreeningQuestionType) : q
+                    )
+                  )
+                }
+                aria-label={`Question ${index + 1} type`}
+                className="px-3 py-2 rounded-lg border border-gray-300 bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {QUESTION_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {SCREENING_QUESTION_TYPES[type].label}
+                  </option>
+                ))}
+              </select>
+              <div className="ml-auto flex items-center">
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-2 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move question up"
+                >
+                  <FiArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={index === questions.length - 1}
+                  className="p-2 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  aria-label="Move question down"
+                >
+                  <FiArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  aria-label="Remove question"
+                >
+                  <FiTrash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <Input
+              value={question.prompt}
+              onChange={(e) => update(index, { prompt: e.target.value })}
+              placeholder="e.g. Are you authorized to work in the EU?"
+              maxLength={MAX_PROMPT_LENGTH}
+              aria-label={`Question ${index + 1} prompt`}
+            />
+
+            {config.hasOptions && (
+              <div className="space-y-2 pl-7">
+                {(question.options ?? []).map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <Input
+                      value={option}
+                      onChange={(e) => renameOption(index, optionIndex, e.target.value)}
+                      placeholder={`Option ${optionIndex + 1}`}
+                      aria-label={`Option ${optionIndex + 1}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeOption(index, optionIndex)}
+                      disabled={(question.options?.length ?? 0) <= 2}
+                      className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                      aria-label="Remove option"
+                    >
+                      <FiX className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                {(question.options?.length ?? 0) < MAX_QUESTION_OPTIONS && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    leftIcon={<FiPlus />}
+                    onClick={() => update(index, { options: [...(question.options ?? []), ""] })}
+                  >
+                    Add option
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 pl-7 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={question.required}
+                  onChange={(e) => update(index, { required: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                />
+                Required
+              </label>
+              {config.canKnockout && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={question.knockout}
+                    onChange={(e) => update(index, { knockout: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                  />
+                  Knockout
+                </label>
+              )}
+            </div>
+
+            {question.knockout && question.type === "NUMBER" && (
+              <div className="flex items-center gap-2 pl-7 text-sm text-gray-600">
+                <span>Qualifies at</span>
+                <div className="w-28">
+                  <Input
+                    type="number"
+                    value={question.minValue ?? ""}
+                    onChange={(e) =>
+                      update(index, {
+                        minValue: e.target.value === "" ? undefined : Number(e.target.value),
+                      })
+                    }
+                    aria-label="Minimum qualifying value"
+                  />
+                </div>
+                <span>or more</span>
+              </div>
+            )}
+
+            {question.knockout && question.type !== "NUMBER" && (
+              <div className="pl-7">
+                <p className="mb-2 text-xs text-gray-500">
+                  Qualifying answers — anyone answering otherwise is flagged
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {choices.map((option) => {
+                    const active = question.qualifyingAnswers?.includes(option);
+                    return (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => toggleQualifying(index, option)}
+                        className={cn(
+                          "rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                          active
+                            ? "border-green-600 bg-green-50 text-green-700"
+                            : "border-gray-300 text-gray-600 hover:border-gray-400"
+                        )}
+                      >
+                        {option}
+                      </button>
+                    );
+                  })}
+                  {choices.length === 0 && (
+                    <span className="text-xs text-gray-400">Add options first</span>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {questions.length < MAX_SCREENING_QUESTIONS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          leftIcon={<FiPlus />}
+          onClick={() => onChange([...questions, createScreeningQuestion()])}
+        >
+          Add question
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
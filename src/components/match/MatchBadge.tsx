@@ -0,0 +1,38 @@
+/**
+ * @file src/components/match/MatchBadge.tsx
+ * @description "% match" pill coloured by match tier
+ */
+
+import { FiTarget } from "react-icons/fi";
+import { cn } from "@/lib/utils";
+import { getMatchTier, type MatchTier } from "@/lib/matchScore";
+
+export const MATCH_TIER_STYLES: Record<MatchTier, string> = {
+  strong: "bg-green-100 text-green-700",
+  good: "bg-blue-100 text-blue-700",
+  fair: "bg-yellow-100 text-yellow-700",
+  weak: "bg-gray-100 text-gray-600",
+};
+
+interface MatchBadgeProps {
+  score: number;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export default function MatchBadge({ score, size = "sm", className }: MatchBadgeProps) {
+  return (
+    <span
+      title="Profile fit for this job"
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full font-medium whitespace-nowrap",
+        size === "sm" ? "px-2 py-0.5 text-xs" : "px-2.5 py-1 text-sm",
+        MATCH_TIER_STYLES[getMatchTier(score)],
+        className
+      )}
+    >
+      <FiTarget className={size === "sm" ? "h-3 w-3" : "h-3.5 w-3.5"} />
+      {score}% match
+    </span>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * @file src/components/match/MatchBreakdown.tsx
+ * @description Per-criterion view of a match score
+ */
+
+import { cn } from "@/lib/utils";
+import type { MatchResult } from "@/lib/matchScore";
+
+const barColor = (score: number) =>
+  score >= 0.8 ? "bg-green-500" : score >= 0.5 ? "bg-blue-500" : score > 0 ? "bg-yellow-500" : "bg-gray-300";
+
+export default function MatchBreakdown({ result }: { result: MatchResult }) {
+  return (
+    <ul className="space-y-3">
+      {result.breakdown.map((item) => (
+        <li key={item.criterion}>
+          <div className="mb-1 flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-700">{item.label}</span>
+            <span className="text-gray-500">{item.detail}</span>
+          </div>
+
+          {item.score === null ? (
+            <p className="text-xs text-gray-400">Not counted</p>
+          ) : (
+            <div className="h-1.5 overflow-hidden rounded-full bg-gray-100">
+              <div
+                className={cn("h-full rounded-full", barColor(item.score))}
+                style={{ width: `${Math.round(item.score * 100)}%` }}
+              />
+            </div>
+          )}
+
+          {item.missing && item.missing.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500">
+              Missing: <span className="text-gray-700">{item.missing.join(", ")}</span>
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * @file src/components/match/index.ts
+ * @description Export all match score components
+ */
+
+export { default as MatchBadge, MATCH_TIER_STYLES } from "./MatchBadge";
+export { default as MatchBreakdown } from "./MatchBreakdown";
@@ -0,0 +1,128 @@
+/**
+ * @file src/components/messages/ConversationList.tsx
+ * @description Inbox sidebar: one row per conversation with preview and unread count
+ */
+
+"use client";
+
+import { formatRelativeTime } from "@/lib/utils";
+import type { Conversation, ConversationParticipant } from "@/types";
+
+// The participant that isn't the signed-in user
+export function getOtherParticipant(
+  conversation: Conversation,
+  currentUserId?: string
+): ConversationParticipant | undefined {
+  return (
+    conversation.participants.find((p) => p._id !== currentUserId) ??
+    conversation.participants[0]
+  );
+}
+
+export function ParticipantAvatar({
+  participant,
+  size = "md",
+}: {
+  participant?: Pick<ConversationParticipant, "username" | "avatar">;
+  size?: "sm" | "md";
+}) {
+  const name = participant?.username || "?";
+  const dims = size === "sm" ? "h-8 w-8 text-xs" : "h-10 w-10 text-sm";
+
+  return participant?.avatar ? (
+    <img
+      src={participant.avatar}
+      alt={name}
+      className={`${dims} flex-shrink-0 rounded-full border border-white/10 object-cover`}
+    />
+  ) : (
+    <div
+      className={`${dims} grid flex-shrink-0 place-items-center rounded-full bg-gradient-to-br from-sky-500/60 to-fuchsia-500/30 font-semibold text-white`}
+    >
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  currentUserId?: string;
+  // Conversation ids where the other participant is typing
+  typingIds: Set<string>;
+  onSelect: (conversationId: string) => void;
+}
+
+export default function ConversationList({
+  conversations,
+  activeId,
+  currentUserId,
+  typingIds,
+  onSelect,
+}: ConversationListProps) {
+  return (
+    <ul className="divide-y divide-white/5">
+      {conversations.map((conversation) => {
+        const other = getOtherParticipant(conversation, currentUserId);
+        const last = conversation.lastMessage;
+        const active = conversation._id === activeId;
+        const unread = conversation.unreadCount > 0;
+
+        return (
+          <li key={conversation._id}>
+            <button
+              type="button"
+              onClick={() => onSelect(conversation._id)}
+              className={[
+                "flex w-full items-center gap-3 px-4 py-3 text-left transition-colors",
+                active ? "bg-white/10" : "hover:bg-white/5",
+              ].join(" ")}
+            >
+              <ParticipantAvatar participant={other} />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span
+                    className={[
+                      "truncate text-sm",
+                      unread ? "font-semibold text-white" : "font-medium text-white/85",
+                    ].join(" ")}
+                  >
+                    {other?.username || "Unknown user"}
+                  </span>
+                  {last && (
+                    <span className="flex-shrink-0 text-[11px] text-white/40">
+                      {formatRelativeTime(last.createdAt)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p
+                    className={[
+                      "truncate text-xs",
+                      typingIds.has(conversation._id)
+                        ? "italic text-sky-300"
+                        : unread
+                          ? "text-white/75"
+                          : "text-white/45",
+                    ].join(" ")}
+                  >
+                    {typingIds.has(conversation._id)
+                      ? "typing…"
+                      : last
+                        ? `${last.sender === currentUserId ? "You: " : ""}${last.content}`
+                        : "No messages yet"}
+                  </p>
+                  {unread && (
+                    <span className="grid min-w-[18px] flex-shrink-0 place-items-center rounded-full bg-gradient-to-r from-sky-500 to-fuchsia-500 px-1 text-[10px] font-bold leading-[18px] text-white">
+                      {conversation.unreadCount > 99 ? "99+" : conversation.unreadCount}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * @file src/components/messages/MessageComposer.tsx
+ * @description Message input with markdown preview and typing signals
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Eye, PenLine, Send } from "lucide-react";
+import Markdown from "@/components/common/Markdown";
+
+// Re-send "typing" at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
+// Send "stopped typing" after this much inactivity
+const TYPING_IDLE_MS = 4000;
+
+export const MESSAGE_MAX_LENGTH = 4000;
+
+interface MessageComposerProps {
+  onSend: (content: string) => Promise<boolean>;
+  onTyping?: (isTyping: boolean) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+export default function MessageComposer({
+  onSend,
+  onTyping,
+  disabled = false,
+  placeholder = "Write a message…",
+}: MessageComposerProps) {
+  const [content, setContent] = useState("");
+  const [preview, setPreview] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const lastTypingRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopTyping = () => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = null;
+    if (lastTypingRef.current) {
+      lastTypingRef.current = 0;
+      onTyping?.(false);
+    }
+  };
+
+  // Don't leave the other side showing "typing…" after navigating away
+  const stopTypingRef = useRef(stopTyping);
+  useEffect(() => {
+    stopTypingRef.current = stopTyping;
+  });
+  useEffect(() => () => stopTypingRef.current(), []);
+
+  const handleChange = (value: string) => {
+    setContent(value);
+    if (!onTyping) return;
+
+    const now = Date.now();
+    if (now - lastTypingRef.current > TYPING_THROTTLE_MS) {
+      lastTypingRef.current = now;
+      onTyping(true);
+    }
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const handleSend = async () => {
+    const trimmed = content.trim();
+    if (!trimmed || sending || disabled) return;
+
+    setSending(true);
+    stopTyping();
+    const sent = await onSend(trimmed);
+    setSending(false);
+    if (sent) {
+      setContent("");
+      setPreview(false);
+    }
+  };
+
+  // Enter sends, Shift+Enter adds a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    [
+      "inline-flex items-center gap-1.5 rounded-lg px-2.5 py-1 text-xs font-medium transition-colors",
+      active ? "bg-white/10 text-white" : "text-white/55 hover:text-white",
+    ].join(" ");
+
+  return (
+    <div className="border-t border-white/10 p-3">
+      <div className="mb-2 flex items-center gap-1">
+        <button type="button" onClick={() => setPreview(false)} className={tabClass(!preview)}>
+          <PenLine size={12} />
+          Write
+        </button>
+        <button
+          type="button"
+          onClick={() => setPreview(true)}
+          disabled={!content.trim()}
+          className={`${tabClass(preview)} disabled:opacity-40`}
+        >
+          <Eye size={12} />
+          Preview
+        </button>
+        <span className="ml-auto text-[11px] text-white/35">
+          Markdown supported · Enter to send, Shift+Enter for a new line
+        </span>
+      </div>
+
+      <div className="flex items-end gap-2">
+        {preview ? (
+          <div className="max-h-40 min-h-[44px] flex-1 overflow-y-auto rounded-2xl border border-white/10 bg-white/[0.03] px-3 py-2 text-white/85">
+            <Markdown content={content} variant="dark" />
+          </div>
+        ) : (
+          <textarea
+            value={content}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            disabled={disabled}
+            rows={Math.min(6, Math.max(1, content.split("\n").length))}
+            maxLength={MESSAGE_MAX_LENGTH}
+            placeholder={placeholder}
+            className="max-h-40 flex-1 resize-none rounded-2xl border border-white/10 bg-white/5 px-3 py-2.5 text-sm text-white placeholder:text-white/35 outline-none focus:ring-2 focus:ring-sky-500/40 disabled:cursor-not-allowed disabled:opacity-50"
+          />
+        )}
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={disabled || sending || !content.trim()}
+          className="inline-flex h-11 w-11 flex-shrink-0 items-center justify-center rounded-2xl bg-white text-black transition hover:bg-white/90 disabled:cursor-not-allowed disabled:opacity-40"
+          aria-label="Send message"
+        >
+          <Send size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * @file src/components/messages/MessageThread.tsx
+ * @description Scrollable list of message bubbles with read receipt and typing indicator
+ */
+
+"use client";
+
+import { useEffect, useRef } from "react";
+import { formatDate, formatRelativeTime } from "@/lib/utils";
+import LoadingSpinner from "@/components/common/Loading";
+import Markdown from "@/components/common/Markdown";
+import type { ConversationParticipant, Message } from "@/types";
+
+interface MessageThreadProps {
+  messages: Message[];
+  currentUserId?: string;
+  other?: ConversationParticipant;
+  isTyping: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+export default function MessageThread({
+  messages,
+  currentUserId,
+  other,
+  isTyping,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}: MessageThreadProps) {
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+  const lastId = messages[messages.length - 1]?._id;
+
+  // Follow new messages (not older pages loaded at the top)
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [lastId, isTyping]);
+
+  // Read receipt goes under the newest of my messages the other side has read
+  const seenId = [...messages]
+    .reverse()
+    .find((m) => m.sender === currentUserId && other && m.readBy.includes(other._id))?._id;
+
+  return (
+    <div className="flex-1 space-y-1 overflow-y-auto px-4 py-4">
+      {hasMore && (
+        <div className="pb-3 text-center">
+          <button
+            type="button"
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/70 hover:bg-white/10 disabled:opacity-50"
+          >
+            {loadingMore ? "Loading…" : "Load earlier messages"}
+          </button>
+        </div>
+      )}
+
+      {messages.length === 0 && !loadingMore && (
+        <p className="py-10 text-center text-sm text-white/45">
+          No messages yet. Say hello 👋
+        </p>
+      )}
+
+      {messages.map((message, i) => {
+        const mine = message.sender === currentUserId;
+        const next = messages[i + 1];
+        // Timestamp once per run of consecutive messages from the same sender
+        const endOfRun = !next || next.sender !== message.sender;
+
+        return (
+          <div key={message._id} className={`flex flex-col ${mine ? "items-end" : "items-start"}`}>
+            <div
+              title={formatDate(message.createdAt)}
+              className={[
+                "max-w-[80%] rounded-2xl px-3.5 py-2",
+                mine
+                  ? "rounded-br-md bg-gradient-to-br from-sky-500 to-indigo-500 text-white"
+                  : "rounded-bl-md border border-white/10 bg-white/[0.06] text-white/90",
+              ].join(" ")}
+            >
+              <Markdown content={message.content} variant="dark" />
+            </div>
+            {(endOfRun || message._id === seenId) && (
+              <span className="mb-2 mt-1 px-1 text-[11px] text-white/40">
+                {formatRelativeTime(message.createdAt)}
+                {message._id === seenId && " · Seen"}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      {isTyping && (
+        <div className="flex items-center gap-2 px-1 py-2 text-xs text-white/50">
+          <span className="flex gap-1">
+            <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-white/50 [animation-delay:-0.3s]" />
+            <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-white/50 [animation-delay:-0.15s]" />
+            <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-white/50" />
+          </span>
+          {other?.username || "They"} is typing…
+        </div>
+      )}
+
+      {loadingMore && messages.length === 0 && (
+        <div className="flex justify-center py-10">
+          <LoadingSpinner size="md" />
+        </div>
+      )}
+
+      <div ref={bottomRef} />
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * @file src/components/messages/index.ts
+ * @description Export all direct message components
+ */
+
+export {
+  default as ConversationList,
+  ParticipantAvatar,
+  getOtherParticipant,
+} from "./ConversationList";
+export { default as MessageComposer, MESSAGE_MAX_LENGTH } from "./MessageComposer";
+export { default as MessageThread } from "./MessageThread";
@@ -0,0 +1,171 @@
+/**
+ * @file src/components/notifications/NotificationBell.tsx
+ * @description Navbar bell with unread badge and a dropdown of recent notifications
+ */
+
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import Link from "next/link";
+import { motion, AnimatePresence, type Variants } from "framer-motion";
+import { Bell, CheckCheck } from "lucide-react";
+import { activityService } from "@/services/activityService";
+import { useNotificationStore } from "@/store/notificationStore";
+import { useNotificationPolling } from "@/hooks/useNotificationPolling";
+import { useOnClickOutside } from "@/hooks/useOnClickOutside";
+import type { Notification } from "@/types";
+import NotificationItem from "./NotificationItem";
+
+const RECENT_LIMIT = 8;
+
+const pop = {
+  hidden: { opacity: 0, y: -8, scale: 0.98 },
+  visible: {
+    opacity: 1,
+    y: 0,
+    scale: 1,
+    transition: { duration: 0.18, ease: "easeOut" },
+  },
+  exit: {
+    opacity: 0,
+    y: -8,
+    scale: 0.98,
+    transition: { duration: 0.14, ease: "easeIn" },
+  },
+} satisfies Variants;
+
+export default function NotificationBell() {
+  const { unreadCount, decrementUnread, setUnreadCount, fetchUnreadCount } =
+    useNotificationStore();
+
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const menuRef = useRef<HTMLDivElement | null>(null);
+
+  useNotificationPolling();
+  useOnClickOutside([menuRef], () => setOpen(false));
+
+  const loadRecent = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await activityService.getFeed({ page: 1 });
+      setNotifications(response.data.items.slice(0, RECENT_LIMIT));
+    } catch {
+      setNotifications([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const handleToggle = () => {
+    const next = !open;
+    setOpen(next);
+    if (next) {
+      loadRecent();
+      fetchUnreadCount();
+    }
+  };
+
+  const handleOpenNotification = async (notification: Notification) => {
+    setOpen(false);
+    if (notification.isRead) return;
+
+    try {
+      await activityService.markOneAsRead(notification._id);
+      decrementUnread();
+    } catch {
+      // Not worth surfacing; it stays unread
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await activityService.markAsRead();
+      setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+      setUnreadCount(0);
+    } catch {
+      // Global interceptor already shows a toast
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="relative inline-flex h-10 w-10 items-center justify-center rounded-2xl border border-white/10 bg-white/5 text-white/80 hover:bg-white/10 hover:text-white"
+        aria-label={
+          unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"
+        }
+      >
+        <Bell size={18} />
+        {unreadCount > 0 && (
+          <span className="absolute -right-1 -top-1 grid min-w-[18px] place-items-center rounded-full bg-gradient-to-r from-sky-500 to-fuchsia-500 px-1 text-[10px] font-bold leading-[18px] text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+            variants={pop}
+            className="absolute right-0 mt-3 w-96 overflow-hidden rounded-2xl border border-white/10 bg-[#070A12]/95 shadow-[0_30px_120px_-60px_rgba(0,0,0,0.9)] backdrop-blur-md"
+          >
+            <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+              <div className="text-sm font-semibold text-white/90">Notifications</div>
+              {unreadCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleMarkAllRead}
+                  className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-sky-300 hover:bg-white/10"
+                >
+                  <CheckCheck size={14} />
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-[420px] overflow-y-auto p-2">
+              {loading ? (
+                <div className="space-y-2 p-2">
+                  {[...Array(3)].map((_, i) => (
+                    <div key={i} className="h-14 animate-pulse rounded-2xl bg-white/5" />
+                  ))}
+                </div>
+              ) : notifications.length === 0 ? (
+                <div className="px-4 py-10 text-center text-sm text-white/50">
+                  You&apos;re all caught up.
+                </div>
+              ) : (
+                notifications.map((notification) => (
+                  <NotificationItem
+                    key={notification._id}
+                    notification={notification}
+                    compact
+                    onOpen={handleOpenNotification}
+                  />
+                ))
+              )}
+            </div>
+
+            <div className="border-t border-white/10 p-2">
+              <Link
+                href="/notifications"
+                onClick={() => setOpen(false)}
+                className="block rounded-xl px-3 py-2 text-center text-sm font-medium text-white/75 hover:bg-white/10 hover:text-white"
+              >
+                View all notifications
+              </Link>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
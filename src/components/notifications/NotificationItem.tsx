@@ -0,0 +1,101 @@
+/**
+ * @file src/components/notifications/NotificationItem.tsx
+ * @description Single notification row used by the bell dropdown and /notifications
+ */
+
+"use client";
+
+import Link from "next/link";
+import { Check, Trash2 } from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type { Notification } from "@/types";
+import { NOTIFICATION_CONFIG, getNotificationLink } from "./notificationConfig";
+
+interface NotificationItemProps {
+  notification: Notification;
+  compact?: boolean;
+  onOpen?: (notification: Notification) => void;
+  onMarkRead?: (id: string) => void;
+  onDelete?: (id: string) => void;
+}
+
+export default function NotificationItem({
+  notification,
+  compact = false,
+  onOpen,
+  onMarkRead,
+  onDelete,
+}: NotificationItemProps) {
+  const config = NOTIFICATION_CONFIG[notification.type] ?? NOTIFICATION_CONFIG.SYSTEM;
+  const Icon = config.icon;
+
+  return (
+    <div
+      className={cn(
+        "group flex items-start gap-3 rounded-2xl transition-colors",
+        compact ? "px-3 py-2.5" : "px-4 py-3",
+        notification.isRead ? "hover:bg-white/5" : "bg-sky-500/[0.06] hover:bg-sky-500/10"
+      )}
+    >
+      <span
+        className={cn(
+          "mt-0.5 grid h-9 w-9 shrink-0 place-items-center rounded-xl",
+          config.color
+        )}
+      >
+        <Icon size={16} />
+      </span>
+
+      <Link
+        href={getNotificationLink(notification)}
+        onClick={() => onOpen?.(notification)}
+        className="min-w-0 flex-1"
+      >
+        <div className="flex items-center gap-2">
+          <span className="truncate text-sm font-semibold text-white/90">
+            {notification.title}
+          </span>
+          {!notification.isRead && (
+            <span className="h-2 w-2 shrink-0 rounded-full bg-sky-400" />
+          )}
+        </div>
+        <p
+          className={cn(
+            "mt-0.5 text-sm text-white/60",
+            compact ? "line-clamp-2" : ""
+          )}
+        >
+          {notification.message}
+        </p>
+        <span className="mt-1 block text-xs text-white/40">
+          {formatRelativeTime(notification.createdAt)}
+        </span>
+      </Link>
+
+      {(onMarkRead || onDelete) && (
+        <div className="flex shrink-0 items-center gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100">
+          {onMarkRead && !notification.isRead && (
+            <button
+              type="button"
+              onClick={() => onMarkRead(notification._id)}
+              className="rounded-lg p-1.5 text-white/55 hover:bg-white/10 hover:text-white"
+              aria-label="Mark as read"
+            >
+              <Check size={14} />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={() => onDelete(notification._id)}
+              className="rounded-lg p-1.5 text-white/55 hover:bg-red-500/10 hover:text-red-300"
+              aria-label="Delete notification"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
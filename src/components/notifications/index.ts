@@ -0,0 +1,12 @@
+/**
+ * @file src/components/notifications/index.ts
+ * @description Export all notification components
+ */
+
+export { default as NotificationBell } from "./NotificationBell";
+export { default as NotificationItem } from "./NotificationItem";
+export {
+  NOTIFICATION_CONFIG,
+  NOTIFICATION_TYPES,
+  getNotificationLink,
+} from "./notificationConfig";
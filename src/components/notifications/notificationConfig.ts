@@ -0,0 +1,71 @@
+/**
+ * @file src/components/notifications/notificationConfig.ts
+ * @description Icon, colour and deep link for each notification type
+ */
+
+import {
+  Bell,
+  Briefcase,
+  ClipboardCheck,
+  Heart,
+  MessageCircle,
+  Sparkles,
+  UserPlus,
+  type LucideIcon,
+} from "lucide-react";
+import type { Notification, NotificationType } from "@/types";
+
+export const NOTIFICATION_CONFIG: Record<
+  NotificationType,
+  { label: string; icon: LucideIcon; color: string }
+> = {
+  FOLLOW: { label: "Follows", icon: UserPlus, color: "text-sky-300 bg-sky-500/15" },
+  LIKE: { label: "Likes", icon: Heart, color: "text-rose-300 bg-rose-500/15" },
+  COMMENT: {
+    label: "Comments",
+    icon: MessageCircle,
+    color: "text-fuchsia-300 bg-fuchsia-500/15",
+  },
+  APPLICATION: {
+    label: "Applications",
+    icon: Briefcase,
+    color: "text-amber-300 bg-amber-500/15",
+  },
+  APPLICATION_STATUS: {
+    label: "Application updates",
+    icon: ClipboardCheck,
+    color: "text-emerald-300 bg-emerald-500/15",
+  },
+  JOB_MATCH: {
+    label: "Job matches",
+    icon: Sparkles,
+    color: "text-yellow-300 bg-yellow-500/15",
+  },
+  SYSTEM: { label: "System", icon: Bell, color: "text-white/70 bg-white/10" },
+};
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_CONFIG) as NotificationType[];
+
+/**
+ * Where clicking a notification should take the user
+ * Falls back to the page the subject lives on when the id is missing
+ */
+export function getNotificationLink(notification: Notification): string {
+  const data = notification.data ?? {};
+
+  switch (notification.type) {
+    case "FOLLOW":
+      return data.username ? `/profile/${data.username}` : "/notifications";
+    case "LIKE":
+    case "COMMENT":
+      return "/feed";
+    case "APPLICATION":
+      return data.jobId ? `/jobs/${data.jobId}/applications` : "/my-jobs";
+    case "APPLICATION_STATUS":
+      return "/my-applications";
+    case "JOB_MATCH":
+      return data.jobId ? `/jobs/${data.jobId}` : "/jobs";
+    default:
+      return "/notifications";
+  }
+}
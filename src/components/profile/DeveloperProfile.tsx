@@ -9,7 +9,8 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { motion } from "framer-motion";
 import { FiCode, FiExternalLink, FiGithub } from "react-icons/fi";
-import { developerAPI, postAPINew } from "@/lib/api";
+import { developerService } from "@/services/developerService";
+import { postService } from "@/services/postService";
 import {
   Card,
   CardBody,
@@ -18,6 +19,7 @@ import {
   CardSkeleton,
 } from "@/components/common";
 import ProfileTabs from "./ProfileTabs";
+import type { Post, RepoSnapshot } from "@/types";
 
 interface DeveloperProfileProps {
   profile: any;
@@ -33,8 +35,8 @@ export default function DeveloperProfile({
   isOwnProfile,
 }: DeveloperProfileProps) {
   const [activeTab, setActiveTab] = useState<TabId>("overview");
-  const [repos, setRepos] = useState<any[]>([]);
-  const [posts, setPosts] = useState<any[]>([]);
+  const [repos, setRepos] = useState<RepoSnapshot[]>([]);
+  const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
 
   const tabs = useMemo(
@@ -54,24 +56,21 @@ export default function DeveloperProfile({
       try {
         setLoading(true);
 
-        const [reposRes, postsRes] = await Promise.all([
-          developerAPI
+        const [pinned, recentPosts] = await Promise.all([
+          developerService
             .getPinnedRepos(user.username)
-            .catch(() => ({ data: { data: { pinnedRepos: [] } } })),
-          postAPINew
-            .getByUsername(user.username, 1)
-            .catch(() => ({ data: { data: { posts: [] } } })),
+            .then((res) => res.data)
+            .catch(() => []),
+          postService
+            .getUserPosts(user.username, { page: 1 })
+            .then((res) => res.data.items)
+            .catch(() => []),
         ]);
 
         if (!alive) return;
 
-        const pinned =
-          reposRes?.data?.data?.pinnedRepos ?? reposRes?.data?.data ?? [];
-        const recentPosts =
-          postsRes?.data?.data?.posts ?? postsRes?.data?.data ?? [];
-
-        setRepos(Array.isArray(pinned) ? pinned : []);
-        setPosts(Array.isArray(recentPosts) ? recentPosts : []);
+        setRepos(pinned);
+        setPosts(recentPosts);
       } catch (e) {
         console.error("Failed to fetch developer profile data:", e);
         if (!alive) return;
@@ -285,7 +284,18 @@ export default function DeveloperProfile({
               ) : repos.length > 0 ? (
                 <div className="grid gap-3 sm:grid-cols-2">
                   {repos.slice(0, 6).map((repo) => (
-                    <RepoCard key={repo._id} repo={repo} />
+                    <RepoCard
+                      key={repo._id}
+                      repo={repo}
+                      onOpen={
+                        isOwnProfile
+                          ? undefined
+                          : () =>
+                              developerService
+                                .trackPinnedRepoClick(user.username, repo._id)
+                                .catch(() => {})
+                      }
+                    />
                   ))}
                 </div>
               ) : (
@@ -363,7 +373,8 @@ export default function DeveloperProfile({
   );
 }
 
-function RepoCard({ repo }: { repo: any }) {
+// onOpen records the visit for the owner's dashboard
+function RepoCard({ repo, onOpen }: { repo: RepoSnapshot; onOpen?: () => void }) {
   const languageColors: Record<string, string> = {
     JavaScript: "bg-yellow-400",
     TypeScript: "bg-blue-500",
@@ -373,10 +384,10 @@ function RepoCard({ repo }: { repo: any }) {
     Rust: "bg-orange-500",
   };
 
-  const langColor = languageColors[repo.language] || "bg-gray-400";
+  const langColor = (repo.language && languageColors[repo.language]) || "bg-gray-400";
 
   return (
-    <Link href={`/details/${repo._id}`} className="block">
+    <Link href={`/details/${repo._id}`} onClick={onOpen} className="block">
       <div className="group overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm transition-colors hover:bg-gray-50/60 dark:border-white/10 dark:bg-white/[0.03] dark:hover:bg-white/[0.05]">
         <div className="p-4">
           <div className="flex items-start justify-between gap-3">
@@ -13,11 +13,17 @@ import {
   type FormEvent,
 } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { FiX, FiSave, FiPlus, FiCheck } from "react-icons/fi";
+import Link from "next/link";
+import { FiX, FiSave, FiPlus, FiCheck, FiFileText } from "react-icons/fi";
 import toast from "react-hot-toast";
-import { profileAPI, skillAPI } from "@/lib/api";
+import { profileService } from "@/services/profileService";
+import { skillService } from "@/services/skillService";
+import { resumeService } from "@/services/resumeService";
+import { applyResumeSuggestions } from "@/lib/resumes";
+import { matchSkills } from "@/lib/skillTaxonomy";
 import { useAuthStore } from "@/store/authStore";
 import { Button, Input, Textarea, Badge } from "@/components/common";
+import type { Resume, Skill } from "@/types";
 
 interface EditProfileModalProps {
   user: any;
@@ -35,10 +41,14 @@ export default function EditProfileModal({
   const { updateProfile } = useAuthStore();
   const [isLoading, setIsLoading] = useState(false);
 
-  const [availableSkills, setAvailableSkills] = useState<any[]>([]);
+  const [availableSkills, setAvailableSkills] = useState<Skill[]>([]);
   const [skillSearch, setSkillSearch] = useState("");
   const [skillOpen, setSkillOpen] = useState(false);
 
+  // Parsed resumes whose suggestions can fill the form; null until loaded
+  const [resumes, setResumes] = useState<Resume[] | null>(null);
+  const [resumeId, setResumeId] = useState("");
+
   const isDeveloper = user?.role === "DEVELOPER";
 
   const [formData, setFormData] = useState({
@@ -74,12 +84,22 @@ export default function EditProfileModal({
   // Fetch skills once for devs
   useEffect(() => {
     if (!isDeveloper) return;
-    skillAPI
-      .getAll()
-      .then((res) => setAvailableSkills(res.data.data || []))
+    skillService
+      .getSkills()
+      .then((res) => setAvailableSkills(res.data))
       .catch(() => setAvailableSkills([]));
   }, [isDeveloper]);
 
+  useEffect(() => {
+    if (!isDeveloper) return;
+    resumeService
+      .getResumes()
+      .then((res) =>
+        setResumes(res.data.filter((r) => r.parseStatus === "PARSED" && r.suggestions))
+      )
+      .catch(() => setResumes([]));
+  }, [isDeveloper]);
+
   // Close on ESC
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
@@ -151,19 +171,32 @@ export default function EditProfileModal({
     }));
   };
 
-  const filteredSkills = useMemo(() => {
-    const q = skillSearch.trim().toLowerCase();
-    const base = availableSkills.filter(
-      (s) => !formData.skills.includes(s.slug)
-    );
-    if (!q) return base.slice(0, 10);
-    return base
-      .filter(
-        (s) =>
-          s.name.toLowerCase().includes(q) || s.slug.toLowerCase().includes(q)
-      )
-      .slice(0, 10);
-  }, [availableSkills, formData.skills, skillSearch]);
+  const selectedResume =
+    resumes?.find((r) => r._id === resumeId) ??
+    resumes?.find((r) => r.isDefault) ??
+    resumes?.[0];
+
+  // Fill empty fields and add skills from the resume; typed values are kept
+  const handleFillFromResume = () => {
+    if (!selectedResume?.suggestions) return;
+    const { form, applied } = applyResumeSuggestions(formData, selectedResume.suggestions);
+    if (applied.length === 0) {
+      toast("Your profile already has everything from this resume");
+      return;
+    }
+    setFormData(form);
+    toast.success(`Added ${applied.join(", ")} from your resume`);
+  };
+
+  // Aliases resolve to their skill, so "reactjs" offers React
+  const filteredSkills = useMemo(
+    () =>
+      matchSkills(availableSkills, skillSearch, {
+        exclude: formData.skills,
+        limit: 10,
+      }),
+    [availableSkills, formData.skills, skillSearch]
+  );
 
   const buildCleanPayload = () => {
     const hasLocation =
@@ -210,10 +243,10 @@ export default function EditProfileModal({
     try {
       const payload = buildCleanPayload();
       const res = isDeveloper
-        ? await profileAPI.updateDeveloperProfile(payload)
-        : await profileAPI.updateRecruiterProfile(payload);
+        ? await profileService.updateDeveloperProfile(payload)
+        : await profileService.updateRecruiterProfile(payload);
 
-      updateProfile(res.data.data);
+      updateProfile(res.data);
       toast.success("Profile updated");
       onClose();
 
@@ -270,6 +303,55 @@ export default function EditProfileModal({
           <form onSubmit={handleSubmit}>
             <div className="max-h-[70vh] overflow-y-auto px-6 py-5">
               <div className="space-y-6">
+                {/* Resume suggestions */}
+                {isDeveloper && resumes && (
+                  <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+                    <FiFileText className="h-5 w-5 flex-shrink-0 text-white/55" />
+                    {selectedResume ? (
+                      <>
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm font-semibold text-white">
+                            Fill from your resume
+                          </div>
+                          <div className="text-xs text-white/55">
+                            Adds skills and fills empty fields. Review before saving.
+                          </div>
+                        </div>
+                        {resumes.length > 1 && (
+                          <select
+                            value={selectedResume._id}
+                            onChange={(e) => setResumeId(e.target.value)}
+                            className="max-w-[12rem] rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500"
+                            aria-label="Resume"
+                          >
+                            {resumes.map((r) => (
+                              <option key={r._id} value={r._id}>
+                                {r.fileName}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={handleFillFromResume}
+                        >
+                          Fill in
+                        </Button>
+                      </>
+                    ) : (
+                      <div className="text-xs text-white/55">
+                        Upload a resume in{" "}
+                        <Link href="/settings" className="text-blue-300 hover:text-blue-200">
+                          Settings
+                        </Link>{" "}
+                        to fill in skills and links automatically.
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Section: Basics */}
                 <Section title="Basics" subtitle="What you do + where you are.">
                   <div className="grid gap-4 sm:grid-cols-2">
@@ -399,6 +481,14 @@ export default function EditProfileModal({
                             setSkillOpen(true);
                           }}
                           onFocus={() => setSkillOpen(true)}
+                          onKeyDown={(e) => {
+                            // Enter picks the best match instead of submitting
+                            if (e.key !== "Enter" || !skillSearch.trim()) return;
+                            e.preventDefault();
+                            if (filteredSkills[0]) {
+                              handleAddSkill(filteredSkills[0].skill.slug);
+                            }
+                          }}
                           placeholder="Search skills (e.g. react, node, mongo)"
                         />
 
@@ -412,7 +502,7 @@ export default function EditProfileModal({
                                     No matches
                                   </div>
                                 ) : (
-                                  filteredSkills.map((s: any) => (
+                                  filteredSkills.map(({ skill: s, alias }) => (
                                     <button
                                       key={s.slug}
                                       type="button"
@@ -424,7 +514,7 @@ export default function EditProfileModal({
                                           {s.name}
                                         </div>
                                         <div className="truncate text-xs text-white/45">
-                                          {s.slug}
+                                          {alias ? `matches “${alias}”` : s.slug}
                                         </div>
                                       </div>
                                       <span className="ml-3 inline-flex h-8 w-8 items-center justify-center rounded-xl border border-white/10 bg-white/5 text-white/65">
@@ -11,7 +11,7 @@ import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import { FiArrowLeft, FiUserPlus, FiUserCheck } from "react-icons/fi";
 import toast from "react-hot-toast";
-import { userAPINew } from "@/lib/api";
+import { userService } from "@/services/userService";
 import { useAuthStore } from "@/store/authStore";
 import {
   Card,
@@ -63,10 +63,13 @@ export default function FollowList({ username, type }: FollowListProps) {
 
         const res =
           type === "followers"
-            ? await userAPINew.getFollowers(username, page)
-            : await userAPINew.getFollowing(username, page);
+            ? await userService.getFollowers(username, { page })
+            : await userService.getFollowing(username, { page });
 
-        const newUsers: UserItem[] = res.data.data?.users || [];
+        const newUsers: UserItem[] = res.data.items.map((u) => ({
+          ...u,
+          isFollowing: !!u.isFollowing,
+        }));
         if (!isMounted) return;
 
         setUsers((prev) => (page === 1 ? newUsers : [...prev, ...newUsers]));
@@ -86,7 +89,11 @@ export default function FollowList({ username, type }: FollowListProps) {
     };
   }, [username, type, page]);
 
-  const handleFollow = async (userId: string, isFollowing: boolean) => {
+  const handleFollow = async (
+    userId: string,
+    targetUsername: string,
+    isFollowing: boolean
+  ) => {
     if (!isAuthenticated) {
       router.push("/login");
       return;
@@ -100,8 +107,8 @@ export default function FollowList({ username, type }: FollowListProps) {
     );
 
     try {
-      if (isFollowing) await userAPINew.unfollow(userId);
-      else await userAPINew.follow(userId);
+      if (isFollowing) await userService.unfollowUser(targetUsername);
+      else await userService.followUser(targetUsername);
 
       toast.success(isFollowing ? "Unfollowed" : "Following");
     } catch (error: any) {
@@ -200,7 +207,9 @@ export default function FollowList({ username, type }: FollowListProps) {
                           leftIcon={
                             u.isFollowing ? <FiUserCheck /> : <FiUserPlus />
                           }
-                          onClick={() => handleFollow(u._id, u.isFollowing)}
+                          onClick={() =>
+                            handleFollow(u._id, u.username, u.isFollowing)
+                          }
                           className={[
                             "shrink-0",
                             // dark-mode safety (your Button component may ignore className; fix there if needed)
@@ -9,7 +9,7 @@ import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
 import toast from "react-hot-toast";
-import { userAPINew } from "@/lib/api";
+import { userService } from "@/services/userService";
 import { useAuth } from "@/contexts/AuthContext";
 import { PageLoading } from "@/components/common";
 import ProfileHeader from "./ProfileHeader";
@@ -39,6 +39,7 @@ interface ProfileData {
     jobs?: number;
   };
   isFollowing: boolean;
+  allowMessages: boolean;
 }
 
 export default function ProfileContainer({ username }: ProfileContainerProps) {
@@ -62,8 +63,8 @@ export default function ProfileContainer({ username }: ProfileContainerProps) {
         setLoading(true);
         setPageError(null);
 
-        const response = await userAPINew.getProfile(username);
-        const data = response.data.data;
+        const response = await userService.getUserByUsername(username);
+        const data = response.data;
 
         if (!isMounted) return;
 
@@ -79,6 +80,7 @@ export default function ProfileContainer({ username }: ProfileContainerProps) {
           profile: data.profile,
           stats: data.stats,
           isFollowing: data.isFollowing,
+          allowMessages: data.allowMessages !== false,
         });
       } catch (err: any) {
         const msg = err.response?.data?.message || "Failed to load profile";
@@ -130,10 +132,10 @@ export default function ProfileContainer({ username }: ProfileContainerProps) {
 
     try {
       if (wasFollowing) {
-        await userAPINew.unfollow(profileData.user.username);
+        await userService.unfollowUser(profileData.user.username);
         toast.success("Unfollowed");
       } else {
-        await userAPINew.follow(profileData.user.username);
+        await userService.followUser(profileData.user.username);
         toast.success("Following");
       }
     } catch (err: any) {
@@ -203,6 +205,7 @@ export default function ProfileContainer({ username }: ProfileContainerProps) {
         isOwnProfile={isOwnProfile}
         isFollowing={profileData.isFollowing}
         onFollow={handleFollow}
+        allowMessages={profileData.allowMessages}
       />
 
       {/* Reddit-ish layout: narrow content + side gutters on large screens */}
@@ -21,8 +21,10 @@ import {
   FiTwitter,
   FiBriefcase,
   FiCheckCircle,
+  FiMessageSquare,
 } from "react-icons/fi";
 import { Avatar, Button, Badge } from "@/components/common";
+import { ReportButton } from "@/components/reports";
 import { formatDate } from "@/lib/utils";
 import EditProfileModal from "./EditProfileModal";
 
@@ -46,6 +48,8 @@ interface ProfileHeaderProps {
   isOwnProfile: boolean;
   isFollowing: boolean;
   onFollow: () => void;
+  // Recipient's "Allow Messages" privacy setting
+  allowMessages?: boolean;
 }
 
 export default function ProfileHeader({
@@ -55,6 +59,7 @@ export default function ProfileHeader({
   isOwnProfile,
   isFollowing,
   onFollow,
+  allowMessages = true,
 }: ProfileHeaderProps) {
   const [showEditModal, setShowEditModal] = useState(false);
 
@@ -247,15 +252,42 @@ export default function ProfileHeader({
                           </Link>
                         </>
                       ) : (
-                        <Button
-                          variant={isFollowing ? "outline" : "primary"}
-                          leftIcon={
-                            isFollowing ? <FiUserCheck /> : <FiUserPlus />
-                          }
-                          onClick={onFollow}
-                        >
-                          {isFollowing ? "Following" : "Follow"}
-                        </Button>
+                        <>
+                          <Button
+                            variant={isFollowing ? "outline" : "primary"}
+                            leftIcon={
+                              isFollowing ? <FiUserCheck /> : <FiUserPlus />
+                            }
+                            onClick={onFollow}
+                          >
+                            {isFollowing ? "Following" : "Follow"}
+                          </Button>
+                          {allowMessages ? (
+                            <Link
+                              href={`/messages?to=${encodeURIComponent(user.username)}`}
+                            >
+                              <Button variant="outline" leftIcon={<FiMessageSquare />}>
+                                Message
+                              </Button>
+                            </Link>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              leftIcon={<FiMessageSquare />}
+                              disabled
+                              title={`${user.username} isn't accepting messages`}
+                            >
+                              Message
+                            </Button>
+                          )}
+                          <ReportButton
+                            target={{
+                              targetType: "USER",
+                              targetId: user._id,
+                              label: `@${user.username}`,
+                            }}
+                          />
+                        </>
                       )}
                     </div>
 
@@ -8,9 +8,12 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { FiStar, FiGitBranch, FiHeart, FiMessageCircle } from "react-icons/fi";
-import { developerAPI, postAPINew, reviewAPINew } from "@/lib/api";
+import { developerService } from "@/services/developerService";
+import { postService } from "@/services/postService";
+import { reviewService } from "@/services/reviewService";
 import { Card, CardBody, Badge, CardSkeleton } from "@/components/common";
 import { formatRelativeTime, formatNumber } from "@/lib/utils";
+import type { Post, RepoSnapshot, Review } from "@/types";
 
 interface ProfileTabsProps {
   username: string;
@@ -20,12 +23,51 @@ interface ProfileTabsProps {
 
 const PAGE_SIZE = 10;
 
+// Loaded items, tagged with the tab they belong to
+type TabItems =
+  | { tab: "repos"; items: RepoSnapshot[] }
+  | { tab: "posts"; items: Post[] }
+  | { tab: "reviews"; items: Review[] };
+
+const NO_ITEMS: TabItems = { tab: "posts", items: [] };
+
+async function fetchTabItems(
+  tab: string,
+  username: string,
+  page: number
+): Promise<TabItems> {
+  if (tab === "repos") {
+    return { tab, items: (await developerService.getRepos(username, { page })).data.items };
+  }
+  if (tab === "reviews") {
+    return { tab, items: (await reviewService.getUserReviews(username, { page })).data.items };
+  }
+  if (tab === "posts") {
+    return { tab, items: (await postService.getUserPosts(username, { page })).data.items };
+  }
+  return NO_ITEMS;
+}
+
+// Next page appended to what is loaded, unless the tab changed in between
+function appendItems(prev: TabItems, next: TabItems): TabItems {
+  if (prev.tab === "repos" && next.tab === "repos") {
+    return { tab: "repos", items: [...prev.items, ...next.items] };
+  }
+  if (prev.tab === "posts" && next.tab === "posts") {
+    return { tab: "posts", items: [...prev.items, ...next.items] };
+  }
+  if (prev.tab === "reviews" && next.tab === "reviews") {
+    return { tab: "reviews", items: [...prev.items, ...next.items] };
+  }
+  return next;
+}
+
 export default function ProfileTabs({
   username,
   isOwnProfile,
   tab = "posts",
 }: ProfileTabsProps) {
-  const [items, setItems] = useState<any[]>([]);
+  const [data, setData] = useState<TabItems>(NO_ITEMS);
   const [loading, setLoading] = useState(true);
   const [loadMoreLoading, setLoadMoreLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -35,7 +77,7 @@ export default function ProfileTabs({
   // Reset on tab/user change
   useEffect(() => {
     setPage(1);
-    setItems([]);
+    setData(NO_ITEMS);
     setHasMore(true);
     setError(null);
   }, [tab, username]);
@@ -56,38 +98,18 @@ export default function ProfileTabs({
       setError(null);
 
       try {
-        let response: any;
-
-        if (tab === "repos") {
-          response = await developerAPI.getRepos(username, page);
-        } else if (tab === "posts") {
-          response = await postAPINew.getByUsername(username, page);
-        } else if (tab === "reviews") {
-          response = await reviewAPINew.getByUsername(username, page);
-        } else {
-          response = { data: { data: [] } };
-        }
-
-        const responseData = response.data?.data;
-
-        const newData = Array.isArray(responseData)
-          ? responseData
-          : responseData?.[tab] ||
-            responseData?.posts ||
-            responseData?.repos ||
-            responseData?.reviews ||
-            [];
+        const next = await fetchTabItems(tab, username, page);
 
         if (!alive) return;
 
-        setItems((prev) => (page === 1 ? newData : [...prev, ...newData]));
-        setHasMore(newData.length >= PAGE_SIZE);
+        setData((prev) => (page === 1 ? next : appendItems(prev, next)));
+        setHasMore(next.items.length >= PAGE_SIZE);
       } catch (err: any) {
         if (!alive) return;
 
         // If endpoint doesn't exist, show empty state (common in early backends)
         if (err?.response?.status === 404) {
-          setItems([]);
+          setData(NO_ITEMS);
           setHasMore(false);
           setError(null);
           return;
@@ -95,7 +117,7 @@ export default function ProfileTabs({
 
         console.error(`Failed to fetch ${tab}:`, err);
         setError(`Failed to load ${title.toLowerCase()}`);
-        setItems([]);
+        setData(NO_ITEMS);
         setHasMore(false);
       } finally {
         if (!alive) return;
@@ -110,6 +132,8 @@ export default function ProfileTabs({
     };
   }, [tab, username, page, title]);
 
+  const itemCount = data.items.length;
+
   if (loading && page === 1) {
     return (
       <div className="space-y-3">
@@ -137,7 +161,7 @@ export default function ProfileTabs({
       )}
 
       {/* Empty */}
-      {!error && items.length === 0 && (
+      {!error && itemCount === 0 && (
         <Card className="border-gray-200 bg-white dark:border-white/10 dark:bg-white/[0.03]">
           <CardBody className="py-12 text-center">
             <p className="text-sm font-semibold text-gray-900 dark:text-white">
@@ -155,23 +179,21 @@ export default function ProfileTabs({
       )}
 
       {/* List */}
-      {!error && items.length > 0 && (
+      {!error && itemCount > 0 && (
         <div className="space-y-3">
-          {tab === "repos" &&
-            items.map((repo) => <RepoRow key={repo._id || repo.id} repo={repo} />)}
+          {data.tab === "repos" &&
+            data.items.map((repo) => <RepoRow key={repo._id} repo={repo} />)}
 
-          {tab === "posts" &&
-            items.map((post) => <PostRow key={post._id || post.id} post={post} />)}
+          {data.tab === "posts" &&
+            data.items.map((post) => <PostRow key={post._id} post={post} />)}
 
-          {tab === "reviews" &&
-            items.map((review) => (
-              <ReviewRow key={review._id || review.id} review={review} />
-            ))}
+          {data.tab === "reviews" &&
+            data.items.map((review) => <ReviewRow key={review._id} review={review} />)}
         </div>
       )}
 
       {/* Load more */}
-      {!error && hasMore && items.length > 0 && (
+      {!error && hasMore && itemCount > 0 && (
         <button
           onClick={() => setPage((p) => p + 1)}
           disabled={loadMoreLoading}
@@ -186,14 +208,14 @@ export default function ProfileTabs({
 
 /* ---------------------------- Repo Row (Reddit-ish) ---------------------------- */
 
-function RepoRow({ repo }: { repo: any }) {
+function RepoRow({ repo }: { repo: RepoSnapshot }) {
   const name = repo.fullName || repo.name;
   const desc = repo.description || "No description";
-  const stars = repo.stars ?? repo.stargazers_count ?? 0;
-  const forks = repo.forks ?? repo.forks_count ?? 0;
+  const stars = repo.stars ?? 0;
+  const forks = repo.forks ?? 0;
 
   return (
-    <Link href={`/repos/${repo._id || repo.id}`} className="block">
+    <Link href={`/repos/${repo._id}`} className="block">
       <Card
         hover
         className="border-gray-200 bg-white dark:border-white/10 dark:bg-white/[0.03]"
@@ -237,7 +259,7 @@ function RepoRow({ repo }: { repo: any }) {
 
               {repo.topics?.length ? (
                 <div className="mt-3 flex flex-wrap gap-2">
-                  {repo.topics.slice(0, 4).map((topic: string) => (
+                  {repo.topics.slice(0, 4).map((topic) => (
                     <Badge
                       key={topic}
                       variant="outline"
@@ -259,7 +281,7 @@ function RepoRow({ repo }: { repo: any }) {
 
 /* ---------------------------- Post Row ---------------------------- */
 
-function PostRow({ post }: { post: any }) {
+function PostRow({ post }: { post: Post }) {
   return (
     <Card className="border-gray-200 bg-white dark:border-white/10 dark:bg-white/[0.03]">
       <CardBody className="p-0">
@@ -302,7 +324,7 @@ function PostRow({ post }: { post: any }) {
 
 /* ---------------------------- Review Row ---------------------------- */
 
-function ReviewRow({ review }: { review: any }) {
+function ReviewRow({ review }: { review: Review }) {
   const rating = Number(review.rating) || 0;
 
   return (
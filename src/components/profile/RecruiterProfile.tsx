@@ -24,7 +24,7 @@ import {
   FiCheckCircle,
   FiAlertCircle,
 } from "react-icons/fi";
-import { jobAPIOriginal } from "@/lib/api";
+import { jobService } from "@/services/jobService";
 import { Card, CardBody, Badge, Button, CardSkeleton } from "@/components/common";
 import { formatRelativeTime } from "@/lib/utils";
 
@@ -76,12 +76,6 @@ export default function RecruiterProfile({
 
     let alive = true;
 
-    const normalizeList = (res: any) => {
-      const d = res?.data?.data;
-      const list = d?.jobs ?? d ?? [];
-      return Array.isArray(list) ? list : [];
-    };
-
     const matchesRecruiter = (job: any) => {
       const rec = job?.recruiter;
 
@@ -101,16 +95,15 @@ export default function RecruiterProfile({
         setLoading(true);
 
         if (isOwnProfile) {
-          const res = await jobAPIOriginal.getMyJobs({});
+          const res = await jobService.getMyJobs();
           if (!alive) return;
-          setJobs(normalizeList(res));
+          setJobs(res.data.items);
           return;
         }
 
         // Public view: backend has no filter, so we fetch all then filter client-side.
-        const res = await jobAPIOriginal.getAll({});
-        const all = normalizeList(res);
-        const filtered = all.filter(matchesRecruiter);
+        const res = await jobService.getJobs();
+        const filtered = res.data.items.filter(matchesRecruiter);
 
         if (!alive) return;
         setJobs(filtered);
@@ -0,0 +1,71 @@
+/**
+ * @file src/components/reports/ReportButton.tsx
+ * @description Flag button that opens the report dialog, or sends signed-out users to log in
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/router";
+import { FiFlag } from "react-icons/fi";
+import { cn, getLoginUrl } from "@/lib/utils";
+import { useAuthStore } from "@/store/authStore";
+import type { ReportTarget } from "@/types";
+import ReportModal from "./ReportModal";
+
+interface ReportButtonProps {
+  target: ReportTarget;
+  // "light" for the gray/white pages, "dark" for the glass pages
+  tone?: "light" | "dark";
+  showLabel?: boolean;
+  className?: string;
+}
+
+const TONE_STYLES = {
+  light: "border-gray-300 text-gray-600 hover:border-red-200 hover:bg-red-50 hover:text-red-600",
+  dark: "border-white/10 bg-white/5 text-white/60 hover:border-red-500/30 hover:bg-red-500/10 hover:text-red-200",
+};
+
+export default function ReportButton({
+  target,
+  tone = "light",
+  showLabel = false,
+  className,
+}: ReportButtonProps) {
+  const router = useRouter();
+  const { isAuthenticated } = useAuthStore();
+  const [open, setOpen] = useState(false);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards are links; don't navigate when reporting
+    e.preventDefault();
+    e.stopPropagation();
+    if (!isAuthenticated) {
+      router.push(getLoginUrl());
+      return;
+    }
+    setOpen(true);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleClick}
+        aria-label="Report"
+        title="Report"
+        className={cn(
+          "inline-flex items-center justify-center gap-2 rounded-xl border font-medium transition-colors",
+          showLabel ? "px-4 py-2 text-sm" : "p-2",
+          TONE_STYLES[tone],
+          className
+        )}
+      >
+        <FiFlag className="h-4 w-4" />
+        {showLabel && "Report"}
+      </button>
+
+      <ReportModal target={open ? target : null} onClose={() => setOpen(false)} />
+    </>
+  );
+}
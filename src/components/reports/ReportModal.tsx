@@ -0,0 +1,245 @@
+/**
+ * @file src/components/reports/ReportModal.tsx
+ * @description Report a post, comment, user or job. Shows the reporter's earlier
+ * report and its status instead of the form when they already filed one.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion, AnimatePresence } from "framer-motion";
+import { FiCheckCircle, FiFlag, FiX } from "react-icons/fi";
+import type { AxiosError } from "axios";
+import { Button, Textarea } from "@/components/common";
+import LoadingSpinner from "@/components/common/Loading";
+import { reportService } from "@/services/reportService";
+import { getErrorMessage } from "@/services/api";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASONS,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_STYLES,
+  REPORT_TARGET_LABELS,
+  getReportOutcome,
+  getReportReasonLabel,
+} from "@/lib/reports";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type { Report, ReportReason, ReportTarget } from "@/types";
+
+interface ReportModalProps {
+  target: ReportTarget | null;
+  onClose: () => void;
+}
+
+type FormProps = ReportModalProps & { target: ReportTarget };
+
+// Mounted per target so every opening starts from a fresh form
+function ReportForm({ target, onClose }: FormProps) {
+  // undefined while checking for an earlier report
+  const [existing, setExisting] = useState<Report | null | undefined>(undefined);
+  const [submitted, setSubmitted] = useState<Report | null>(null);
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const noun = REPORT_TARGET_LABELS[target.targetType];
+
+  useEffect(() => {
+    let alive = true;
+
+    reportService
+      .getMyReportFor(target.targetType, target.targetId)
+      .then((report) => {
+        if (alive) setExisting(report);
+      })
+      .catch(() => {
+        // The server still rejects duplicates, so fall through to the form
+        if (alive) setExisting(null);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [target.targetType, target.targetId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return setError("Choose a reason");
+    if (reason === "OTHER" && !details.trim()) return setError("Tell us what's wrong");
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await reportService.create({
+        targetType: target.targetType,
+        targetId: target.targetId,
+        reason,
+        description: details.trim() || undefined,
+      });
+      setSubmitted(res.data);
+    } catch (err) {
+      // Filed from another tab or device since the dialog opened
+      if ((err as AxiosError).response?.status === 409) {
+        const report = await reportService
+          .getMyReportFor(target.targetType, target.targetId)
+          .catch(() => null);
+        if (report) return setExisting(report);
+      }
+      setError(getErrorMessage(err as AxiosError));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const shownReport = submitted ?? existing;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.96, y: 12 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.96, y: 12 }}
+      className="relative w-full max-w-lg overflow-hidden rounded-xl bg-white shadow-xl"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="flex items-start justify-between border-b border-gray-200 p-5">
+        <div>
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <FiFlag className="h-5 w-5 text-red-500" />
+            Report {noun}
+          </h2>
+          <p className="text-sm text-gray-500 truncate">{target.label}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close"
+        >
+          <FiX className="h-5 w-5" />
+        </button>
+      </div>
+
+      {existing === undefined ? (
+        <div className="flex justify-center p-10">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : shownReport ? (
+        <div className="space-y-4 p-5">
+          <div className="flex items-start gap-3">
+            <FiCheckCircle className="mt-0.5 h-5 w-5 flex-shrink-0 text-green-600" />
+            <p className="text-sm text-gray-700">
+              {submitted
+                ? `Thanks. Our moderators will review this ${noun}; you won't be able to report it again while they do.`
+                : `You reported this ${noun} ${formatRelativeTime(shownReport.createdAt)}, so it can't be reported again.`}
+            </p>
+          </div>
+
+          <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-gray-600">{getReportReasonLabel(shownReport.reason)}</span>
+              <span
+                className={cn(
+                  "rounded-full px-2.5 py-0.5 text-xs font-medium",
+                  REPORT_STATUS_STYLES[shownReport.status]
+                )}
+              >
+                {REPORT_STATUS_LABELS[shownReport.status]}
+              </span>
+            </div>
+            {getReportOutcome(shownReport) && (
+              <p className="mt-2 text-gray-500">{getReportOutcome(shownReport)}</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Link href="/my-reports" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+              See all my reports
+            </Link>
+            <Button type="button" onClick={onClose}>
+              Done
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div className="max-h-[70vh] space-y-4 overflow-y-auto p-5">
+            <fieldset>
+              <legend className="mb-2 block text-sm font-medium text-gray-700">
+                Why are you reporting this {noun}?
+              </legend>
+              <div className="space-y-2">
+                {(Object.keys(REPORT_REASONS) as ReportReason[]).map((key) => (
+                  <label
+                    key={key}
+                    className={cn(
+                      "flex cursor-pointer items-center gap-3 rounded-lg border px-3 py-2 text-sm transition",
+                      reason === key
+                        ? "border-red-300 bg-red-50 text-red-800"
+                        : "border-gray-200 text-gray-700 hover:border-gray-300"
+                    )}
+                  >
+                    <input
+                      type="radio"
+                      name="report-reason"
+                      value={key}
+                      checked={reason === key}
+                      onChange={() => setReason(key)}
+                      className="text-red-600 focus:ring-red-500"
+                    />
+                    {REPORT_REASONS[key]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <Textarea
+              label={reason === "OTHER" ? "What's wrong?" : "Anything else we should know? (optional)"}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              placeholder="Links, context or what you saw"
+            />
+
+            <p className="text-xs text-gray-500">
+              Reports are confidential; the person you report isn&apos;t told who filed it.
+            </p>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <div className="flex justify-end gap-2 border-t border-gray-200 p-4">
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="danger" isLoading={submitting} disabled={!reason}>
+              Submit report
+            </Button>
+          </div>
+        </form>
+      )}
+    </motion.div>
+  );
+}
+
+export default function ReportModal({ target, onClose }: ReportModalProps) {
+  return (
+    <AnimatePresence>
+      {target && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/40"
+            onClick={onClose}
+          />
+          <ReportForm key={`${target.targetType}:${target.targetId}`} target={target} onClose={onClose} />
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
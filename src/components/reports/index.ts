@@ -0,0 +1,7 @@
+/**
+ * @file src/components/reports/index.ts
+ * @description Export all report components
+ */
+
+export { default as ReportButton } from "./ReportButton";
+export { default as ReportModal } from "./ReportModal";
@@ -0,0 +1,146 @@
+/**
+ * @file src/components/resumes/ResumeDropzone.tsx
+ * @description Drag-and-drop resume upload with progress and file checks
+ */
+
+"use client";
+
+import { useRef, useState, type DragEvent } from "react";
+import type { AxiosError } from "axios";
+import { FiAlertCircle, FiUploadCloud } from "react-icons/fi";
+import { getErrorMessage } from "@/services/api";
+import { resumeService } from "@/services/resumeService";
+import { RESUME_ACCEPT, RESUME_MAX_SIZE, validateResumeFile } from "@/lib/resumes";
+import { formatFileSize } from "@/utils/formatters";
+import type { Resume } from "@/types";
+
+interface ResumeDropzoneProps {
+  onUploaded: (resume: Resume) => void;
+  disabled?: boolean;
+  // Shown instead of the drop zone, e.g. when the library is full
+  disabledReason?: string;
+  className?: string;
+}
+
+export default function ResumeDropzone({
+  onUploaded,
+  disabled = false,
+  disabledReason,
+  className = "",
+}: ResumeDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [upload, setUpload] = useState<{ fileName: string; progress: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const uploadFile = async (file: File) => {
+    const problem = validateResumeFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setError(null);
+    setUpload({ fileName: file.name, progress: 0 });
+    try {
+      const res = await resumeService.uploadResume(file, (progress) =>
+        setUpload({ fileName: file.name, progress })
+      );
+      onUploaded(res.data);
+    } catch (err) {
+      setError(getErrorMessage(err as AxiosError));
+    } finally {
+      setUpload(null);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (disabled || upload) return;
+    const file = e.dataTransfer.files?.[0];
+    if (file) uploadFile(file);
+  };
+
+  const blocked = disabled || !!upload;
+
+  if (disabled && disabledReason) {
+    return (
+      <p className={`rounded-lg border border-dashed border-gray-300 p-4 text-center text-sm text-gray-500 ${className}`}>
+        {disabledReason}
+      </p>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div
+        role="button"
+        tabIndex={blocked ? -1 : 0}
+        aria-disabled={blocked}
+        onClick={() => !blocked && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (!blocked && (e.key === "Enter" || e.key === " ")) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!blocked) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed px-4 py-6 text-center transition-colors ${
+          dragging
+            ? "border-blue-500 bg-blue-50"
+            : "border-gray-300 hover:border-gray-400"
+        } ${blocked ? "cursor-not-allowed opacity-70" : "cursor-pointer"}`}
+      >
+        {upload ? (
+          <div className="w-full max-w-xs">
+            <p className="mb-2 truncate text-sm font-medium text-gray-700">
+              Uploading {upload.fileName}
+            </p>
+            <div className="h-2 overflow-hidden rounded-full bg-gray-200">
+              <div
+                className="h-full rounded-full bg-blue-600 transition-all"
+                style={{ width: `${upload.progress}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{upload.progress}%</p>
+          </div>
+        ) : (
+          <>
+            <FiUploadCloud className="mb-2 h-8 w-8 text-gray-400" />
+            <p className="text-sm font-medium text-gray-700">
+              Drop your resume here or <span className="text-blue-600">browse</span>
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              PDF or DOCX, up to {formatFileSize(RESUME_MAX_SIZE)}
+            </p>
+          </>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={RESUME_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) uploadFile(file);
+        }}
+      />
+
+      {error && (
+        <p className="mt-2 flex items-center gap-1 text-sm text-red-600">
+          <FiAlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * @file src/components/resumes/ResumeLibrary.tsx
+ * @description A developer's uploaded resumes: upload, default choice, parsing status and delete
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { FiCheckCircle, FiLoader, FiRefreshCw, FiStar, FiTrash2 } from "react-icons/fi";
+import { resumeService } from "@/services/resumeService";
+import { MAX_RESUMES, countSuggestions } from "@/lib/resumes";
+import LoadingSpinner from "@/components/common/Loading";
+import ResumeDropzone from "./ResumeDropzone";
+import ResumeSummary from "./ResumeSummary";
+import type { Resume } from "@/types";
+
+// How often to check on resumes the server is still parsing
+const PARSE_POLL_MS = 5000;
+
+export default function ResumeLibrary() {
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    resumeService
+      .getResumes()
+      .then((res) => setResumes(res.data))
+      .catch(() => setResumes([]))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const hasPending = resumes.some((resume) => resume.parseStatus === "PENDING");
+
+  // Parsing takes a few seconds after upload; refresh until it settles
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(() => {
+      resumeService
+        .getResumes()
+        .then((res) => setResumes(res.data))
+        .catch(() => {});
+    }, PARSE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasPending]);
+
+  const replace = (updated: Resume) =>
+    setResumes((prev) => prev.map((resume) => (resume._id === updated._id ? updated : resume)));
+
+  const runAction = async (resumeId: string, action: () => Promise<void>) => {
+    setBusyId(resumeId);
+    try {
+      await action();
+    } catch {
+      // The API client already showed the error
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSetDefault = (resumeId: string) =>
+    runAction(resumeId, async () => {
+      await resumeService.setDefault(resumeId);
+      setResumes((prev) =>
+        prev.map((resume) => ({ ...resume, isDefault: resume._id === resumeId }))
+      );
+    });
+
+  const handleReparse = (resumeId: string) =>
+    runAction(resumeId, async () => {
+      const res = await resumeService.reparse(resumeId);
+      replace(res.data);
+    });
+
+  const handleDelete = (resume: Resume) => {
+    if (!window.confirm(`Delete ${resume.fileName}? Applications you already sent keep their copy.`)) {
+      return;
+    }
+    runAction(resume._id, async () => {
+      await resumeService.deleteResume(resume._id);
+      setResumes((prev) => prev.filter((r) => r._id !== resume._id));
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ResumeDropzone
+        onUploaded={(resume) =>
+          setResumes((prev) => [
+            resume,
+            ...(resume.isDefault ? prev.map((r) => ({ ...r, isDefault: false })) : prev),
+          ])
+        }
+        disabled={resumes.length >= MAX_RESUMES}
+        disabledReason={`You can keep up to ${MAX_RESUMES} resumes. Delete one to upload another.`}
+      />
+
+      {resumes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No resumes yet. Upload one to attach it to applications and fill in your profile.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+          {resumes.map((resume) => {
+            const suggestionCount = countSuggestions(resume.suggestions);
+            const busy = busyId === resume._id;
+
+            return (
+              <li
+                key={resume._id}
+                className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <ResumeSummary resume={resume} />
+                  <div className="mt-1 pl-[52px] text-xs">
+                    {resume.parseStatus === "PENDING" && (
+                      <span className="flex items-center gap-1 text-gray-500">
+                        <FiLoader className="h-3 w-3 animate-spin" />
+                        Reading your resume…
+                      </span>
+                    )}
+                    {resume.parseStatus === "PARSED" && (
+                      <span className="flex items-center gap-1 text-green-700">
+                        <FiCheckCircle className="h-3 w-3" />
+                        {suggestionCount > 0
+                          ? `${suggestionCount} profile ${suggestionCount === 1 ? "suggestion" : "suggestions"} — use them from Edit profile`
+                          : "Nothing to suggest for your profile"}
+                      </span>
+                    )}
+                    {resume.parseStatus === "FAILED" && (
+                      <span className="text-red-600">We couldn&apos;t read this file.</span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  {resume.parseStatus === "FAILED" && (
+                    <button
+                      onClick={() => handleReparse(resume._id)}
+                      disabled={busy}
+                      className="flex items-center gap-1 rounded-lg px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      <FiRefreshCw className="h-4 w-4" />
+                      Retry
+                    </button>
+                  )}
+                  {!resume.isDefault && (
+                    <button
+                      onClick={() => handleSetDefault(resume._id)}
+                      disabled={busy}
+                      className="flex items-center gap-1 rounded-lg px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      <FiStar className="h-4 w-4" />
+                      Make default
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(resume)}
+                    disabled={busy}
+                    className="rounded-lg p-2 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    aria-label={`Delete ${resume.fileName}`}
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * @file src/components/resumes/ResumePicker.tsx
+ * @description Choose a library resume for an application, or upload a new one in place
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { resumeService } from "@/services/resumeService";
+import { MAX_RESUMES } from "@/lib/resumes";
+import LoadingSpinner from "@/components/common/Loading";
+import ResumeDropzone from "./ResumeDropzone";
+import ResumeSummary from "./ResumeSummary";
+import type { Resume } from "@/types";
+
+interface ResumePickerProps {
+  // Selected resume id; null sends the application without a resume,
+  // undefined means nothing was picked yet and the default is pre-selected
+  value: string | null | undefined;
+  onChange: (resumeId: string | null, resume?: Resume) => void;
+}
+
+export default function ResumePicker({ value, onChange }: ResumePickerProps) {
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Pre-select the default resume once the library loads, unless one was already picked
+  useEffect(() => {
+    resumeService
+      .getResumes()
+      .then((res) => {
+        setResumes(res.data);
+        const preferred = res.data.find((resume) => resume.isDefault) ?? res.data[0];
+        if (value === undefined && preferred) onChange(preferred._id, preferred);
+      })
+      .catch(() => setResumes([]))
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {resumes.length > 0 && (
+        <div className="space-y-2" role="radiogroup" aria-label="Resume">
+          {resumes.map((resume) => (
+            <label
+              key={resume._id}
+              className={`flex cursor-pointer items-center gap-3 rounded-lg border p-3 transition-colors ${
+                value === resume._id
+                  ? "border-blue-500 bg-blue-50"
+                  : "border-gray-200 hover:border-gray-300"
+              }`}
+            >
+              <input
+                type="radio"
+                name="resume"
+                checked={value === resume._id}
+                onChange={() => onChange(resume._id, resume)}
+                className="h-4 w-4 text-blue-600"
+              />
+              <ResumeSummary resume={resume} />
+            </label>
+          ))}
+          <label className="flex cursor-pointer items-center gap-3 rounded-lg px-3 py-1 text-sm text-gray-600">
+            <input
+              type="radio"
+              name="resume"
+              checked={value === null}
+              onChange={() => onChange(null)}
+              className="h-4 w-4 text-blue-600"
+            />
+            Apply without a resume
+          </label>
+        </div>
+      )}
+
+      <ResumeDropzone
+        onUploaded={(resume) => {
+          setResumes((prev) => [...prev, resume]);
+          onChange(resume._id, resume);
+        }}
+        disabled={resumes.length >= MAX_RESUMES}
+      />
+
+      <p className="text-xs text-gray-500">
+        Uploads are saved to your resume library. Manage them in{" "}
+        <Link href="/settings" className="text-blue-600 hover:text-blue-700">
+          Settings
+        </Link>
+        .
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * @file src/components/resumes/ResumeSummary.tsx
+ * @description File name, type, size and upload date of a resume
+ */
+
+import { FiFileText } from "react-icons/fi";
+import { Badge } from "@/components/common";
+import { getResumeFileType } from "@/lib/resumes";
+import { formatDate, formatFileSize } from "@/utils/formatters";
+import type { Resume } from "@/types";
+
+interface ResumeSummaryProps {
+  resume: Resume;
+  className?: string;
+}
+
+export default function ResumeSummary({ resume, className = "" }: ResumeSummaryProps) {
+  const fileType = getResumeFileType(resume.mimeType, resume.fileName);
+
+  return (
+    <div className={`flex min-w-0 items-center gap-3 ${className}`}>
+      <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-lg bg-gray-100 text-gray-500">
+        <FiFileText className="h-5 w-5" />
+      </div>
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <a
+            href={resume.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="truncate text-sm font-medium text-gray-900 hover:text-blue-600"
+          >
+            {resume.fileName}
+          </a>
+          {resume.isDefault && <Badge variant="primary">Default</Badge>}
+        </div>
+        <p className="text-xs text-gray-500">
+          {[fileType, formatFileSize(resume.size), `Uploaded ${formatDate(resume.createdAt)}`]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+    </div>
+  );
+}
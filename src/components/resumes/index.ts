@@ -0,0 +1,9 @@
+/**
+ * @file src/components/resumes/index.ts
+ * @description Export all resume components
+ */
+
+export { default as ResumeDropzone } from "./ResumeDropzone";
+export { default as ResumeLibrary } from "./ResumeLibrary";
+export { default as ResumePicker } from "./ResumePicker";
+export { default as ResumeSummary } from "./ResumeSummary";
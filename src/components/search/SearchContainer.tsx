@@ -8,7 +8,7 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { motion } from "framer-motion";
-import { githubAPI } from "@/lib/api";
+import { githubService } from "@/services/githubService";
 import SearchHeader from "./SearchHeader";
 import SearchFilters from "./SearchFilters";
 import SearchResults from "./SearchResults";
@@ -99,7 +99,7 @@ export default function SearchContainer() {
       setError(null);
 
       try {
-        const response = await githubAPI.searchRepos({
+        const response = await githubService.searchRepos<SearchResult>({
           q: searchQuery,
           language: searchFilters.language,
           sort: searchFilters.sort,
@@ -108,7 +108,7 @@ export default function SearchContainer() {
           per_page: 20,
         });
 
-        const data = response.data.data;
+        const data = response.data;
         const newResults = data.items || [];
 
         if (pageNum === 1) {
@@ -7,12 +7,14 @@
 
 import { ReactNode } from "react";
 import { useAuthStore } from "@/store/authStore";
+import { useSessionSync } from "@/hooks/useSessionSync";
 
 /**
- * AuthProvider is now a no-op wrapper.
- * You can keep it in layout/_app to avoid refactors.
+ * AuthProvider holds no state of its own; it keeps the store in sync
+ * with token refreshes, session expiry and other browser tabs.
  */
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  useSessionSync();
   return <>{children}</>;
 };
 
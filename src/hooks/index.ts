@@ -3,5 +3,18 @@
  * @description Export all custom hooks
  */
 
+export { useAccountStatus } from "./useAccountStatus";
+export { useApplicationDrafts } from "./useApplicationDrafts";
+export { useAssist } from "./useAssist";
+export { useBookmarks } from "./useBookmarks";
+export { useBulkOperation } from "./useBulkOperation";
 export { useDebounce, useDebouncedCallback } from "./useDebounce";
+export { useHydrated } from "./useHydrated";
 export { useLocalStorage, useSessionStorage } from "./useLocalStorage";
+export { useMatchProfile } from "./useMatchProfile";
+export { useNotificationPolling } from "./useNotificationPolling";
+export { useOnClickOutside } from "./useOnClickOutside";
+export { useSavedSearches, useNewJobCounts } from "./useSavedSearches";
+export { useSkillCatalog } from "./useSkillCatalog";
+export { useRealtimeEvent, useRealtimeStatus } from "./useRealtime";
+export { useSessionSync } from "./useSessionSync";
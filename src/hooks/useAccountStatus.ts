@@ -0,0 +1,43 @@
+/**
+ * @file src/hooks/useAccountStatus.ts
+ * @description The signed-in user's warnings and suspension, lifted on time without a reload
+ */
+
+import { useEffect, useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { isSuspended } from "@/lib/moderation";
+
+// setTimeout overflows past ~24.8 days; longer suspensions re-check on the next render
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+export function useAccountStatus() {
+  const user = useAuthStore((state) => state.user);
+  const [, setExpiredChecks] = useState(0);
+
+  const suspendedUntil = user?.status === "SUSPENDED" ? user.suspendedUntil ?? null : null;
+
+  // Re-render when the suspension ends so gated actions unlock by themselves
+  useEffect(() => {
+    if (!suspendedUntil) return;
+    const remaining = new Date(suspendedUntil).getTime() - Date.now();
+    if (remaining <= 0) return;
+
+    const timer = window.setTimeout(
+      () => setExpiredChecks((n) => n + 1),
+      Math.min(remaining, MAX_TIMEOUT_MS)
+    );
+    return () => window.clearTimeout(timer);
+  }, [suspendedUntil]);
+
+  const suspended = isSuspended(user);
+
+  return {
+    isSuspended: suspended,
+    suspendedUntil: suspended ? suspendedUntil : null,
+    suspensionReason: suspended ? user?.suspensionReason ?? null : null,
+    warningCount: user?.warningCount ?? 0,
+    latestWarning: user?.latestWarning ?? null,
+  };
+}
+
+export default useAccountStatus;
@@ -0,0 +1,79 @@
+/**
+ * @file src/hooks/useApplicationDrafts.ts
+ * @description Unsent applications, autosaved to localStorage per job while the developer applies
+ */
+
+import { useCallback, useMemo } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { useLocalStorage } from "./useLocalStorage";
+import type { ApplicationDraft, JobPost } from "@/types";
+
+const STORAGE_KEY = "devmatch:application-drafts";
+const EMPTY: ApplicationDraft[] = [];
+// Drafts untouched for this long are dropped; the job has likely closed
+const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type ApplicationDraftFields = Partial<
+  Pick<ApplicationDraft, "step" | "coverLetter" | "resumeId" | "resumeName" | "answers">
+>;
+
+const isFresh = (draft: ApplicationDraft) =>
+  Date.now() - new Date(draft.updatedAt).getTime() < DRAFT_TTL_MS;
+
+/**
+ * The signed-in user's drafts, newest first
+ * One storage key holds every draft (drafts from other accounts on this browser are kept but hidden)
+ */
+export function useApplicationDrafts() {
+  const userId = useAuthStore((state) => (state.isAuthenticated ? state.user?.id : undefined));
+  const [allDrafts, setAllDrafts] = useLocalStorage<ApplicationDraft[]>(STORAGE_KEY, EMPTY);
+
+  const drafts = useMemo(
+    () =>
+      allDrafts
+        .filter((draft) => draft.userId === userId && isFresh(draft))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    [allDrafts, userId]
+  );
+
+  const getDraft = useCallback(
+    (jobId: string) => drafts.find((draft) => draft.jobId === jobId),
+    [drafts]
+  );
+
+  const isOwn = useCallback(
+    (draft: ApplicationDraft, jobId: string) => draft.userId === userId && draft.jobId === jobId,
+    [userId]
+  );
+
+  const saveDraft = useCallback(
+    (job: Pick<JobPost, "_id" | "title" | "companyName">, changes: ApplicationDraftFields) => {
+      if (!userId) return;
+      setAllDrafts((prev) => {
+        const existing = prev.find((draft) => isOwn(draft, job._id));
+        const draft: ApplicationDraft = {
+          step: "profile",
+          coverLetter: "",
+          answers: {},
+          ...existing,
+          ...changes,
+          jobId: job._id,
+          userId,
+          job: { title: job.title, companyName: job.companyName },
+          updatedAt: new Date().toISOString(),
+        };
+        return [draft, ...prev.filter((d) => !isOwn(d, job._id) && isFresh(d))];
+      });
+    },
+    [userId, setAllDrafts, isOwn]
+  );
+
+  const discardDraft = useCallback(
+    (jobId: string) => setAllDrafts((prev) => prev.filter((draft) => !isOwn(draft, jobId))),
+    [setAllDrafts, isOwn]
+  );
+
+  return { drafts, getDraft, saveDraft, discardDraft };
+}
+
+export default useApplicationDrafts;
@@ -0,0 +1,68 @@
+/**
+ * @file src/hooks/useAssist.ts
+ * @description Run writing-assistant requests and follow their streamed output
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { assistService } from "@/services/assistService";
+import type { AssistRequest, AssistTask } from "@/types";
+
+export type AssistStatus = "idle" | "streaming" | "done" | "error";
+
+/**
+ * One request at a time: starting another, or unmounting, stops the current stream
+ */
+export function useAssist() {
+  const [task, setTask] = useState<AssistTask | null>(null);
+  const [output, setOutput] = useState("");
+  const [status, setStatus] = useState<AssistStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = useCallback(async (request: AssistRequest) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setTask(request.task);
+    setOutput("");
+    setError(null);
+    setStatus("streaming");
+
+    try {
+      const text = await assistService.stream(request, {
+        signal: controller.signal,
+        onChunk: (_, textSoFar) => setOutput(textSoFar),
+      });
+      if (controllerRef.current !== controller) return;
+      setOutput(text);
+      setStatus("done");
+    } catch (err) {
+      if (controllerRef.current !== controller) return;
+      setError(err instanceof Error ? err.message : "The writing assistant failed");
+      setStatus("error");
+    }
+  }, []);
+
+  // Keep what has streamed so far
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setStatus((prev) => (prev === "streaming" ? "done" : prev));
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setTask(null);
+    setOutput("");
+    setError(null);
+    setStatus("idle");
+  }, []);
+
+  return { task, output, status, error, run, stop, reset };
+}
+
+export default useAssist;
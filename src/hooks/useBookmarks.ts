@@ -0,0 +1,208 @@
+/**
+ * @file src/hooks/useBookmarks.ts
+ * @description Bookmarks: kept in localStorage, reconciled with the server when signed in
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { bookmarkService } from "@/services";
+import { useLocalStorage } from "./useLocalStorage";
+import type { Bookmark, BookmarkTarget, BookmarkType } from "@/types";
+
+const STORAGE_KEY = "devmatch:bookmarks";
+// Bookmarks the server hasn't acknowledged yet get a local id
+const LOCAL_ID_PREFIX = "local-";
+const EMPTY: StoredBookmark[] = [];
+
+const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+const targetKey = (b: Pick<BookmarkTarget, "type" | "targetId">) => `${b.type}:${b.targetId}`;
+
+// One storage key holds every account's bookmarks on this browser, tagged with
+// the account (null: made while signed out); only the current owner's are shown
+type StoredBookmark = Bookmark & { ownerId: string | null };
+
+// Shared across hook instances: every bookmark toggle on a page uses this hook,
+// but the server should only be reconciled once per sign-in
+let syncInFlight: Promise<Bookmark[]> | null = null;
+let syncedUserId: string | null = null;
+
+/**
+ * Merge server bookmarks with ones the user made offline.
+ * The server copy wins for targets it already has; the rest are uploaded.
+ */
+function syncWithServer(local: Bookmark[]): Promise<Bookmark[]> {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = bookmarkService
+    .getBookmarks()
+    .then(async (res) => {
+      const onServer = new Set(res.data.map(targetKey));
+      const pending = local.filter(
+        (bookmark) => isLocalId(bookmark._id) && !onServer.has(targetKey(bookmark))
+      );
+      const uploaded = await Promise.all(
+        pending.map((bookmark) => {
+          const { type, targetId, title, subtitle, href, imageUrl, note, tags } = bookmark;
+          return bookmarkService
+            .create({ type, targetId, title, subtitle, href, imageUrl, note, tags })
+            .then((created) => created.data)
+            .catch(() => bookmark);
+        })
+      );
+      return [...uploaded, ...res.data];
+    })
+    .finally(() => {
+      syncInFlight = null;
+    });
+
+  return syncInFlight;
+}
+
+export function useBookmarks() {
+  const userId = useAuthStore((state) => (state.isAuthenticated ? state.user?.id : undefined));
+  const owner = userId ?? null;
+  const [stored, setStored] = useLocalStorage<StoredBookmark[]>(STORAGE_KEY, EMPTY);
+  const [syncedFor, setSyncedFor] = useState<string | null>(null);
+
+  const bookmarks = useMemo(
+    () => stored.filter((bookmark) => bookmark.ownerId === owner),
+    [stored, owner]
+  );
+
+  const storedRef = useRef(stored);
+  useEffect(() => {
+    storedRef.current = stored;
+  }, [stored]);
+
+  useEffect(() => {
+    if (!userId) {
+      syncedUserId = null;
+      return;
+    }
+    if (syncedUserId === userId) return;
+
+    // Results are written even if this instance unmounts: they go to localStorage
+    syncWithServer(storedRef.current.filter((bookmark) => bookmark.ownerId === userId))
+      .then((merged) => {
+        syncedUserId = userId;
+        setStored((prev) => [
+          ...merged.map((bookmark) => ({ ...bookmark, ownerId: userId })),
+          ...prev.filter((bookmark) => bookmark.ownerId !== userId),
+        ]);
+        setSyncedFor(userId);
+      })
+      .catch(() => {
+        // No bookmark endpoint (or offline): keep working from localStorage
+      });
+  }, [userId, setStored]);
+
+  // Whether changes are sent to the server (false: local only)
+  const serverSync = !!userId && (syncedFor === userId || syncedUserId === userId);
+
+  const replace = useCallback(
+    (id: string, next: Bookmark) => {
+      setStored((prev) =>
+        prev.map((bookmark) =>
+          bookmark._id === id ? { ...next, ownerId: bookmark.ownerId } : bookmark
+        )
+      );
+    },
+    [setStored]
+  );
+
+  const findBookmark = useCallback(
+    (type: BookmarkType, targetId: string) =>
+      bookmarks.find((bookmark) => bookmark.type === type && bookmark.targetId === targetId),
+    [bookmarks]
+  );
+
+  const addBookmark = useCallback(
+    (target: BookmarkTarget) => {
+      const now = new Date().toISOString();
+      const bookmark: StoredBookmark = {
+        ...target,
+        _id: `${LOCAL_ID_PREFIX}${Date.now()}`,
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+        ownerId: owner,
+      };
+      setStored((prev) => [
+        bookmark,
+        ...prev.filter((b) => b.ownerId !== owner || targetKey(b) !== targetKey(target)),
+      ]);
+
+      if (serverSync) {
+        bookmarkService
+          .create(target)
+          .then((res) => {
+            // Removed while the request was in flight: the server copy has to go too
+            if (!storedRef.current.some((b) => b._id === bookmark._id)) {
+              bookmarkService.delete(res.data._id).catch(() => {});
+              return;
+            }
+            replace(bookmark._id, res.data);
+          })
+          .catch(() => {});
+      }
+      return bookmark;
+    },
+    [setStored, replace, serverSync, owner]
+  );
+
+  const removeBookmark = useCallback(
+    (id: string) => {
+      setStored((prev) => prev.filter((bookmark) => bookmark._id !== id));
+      if (serverSync && !isLocalId(id)) {
+        bookmarkService.delete(id).catch(() => {});
+      }
+    },
+    [setStored, serverSync]
+  );
+
+  // Returns whether the target is bookmarked afterwards
+  const toggleBookmark = useCallback(
+    (target: BookmarkTarget) => {
+      const existing = findBookmark(target.type, target.targetId);
+      if (existing) {
+        removeBookmark(existing._id);
+        return false;
+      }
+      addBookmark(target);
+      return true;
+    },
+    [findBookmark, addBookmark, removeBookmark]
+  );
+
+  const updateBookmark = useCallback(
+    (id: string, changes: Partial<Pick<Bookmark, "note" | "tags">>) => {
+      setStored((prev) =>
+        prev.map((bookmark) =>
+          bookmark._id === id
+            ? { ...bookmark, ...changes, updatedAt: new Date().toISOString() }
+            : bookmark
+        )
+      );
+
+      if (serverSync && !isLocalId(id)) {
+        bookmarkService
+          .update(id, changes)
+          .then((res) => replace(id, res.data))
+          .catch(() => {});
+      }
+    },
+    [setStored, replace, serverSync]
+  );
+
+  return {
+    bookmarks,
+    synced: serverSync,
+    findBookmark,
+    isBookmarked: (type: BookmarkType, targetId: string) => !!findBookmark(type, targetId),
+    toggleBookmark,
+    updateBookmark,
+    removeBookmark,
+  };
+}
+
+export default useBookmarks;
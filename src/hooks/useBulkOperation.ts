@@ -0,0 +1,91 @@
+/**
+ * @file src/hooks/useBulkOperation.ts
+ * @description Run one admin action over many rows with progress, cancel and a
+ * partial-failure report that can be retried
+ */
+
+import { useCallback, useRef, useState } from "react";
+import type { AxiosError } from "axios";
+import { getErrorMessage } from "@/services/api";
+
+// Requests in flight at once; keeps large batches from tripping rate limits
+const CONCURRENCY = 3;
+
+export interface BulkOperation<T> {
+  title: string;
+  items: T[];
+  getKey: (item: T) => string;
+  getLabel: (item: T) => string;
+  action: (item: T) => Promise<unknown>;
+  // Called per item as it succeeds, e.g. to patch local state
+  onSuccess?: (item: T) => void;
+}
+
+export interface BulkFailure {
+  key: string;
+  label: string;
+  error: string;
+}
+
+export interface BulkProgress {
+  title: string;
+  total: number;
+  succeeded: number;
+  failures: BulkFailure[];
+  // Items never started because the run was cancelled
+  skipped: number;
+  running: boolean;
+}
+
+export function useBulkOperation() {
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const cancelledRef = useRef(false);
+  const retryRef = useRef<(() => Promise<void>) | null>(null);
+
+  const run = useCallback(async <T>(operation: BulkOperation<T>): Promise<void> => {
+    const { title, items, getKey, getLabel, action, onSuccess } = operation;
+    const failed: T[] = [];
+    let next = 0;
+
+    cancelledRef.current = false;
+    retryRef.current = null;
+    setProgress({ title, total: items.length, succeeded: 0, failures: [], skipped: 0, running: true });
+
+    const worker = async () => {
+      while (next < items.length && !cancelledRef.current) {
+        const item = items[next++];
+        try {
+          await action(item);
+          onSuccess?.(item);
+          setProgress((prev) => prev && { ...prev, succeeded: prev.succeeded + 1 });
+        } catch (err) {
+          failed.push(item);
+          const failure = {
+            key: getKey(item),
+            label: getLabel(item),
+            error: getErrorMessage(err as AxiosError),
+          };
+          setProgress((prev) => prev && { ...prev, failures: [...prev.failures, failure] });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+
+    retryRef.current = failed.length > 0 ? () => run({ ...operation, items: failed }) : null;
+    setProgress((prev) => prev && { ...prev, skipped: items.length - next, running: false });
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const retryFailed = useCallback(() => retryRef.current?.(), []);
+
+  const dismiss = useCallback(() => {
+    retryRef.current = null;
+    setProgress(null);
+  }, []);
+
+  return { progress, run, cancel, retryFailed, dismiss };
+}
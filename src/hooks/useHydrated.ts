@@ -0,0 +1,22 @@
+/**
+ * @file src/hooks/useHydrated.ts
+ * @description Whether the page has hydrated, for content read from browser storage
+ */
+
+import { useSyncExternalStore } from "react";
+
+// Nothing to subscribe to: the value only changes from server to client render
+const subscribe = () => () => {};
+
+/**
+ * False during server rendering and hydration, true afterwards
+ */
+export function useHydrated(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false
+  );
+}
+
+export default useHydrated;
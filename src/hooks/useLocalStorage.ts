@@ -3,7 +3,7 @@
  * @description Local storage hook with type safety
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 
 /**
  * Hook to sync state with localStorage
@@ -32,14 +32,21 @@ export function useLocalStorage<T>(
 
   const [storedValue, setStoredValue] = useState<T>(readValue);
 
+  // Latest value, so updater functions called after an await see fresh state
+  const latestRef = useRef(storedValue);
+  useEffect(() => {
+    latestRef.current = storedValue;
+  }, [storedValue]);
+
   // Update localStorage when value changes
   const setValue = useCallback(
     (value: T | ((val: T) => T)) => {
       try {
         // Allow value to be a function (like useState)
         const valueToStore =
-          value instanceof Function ? value(storedValue) : value;
+          value instanceof Function ? value(latestRef.current) : value;
 
+        latestRef.current = valueToStore;
         setStoredValue(valueToStore);
 
         if (typeof window !== "undefined") {
@@ -57,7 +64,7 @@ export function useLocalStorage<T>(
         console.warn(`Error setting localStorage key "${key}":`, error);
       }
     },
-    [key, storedValue]
+    [key]
   );
 
   // Remove value from localStorage
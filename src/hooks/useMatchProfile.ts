@@ -0,0 +1,35 @@
+/**
+ * @file src/hooks/useMatchProfile.ts
+ * @description The signed-in developer's profile in the shape the match scorer expects
+ */
+
+import { useMemo } from "react";
+import { useAuthStore } from "@/store/authStore";
+import type { MatchProfile } from "@/lib/matchScore";
+import type { Location, WorkType } from "@/types";
+
+/**
+ * Match profile for the current user, or null unless a developer is signed in
+ * The session profile is loosely typed, so each field is checked before use
+ */
+export function useMatchProfile(): MatchProfile | null {
+  const user = useAuthStore((state) => state.user);
+  const profile = useAuthStore((state) => state.profile);
+
+  return useMemo(() => {
+    if (user?.role !== "DEVELOPER" || !profile) return null;
+
+    const { skills, yearsOfExperience, preferredWorkTypes, location } = profile;
+    return {
+      skills: Array.isArray(skills) ? skills : [],
+      yearsOfExperience: typeof yearsOfExperience === "number" ? yearsOfExperience : undefined,
+      preferredWorkTypes: Array.isArray(preferredWorkTypes)
+        ? (preferredWorkTypes as WorkType[])
+        : [],
+      location:
+        location && typeof location === "object" ? (location as Location) : undefined,
+    };
+  }, [user?.role, profile]);
+}
+
+export default useMatchProfile;
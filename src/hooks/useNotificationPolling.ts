@@ -0,0 +1,44 @@
+/**
+ * @file src/hooks/useNotificationPolling.ts
+ * @description Poll the unread notification count while the user is signed in
+ */
+
+import { useEffect } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { useNotificationStore } from "@/store/notificationStore";
+
+/**
+ * Keep the unread count fresh in the background
+ * @param intervalMs - Poll interval in milliseconds
+ */
+export function useNotificationPolling(intervalMs: number = 30000) {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const fetchUnreadCount = useNotificationStore((state) => state.fetchUnreadCount);
+  const reset = useNotificationStore((state) => state.reset);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      reset();
+      return;
+    }
+
+    fetchUnreadCount();
+
+    // Skip polls while the tab is hidden, catch up when it comes back
+    const timer = window.setInterval(() => {
+      if (document.visibilityState === "visible") fetchUnreadCount();
+    }, intervalMs);
+
+    const onVisible = () => {
+      if (document.visibilityState === "visible") fetchUnreadCount();
+    };
+    document.addEventListener("visibilitychange", onVisible);
+
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [isAuthenticated, intervalMs, fetchUnreadCount, reset]);
+}
+
+export default useNotificationPolling;
@@ -0,0 +1,28 @@
+/**
+ * @file src/hooks/useOnClickOutside.ts
+ * @description Close menus and dropdowns when clicking outside of them
+ */
+
+import { useEffect } from "react";
+
+/**
+ * Call handler on mousedown outside every given element
+ * @param refs - Elements that count as "inside"
+ * @param handler - Called on an outside click
+ */
+export function useOnClickOutside(
+  refs: Array<React.RefObject<HTMLElement | null>>,
+  handler: () => void
+) {
+  useEffect(() => {
+    const onDown = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (refs.some((r) => r.current && r.current.contains(target))) return;
+      handler();
+    };
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, [refs, handler]);
+}
+
+export default useOnClickOutside;
@@ -0,0 +1,42 @@
+/**
+ * @file src/hooks/useRealtime.ts
+ * @description Subscribe components to realtime events and connection status
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { realtimeService, type RealtimeEventHandler } from "@/services/realtimeService";
+import type { RealtimeEventType, RealtimeStatus } from "@/types";
+
+/**
+ * Run handler for every pushed event of the given type
+ * @param type - Event type, e.g. "post:created"
+ * @param handler - Receives the event payload; may change between renders
+ * @param enabled - Set false to pause the subscription
+ */
+export function useRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: RealtimeEventHandler<T>,
+  enabled: boolean = true
+) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return realtimeService.subscribe(type, (payload) => handlerRef.current(payload));
+  }, [type, enabled]);
+}
+
+/**
+ * Current connection status of the realtime channel
+ */
+export function useRealtimeStatus(): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>(() => realtimeService.getStatus());
+
+  useEffect(() => realtimeService.onStatusChange(setStatus), []);
+
+  return status;
+}
@@ -0,0 +1,237 @@
+/**
+ * @file src/hooks/useSavedSearches.ts
+ * @description Saved job searches: kept in localStorage, synced to the server when signed in
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { savedSearchService } from "@/services";
+import { useLocalStorage } from "./useLocalStorage";
+import { compactJobFilters, isSameJobFilters } from "@/lib/jobSearch";
+import type { JobFilters, SavedSearch } from "@/types";
+
+const STORAGE_KEY = "devmatch:savedSearches";
+// Searches the server hasn't acknowledged yet get a local id
+const LOCAL_ID_PREFIX = "local-";
+const EMPTY: StoredSearch[] = [];
+
+const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+// One storage key holds every account's searches on this browser, tagged with
+// the account (null: saved while signed out); only the current owner's are shown
+type StoredSearch = SavedSearch & { ownerId: string | null };
+
+// Shared across hook instances so local searches are only pushed once
+let syncInFlight: Promise<SavedSearch[]> | null = null;
+
+/**
+ * Merge server searches with ones the user saved offline, uploading the latter
+ */
+function syncWithServer(local: SavedSearch[]): Promise<SavedSearch[]> {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = savedSearchService
+    .getSavedSearches()
+    .then(async (res) => {
+      const pending = local.filter((search) => isLocalId(search._id));
+      const uploaded = await Promise.all(
+        pending.map((search) =>
+          savedSearchService
+            .create({
+              name: search.name,
+              filters: search.filters,
+              alertsEnabled: search.alertsEnabled,
+              lastSeenAt: search.lastSeenAt,
+            })
+            .then((created) => created.data)
+            .catch(() => search)
+        )
+      );
+      return [...res.data, ...uploaded];
+    })
+    .finally(() => {
+      syncInFlight = null;
+    });
+
+  return syncInFlight;
+}
+
+export function useSavedSearches() {
+  const userId = useAuthStore((state) => (state.isAuthenticated ? state.user?.id : undefined));
+  const owner = userId ?? null;
+  const [stored, setStored] = useLocalStorage<StoredSearch[]>(STORAGE_KEY, EMPTY);
+  // Account whose server copy is in use (null: local only)
+  const [syncedFor, setSyncedFor] = useState<string | null>(null);
+
+  const searches = useMemo(
+    () => stored.filter((search) => search.ownerId === owner),
+    [stored, owner]
+  );
+
+  const storedRef = useRef(stored);
+  useEffect(() => {
+    storedRef.current = stored;
+  }, [stored]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    const local = storedRef.current.filter((search) => search.ownerId === userId);
+    const sentIds = new Set(local.map((search) => search._id));
+
+    syncWithServer(local)
+      .then((merged) => {
+        if (cancelled) return;
+        // Keep searches saved while the sync ran, and other accounts' searches
+        setStored((prev) => {
+          const savedMeanwhile = prev.filter(
+            (search) =>
+              search.ownerId === userId && isLocalId(search._id) && !sentIds.has(search._id)
+          );
+          return [
+            ...savedMeanwhile,
+            ...merged.map((search) => ({ ...search, ownerId: userId })),
+            ...prev.filter((search) => search.ownerId !== userId),
+          ];
+        });
+        setSyncedFor(userId);
+      })
+      .catch(() => {
+        // No saved-search endpoint (or offline): keep working from localStorage
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, setStored]);
+
+  const serverSync = !!userId && syncedFor === userId;
+
+  const replace = useCallback(
+    (id: string, next: SavedSearch) => {
+      setStored((prev) =>
+        prev.map((search) => (search._id === id ? { ...next, ownerId: search.ownerId } : search))
+      );
+    },
+    [setStored]
+  );
+
+  // Save the filters under a name; returns the new search
+  const saveSearch = useCallback(
+    (name: string, filters: JobFilters, alertsEnabled: boolean = false) => {
+      const now = new Date().toISOString();
+      const search: StoredSearch = {
+        _id: `${LOCAL_ID_PREFIX}${Date.now()}`,
+        name: name.trim(),
+        filters: compactJobFilters(filters),
+        alertsEnabled,
+        lastSeenAt: now,
+        createdAt: now,
+        updatedAt: now,
+        ownerId: owner,
+      };
+      setStored((prev) => [search, ...prev]);
+
+      if (serverSync) {
+        savedSearchService
+          .create({ name: search.name, filters: search.filters, alertsEnabled, lastSeenAt: now })
+          .then((res) => replace(search._id, res.data))
+          .catch(() => {});
+      }
+      return search;
+    },
+    [setStored, replace, serverSync, owner]
+  );
+
+  const updateSearch = useCallback(
+    (id: string, changes: Partial<Pick<SavedSearch, "name" | "alertsEnabled" | "lastSeenAt">>) => {
+      setStored((prev) =>
+        prev.map((search) =>
+          search._id === id
+            ? { ...search, ...changes, updatedAt: new Date().toISOString() }
+            : search
+        )
+      );
+
+      if (serverSync && !isLocalId(id)) {
+        savedSearchService
+          .update(id, changes)
+          .then((res) => replace(id, res.data))
+          .catch(() => {});
+      }
+    },
+    [setStored, replace, serverSync]
+  );
+
+  const removeSearch = useCallback(
+    (id: string) => {
+      setStored((prev) => prev.filter((search) => search._id !== id));
+      if (serverSync && !isLocalId(id)) {
+        savedSearchService.delete(id).catch(() => {});
+      }
+    },
+    [setStored, serverSync]
+  );
+
+  // Reset the "new since last visit" count
+  const markSeen = useCallback(
+    (id: string) => updateSearch(id, { lastSeenAt: new Date().toISOString() }),
+    [updateSearch]
+  );
+
+  const findSearch = useCallback(
+    (filters: JobFilters) => searches.find((search) => isSameJobFilters(search.filters, filters)),
+    [searches]
+  );
+
+  return {
+    searches,
+    synced: serverSync,
+    saveSearch,
+    updateSearch,
+    removeSearch,
+    markSeen,
+    findSearch,
+  };
+}
+
+/**
+ * Number of jobs posted since each search was last seen
+ * @returns Counts keyed by saved search id (missing while loading or on error)
+ */
+export function useNewJobCounts(searches: SavedSearch[]) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  const searchesRef = useRef(searches);
+  useEffect(() => {
+    searchesRef.current = searches;
+  }, [searches]);
+
+  // Only refetch when a search's filters or last visit change
+  const signature = searches
+    .map((search) => `${search._id}:${search.lastSeenAt}:${JSON.stringify(search.filters)}`)
+    .join("|");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    searchesRef.current.forEach((search) => {
+      savedSearchService
+        .countNewJobs(search.filters, search.lastSeenAt)
+        .then((res) => {
+          if (cancelled) return;
+          setCounts((prev) => ({ ...prev, [search._id]: res.data.pagination.total }));
+        })
+        .catch(() => {});
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signature]);
+
+  return counts;
+}
+
+export default useSavedSearches;
@@ -0,0 +1,64 @@
+/**
+ * @file src/hooks/useSessionSync.ts
+ * @description Keep the auth store in step with the server, token refreshes, expiry and other tabs
+ */
+
+import { useEffect } from "react";
+import Router from "next/router";
+import { useAuthStore } from "@/store/authStore";
+import { authEvents, subscribeSession } from "@/services/session";
+import { getLoginUrl } from "@/lib/utils";
+
+export function useSessionSync() {
+  useEffect(() => {
+    // Another tab signed in, out, or refreshed the token
+    const unsubscribe = subscribeSession((message) => {
+      const store = useAuthStore.getState();
+      switch (message.type) {
+        case "login":
+          store.fetchUser();
+          break;
+        case "logout":
+          store.logout({ broadcast: false });
+          break;
+        case "refresh":
+          useAuthStore.setState({ token: message.token });
+          break;
+      }
+    });
+
+    // This tab refreshed the token
+    const onRefreshed = (e: Event) => {
+      const { token } = (e as CustomEvent<{ token: string }>).detail;
+      useAuthStore.setState({ token });
+    };
+
+    // Refresh failed: sign out everywhere and come back here after login
+    const onExpired = () => {
+      useAuthStore.getState().logout();
+      if (!Router.pathname.startsWith("/login")) {
+        Router.push(getLoginUrl(Router.asPath));
+      }
+    };
+
+    // The persisted user can be stale (e.g. suspended or reinstated since); re-read it
+    // on load and whenever the tab regains focus so route guards see the current status
+    const onFocus = () => {
+      useAuthStore.getState().refreshUser();
+    };
+    onFocus();
+
+    authEvents.addEventListener("tokenRefreshed", onRefreshed);
+    authEvents.addEventListener("sessionExpired", onExpired);
+    window.addEventListener("focus", onFocus);
+
+    return () => {
+      unsubscribe();
+      authEvents.removeEventListener("tokenRefreshed", onRefreshed);
+      authEvents.removeEventListener("sessionExpired", onExpired);
+      window.removeEventListener("focus", onFocus);
+    };
+  }, []);
+}
+
+export default useSessionSync;
@@ -0,0 +1,46 @@
+/**
+ * @file src/hooks/useSkillCatalog.ts
+ * @description The skill catalog, with aliases, for comparing skills the same way everywhere
+ */
+
+import { useEffect, useState } from "react";
+import { skillService } from "@/services/skillService";
+import type { Skill } from "@/types";
+
+const EMPTY: Skill[] = [];
+
+// Shared across hook instances so the catalog is fetched once per page load
+let catalogRequest: Promise<Skill[]> | null = null;
+
+function loadCatalog(): Promise<Skill[]> {
+  catalogRequest ??= skillService
+    .getSkills()
+    .then((res) => res.data)
+    .catch(() => {
+      // Try again next time; until then skills only match by spelling
+      catalogRequest = null;
+      return EMPTY;
+    });
+  return catalogRequest;
+}
+
+/**
+ * Active skills, or an empty list until they have loaded
+ */
+export function useSkillCatalog(): Skill[] {
+  const [skills, setSkills] = useState<Skill[]>(EMPTY);
+
+  useEffect(() => {
+    let alive = true;
+    loadCatalog().then((data) => {
+      if (alive) setSkills(data);
+    });
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return skills;
+}
+
+export default useSkillCatalog;
@@ -0,0 +1,222 @@
+/**
+ * @file src/lib/analytics.ts
+ * @description Date ranges, daily series and funnels for the analytics dashboards
+ */
+
+import { findStage, getJobStages, getOpenStages } from "./hiringStages";
+import { toSkillKey } from "./skillTaxonomy";
+import type { ApplicationStatus, JobPost, Skill } from "@/types";
+
+// Inclusive range of calendar days, as YYYY-MM-DD
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export const RANGE_OPTIONS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+] as const;
+
+export type RangeDays = (typeof RANGE_OPTIONS)[number]["days"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// The last `days` days, today included
+export function getDateRange(days: number, now: Date = new Date()): DateRange {
+  return {
+    startDate: toDateKey(new Date(now.getTime() - (days - 1) * DAY_MS)),
+    endDate: toDateKey(now),
+  };
+}
+
+// From the day of `since` (e.g. a job's creation) through today
+export const getDateRangeSince = (since: string | Date, now: Date = new Date()): DateRange => ({
+  startDate: toDateKey(new Date(Math.min(new Date(since).getTime(), now.getTime()))),
+  endDate: toDateKey(now),
+});
+
+// Calendar month in UTC, `monthsAgo` months back; the current month ends today
+export function getMonthRange(monthsAgo: number, now: Date = new Date()): DateRange {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - monthsAgo, 1));
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+  return {
+    startDate: toDateKey(start),
+    endDate: toDateKey(end.getTime() < now.getTime() ? end : now),
+  };
+}
+
+// The same number of days, ending the day before `range` starts
+export function getPreviousRange(range: DateRange): DateRange {
+  const start = new Date(`${range.startDate}T00:00:00Z`).getTime();
+  const end = new Date(`${range.endDate}T00:00:00Z`).getTime();
+  return {
+    startDate: toDateKey(new Date(start - (end - start) - DAY_MS)),
+    endDate: toDateKey(new Date(start - DAY_MS)),
+  };
+}
+
+// "2024-03-05" -> "Mar 5"
+export const formatDateKey = (key: string) =>
+  new Date(`${key}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+/**
+ * One point per day of the range; days the API left out get the empty values.
+ * Point dates may be full ISO timestamps; only the day part is matched.
+ */
+export function fillDailySeries<T extends { date: string }>(
+  points: T[],
+  range: DateRange,
+  empty: Omit<T, "date">
+): T[] {
+  const byDay = new Map(points.map((point) => [point.date.slice(0, 10), point]));
+  const series: T[] = [];
+  const end = new Date(`${range.endDate}T00:00:00Z`).getTime();
+
+  for (let day = new Date(`${range.startDate}T00:00:00Z`).getTime(); day <= end; day += DAY_MS) {
+    const date = toDateKey(new Date(day));
+    series.push(byDay.get(date) ?? ({ ...empty, date } as T));
+  }
+  return series;
+}
+
+export const sumBy = <T>(items: T[], value: (item: T) => number) =>
+  items.reduce((total, item) => total + (value(item) || 0), 0);
+
+// "12.5%" of a total; "–" when there is nothing to divide by
+export const formatPercent = (part: number, total: number) =>
+  total > 0 ? `${Math.round((part / total) * 1000) / 10}%` : "–";
+
+// Period-over-period change as a fraction; null when there was nothing before
+export const percentChange = (current: number, previous: number) =>
+  previous > 0 ? (current - previous) / previous : null;
+
+// 0.125 -> "+12.5%"
+export const formatChange = (change: number) =>
+  `${change > 0 ? "+" : ""}${Math.round(change * 1000) / 10}%`;
+
+// Largest whole unit of a duration: "45 minutes", "3 hours", "12 days"
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const units: [string, number][] = [
+    ["day", 60 * 24],
+    ["hour", 60],
+    ["minute", 1],
+  ];
+  for (const [unit, size] of units) {
+    const count = Math.floor(minutes / size);
+    if (count >= 1) return `${count} ${unit}${count === 1 ? "" : "s"}`;
+  }
+  return "under a minute";
+}
+
+/* --------------------------------- Funnels -------------------------------- */
+
+export interface FunnelStep {
+  label: string;
+  count: number;
+}
+
+export interface ApplicationFunnel {
+  steps: FunnelStep[];
+  rejected: number;
+  withdrawn: number;
+}
+
+type FunnelApplication = {
+  status: ApplicationStatus;
+  jobPost?: Pick<JobPost, "stages"> | null;
+};
+
+/**
+ * How far applications got, across jobs with different pipelines:
+ * applied -> past the first stage -> the last open stage -> hired.
+ * Rejected and withdrawn applications count as applied only, since the
+ * stage they left from isn't known.
+ */
+export function buildApplicationFunnel(applications: FunnelApplication[]): ApplicationFunnel {
+  const reached = [0, 0, 0, 0];
+  let rejected = 0;
+  let withdrawn = 0;
+
+  applications.forEach((application) => {
+    const stages = getJobStages(application.jobPost);
+    const stage = findStage(stages, application.status);
+    let level = 0;
+
+    if (stage.kind === "HIRED") {
+      level = 3;
+    } else if (stage.kind === "REJECTED") {
+      rejected += 1;
+    } else if (stage.kind === "WITHDRAWN") {
+      withdrawn += 1;
+    } else {
+      const open = getOpenStages(stages);
+      const index = open.findIndex((candidate) => candidate.key === stage.key);
+      if (index > 0) level = index === open.length - 1 ? 2 : 1;
+    }
+
+    for (let i = 0; i <= level; i++) reached[i] += 1;
+  });
+
+  return {
+    steps: [
+      { label: "Applied", count: reached[0] },
+      { label: "Moved forward", count: reached[1] },
+      { label: "Final stage", count: reached[2] },
+      { label: "Hired", count: reached[3] },
+    ],
+    rejected,
+    withdrawn,
+  };
+}
+
+/* ----------------------------- Applicant skills ---------------------------- */
+
+export interface SkillCount {
+  skill: string;
+  count: number;
+}
+
+/**
+ * How many applicants list each required skill, and the most common skills
+ * they bring that the job didn't ask for. Skills are compared the way the
+ * match scorer compares them, aliases included when the catalog is passed.
+ */
+export function countApplicantSkills(
+  applicantSkills: string[][],
+  requiredSkills: string[],
+  catalog: Skill[] = []
+): { required: SkillCount[]; other: SkillCount[] } {
+  const counts = new Map<string, SkillCount>();
+  applicantSkills.forEach((skills) => {
+    const seen = new Set<string>();
+    skills.forEach((skill) => {
+      const key = toSkillKey(skill, catalog);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const entry = counts.get(key) ?? { skill, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    });
+  });
+
+  const requiredKeys = new Set(requiredSkills.map((skill) => toSkillKey(skill, catalog)));
+  return {
+    required: requiredSkills.map((skill) => ({
+      skill,
+      count: counts.get(toSkillKey(skill, catalog))?.count ?? 0,
+    })),
+    other: Array.from(counts.entries())
+      .filter(([key]) => !requiredKeys.has(key))
+      .map(([, entry]) => entry)
+      .sort((a, b) => b.count - a.count),
+  };
+}
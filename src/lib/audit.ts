@@ -0,0 +1,119 @@
+/**
+ * @file src/lib/audit.ts
+ * @description Labels, links and change formatting for admin audit log entries
+ */
+
+import type { AuditAction, AuditLogEntry, AuditTargetType } from "@/types";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  USER_ROLE_CHANGED: "Changed role",
+  USER_BANNED: "Banned user",
+  USER_UNBANNED: "Unbanned user",
+  USER_WARNED: "Warned user",
+  USER_SUSPENDED: "Suspended user",
+  USER_UNSUSPENDED: "Lifted suspension",
+  USER_DELETED: "Deleted user",
+  SKILL_CREATED: "Created skill",
+  SKILL_UPDATED: "Edited skill",
+  SKILL_ACTIVATED: "Activated skill",
+  SKILL_DEACTIVATED: "Deactivated skill",
+  SKILL_DELETED: "Deleted skill",
+  SKILL_MERGED: "Merged skill",
+  JOB_FEATURED: "Featured job",
+  JOB_UNFEATURED: "Unfeatured job",
+  JOB_DEACTIVATED: "Deactivated job",
+  JOB_DELETED: "Deleted job",
+  REPORT_RESOLVED: "Resolved report",
+};
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  USER: "User",
+  SKILL: "Skill",
+  JOB: "Job",
+  REPORT: "Report",
+};
+
+// Actions grouped by target type, for filter dropdowns
+export const AUDIT_ACTION_GROUPS = (
+  Object.keys(AUDIT_TARGET_LABELS) as AuditTargetType[]
+).map((targetType) => ({
+  targetType,
+  label: `${AUDIT_TARGET_LABELS[targetType]}s`,
+  actions: (Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).filter((action) =>
+    action.startsWith(`${targetType}_`)
+  ),
+}));
+
+// Actions that remove access or content; shown in red
+export const DESTRUCTIVE_AUDIT_ACTIONS: AuditAction[] = [
+  "USER_BANNED",
+  "USER_SUSPENDED",
+  "USER_DELETED",
+  "SKILL_DEACTIVATED",
+  "SKILL_DELETED",
+  "SKILL_MERGED",
+  "JOB_DEACTIVATED",
+  "JOB_DELETED",
+];
+
+export const isAuditAction = (value: unknown): value is AuditAction =>
+  typeof value === "string" && value in AUDIT_ACTION_LABELS;
+
+export const isAuditTargetType = (value: unknown): value is AuditTargetType =>
+  typeof value === "string" && value in AUDIT_TARGET_LABELS;
+
+/**
+ * Where the affected user, job or skill can be seen now
+ * Null once the target has been deleted or merged away, since there is nothing
+ * left to open.
+ */
+export function getAuditTargetHref(entry: AuditLogEntry): string | null {
+  if (entry.action.endsWith("_DELETED") || entry.action === "SKILL_MERGED") return null;
+
+  switch (entry.targetType) {
+    case "USER":
+      return entry.targetLabel
+        ? `/admin/users?q=${encodeURIComponent(entry.targetLabel)}`
+        : null;
+    case "SKILL":
+      return entry.targetLabel
+        ? `/admin/skills?q=${encodeURIComponent(entry.targetLabel)}`
+        : null;
+    case "JOB":
+      return `/jobs/${entry.targetId}`;
+    case "REPORT":
+      return "/admin/reports";
+    default:
+      return null;
+  }
+}
+
+// Full history of one target on the audit page
+export const getAuditHistoryHref = (targetType: AuditTargetType, targetId: string) =>
+  `/admin/audit?targetType=${targetType}&targetId=${encodeURIComponent(targetId)}`;
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "–";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export interface AuditChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+// Fields present on either side, with both values formatted for display
+export function getAuditChanges(entry: Pick<AuditLogEntry, "before" | "after">): AuditChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields.map((field) => ({
+    field,
+    before: formatAuditValue(before[field]),
+    after: formatAuditValue(after[field]),
+  }));
+}
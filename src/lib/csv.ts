@@ -0,0 +1,97 @@
+/**
+ * @file src/lib/csv.ts
+ * @description Build, parse and download CSV (RFC 4180 quoting), and JSON export files
+ */
+
+import { downloadFile } from "./utils";
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return "";
+  // A leading quote makes the spreadsheet show the text as typed; numbers stay numbers
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Header row first; rows are joined with CRLF as spreadsheets expect
+export const toCsv = (rows: CsvValue[][]) =>
+  rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+
+/**
+ * Rows of cells from CSV text: quoted cells may hold commas, doubled quotes and
+ * line breaks. A leading BOM and blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+const withExtension = (filename: string, extension: string) =>
+  filename.endsWith(extension) ? filename : `${filename}${extension}`;
+
+/**
+ * Save rows as a .csv file in the browser
+ * A BOM is prepended so Excel reads the file as UTF-8
+ */
+export function downloadCsv(filename: string, rows: CsvValue[][]) {
+  downloadFile(withExtension(filename, ".csv"), ["\uFEFF", toCsv(rows)], "text/csv;charset=utf-8");
+}
+
+// Save any serializable value as pretty-printed .json
+export function downloadJson(filename: string, data: unknown) {
+  downloadFile(
+    withExtension(filename, ".json"),
+    [JSON.stringify(data, null, 2)],
+    "application/json;charset=utf-8"
+  );
+}
+
+// "Senior React Dev (Remote)" -> "senior-react-dev-remote"
+export const toFileSlug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "export";
@@ -0,0 +1,143 @@
+/**
+ * @file src/lib/hiringStages.ts
+ * @description Per-job hiring stage pipelines: defaults, lookup and validation
+ */
+
+import type { ApplicationStatus, HiringStage, HiringStageKind, JobPost } from "@/types";
+
+// Used for jobs that never customised their pipeline
+export const DEFAULT_HIRING_STAGES: HiringStage[] = [
+  { key: "PENDING", label: "Pending", kind: "OPEN" },
+  { key: "REVIEWED", label: "Reviewed", kind: "OPEN" },
+  { key: "SHORTLISTED", label: "Shortlisted", kind: "OPEN" },
+  { key: "INTERVIEWING", label: "Interviewing", kind: "OPEN" },
+  { key: "OFFERED", label: "Offered", kind: "OPEN" },
+  { key: "HIRED", label: "Hired", kind: "HIRED" },
+  { key: "REJECTED", label: "Rejected", kind: "REJECTED" },
+  { key: "WITHDRAWN", label: "Withdrawn", kind: "WITHDRAWN" },
+];
+
+// Statuses from before custom stages that can still be on old applications
+const LEGACY_STAGES: HiringStage[] = [{ key: "ACCEPTED", label: "Accepted", kind: "HIRED" }];
+
+// Every pipeline has exactly one stage of each of these, after the OPEN stages
+export const TERMINAL_STAGE_KINDS: HiringStageKind[] = ["HIRED", "REJECTED", "WITHDRAWN"];
+
+export const MAX_OPEN_STAGES = 10;
+export const MAX_STAGE_LABEL_LENGTH = 30;
+
+export const getJobStages = (job?: Pick<JobPost, "stages"> | null): HiringStage[] =>
+  job?.stages?.length ? job.stages : DEFAULT_HIRING_STAGES;
+
+// "TECH_SCREEN" -> "Tech screen"
+export const humanizeStageKey = (key: string) => {
+  const words = key.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Stage for a status key
+ * Falls back to defaults and legacy statuses, then to an OPEN stage named after the key,
+ * so applications in a stage that was later removed still render
+ */
+export function findStage(stages: HiringStage[], key: ApplicationStatus): HiringStage {
+  return (
+    stages.find((stage) => stage.key === key) ??
+    DEFAULT_HIRING_STAGES.find((stage) => stage.key === key) ??
+    LEGACY_STAGES.find((stage) => stage.key === key) ?? {
+      key,
+      label: humanizeStageKey(key),
+      kind: "OPEN",
+    }
+  );
+}
+
+export const getStageByKind = (stages: HiringStage[], kind: HiringStageKind): HiringStage =>
+  stages.find((stage) => stage.kind === kind) ??
+  DEFAULT_HIRING_STAGES.find((stage) => stage.kind === kind)!;
+
+// Where new applications land
+export const getInitialStage = (stages: HiringStage[]) =>
+  stages.find((stage) => stage.kind === "OPEN") ?? DEFAULT_HIRING_STAGES[0];
+
+export const getOpenStages = (stages: HiringStage[]) =>
+  stages.filter((stage) => stage.kind === "OPEN");
+
+// Hired and withdrawn applications leave the recruiter's board
+export const isClosedStage = (stage: HiringStage) =>
+  stage.kind === "HIRED" || stage.kind === "WITHDRAWN";
+
+export const getBoardStages = (stages: HiringStage[]) =>
+  stages.filter((stage) => !isClosedStage(stage));
+
+// In-progress status the job's pipeline no longer has a column for (its stage was removed)
+export const isUnassignedStatus = (stages: HiringStage[], key: ApplicationStatus) =>
+  !stages.some((stage) => stage.key === key) && findStage(stages, key).kind === "OPEN";
+
+/**
+ * Stages from several jobs in first-seen order, one per key
+ * (e.g. filter options for a developer's applications across jobs)
+ */
+export function mergeStages(...lists: HiringStage[][]): HiringStage[] {
+  const byKey = new Map<string, HiringStage>();
+  lists.flat().forEach((stage) => {
+    if (!byKey.has(stage.key)) byKey.set(stage.key, stage);
+  });
+  const merged = Array.from(byKey.values());
+  // Keep in-progress stages ahead of the outcomes
+  return [...getOpenStages(merged), ...merged.filter((stage) => stage.kind !== "OPEN")];
+}
+
+// "Tech screen" -> "TECH_SCREEN", suffixed when the key is taken
+export function stageKeyFromLabel(label: string, taken: Set<string>): string {
+  const base =
+    label
+      .trim()
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "STAGE";
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+/**
+ * Stages ready to save: trimmed labels, keys for new stages (empty key),
+ * OPEN stages first in the given order, then one stage per terminal kind
+ */
+export function normalizeStages(stages: HiringStage[]): HiringStage[] {
+  const trimmed = stages.map((stage) => ({ ...stage, label: stage.label.trim() }));
+  const taken = new Set(trimmed.map((stage) => stage.key).filter(Boolean));
+
+  const withKeys = trimmed.map((stage) => {
+    if (stage.key) return stage;
+    const key = stageKeyFromLabel(stage.label, taken);
+    taken.add(key);
+    return { ...stage, key };
+  });
+
+  const terminal = TERMINAL_STAGE_KINDS.map((kind) => getStageByKind(withKeys, kind));
+
+  return [...getOpenStages(withKeys), ...terminal];
+}
+
+/**
+ * First problem with a pipeline, or null when it can be saved
+ */
+export function validateStages(stages: HiringStage[]): string | null {
+  const open = getOpenStages(stages);
+  if (open.length === 0) return "Add at least one in-progress stage";
+  if (open.length > MAX_OPEN_STAGES) {
+    return `A pipeline can have at most ${MAX_OPEN_STAGES} in-progress stages`;
+  }
+
+  if (stages.some((stage) => !stage.label.trim())) return "Every stage needs a name";
+  if (stages.some((stage) => stage.label.trim().length > MAX_STAGE_LABEL_LENGTH)) {
+    return `Stage names cannot exceed ${MAX_STAGE_LABEL_LENGTH} characters`;
+  }
+
+  const labels = stages.map((stage) => stage.label.trim().toLowerCase());
+  if (new Set(labels).size !== labels.length) return "Stage names must be unique";
+
+  return null;
+}
@@ -0,0 +1,77 @@
+/**
+ * @file src/lib/ics.ts
+ * @description Build and download iCalendar (.ics) files (RFC 5545)
+ */
+
+import { formatIcsDateTime } from "@/utils/formatters";
+import { downloadFile } from "./utils";
+
+export interface IcsEvent {
+  // Stable across updates so calendars replace the event instead of duplicating it
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // Bump on every change; calendars ignore updates with a lower sequence
+  sequence?: number;
+  cancelled?: boolean;
+  organizer?: { name: string; email?: string };
+  attendees?: { name: string; email?: string }[];
+}
+
+// Escape TEXT values: backslash, semicolon, comma and newlines
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += 74) chunks.push(line.slice(i, i + 74));
+  return chunks.join("\r\n ");
+};
+
+const person = (prop: string, p: { name: string; email?: string }) =>
+  `${prop};CN=${escapeText(p.name)}:${p.email ? `mailto:${p.email}` : "invalid:nomail"}`;
+
+/**
+ * Calendar file with a single event; a cancelled event uses METHOD:CANCEL
+ * so importing it removes the earlier copy
+ */
+export function buildIcsEvent(event: IcsEvent): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DevMatch//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${event.cancelled ? "CANCEL" : "PUBLISH"}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(new Date().toISOString())}`,
+    `DTSTART:${formatIcsDateTime(event.start)}`,
+    `DTEND:${formatIcsDateTime(event.end)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.organizer) lines.push(person("ORGANIZER", event.organizer));
+  event.attendees?.forEach((attendee) => lines.push(person("ATTENDEE", attendee)));
+
+  lines.push("END:VEVENT", "END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Save an .ics file in the browser
+ */
+export function downloadIcs(filename: string, content: string) {
+  downloadFile(
+    filename.endsWith(".ics") ? filename : `${filename}.ics`,
+    [content],
+    "text/calendar;charset=utf-8"
+  );
+}
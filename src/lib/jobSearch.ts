@@ -0,0 +1,98 @@
+/**
+ * @file src/lib/jobSearch.ts
+ * @description Convert job search filters to and from URL query params
+ */
+
+import type { EmploymentType, JobFilters, WorkType } from "@/types";
+
+type Query = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+
+const toNumber = (value: string | undefined) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+// Read the filters the jobs page keeps in its URL
+export function parseJobFilters(query: Query): JobFilters {
+  const filters: JobFilters = {
+    q: first(query.q),
+    skills: first(query.skills)?.split(",").filter(Boolean),
+    workType: first(query.workType) as WorkType | undefined,
+    employmentType: first(query.employmentType) as EmploymentType | undefined,
+    country: first(query.country),
+    minSalary: toNumber(first(query.minSalary)),
+    maxExperience: toNumber(first(query.maxExperience)),
+    featured: first(query.featured) === "true" || undefined,
+  };
+  return compactJobFilters(filters);
+}
+
+// Drop empty values so equal searches serialize the same way
+export function compactJobFilters(filters: JobFilters): JobFilters {
+  const result: JobFilters = {};
+  if (filters.q) result.q = filters.q;
+  if (filters.skills?.length) result.skills = [...filters.skills].sort();
+  if (filters.workType) result.workType = filters.workType;
+  if (filters.employmentType) result.employmentType = filters.employmentType;
+  if (filters.country) result.country = filters.country;
+  if (filters.minSalary) result.minSalary = filters.minSalary;
+  if (filters.maxExperience !== undefined) result.maxExperience = filters.maxExperience;
+  if (filters.featured) result.featured = true;
+  return result;
+}
+
+export function jobFiltersToQuery(filters: JobFilters): Record<string, string> {
+  const query: Record<string, string> = {};
+  Object.entries(compactJobFilters(filters)).forEach(([key, value]) => {
+    query[key] = Array.isArray(value) ? value.join(",") : String(value);
+  });
+  return query;
+}
+
+// Params for jobService.getJobs
+export function jobFiltersToParams(filters: JobFilters) {
+  const { skills, ...rest } = compactJobFilters(filters);
+  return { ...rest, skills: skills?.join(",") };
+}
+
+export function isSameJobFilters(a: JobFilters, b: JobFilters) {
+  return JSON.stringify(compactJobFilters(a)) === JSON.stringify(compactJobFilters(b));
+}
+
+export function hasJobFilters(filters: JobFilters) {
+  return Object.keys(compactJobFilters(filters)).length > 0;
+}
+
+const WORK_TYPE_LABELS: Record<WorkType, string> = {
+  REMOTE: "Remote",
+  ONSITE: "On-site",
+  HYBRID: "Hybrid",
+};
+
+const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  FULL_TIME: "Full-time",
+  PART_TIME: "Part-time",
+  CONTRACT: "Contract",
+  INTERNSHIP: "Internship",
+  FREELANCE: "Freelance",
+};
+
+// Short human-readable labels, e.g. ["“react”", "Remote", "typescript"]
+export function describeJobFilters(filters: JobFilters): string[] {
+  const f = compactJobFilters(filters);
+  const parts: string[] = [];
+  if (f.q) parts.push(`“${f.q}”`);
+  if (f.workType) parts.push(WORK_TYPE_LABELS[f.workType] ?? f.workType);
+  if (f.employmentType) {
+    parts.push(EMPLOYMENT_TYPE_LABELS[f.employmentType] ?? f.employmentType);
+  }
+  if (f.country) parts.push(f.country);
+  if (f.skills) parts.push(...f.skills);
+  if (f.minSalary) parts.push(`${f.minSalary.toLocaleString()}+ salary`);
+  if (f.maxExperience !== undefined) parts.push(`≤ ${f.maxExperience} yrs exp`);
+  if (f.featured) parts.push("Featured");
+  return parts;
+}
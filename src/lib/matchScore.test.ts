@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import {
+  rankByMatch,
+  scoreMatch,
+  type MatchCriterion,
+  type MatchJob,
+  type MatchResult,
+} from "./matchScore";
+import { toSkillKey } from "./skillTaxonomy";
+import type { Skill, WorkType } from "@/types";
+
+// A job that leaves every criterion open
+const makeJob = (overrides: Partial<MatchJob> = {}): MatchJob => ({
+  requiredSkills: [],
+  preferredSkills: [],
+  minYearsExperience: 0,
+  maxYearsExperience: null,
+  workType: "REMOTE",
+  location: {},
+  ...overrides,
+});
+
+const makeSkill = (name: string, aliases: string[] = []): Skill => ({
+  _id: name,
+  name,
+  slug: name.toLowerCase(),
+  category: "FRONTEND",
+  icon: null,
+  isActive: true,
+  usageCount: 0,
+  aliases,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const criterion = (result: MatchResult, name: MatchCriterion) =>
+  result.breakdown.find((item) => item.criterion === name)!;
+
+describe("scoreMatch", () => {
+  describe("re-weighting", () => {
+    it("scores 100 when the job leaves every criterion open", () => {
+      const result = scoreMatch(makeJob(), {});
+      expect(result.score).toBe(100);
+      expect(result.breakdown.every((item) => item.score === null)).toBe(true);
+    });
+
+    it("scores only the criteria that apply", () => {
+      const result = scoreMatch(makeJob({ requiredSkills: ["React", "TypeScript"] }), {
+        skills: ["React"],
+      });
+      expect(result.score).toBe(50);
+    });
+
+    it("spreads the skipped weight over the remaining criteria", () => {
+      // Required skills (0.45) fully met, work type (0.1) not at all
+      const result = scoreMatch(makeJob({ requiredSkills: ["React"] }), {
+        skills: ["React"],
+        preferredWorkTypes: ["ONSITE"],
+      });
+      expect(result.score).toBe(Math.round((0.45 / 0.55) * 100));
+    });
+  });
+
+  describe("experience", () => {
+    const job = makeJob({ minYearsExperience: 4, maxYearsExperience: 6 });
+    const experience = (years?: number) =>
+      criterion(scoreMatch(job, { yearsOfExperience: years }), "experience").score;
+
+    it("gives full credit inside the range", () => {
+      expect(experience(4)).toBe(1);
+      expect(experience(6)).toBe(1);
+    });
+
+    it("loses credit in proportion to the gap below the minimum", () => {
+      expect(experience(2)).toBe(0.5);
+      expect(experience(0)).toBe(0);
+    });
+
+    it("takes a tenth per year above the maximum, down to half credit", () => {
+      expect(experience(8)).toBeCloseTo(0.8);
+      expect(experience(20)).toBe(0.5);
+    });
+
+    it("gives no credit when the profile has no experience", () => {
+      expect(experience(undefined)).toBe(0);
+    });
+
+    it("skips the criterion when the job accepts any level", () => {
+      const result = scoreMatch(makeJob(), { yearsOfExperience: 3 });
+      expect(criterion(result, "experience").score).toBeNull();
+    });
+  });
+
+  describe("work type", () => {
+    const workType = (jobType: WorkType, preferred: WorkType[]) => {
+      const result = scoreMatch(makeJob({ workType: jobType }), { preferredWorkTypes: preferred });
+      return criterion(result, "workType").score;
+    };
+
+    it("gives full credit for a preferred work type", () => {
+      expect(workType("REMOTE", ["REMOTE", "HYBRID"])).toBe(1);
+    });
+
+    it("gives half credit when either side is hybrid", () => {
+      expect(workType("HYBRID", ["REMOTE"])).toBe(0.5);
+      expect(workType("ONSITE", ["HYBRID"])).toBe(0.5);
+    });
+
+    it("gives no credit for an unwanted work type", () => {
+      expect(workType("ONSITE", ["REMOTE"])).toBe(0);
+    });
+
+    it("skips the criterion without a preference", () => {
+      expect(workType("ONSITE", [])).toBeNull();
+    });
+  });
+
+  describe("location", () => {
+    const berlinJob = makeJob({
+      workType: "ONSITE",
+      location: { city: "Berlin", country: "Germany" },
+    });
+    const location = (job: MatchJob, city?: string, country?: string) =>
+      criterion(scoreMatch(job, { location: { city, country } }), "location");
+
+    it("gives full credit for the same city, ignoring case and spacing", () => {
+      expect(location(berlinJob, " berlin ", "GERMANY").score).toBe(1);
+    });
+
+    it("matches the city when the profile has no country", () => {
+      expect(location(berlinJob, "Berlin").score).toBe(1);
+    });
+
+    it("gives half credit for another city in the same country", () => {
+      const result = location(berlinJob, "Munich", "Germany");
+      expect(result.score).toBe(0.5);
+      expect(result.detail).toBe("Same country");
+    });
+
+    it("gives full credit for the country when the job names no city", () => {
+      const job = makeJob({ workType: "ONSITE", location: { country: "Germany" } });
+      expect(location(job, "Munich", "Germany").score).toBe(1);
+    });
+
+    it("doesn't match a city of the same name in another country", () => {
+      expect(location(berlinJob, "Berlin", "United States").score).toBe(0);
+    });
+
+    it("gives no credit when the profile has no location", () => {
+      expect(location(berlinJob).score).toBe(0);
+    });
+
+    it("skips the criterion for remote jobs", () => {
+      const job = makeJob({ location: { city: "Berlin", country: "Germany" } });
+      expect(location(job, "Lisbon", "Portugal").score).toBeNull();
+    });
+  });
+
+  describe("skills", () => {
+    it("matches skills however they are spelled", () => {
+      const result = scoreMatch(makeJob({ requiredSkills: ["Node.js", "React"] }), {
+        skills: ["nodejs", "REACT"],
+      });
+      expect(criterion(result, "requiredSkills")).toMatchObject({
+        score: 1,
+        matched: ["Node.js", "React"],
+        missing: [],
+      });
+    });
+
+    it("matches aliases through the skill catalog", () => {
+      const job = makeJob({ requiredSkills: ["React"] });
+      const profile = { skills: ["ReactJS"] };
+
+      expect(scoreMatch(job, profile).score).toBe(0);
+      expect(scoreMatch(job, profile, [makeSkill("React", ["ReactJS"])]).score).toBe(100);
+    });
+  });
+});
+
+describe("toSkillKey", () => {
+  it("ignores case, spaces and punctuation", () => {
+    expect(toSkillKey("Node.js")).toBe("nodejs");
+    expect(toSkillKey("Node JS")).toBe("nodejs");
+    expect(toSkillKey("node-js")).toBe("nodejs");
+  });
+
+  it("keeps C, C++ and C# apart", () => {
+    const keys = new Set(["C", "C++", "C#"].map((skill) => toSkillKey(skill)));
+    expect(keys.size).toBe(3);
+  });
+
+  it("resolves aliases to the skill's name", () => {
+    const catalog = [makeSkill("React", ["ReactJS", "React.js"])];
+    expect(toSkillKey("ReactJS", catalog)).toBe("react");
+    expect(toSkillKey("react.js", catalog)).toBe("react");
+    expect(toSkillKey("Vue", catalog)).toBe("vue");
+  });
+});
+
+describe("rankByMatch", () => {
+  const items = [
+    { id: "a", score: 50 },
+    { id: "b", score: 80 },
+    { id: "c", score: undefined },
+    { id: "d", score: 50 },
+    { id: "e", score: 80 },
+  ];
+
+  it("sorts best first, keeping ties in their original order", () => {
+    const ranked = rankByMatch(items, (item) => item.score);
+    expect(ranked.map((item) => item.id)).toEqual(["b", "e", "a", "d", "c"]);
+  });
+
+  it("doesn't reorder the input", () => {
+    rankByMatch(items, (item) => item.score);
+    expect(items.map((item) => item.id)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @file src/lib/matchScore.ts
+ * @description Deterministic job-to-developer match scoring with a per-criterion breakdown
+ */
+
+import { toSkillKey } from "./skillTaxonomy";
+import type { DeveloperProfile, JobPost, Location, Skill, WorkType } from "@/types";
+
+export type MatchCriterion =
+  | "requiredSkills"
+  | "preferredSkills"
+  | "experience"
+  | "workType"
+  | "location";
+
+export type MatchJob = Pick<
+  JobPost,
+  | "requiredSkills"
+  | "preferredSkills"
+  | "minYearsExperience"
+  | "maxYearsExperience"
+  | "workType"
+  | "location"
+>;
+
+// Everything is optional so partially filled profiles can still be scored
+export type MatchProfile = Partial<
+  Pick<DeveloperProfile, "skills" | "yearsOfExperience" | "preferredWorkTypes" | "location">
+>;
+
+export interface MatchCriterionResult {
+  criterion: MatchCriterion;
+  label: string;
+  weight: number;
+  // 0..1, or null when the job gives nothing to compare against
+  score: number | null;
+  detail: string;
+  matched?: string[];
+  missing?: string[];
+}
+
+export interface MatchResult {
+  // 0..100, weighted over the criteria that apply
+  score: number;
+  breakdown: MatchCriterionResult[];
+}
+
+export type MatchTier = "strong" | "good" | "fair" | "weak";
+
+export const MATCH_WEIGHTS: Record<MatchCriterion, number> = {
+  requiredSkills: 0.45,
+  preferredSkills: 0.15,
+  experience: 0.2,
+  workType: 0.1,
+  location: 0.1,
+};
+
+const normalizePlace = (value?: string) => value?.trim().toLowerCase() || "";
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+function scoreSkills(
+  criterion: "requiredSkills" | "preferredSkills",
+  label: string,
+  wanted: string[] = [],
+  have: string[] = [],
+  catalog: Skill[] = []
+): MatchCriterionResult {
+  const base = { criterion, label, weight: MATCH_WEIGHTS[criterion] };
+  if (wanted.length === 0) {
+    return { ...base, score: null, detail: "None listed" };
+  }
+
+  const owned = new Set(have.map((skill) => toSkillKey(skill, catalog)));
+  const matched = wanted.filter((skill) => owned.has(toSkillKey(skill, catalog)));
+  const missing = wanted.filter((skill) => !owned.has(toSkillKey(skill, catalog)));
+
+  return {
+    ...base,
+    score: matched.length / wanted.length,
+    detail: `${matched.length} of ${plural(wanted.length, "skill")}`,
+    matched,
+    missing,
+  };
+}
+
+function scoreExperience(job: MatchJob, years?: number): MatchCriterionResult {
+  const base = { criterion: "experience" as const, label: "Experience", weight: MATCH_WEIGHTS.experience };
+  const min = job.minYearsExperience || 0;
+  const max = job.maxYearsExperience;
+
+  if (min === 0 && max == null) {
+    return { ...base, score: null, detail: "Any level" };
+  }
+  if (years == null) {
+    return { ...base, score: 0, detail: "Not on profile" };
+  }
+
+  const range = max == null ? `${min}+ yrs` : `${min}-${max} yrs`;
+
+  // Short of the minimum: lose credit in proportion to the gap
+  if (years < min) {
+    return {
+      ...base,
+      score: Math.max(0, 1 - (min - years) / min),
+      detail: `${plural(years, "yr")} (wants ${range})`,
+    };
+  }
+
+  // Over the maximum: mild penalty per extra year, never below half credit
+  if (max != null && years > max) {
+    return {
+      ...base,
+      score: Math.max(0.5, 1 - (years - max) * 0.1),
+      detail: `${plural(years, "yr")} (wants ${range})`,
+    };
+  }
+
+  return { ...base, score: 1, detail: `${plural(years, "yr")} (wants ${range})` };
+}
+
+function scoreWorkType(jobType: WorkType, preferred: WorkType[] = []): MatchCriterionResult {
+  const base = { criterion: "workType" as const, label: "Work type", weight: MATCH_WEIGHTS.workType };
+  if (preferred.length === 0) {
+    return { ...base, score: null, detail: "No preference set" };
+  }
+  if (preferred.includes(jobType)) {
+    return { ...base, score: 1, detail: `Prefers ${jobType.toLowerCase()}` };
+  }
+  // Hybrid roles partly suit both remote and on-site people
+  if (jobType === "HYBRID" || preferred.includes("HYBRID")) {
+    return { ...base, score: 0.5, detail: `Partial fit for ${jobType.toLowerCase()}` };
+  }
+  return { ...base, score: 0, detail: `Doesn't want ${jobType.toLowerCase()}` };
+}
+
+function scoreLocation(job: MatchJob, location?: Location): MatchCriterionResult {
+  const base = { criterion: "location" as const, label: "Location", weight: MATCH_WEIGHTS.location };
+  const jobCity = normalizePlace(job.location?.city);
+  const jobCountry = normalizePlace(job.location?.country);
+
+  if (job.workType === "REMOTE" || (!jobCity && !jobCountry)) {
+    return { ...base, score: null, detail: "Anywhere" };
+  }
+
+  const city = normalizePlace(location?.city);
+  const country = normalizePlace(location?.country);
+  if (!city && !country) {
+    return { ...base, score: 0, detail: "Not on profile" };
+  }
+
+  const sameCountry = !jobCountry || !country || jobCountry === country;
+  if (jobCity && city === jobCity && sameCountry) {
+    return { ...base, score: 1, detail: "Same city" };
+  }
+  if (jobCountry && country === jobCountry) {
+    return { ...base, score: jobCity ? 0.5 : 1, detail: "Same country" };
+  }
+  return { ...base, score: 0, detail: "Different location" };
+}
+
+/**
+ * Score how well a developer profile fits a job
+ * Criteria the job leaves open are skipped and the rest are re-weighted,
+ * so an unconstrained job doesn't inflate or deflate every score equally.
+ * Pass the skill catalog to match skills through their aliases.
+ */
+export function scoreMatch(
+  job: MatchJob,
+  profile: MatchProfile,
+  catalog: Skill[] = []
+): MatchResult {
+  const breakdown = [
+    scoreSkills("requiredSkills", "Required skills", job.requiredSkills, profile.skills, catalog),
+    scoreSkills(
+      "preferredSkills",
+      "Nice-to-have skills",
+      job.preferredSkills,
+      profile.skills,
+      catalog
+    ),
+    scoreExperience(job, profile.yearsOfExperience),
+    scoreWorkType(job.workType, profile.preferredWorkTypes),
+    scoreLocation(job, profile.location),
+  ];
+
+  const applicable = breakdown.filter((item) => item.score !== null);
+  const totalWeight = applicable.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) return { score: 100, breakdown };
+
+  const weighted = applicable.reduce((sum, item) => sum + item.weight * (item.score ?? 0), 0);
+  return { score: Math.round((weighted / totalWeight) * 100), breakdown };
+}
+
+export function getMatchTier(score: number): MatchTier {
+  if (score >= 80) return "strong";
+  if (score >= 60) return "good";
+  if (score >= 40) return "fair";
+  return "weak";
+}
+
+/**
+ * Sort items by match score, best first
+ * Ties keep their original order (Array.prototype.sort is stable)
+ */
+export function rankByMatch<T>(items: T[], getScore: (item: T) => number | undefined): T[] {
+  return [...items].sort((a, b) => (getScore(b) ?? -1) - (getScore(a) ?? -1));
+}
@@ -0,0 +1,58 @@
+/**
+ * @file src/lib/moderation.ts
+ * @description Account warnings, temporary suspensions and appeals: durations, expiry and labels
+ */
+
+import type { AppealStatus, User, UserStatus } from "@/types";
+
+type ModeratedUser = { status?: UserStatus; suspendedUntil?: string | null };
+
+// Choices in the admin suspend dialog
+export const SUSPENSION_DURATIONS: { days: number; label: string }[] = [
+  { days: 1, label: "1 day" },
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+  { days: 30, label: "30 days" },
+];
+
+export const USER_STATUS_LABELS: Record<UserStatus, string> = {
+  ACTIVE: "Active",
+  SUSPENDED: "Suspended",
+  BANNED: "Banned",
+};
+
+// A suspension whose end has passed counts as lifted, even before the API catches up
+export function isSuspended(user: ModeratedUser | null | undefined, now = Date.now()): boolean {
+  if (user?.status !== "SUSPENDED") return false;
+  if (!user.suspendedUntil) return true;
+  return new Date(user.suspendedUntil).getTime() > now;
+}
+
+export function getEffectiveStatus(user: Pick<User, "status" | "suspendedUntil">): UserStatus {
+  if (user.status === "SUSPENDED" && !isSuspended(user)) return "ACTIVE";
+  return user.status;
+}
+
+// "for 2 more days", "for 5 more hours"; open-ended suspensions have no end
+export function formatSuspensionRemaining(until: string | null | undefined, now = Date.now()) {
+  if (!until) return "until an admin lifts it";
+  const hours = Math.max(1, Math.ceil((new Date(until).getTime() - now) / 3_600_000));
+  if (hours < 48) return `for ${hours} more ${hours === 1 ? "hour" : "hours"}`;
+  return `for ${Math.ceil(hours / 24)} more days`;
+}
+
+// Worded for the user who filed the appeal
+export const APPEAL_STATUS_LABELS: Record<AppealStatus, string> = {
+  PENDING: "Waiting for review",
+  APPROVED: "Approved - suspension lifted",
+  DENIED: "Denied",
+};
+
+export const APPEAL_STATUS_STYLES: Record<AppealStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-700",
+  APPROVED: "bg-green-100 text-green-700",
+  DENIED: "bg-red-100 text-red-700",
+};
+
+export const MIN_APPEAL_LENGTH = 20;
+export const MAX_APPEAL_LENGTH = 2000;
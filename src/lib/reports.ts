@@ -0,0 +1,151 @@
+/**
+ * @file src/lib/reports.ts
+ * @description Report reasons and the labels reporters and admins see for a report
+ */
+
+import type {
+  Report,
+  ReportAction,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from "@/types";
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  SPAM: "Spam or misleading",
+  HARASSMENT: "Harassment or bullying",
+  HATE_SPEECH: "Hate speech or discrimination",
+  INAPPROPRIATE: "Inappropriate content",
+  FAKE: "Fake or fraudulent",
+  COPYRIGHT: "Copyright violation",
+  OTHER: "Other",
+};
+
+// Reports filed before the reason list existed may carry free text
+export const getReportReasonLabel = (reason: string) =>
+  REPORT_REASONS[reason as ReportReason] || reason;
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  POST: "post",
+  COMMENT: "comment",
+  USER: "user",
+  JOB: "job",
+};
+
+// Worded for the person who filed the report
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  PENDING: "Waiting for review",
+  REVIEWED: "Under review",
+  RESOLVED: "Resolved",
+};
+
+export const REPORT_STATUS_STYLES: Record<ReportStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-700",
+  REVIEWED: "bg-blue-100 text-blue-700",
+  RESOLVED: "bg-green-100 text-green-700",
+};
+
+// Longer than this and the reporter is asked to trim it
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+// What the reporter is told about the outcome; who was warned or banned stays private
+export const getReportOutcome = (report: Report): string | null => {
+  if (report.status !== "RESOLVED") return null;
+  return report.action === "DISMISS"
+    ? "Reviewed; no rules were broken"
+    : "Reviewed and action was taken";
+};
+
+// Where the reported thing can be seen, when it has a page of its own
+export function getReportTargetHref(report: Report): string | null {
+  switch (report.targetType) {
+    case "USER": {
+      const username = report.reportedUser?.username ?? report.reportedContent?.username;
+      return username ? `/profile/${encodeURIComponent(username)}` : null;
+    }
+    case "JOB":
+      return `/jobs/${report.targetId}`;
+    default:
+      return null;
+  }
+}
+
+// ==================== ADMIN TRIAGE ====================
+
+export const REPORT_ACTION_LABELS: Record<ReportAction, string> = {
+  DISMISS: "Dismiss",
+  WARN: "Warn user",
+  REMOVE: "Remove content",
+  BAN: "Ban user",
+};
+
+// Single-key shortcuts in the admin detail panel
+export const REPORT_ACTION_SHORTCUTS: Record<string, ReportAction> = {
+  d: "DISMISS",
+  w: "WARN",
+  r: "REMOVE",
+  b: "BAN",
+};
+
+// Shown in the shortcut help on the admin reports page
+export const REPORT_QUEUE_SHORTCUTS: { keys: string; label: string }[] = [
+  { keys: "j / k", label: "Next / previous target" },
+  { keys: "Enter", label: "Open the selected target" },
+  { keys: "d w r b", label: "Pick dismiss, warn, remove or ban" },
+  { keys: "a", label: "Assign to me" },
+  { keys: "Ctrl+Enter", label: "Resolve with the note" },
+  { keys: "Esc", label: "Close the panel" },
+  { keys: "?", label: "Show these shortcuts" },
+];
+
+export const MAX_RESOLUTION_NOTE_LENGTH = 1000;
+
+// All reports on one page that point at the same post, comment, user or job
+export interface ReportGroup {
+  key: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  // Newest first; the first one stands in for the group in the list
+  reports: Report[];
+  pendingCount: number;
+}
+
+export const getReportGroupKey = (report: Pick<Report, "targetType" | "targetId">) =>
+  `${report.targetType}:${report.targetId}`;
+
+// Groups keep the order of their newest report
+export function groupReportsByTarget(reports: Report[]): ReportGroup[] {
+  const groups = new Map<string, ReportGroup>();
+
+  for (const report of reports) {
+    const key = getReportGroupKey(report);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        reports: [],
+        pendingCount: 0,
+      };
+      groups.set(key, group);
+    }
+    group.reports.push(report);
+    if (report.status !== "RESOLVED") group.pendingCount++;
+  }
+
+  const byNewest = (a: Report, b: Report) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  const result = [...groups.values()];
+  result.forEach((group) => group.reports.sort(byNewest));
+  return result.sort((a, b) => byNewest(a.reports[0], b.reports[0]));
+}
+
+// Distinct reasons across a group, most common first
+export function getGroupReasons(group: ReportGroup): { reason: string; count: number }[] {
+  const counts = new Map<string, number>();
+  group.reports.forEach((r) => counts.set(r.reason, (counts.get(r.reason) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+}
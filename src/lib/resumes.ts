@@ -0,0 +1,89 @@
+/**
+ * @file src/lib/resumes.ts
+ * @description Resume upload limits, file checks and profile suggestions
+ */
+
+import { formatFileSize } from "@/utils/formatters";
+import type { ResumeSuggestions } from "@/types";
+
+export const RESUME_MAX_SIZE = 5 * 1024 * 1024;
+export const MAX_RESUMES = 5;
+
+// Mime type -> label shown in the library
+export const RESUME_FILE_TYPES: Record<string, string> = {
+  "application/pdf": "PDF",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "DOCX",
+};
+
+// For <input accept>; extensions too, since some browsers leave the mime type empty
+export const RESUME_ACCEPT = [".pdf", ".docx", ...Object.keys(RESUME_FILE_TYPES)].join(",");
+
+export const getResumeFileType = (mimeType: string, fileName = "") =>
+  RESUME_FILE_TYPES[mimeType] ??
+  (/\.(pdf|docx)$/i.exec(fileName)?.[1].toUpperCase() || null);
+
+/**
+ * Problem with a file picked for upload, or null when it can be sent
+ */
+export function validateResumeFile(file: File): string | null {
+  if (!getResumeFileType(file.type, file.name)) {
+    return "Upload a PDF or Word (.docx) file";
+  }
+  if (file.size === 0) return "This file is empty";
+  if (file.size > RESUME_MAX_SIZE) {
+    return `File is ${formatFileSize(file.size)}; the limit is ${formatFileSize(RESUME_MAX_SIZE)}`;
+  }
+  return null;
+}
+
+const SUGGESTION_LABELS: Record<keyof ResumeSuggestions, string> = {
+  headline: "headline",
+  skills: "skills",
+  yearsOfExperience: "years of experience",
+  githubUsername: "GitHub username",
+  portfolioUrl: "portfolio",
+  linkedinUrl: "LinkedIn",
+  twitterUrl: "Twitter/X",
+  websiteUrl: "website",
+};
+
+/**
+ * A profile form with a resume's suggestions filled in
+ * Only empty fields are filled and suggested skills are added to the existing ones,
+ * so nothing the developer typed is overwritten. Fields the form doesn't have are skipped.
+ * `applied` names the fields that changed, for a confirmation message
+ */
+export function applyResumeSuggestions<T extends ResumeSuggestions>(
+  form: T,
+  suggestions: ResumeSuggestions
+): { form: T; applied: string[] } {
+  const next: ResumeSuggestions = { ...form };
+  const applied: string[] = [];
+
+  (Object.keys(SUGGESTION_LABELS) as (keyof ResumeSuggestions)[]).forEach((field) => {
+    if (!(field in form)) return;
+
+    if (field === "skills") {
+      const current = form.skills ?? [];
+      const added = (suggestions.skills ?? []).filter((slug) => !current.includes(slug));
+      if (added.length === 0) return;
+      next.skills = [...current, ...added];
+      applied.push(`${added.length} ${added.length === 1 ? "skill" : "skills"}`);
+      return;
+    }
+
+    const value = suggestions[field];
+    if (!value || form[field]) return;
+    Object.assign(next, { [field]: value });
+    applied.push(SUGGESTION_LABELS[field]);
+  });
+
+  return { form: next as T, applied };
+}
+
+export const countSuggestions = (suggestions?: ResumeSuggestions) =>
+  suggestions
+    ? Object.values(suggestions).filter((value) =>
+        Array.isArray(value) ? value.length > 0 : !!value
+      ).length
+    : 0;
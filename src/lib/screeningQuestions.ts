@@ -0,0 +1,297 @@
+/**
+ * @file src/lib/screeningQuestions.ts
+ * @description Screening questions on job posts: editing, answer validation, knockouts and filters
+ */
+
+import type { ValidationRule } from "@/utils/validators";
+import type {
+  ScreeningAnswer,
+  ScreeningAnswerValue,
+  ScreeningQuestion,
+  ScreeningQuestionType,
+} from "@/types";
+
+export const SCREENING_QUESTION_TYPES: Record<
+  ScreeningQuestionType,
+  { label: string; hasOptions: boolean; canKnockout: boolean }
+> = {
+  SHORT_TEXT: { label: "Short text", hasOptions: false, canKnockout: false },
+  LONG_TEXT: { label: "Long text", hasOptions: false, canKnockout: false },
+  SINGLE_CHOICE: { label: "Single choice", hasOptions: true, canKnockout: true },
+  MULTIPLE_CHOICE: { label: "Multiple choice", hasOptions: true, canKnockout: true },
+  YES_NO: { label: "Yes / No", hasOptions: false, canKnockout: true },
+  NUMBER: { label: "Number", hasOptions: false, canKnockout: true },
+};
+
+export const YES_NO_OPTIONS = ["Yes", "No"];
+
+export const MAX_SCREENING_QUESTIONS = 10;
+export const MAX_QUESTION_OPTIONS = 10;
+export const MAX_PROMPT_LENGTH = 200;
+export const MAX_TEXT_ANSWER_LENGTH: Record<"SHORT_TEXT" | "LONG_TEXT", number> = {
+  SHORT_TEXT: 200,
+  LONG_TEXT: 2000,
+};
+
+export const createScreeningQuestion = (
+  type: ScreeningQuestionType = "SHORT_TEXT"
+): ScreeningQuestion => ({
+  id: `q_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  type,
+  prompt: "",
+  options: SCREENING_QUESTION_TYPES[type].hasOptions ? ["", ""] : undefined,
+  required: false,
+  knockout: false,
+});
+
+// Options an applicant picks from; empty for free-form types
+export const getChoiceOptions = (question: ScreeningQuestion): string[] =>
+  question.type === "YES_NO" ? YES_NO_OPTIONS : question.options ?? [];
+
+/**
+ * Question with its type changed, keeping whatever still applies
+ */
+export function changeQuestionType(
+  question: ScreeningQuestion,
+  type: ScreeningQuestionType
+): ScreeningQuestion {
+  const config = SCREENING_QUESTION_TYPES[type];
+  return {
+    id: question.id,
+    type,
+    prompt: question.prompt,
+    required: question.required,
+    options: config.hasOptions
+      ? question.options?.length
+        ? question.options
+        : ["", ""]
+      : undefined,
+    knockout: config.canKnockout && question.knockout,
+  };
+}
+
+/**
+ * Questions ready to save: trimmed text, no empty options
+ * and knockout settings only where the type supports them
+ */
+export function normalizeScreeningQuestions(questions: ScreeningQuestion[]): ScreeningQuestion[] {
+  return questions.map((question) => {
+    const config = SCREENING_QUESTION_TYPES[question.type];
+    const options = config.hasOptions
+      ? (question.options ?? []).map((option) => option.trim()).filter(Boolean)
+      : undefined;
+    const knockout = config.canKnockout && question.knockout;
+    const choices = question.type === "YES_NO" ? YES_NO_OPTIONS : options ?? [];
+
+    return {
+      id: question.id,
+      type: question.type,
+      prompt: question.prompt.trim(),
+      options,
+      required: question.required,
+      knockout,
+      qualifyingAnswers:
+        knockout && question.type !== "NUMBER"
+          ? (question.qualifyingAnswers ?? []).filter((answer) => choices.includes(answer))
+          : undefined,
+      minValue: knockout && question.type === "NUMBER" ? question.minValue : undefined,
+    };
+  });
+}
+
+/**
+ * First problem with a job's questions, or null when they can be saved
+ */
+export function validateScreeningQuestions(questions: ScreeningQuestion[]): string | null {
+  if (questions.length > MAX_SCREENING_QUESTIONS) {
+    return `A job can have at most ${MAX_SCREENING_QUESTIONS} screening questions`;
+  }
+
+  for (const [index, question] of normalizeScreeningQuestions(questions).entries()) {
+    const label = `Question ${index + 1}`;
+
+    if (!question.prompt) return `${label} needs a prompt`;
+    if (question.prompt.length > MAX_PROMPT_LENGTH) {
+      return `${label} cannot exceed ${MAX_PROMPT_LENGTH} characters`;
+    }
+
+    if (question.options) {
+      if (question.options.length < 2) return `${label} needs at least two options`;
+      if (question.options.length > MAX_QUESTION_OPTIONS) {
+        return `${label} can have at most ${MAX_QUESTION_OPTIONS} options`;
+      }
+      const lowered = question.options.map((option) => option.toLowerCase());
+      if (new Set(lowered).size !== lowered.length) return `${label} has duplicate options`;
+    }
+
+    if (question.knockout) {
+      if (question.type === "NUMBER" && question.minValue === undefined) {
+        return `${label} needs a minimum qualifying value`;
+      }
+      if (question.type !== "NUMBER" && !question.qualifyingAnswers?.length) {
+        return `${label} needs at least one qualifying answer`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// ==================== ANSWERS ====================
+
+// Raw apply-form values keyed by question id; multiple choice is a list
+export type ScreeningFormValues = Record<string, string | string[]>;
+
+export const emptyScreeningValues = (questions: ScreeningQuestion[]): ScreeningFormValues =>
+  Object.fromEntries(
+    questions.map((question) => [question.id, question.type === "MULTIPLE_CHOICE" ? [] : ""])
+  );
+
+/**
+ * Form values from a saved draft, for the job's current questions
+ * Answers to removed questions, or whose shape no longer fits the question type, are dropped
+ */
+export function restoreScreeningValues(
+  questions: ScreeningQuestion[],
+  saved: ScreeningFormValues = {}
+): ScreeningFormValues {
+  const values = emptyScreeningValues(questions);
+  questions.forEach((question) => {
+    const value = saved[question.id];
+    if (value === undefined) return;
+    if (Array.isArray(value) !== (question.type === "MULTIPLE_CHOICE")) return;
+    values[question.id] = value;
+  });
+  return values;
+}
+
+/**
+ * validateForm rules for the apply form's answers, keyed by question id
+ */
+export function buildScreeningRules(
+  questions: ScreeningQuestion[]
+): Record<string, ValidationRule[]> {
+  const rules: Record<string, ValidationRule[]> = {};
+
+  questions.forEach((question) => {
+    const fieldRules: ValidationRule[] = [];
+
+    if (question.type === "MULTIPLE_CHOICE") {
+      // validateForm's `required` only understands strings
+      if (question.required) {
+        fieldRules.push({
+          custom: (value: string[]) => value.length > 0,
+          message: "Pick at least one option",
+        });
+      }
+    } else if (question.required) {
+      fieldRules.push({ required: true, message: "This question is required" });
+    }
+
+    if (question.type === "SHORT_TEXT" || question.type === "LONG_TEXT") {
+      const max = MAX_TEXT_ANSWER_LENGTH[question.type];
+      fieldRules.push({ maxLength: max, message: `Keep it under ${max} characters` });
+    }
+
+    if (question.type === "NUMBER") {
+      fieldRules.push({
+        custom: (value: string) => Number.isFinite(Number(value)),
+        message: "Enter a number",
+      });
+    }
+
+    rules[question.id] = fieldRules;
+  });
+
+  return rules;
+}
+
+/**
+ * Typed answers to send with an application; unanswered optional questions are left out
+ */
+export function toScreeningAnswers(
+  questions: ScreeningQuestion[],
+  values: ScreeningFormValues
+): ScreeningAnswer[] {
+  return questions.flatMap((question): ScreeningAnswer[] => {
+    const raw = values[question.id];
+    if (Array.isArray(raw)) {
+      return raw.length ? [{ questionId: question.id, value: raw }] : [];
+    }
+
+    const text = (raw ?? "").trim();
+    if (!text) return [];
+
+    const value: ScreeningAnswerValue =
+      question.type === "NUMBER"
+        ? Number(text)
+        : question.type === "YES_NO"
+          ? text === "Yes"
+          : text;
+    return [{ questionId: question.id, value }];
+  });
+}
+
+// "Yes", "3", "React, Vue"
+export const formatScreeningAnswer = (value: ScreeningAnswerValue): string => {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// Answer as the option labels it matches
+const answerOptions = (value: ScreeningAnswerValue): string[] =>
+  Array.isArray(value) ? value : [formatScreeningAnswer(value)];
+
+/**
+ * Whether an answer passes a knockout question
+ * Unanswered knockout questions don't qualify; multiple choice needs one qualifying pick
+ */
+export function qualifies(question: ScreeningQuestion, answer?: ScreeningAnswer): boolean {
+  if (!question.knockout) return true;
+  if (!answer) return false;
+
+  if (question.type === "NUMBER") {
+    return Number(answer.value) >= (question.minValue ?? -Infinity);
+  }
+  const qualifying = question.qualifyingAnswers ?? [];
+  return answerOptions(answer.value).some((option) => qualifying.includes(option));
+}
+
+export const findAnswer = (answers: ScreeningAnswer[] | undefined, questionId: string) =>
+  answers?.find((answer) => answer.questionId === questionId);
+
+// Knockout questions an application failed
+export const failedKnockouts = (
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[] | undefined
+) => questions.filter((question) => !qualifies(question, findAnswer(answers, question.id)));
+
+// ==================== FILTERS ====================
+
+// Recruiter filter on one question's answers
+export interface ScreeningFilter {
+  questionId: string;
+  // Option to match for choice questions, minimum for NUMBER, substring for text
+  value: string;
+}
+
+export function matchesScreeningFilter(
+  question: ScreeningQuestion,
+  answers: ScreeningAnswer[] | undefined,
+  filter: ScreeningFilter
+): boolean {
+  if (!filter.value) return true;
+  const answer = findAnswer(answers, question.id);
+  if (!answer) return false;
+
+  switch (question.type) {
+    case "NUMBER":
+      return Number(answer.value) >= Number(filter.value);
+    case "SHORT_TEXT":
+    case "LONG_TEXT":
+      return formatScreeningAnswer(answer.value).toLowerCase().includes(filter.value.toLowerCase());
+    default:
+      return answerOptions(answer.value).includes(filter.value);
+  }
+}
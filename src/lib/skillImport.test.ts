@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { planSkillImport, toSkillSlug } from "./skillImport";
+import type { Skill } from "@/types";
+
+const makeSkill = (name: string, slug: string): Skill => ({
+  _id: slug,
+  name,
+  slug,
+  category: "LANGUAGE",
+  icon: null,
+  isActive: true,
+  usageCount: 0,
+  aliases: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("toSkillSlug", () => {
+  it("joins words with dashes", () => {
+    expect(toSkillSlug(" Node.js & Express ")).toBe("node-js-express");
+  });
+
+  it("keeps C, C++ and C# apart", () => {
+    expect(toSkillSlug("C")).toBe("c");
+    expect(toSkillSlug("C++")).toBe("cpp");
+    expect(toSkillSlug("C#")).toBe("csharp");
+  });
+});
+
+describe("planSkillImport", () => {
+  const header = ["name", "category"];
+
+  it("creates C# and C++ instead of renaming C", () => {
+    const plan = planSkillImport(
+      [header, ["C#", "language"], ["C++", "language"]],
+      [makeSkill("C", "c")]
+    );
+
+    expect(plan.rows.map((row) => [row.kind, row.data?.slug])).toEqual([
+      ["create", "csharp"],
+      ["create", "cpp"],
+    ]);
+  });
+
+  it("matches an existing skill by its generated slug", () => {
+    const plan = planSkillImport(
+      [header, ["Node JS", "backend"]],
+      [makeSkill("Node.js", "node-js")]
+    );
+
+    expect(plan.rows[0]).toMatchObject({ kind: "update", skill: { slug: "node-js" } });
+    expect(plan.rows[0].changes.map((change) => change.field)).toEqual(["name", "category"]);
+  });
+});
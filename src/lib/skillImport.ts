@@ -0,0 +1,183 @@
+/**
+ * @file src/lib/skillImport.ts
+ * @description Skill CSV export rows, and validating an import against existing skills
+ * into a create/update/unchanged preview
+ */
+
+import type { CsvValue } from "./csv";
+import type { Skill, SkillCategory } from "@/types";
+
+export const SKILL_CATEGORY_VALUES: SkillCategory[] = [
+  "LANGUAGE",
+  "FRONTEND",
+  "BACKEND",
+  "DATABASE",
+  "DEVOPS",
+  "MOBILE",
+  "TOOLS",
+  "SOFT_SKILL",
+  "OTHER",
+];
+
+export const MIN_SKILL_NAME_LENGTH = 2;
+export const MAX_SKILL_NAME_LENGTH = 50;
+
+// "Node.js & Express" -> "node-js-express"
+// "C++" -> "cpp" and "C#" -> "csharp", so neither turns into C's "c"
+export const toSkillSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/\+/g, "p")
+    .replace(/#/g, "sharp")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// Same columns the importer reads, so an export can be edited and re-imported
+export const skillsToCsvRows = (skills: Skill[]): CsvValue[][] => [
+  ["name", "slug", "category", "icon", "active", "usage"],
+  ...skills.map((skill): CsvValue[] => [
+    skill.name,
+    skill.slug,
+    skill.category,
+    skill.icon,
+    skill.isActive,
+    skill.usageCount,
+  ]),
+];
+
+export type SkillImportKind = "create" | "update" | "unchanged" | "invalid";
+
+export interface SkillImportChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface SkillImportRow {
+  // Row number, counting the header as 1 (blank lines are not counted)
+  line: number;
+  kind: SkillImportKind;
+  name: string;
+  // What createSkill/updateSkill will be sent
+  data: {
+    name: string;
+    slug: string;
+    category: SkillCategory;
+    icon?: string;
+    isActive?: boolean;
+  } | null;
+  // Existing skill the row matched, by slug or name
+  skill?: Skill;
+  changes: SkillImportChange[];
+  errors: string[];
+}
+
+export interface SkillImportPlan {
+  rows: SkillImportRow[];
+  // Problem with the file as a whole, e.g. missing columns
+  error: string | null;
+}
+
+// "soft skill", "Soft-Skill" and "SOFT_SKILL" all name the same category
+const parseCategory = (value: string): SkillCategory | null => {
+  const key = value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return SKILL_CATEGORY_VALUES.find((category) => category === key) ?? null;
+};
+
+const parseActive = (value: string): boolean | undefined | null => {
+  const key = value.trim().toLowerCase();
+  if (!key) return undefined;
+  if (["true", "yes", "1", "active"].includes(key)) return true;
+  if (["false", "no", "0", "inactive"].includes(key)) return false;
+  return null;
+};
+
+/**
+ * Check every row and compare it with the skills that already exist.
+ * Column order doesn't matter and unknown columns are ignored; `name` and
+ * `category` are required, `slug`, `icon` and `active` are optional. Empty
+ * optional cells leave the existing value alone.
+ */
+export function planSkillImport(csvRows: string[][], existing: Skill[]): SkillImportPlan {
+  if (csvRows.length === 0) return { rows: [], error: "The file is empty" };
+
+  const header = csvRows[0].map((cell) => cell.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  if (column("name") === -1 || column("category") === -1) {
+    return { rows: [], error: "The first row must name the columns, including name and category" };
+  }
+
+  const cell = (row: string[], name: string) => {
+    const index = column(name);
+    return index === -1 ? "" : (row[index] ?? "").trim();
+  };
+
+  const bySlug = new Map(existing.map((skill) => [skill.slug.toLowerCase(), skill]));
+  const byName = new Map(existing.map((skill) => [skill.name.toLowerCase(), skill]));
+  const seen = new Map<string, number>();
+
+  const rows = csvRows.slice(1).map((csvRow, index): SkillImportRow => {
+    const line = index + 2;
+    const name = cell(csvRow, "name");
+    const slugCell = cell(csvRow, "slug").toLowerCase();
+    const skill =
+      (slugCell && bySlug.get(slugCell)) ||
+      byName.get(name.toLowerCase()) ||
+      bySlug.get(toSkillSlug(name));
+    // A blank slug keeps the matched skill's own
+    const slug = slugCell || skill?.slug || toSkillSlug(name);
+    const categoryText = cell(csvRow, "category");
+    const category = parseCategory(categoryText);
+    const icon = cell(csvRow, "icon") || undefined;
+    const isActive = parseActive(cell(csvRow, "active"));
+    const errors: string[] = [];
+
+    if (name.length < MIN_SKILL_NAME_LENGTH || name.length > MAX_SKILL_NAME_LENGTH) {
+      errors.push(
+        `Name must be ${MIN_SKILL_NAME_LENGTH}-${MAX_SKILL_NAME_LENGTH} characters`
+      );
+    }
+    if (!category) {
+      errors.push(
+        categoryText
+          ? `Unknown category "${categoryText}" (use ${SKILL_CATEGORY_VALUES.join(", ")})`
+          : "Category is required"
+      );
+    }
+    if (isActive === null) errors.push(`Active must be yes or no, not "${cell(csvRow, "active")}"`);
+    if (slug && seen.has(slug)) errors.push(`Same skill as line ${seen.get(slug)}`);
+    if (slug && !seen.has(slug)) seen.set(slug, line);
+
+    if (errors.length > 0 || !category || isActive === null) {
+      return { line, kind: "invalid", name, data: null, skill, changes: [], errors };
+    }
+
+    const data = { name, slug, category, icon, isActive };
+    if (!skill) return { line, kind: "create", name, data, changes: [], errors };
+
+    const changes: SkillImportChange[] = [];
+    const compare = (field: string, before: unknown, after: unknown) => {
+      if (after !== undefined && before !== after) {
+        changes.push({ field, before: String(before ?? "–"), after: String(after) });
+      }
+    };
+    compare("name", skill.name, name);
+    compare("slug", skill.slug, slug);
+    compare("category", skill.category, category);
+    compare("icon", skill.icon, icon);
+    compare("active", skill.isActive, isActive);
+
+    return {
+      line,
+      kind: changes.length > 0 ? "update" : "unchanged",
+      name,
+      data,
+      skill,
+      changes,
+      errors,
+    };
+  });
+
+  return { rows, error: rows.length === 0 ? "The file has no skill rows" : null };
+}
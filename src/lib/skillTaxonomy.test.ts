@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { getLikelyDuplicates } from "./skillTaxonomy";
+import type { Skill } from "@/types";
+
+const makeSkill = (name: string, aliases: string[] = []): Skill => ({
+  _id: name,
+  name,
+  slug: name.toLowerCase(),
+  category: "FRONTEND",
+  icon: null,
+  isActive: true,
+  usageCount: 0,
+  aliases,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const duplicateNames = (skill: Skill, skills: Skill[]) =>
+  getLikelyDuplicates(skill, skills).map((other) => other.name);
+
+describe("getLikelyDuplicates", () => {
+  it("suggests skills spelled the same once normalized", () => {
+    const skills = [makeSkill("Node.js"), makeSkill("NodeJS"), makeSkill("Deno")];
+    expect(duplicateNames(skills[0], skills)).toEqual(["NodeJS"]);
+  });
+
+  it("suggests skills whose name or aliases match an alias", () => {
+    const react = makeSkill("React", ["ReactJS"]);
+    const skills = [react, makeSkill("React.js"), makeSkill("Preact")];
+    expect(duplicateNames(react, skills)).toEqual(["React.js"]);
+    expect(duplicateNames(skills[1], skills)).toEqual(["React"]);
+  });
+
+  it("ignores skills that only share a prefix", () => {
+    const skills = [
+      makeSkill("Java"),
+      makeSkill("JavaScript"),
+      makeSkill("React"),
+      makeSkill("React Native"),
+    ];
+    expect(duplicateNames(skills[0], skills)).toEqual([]);
+    expect(duplicateNames(skills[2], skills)).toEqual([]);
+  });
+
+  it("keeps C, C++ and C# apart", () => {
+    const skills = [makeSkill("C"), makeSkill("C++"), makeSkill("C#")];
+    expect(duplicateNames(skills[0], skills)).toEqual([]);
+  });
+});
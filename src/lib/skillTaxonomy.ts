@@ -0,0 +1,167 @@
+/**
+ * @file src/lib/skillTaxonomy.ts
+ * @description Skill aliases and parent/child relations: alias-aware matching for
+ * skill pickers, and the checks the admin taxonomy tools run before saving
+ */
+
+import type { Skill } from "@/types";
+
+// "React.js", "ReactJS" and "react js" all become "reactjs"; + and # are kept so
+// C, C++ and C# stay apart
+export const normalizeSkillTerm = (term: string) =>
+  term.toLowerCase().replace(/[^a-z0-9+#]/g, "");
+
+// Split "ReactJS, React.js" into aliases, dropping blanks and repeats
+export const parseAliasInput = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split(",")
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = normalizeSkillTerm(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export interface SkillMatch {
+  skill: Skill;
+  // The alias the query hit, when the name and slug didn't
+  alias: string | null;
+}
+
+// Lower is better: exact, then prefix, then anywhere; names before aliases
+const scoreTerm = (term: string, query: string, isAlias: boolean) => {
+  const key = normalizeSkillTerm(term);
+  const base = key === query ? 0 : key.startsWith(query) ? 2 : key.includes(query) ? 4 : null;
+  return base === null ? null : base + (isAlias ? 1 : 0);
+};
+
+/**
+ * Skills matching what the user has typed so far, with aliases resolved to
+ * their skill. `exclude` takes slugs that are already picked.
+ */
+export function matchSkills(
+  skills: Skill[],
+  query: string,
+  { exclude = [], limit = 10 }: { exclude?: string[]; limit?: number } = {}
+): SkillMatch[] {
+  const q = normalizeSkillTerm(query);
+  const candidates = skills.filter((skill) => !exclude.includes(skill.slug));
+  if (!q) return candidates.slice(0, limit).map((skill) => ({ skill, alias: null }));
+
+  const scored: Array<SkillMatch & { score: number }> = [];
+  for (const skill of candidates) {
+    let best: { score: number; alias: string | null } | null = null;
+    for (const term of [skill.name, skill.slug]) {
+      const score = scoreTerm(term, q, false);
+      if (score !== null && (!best || score < best.score)) best = { score, alias: null };
+    }
+    for (const alias of skill.aliases ?? []) {
+      const score = scoreTerm(alias, q, true);
+      if (score !== null && (!best || score < best.score)) best = { score, alias };
+    }
+    if (best) scored.push({ skill, ...best });
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        (b.skill.usageCount || 0) - (a.skill.usageCount || 0) ||
+        a.skill.name.localeCompare(b.skill.name)
+    )
+    .slice(0, limit)
+    .map(({ skill, alias }) => ({ skill, alias }));
+}
+
+// The skill whose name, slug or alias is exactly this term
+export const findSkillByTerm = (skills: Skill[], term: string): Skill | undefined => {
+  const key = normalizeSkillTerm(term);
+  if (!key) return undefined;
+  return skills.find((skill) =>
+    [skill.name, skill.slug, ...(skill.aliases ?? [])].some(
+      (value) => normalizeSkillTerm(value) === key
+    )
+  );
+};
+
+/**
+ * Key for comparing skills anywhere in the app: an alias becomes the key of
+ * the skill it points to, so "ReactJS" and "React" count as the same skill.
+ * Without a catalog only the spelling is normalized.
+ */
+export const toSkillKey = (term: string, skills: Skill[] = []): string =>
+  normalizeSkillTerm(findSkillByTerm(skills, term)?.name ?? term);
+
+// Aliases that would make a term resolve to two skills
+export function getAliasConflicts(aliases: string[], skill: Skill, skills: Skill[]): string[] {
+  const others = skills.filter((other) => other._id !== skill._id);
+  const conflicts: string[] = [];
+
+  for (const alias of aliases) {
+    if (normalizeSkillTerm(alias) === normalizeSkillTerm(skill.name)) {
+      conflicts.push(`"${alias}" is already the skill's name`);
+      continue;
+    }
+    const owner = findSkillByTerm(others, alias);
+    if (owner) conflicts.push(`"${alias}" already points to ${owner.name}`);
+  }
+  return conflicts;
+}
+
+// A skill's name and aliases, normalized
+const getSkillTerms = (skill: Skill) =>
+  new Set([skill.name, ...(skill.aliases ?? [])].map(normalizeSkillTerm).filter(Boolean));
+
+/**
+ * Other skills that are spelled the same once normalized, by name or alias
+ * (e.g. "Node.js" and "NodeJS"). Only exact matches count, so Java and JavaScript
+ * or React and React Native are never suggested.
+ */
+export function getLikelyDuplicates(skill: Skill, skills: Skill[]): Skill[] {
+  const terms = getSkillTerms(skill);
+  return skills.filter(
+    (other) =>
+      other._id !== skill._id && Array.from(getSkillTerms(other)).some((term) => terms.has(term))
+  );
+}
+
+export const getChildSkills = (skillId: string, skills: Skill[]) =>
+  skills.filter((skill) => skill.parent === skillId);
+
+// Every skill below this one, at any depth
+export function getDescendantIds(skillId: string, skills: Skill[]): Set<string> {
+  const found = new Set<string>();
+  const queue = [skillId];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const child of getChildSkills(id, skills)) {
+      if (found.has(child._id)) continue;
+      found.add(child._id);
+      queue.push(child._id);
+    }
+  }
+  return found;
+}
+
+// Skills that can be this one's parent without creating a cycle
+export const getParentOptions = (skill: Skill, skills: Skill[]) => {
+  const descendants = getDescendantIds(skill._id, skills);
+  return skills
+    .filter((other) => other._id !== skill._id && !descendants.has(other._id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Ancestors then the skill itself, e.g. [React, Next.js]
+export function getSkillPath(skill: Skill, skills: Skill[]): Skill[] {
+  const byId = new Map(skills.map((other) => [other._id, other]));
+  const path = [skill];
+  let parent = skill.parent ? byId.get(skill.parent) : undefined;
+  while (parent && !path.includes(parent)) {
+    path.unshift(parent);
+    parent = parent.parent ? byId.get(parent.parent) : undefined;
+  }
+  return path;
+}
@@ -93,6 +93,30 @@ export function isValidEmail(email: string): boolean {
   return regex.test(email);
 }
 
+/**
+ * Post-login redirect target; only same-site paths are allowed
+ */
+export function getSafeRedirect(value: unknown, fallback: string = "/"): string {
+  if (typeof value !== "string" || !value.startsWith("/")) return fallback;
+  // "//host" and "/\host" are protocol-relative URLs to another site
+  if (value.startsWith("//") || value.startsWith("/\\")) return fallback;
+  if (value.startsWith("/login")) return fallback;
+  return value;
+}
+
+/**
+ * Login URL that returns to the current page afterwards
+ */
+export function getLoginUrl(returnTo?: string): string {
+  const path =
+    returnTo ??
+    (typeof window !== "undefined"
+      ? window.location.pathname + window.location.search
+      : "/");
+  const target = getSafeRedirect(path, "");
+  return target ? `/login?redirect=${encodeURIComponent(target)}` : "/login";
+}
+
 /**
  * Debounce function
  */
@@ -106,3 +130,29 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
     timeout = setTimeout(() => func(...args), wait);
   };
 }
+
+/**
+ * Whether a key event came from a field, so single-key shortcuts should ignore it
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+/**
+ * Save generated content as a file in the browser
+ */
+export function downloadFile(filename: string, parts: BlobPart[], type: string) {
+  const blob = new Blob(parts, { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { findNonInclusiveTerms, findToneNotes, tightenText } from "./writingChecks";
+
+describe("tightenText", () => {
+  it("replaces wordy phrases and drops filler", () => {
+    expect(tightenText("In order to ship, we really need to utilize tests.")).toBe(
+      "To ship, we need to use tests."
+    );
+  });
+
+  it("capitalizes a sentence whose opening phrase was removed", () => {
+    expect(tightenText("Hello. I think that we should talk.")).toBe("Hello. We should talk.");
+  });
+
+  it("keeps paragraph breaks and collapses extra spaces", () => {
+    expect(tightenText("First  line.\n\n\n\nSecond   line.")).toBe("First line.\n\nSecond line.");
+  });
+
+  it("leaves tight text alone", () => {
+    expect(tightenText("We ship weekly.")).toBe("We ship weekly.");
+  });
+});
+
+describe("findNonInclusiveTerms", () => {
+  it("flags each kind of term once, as written", () => {
+    const issues = findNonInclusiveTerms("Hey guys, we want a Rockstar who fits our culture fit");
+    expect(issues.map((issue) => issue.term)).toEqual(["Rockstar", "guys", "culture fit"]);
+    expect(issues[0]).toMatchObject({ suggestion: "experienced engineer" });
+  });
+
+  it("matches whole words only", () => {
+    expect(findNonInclusiveTerms("Our guru-free team uses Gurusoft")).toHaveLength(1);
+    expect(findNonInclusiveTerms("Youngstown office, manpowered by no one")).toEqual([]);
+  });
+
+  it("returns nothing for neutral text", () => {
+    expect(findNonInclusiveTerms("We are hiring an experienced engineer.")).toEqual([]);
+  });
+});
+
+describe("findToneNotes", () => {
+  it("notes more than two exclamation marks", () => {
+    expect(findToneNotes("Great! Really great! Amazing!", "jobDescription")).toEqual([
+      "3 exclamation marks — one at most keeps the tone professional.",
+    ]);
+  });
+
+  it("notes shouting but not short acronyms", () => {
+    expect(findToneNotes("We write HTML and JSON.", "coverLetter")).toEqual([]);
+    expect(findToneNotes("This is URGENT.", "coverLetter")[0]).toMatch(/URGENT/);
+  });
+
+  it("notes cover letters where most sentences start with I", () => {
+    const text = "I build apps. I lead teams. I like Go. Your team ships fast.";
+    expect(findToneNotes(text, "coverLetter")).toEqual([
+      '3 of 4 sentences start with "I" — lead with what you\'d bring to the team.',
+    ]);
+    expect(findToneNotes(text, "jobDescription")).toEqual([]);
+  });
+
+  it("notes job descriptions with many musts", () => {
+    const text = "You must code. You must test. You must deploy. You must document.";
+    expect(findToneNotes(text, "jobDescription")[0]).toMatch(/"Must" appears 4 times/);
+  });
+
+  it("returns nothing for plain professional text", () => {
+    expect(findToneNotes("We build tools for developers. Join us.", "jobDescription")).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @file src/lib/writingChecks.ts
+ * @description Rule-based writing checks: wordy phrases, non-inclusive terms and tone.
+ * Used by the offline assist provider; the hosted model does its own analysis.
+ */
+
+import type { AssistSurface } from "@/types";
+
+export interface WritingIssue {
+  term: string;
+  suggestion: string;
+  reason: string;
+}
+
+interface TermRule {
+  pattern: RegExp;
+  suggestion: string;
+  reason: string;
+}
+
+// Phrases that add length but no meaning; replaced outright when tightening
+const WORDY_PHRASES: [RegExp, string][] = [
+  [/\bin order to\b/gi, "to"],
+  [/\bdue to the fact that\b/gi, "because"],
+  [/\bat this point in time\b/gi, "now"],
+  [/\bfor the purpose of\b/gi, "for"],
+  [/\bhas the ability to\b/gi, "can"],
+  [/\bhave the ability to\b/gi, "can"],
+  [/\ba large number of\b/gi, "many"],
+  [/\bin the event that\b/gi, "if"],
+  [/\butilize\b/gi, "use"],
+  [/\butilizing\b/gi, "using"],
+  [/\bI (?:believe|think|feel) that\s+/gi, ""],
+];
+
+// Hedges and intensifiers dropped when tightening
+const FILLER_WORDS = /\b(?:very|really|just|basically|actually|quite|extremely|truly)\s+/gi;
+
+const NON_INCLUSIVE_TERMS: TermRule[] = [
+  {
+    pattern: /\b(?:rock ?stars?|ninjas?|gurus?|wizards?)\b/i,
+    suggestion: "experienced engineer",
+    reason: "Jargon titles read as exclusive and put off many qualified applicants",
+  },
+  {
+    pattern: /\b(?:young|energetic|digital natives?|recent grads? only)\b/i,
+    suggestion: "motivated",
+    reason: "Implies an age preference",
+  },
+  {
+    pattern: /\bguys\b/i,
+    suggestion: "everyone, folks or team",
+    reason: "Gendered when addressing a mixed group",
+  },
+  {
+    pattern: /\b(?:he\/she|his\/her|s\/he)\b/i,
+    suggestion: "they / their",
+    reason: "Singular they includes everyone",
+  },
+  {
+    pattern: /\b(?:manpower|man-hours?)\b/i,
+    suggestion: "staffing / hours",
+    reason: "Gendered term",
+  },
+  {
+    pattern: /\b(?:aggressive|dominant|competitive spirit)\b/i,
+    suggestion: "ambitious / driven",
+    reason: "Masculine-coded wording discourages some applicants",
+  },
+  {
+    pattern: /\bnative (?:english )?speakers?\b/i,
+    suggestion: "fluent in English",
+    reason: "Excludes fluent non-native speakers",
+  },
+  {
+    pattern: /\bculture fit\b/i,
+    suggestion: "values alignment",
+    reason: "Often reads as \"people like us\"",
+  },
+  {
+    pattern: /\b(?:whitelist|blacklist)\b/i,
+    suggestion: "allowlist / blocklist",
+    reason: "Clearer, neutral terminology",
+  },
+  {
+    pattern: /\b(?:crazy|insane)\b/i,
+    suggestion: "intense / remarkable",
+    reason: "Ableist wording",
+  },
+];
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const splitSentences = (text: string) =>
+  (text.match(/[^.!?]+[.!?]*/g) ?? []).map((sentence) => sentence.trim()).filter(Boolean);
+
+// Sentence-case the first letter after a phrase was removed from the start
+const capitalizeSentences = (text: string) =>
+  text.replace(/(^|[.!?]\s+)([a-z])/g, (_, lead: string, letter: string) => lead + letter.toUpperCase());
+
+/**
+ * Shorter version of the text: wordy phrases replaced, filler dropped,
+ * whitespace normalized. Paragraph breaks are kept.
+ */
+export function tightenText(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => {
+      let result = paragraph;
+      for (const [pattern, replacement] of WORDY_PHRASES) {
+        result = result.replace(pattern, replacement);
+      }
+      result = result.replace(FILLER_WORDS, "");
+      return capitalizeSentences(result.replace(/[ \t]{2,}/g, " ").trim());
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function findNonInclusiveTerms(text: string): WritingIssue[] {
+  return NON_INCLUSIVE_TERMS.flatMap(({ pattern, suggestion, reason }) => {
+    const match = text.match(pattern);
+    return match ? [{ term: match[0], suggestion, reason }] : [];
+  });
+}
+
+/**
+ * Tone notes for the text, one line each; empty when nothing stands out
+ */
+export function findToneNotes(text: string, surface: AssistSurface): string[] {
+  const notes: string[] = [];
+  const sentences = splitSentences(text);
+  const words = countWords(text);
+
+  const exclamations = (text.match(/!/g) ?? []).length;
+  if (exclamations > 2) {
+    notes.push(`${exclamations} exclamation marks — one at most keeps the tone professional.`);
+  }
+
+  // Long enough not to catch acronyms like HTML or JSON
+  const shouting = text.match(/\b[A-Z]{6,}\b/g) ?? [];
+  if (shouting.length > 0) {
+    notes.push(`All-caps words (${shouting.slice(0, 3).join(", ")}) read as shouting.`);
+  }
+
+  if (sentences.length > 0) {
+    const average = Math.round(words / sentences.length);
+    if (average > 28) {
+      notes.push(`Sentences average ${average} words; splitting some will make it easier to scan.`);
+    }
+  }
+
+  if (surface === "coverLetter" && sentences.length >= 4) {
+    const startsWithI = sentences.filter((sentence) => /^I\b/.test(sentence)).length;
+    if (startsWithI / sentences.length > 0.5) {
+      notes.push(
+        `${startsWithI} of ${sentences.length} sentences start with "I" — lead with what you'd bring to the team.`
+      );
+    }
+  }
+
+  if (surface === "jobDescription") {
+    const musts = (text.match(/\bmust\b/gi) ?? []).length;
+    if (musts > 3) {
+      notes.push(
+        `"Must" appears ${musts} times; long hard-requirement lists discourage applicants who meet most of them.`
+      );
+    }
+  }
+
+  return notes;
+}
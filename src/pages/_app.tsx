@@ -7,10 +7,12 @@ import type { AppProps } from "next/app";
 import "@/index.css";
 import Navbar from "@/components/common/Navbar";
 import Footer from "@/components/common/Footer";
+import { AccountStatusBanner } from "@/components/account";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ToastProvider } from "@/contexts/ToastContext";
 import { ErrorProvider } from "@/contexts/ErrorContext";
 import ApiProvider from "@/providers/ApiProvider";
+import RealtimeProvider from "@/providers/RealtimeProvider";
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
@@ -18,14 +20,17 @@ export default function App({ Component, pageProps }: AppProps) {
       <AuthProvider>
         <ToastProvider>
           <ApiProvider>
-            {/* Global theme container (matches Home) */}
-            <div className="min-h-screen flex flex-col bg-[#070A12] text-white">
-              <Navbar />
-              <main className="flex-1">
-                <Component {...pageProps} />
-              </main>
-              <Footer />
-            </div>
+            <RealtimeProvider>
+              {/* Global theme container (matches Home) */}
+              <div className="min-h-screen flex flex-col bg-[#070A12] text-white">
+                <Navbar />
+                <AccountStatusBanner />
+                <main className="flex-1">
+                  <Component {...pageProps} />
+                </main>
+                <Footer />
+              </div>
+            </RealtimeProvider>
           </ApiProvider>
         </ToastProvider>
       </AuthProvider>
@@ -21,34 +21,11 @@ import {
   UserX,
   Activity,
   Shield,
+  History,
+  Scale,
 } from "lucide-react";
-
-interface DashboardStats {
-  users: {
-    total: number;
-    developers: number;
-    recruiters: number;
-    admins: number;
-    newThisWeek: number;
-    banned: number;
-  };
-  jobs: {
-    total: number;
-    active: number;
-    inactive: number;
-    newThisWeek: number;
-  };
-  applications: {
-    total: number;
-    pending: number;
-    thisWeek: number;
-  };
-  skills: {
-    total: number;
-    active: number;
-    inactive: number;
-  };
-}
+import { DEFAULT_HIRING_STAGES, findStage, mergeStages } from "@/lib/hiringStages";
+import type { DashboardStats } from "@/types";
 
 type RecentUser = {
   _id: string;
@@ -115,16 +92,13 @@ export default function AdminDashboard() {
         setError(null);
 
         const statsRes = await adminService.getDashboardStats();
-        const statsData = statsRes.data?.data || statsRes.data;
-
         if (!alive) return;
-        setStats(statsData || null);
+        setStats(statsRes.data || null);
 
         try {
           const usersRes = await adminService.getRecentUsers(5);
-          const usersData = usersRes.data?.data || usersRes.data;
           if (!alive) return;
-          setRecentUsers((usersData?.users || usersData || []) as RecentUser[]);
+          setRecentUsers(usersRes.data);
         } catch {
           if (!alive) return;
           setRecentUsers([]);
@@ -132,11 +106,8 @@ export default function AdminDashboard() {
 
         try {
           const activityRes = await adminService.getRecentActivity(10);
-          const activityData = activityRes.data?.data || activityRes.data;
           if (!alive) return;
-          setRecentActivity(
-            (activityData?.activities || activityData || []) as RecentActivity[]
-          );
+          setRecentActivity(activityRes.data);
         } catch {
           if (!alive) return;
           setRecentActivity([]);
@@ -158,6 +129,20 @@ export default function AdminDashboard() {
     };
   }, []);
 
+  // One line per hiring stage in use; stages are per job, so unknown keys are named from the key
+  const applicationLines = useMemo((): [string, string][] => {
+    const byStatus = stats?.applications?.byStatus;
+    if (!byStatus) return [["Pending review", fmt(stats?.applications?.pending)]];
+
+    const stages = mergeStages(
+      DEFAULT_HIRING_STAGES,
+      Object.keys(byStatus).map((key) => findStage(DEFAULT_HIRING_STAGES, key))
+    );
+    return stages
+      .filter((stage) => safeNum(byStatus[stage.key]) > 0)
+      .map((stage) => [stage.label, fmt(byStatus[stage.key])]);
+  }, [stats]);
+
   const quickActions = useMemo(
     () => [
       {
@@ -184,6 +169,24 @@ export default function AdminDashboard() {
         subtitle: "Flagged content",
         Icon: AlertTriangle,
       },
+      {
+        href: "/admin/appeals",
+        title: "Appeals",
+        subtitle: "Suspension appeals",
+        Icon: Scale,
+      },
+      {
+        href: "/admin/analytics",
+        title: "Analytics",
+        subtitle: "Trends & retention",
+        Icon: TrendingUp,
+      },
+      {
+        href: "/admin/audit",
+        title: "Audit Log",
+        subtitle: "Admin action history",
+        Icon: History,
+      },
     ],
     []
   );
@@ -277,7 +280,7 @@ export default function AdminDashboard() {
         </CardShell>
 
         {/* Quick actions */}
-        <div className="mb-8 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="mb-8 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
           {quickActions.map(({ href, title, subtitle, Icon }) => (
             <Link key={href} href={href} className="group block">
               <CardShell className="p-4 transition hover:-translate-y-0.5 hover:shadow-md dark:hover:bg-[#121c2d]">
@@ -338,7 +341,7 @@ export default function AdminDashboard() {
             title="Applications"
             Icon={FileText}
             primary={fmt(stats?.applications?.total)}
-            lines={[["Pending review", fmt(stats?.applications?.pending)]]}
+            lines={applicationLines}
             footer={{
               icon: TrendingUp,
               text: `+${fmt(stats?.applications?.thisWeek)} this week`,
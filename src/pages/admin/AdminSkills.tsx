@@ -17,6 +17,7 @@ import { useEffect, useMemo, useState } from "react";
 import { adminService } from "../../services/adminService";
 import { useToast } from "../../contexts/ToastContext";
 import LoadingSpinner from "@/components/common/Loading";
+import { SkillMergeModal, SkillTaxonomyModal } from "@/components/admin";
 import {
   Plus,
   Edit,
@@ -29,7 +30,10 @@ import {
   X,
   Save,
   AlertTriangle,
+  Tags,
+  GitMerge,
 } from "lucide-react";
+import type { Skill, SkillCategory } from "@/types";
 
 const SKILL_CATEGORIES = [
   "LANGUAGE",
@@ -43,35 +47,10 @@ const SKILL_CATEGORIES = [
   "OTHER",
 ] as const;
 
-type SkillCategory = (typeof SKILL_CATEGORIES)[number];
-
-interface Skill {
-  _id: string;
-  name: string;
-  slug: string;
-  category: SkillCategory | string;
-  isActive: boolean;
-  usageCount: number;
-  createdAt: string;
-}
-
 function cn(...classes: Array<string | undefined | null | false>) {
   return classes.filter(Boolean).join(" ");
 }
 
-function safeArray<T>(v: any): T[] {
-  return Array.isArray(v) ? v : [];
-}
-
-function parseSkillsFromResponse(res: any): Skill[] {
-  const root = res?.data?.data ?? res?.data ?? res;
-  // common patterns:
-  // root.skills
-  // root.data.skills
-  // root.data
-  return safeArray<Skill>(root?.skills ?? root?.data ?? root);
-}
-
 function useDebouncedValue<T>(value: T, delay = 350) {
   const [debounced, setDebounced] = useState(value);
   useEffect(() => {
@@ -105,6 +84,10 @@ export default function AdminSkills() {
   const [deleteConfirm, setDeleteConfirm] = useState<Skill | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // taxonomy state
+  const [taxonomySkill, setTaxonomySkill] = useState<Skill | null>(null);
+  const [mergeSource, setMergeSource] = useState<Skill | null>(null);
+
   const debouncedSearch = useDebouncedValue(searchQuery, 350);
 
   const stats = useMemo(() => {
@@ -115,6 +98,11 @@ export default function AdminSkills() {
     return { total, active, inactive, categories };
   }, [skills]);
 
+  const skillNames = useMemo(
+    () => new Map(skills.map((s) => [s._id, s.name])),
+    [skills]
+  );
+
   const groupedSkills = useMemo(() => {
     const map: Record<string, Skill[]> = {};
     for (const s of skills) {
@@ -146,7 +134,7 @@ export default function AdminSkills() {
       const res = await adminService.getSkills(params);
       if (!alive) return;
 
-      const list = parseSkillsFromResponse(res);
+      const list = res.data.items;
       setSkills(list);
     } catch (e) {
       console.error("Failed to fetch skills:", e);
@@ -175,7 +163,7 @@ export default function AdminSkills() {
 
         const res = await adminService.getSkills(params);
         if (!alive) return;
-        setSkills(parseSkillsFromResponse(res));
+        setSkills(res.data.items);
       } catch (e) {
         console.error(e);
         if (!alive) return;
@@ -239,7 +227,7 @@ export default function AdminSkills() {
         ...(categoryFilter ? { category: categoryFilter } : {}),
         ...(statusFilter ? { isActive: statusFilter === "active" } : {}),
       });
-      setSkills(parseSkillsFromResponse(res));
+      setSkills(res.data.items);
     } catch (e: any) {
       console.error(e);
       error(e?.response?.data?.message || "Failed to save skill");
@@ -291,6 +279,31 @@ export default function AdminSkills() {
     }
   };
 
+  const handleTaxonomySaved = (updated: Skill) => {
+    setSkills((prev) => prev.map((s) => (s._id === updated._id ? updated : s)));
+    setTaxonomySkill(null);
+    success(`"${updated.name}" updated`);
+  };
+
+  const handleMerged = (target: Skill) => {
+    if (!mergeSource) return;
+    const sourceId = mergeSource._id;
+    success(`"${mergeSource.name}" merged into "${target.name}"`);
+    // children of the source now sit under the target
+    setSkills((prev) =>
+      prev
+        .filter((s) => s._id !== sourceId)
+        .map((s) =>
+          s._id === target._id
+            ? target
+            : s.parent === sourceId
+            ? { ...s, parent: target._id }
+            : s
+        )
+    );
+    setMergeSource(null);
+  };
+
   const hasFilters = Boolean(
     debouncedSearch.trim() || categoryFilter || statusFilter
   );
@@ -311,7 +324,7 @@ export default function AdminSkills() {
                 </h1>
                 <p className="mt-1 text-sm text-gray-600 dark:text-white/60">
                   Create, edit, activate/deactivate skills used across profiles
-                  and jobs.
+                  and jobs. Merge duplicates and group spellings as aliases.
                 </p>
               </div>
 
@@ -481,6 +494,20 @@ export default function AdminSkills() {
                             <span className="text-xs text-gray-400 dark:text-white/35">
                               ({skill.usageCount || 0})
                             </span>
+                            {skill.parent && skillNames.has(skill.parent) && (
+                              <span className="text-xs text-gray-500 dark:text-white/45">
+                                in {skillNames.get(skill.parent)}
+                              </span>
+                            )}
+                            {(skill.aliases?.length || 0) > 0 && (
+                              <span
+                                className="rounded-md bg-gray-100 px-1.5 py-0.5 text-[11px] text-gray-600 dark:bg-white/[0.06] dark:text-white/55"
+                                title={`Also: ${skill.aliases?.join(", ")}`}
+                              >
+                                +{skill.aliases?.length} alias
+                                {skill.aliases?.length === 1 ? "" : "es"}
+                              </span>
+                            )}
 
                             <div className="ml-1 hidden items-center gap-1 group-hover:flex">
                               <button
@@ -510,6 +537,22 @@ export default function AdminSkills() {
                                 <Edit className="h-4 w-4" />
                               </button>
 
+                              <button
+                                onClick={() => setTaxonomySkill(skill)}
+                                className="rounded-lg p-1 text-gray-700 hover:bg-gray-100 dark:text-white/70 dark:hover:bg-white/[0.06]"
+                                title="Aliases & parent"
+                              >
+                                <Tags className="h-4 w-4" />
+                              </button>
+
+                              <button
+                                onClick={() => setMergeSource(skill)}
+                                className="rounded-lg p-1 text-amber-600 hover:bg-amber-50 dark:text-amber-300 dark:hover:bg-amber-500/10"
+                                title="Merge into another skill"
+                              >
+                                <GitMerge className="h-4 w-4" />
+                              </button>
+
                               <button
                                 onClick={() => setDeleteConfirm(skill)}
                                 disabled={locked}
@@ -615,6 +658,18 @@ export default function AdminSkills() {
           </ModalShell>
         )}
 
+        <SkillTaxonomyModal
+          skill={taxonomySkill}
+          onClose={() => setTaxonomySkill(null)}
+          onSaved={handleTaxonomySaved}
+        />
+
+        <SkillMergeModal
+          source={mergeSource}
+          onClose={() => setMergeSource(null)}
+          onMerged={handleMerged}
+        />
+
         {/* Delete Modal */}
         {deleteConfirm && (
           <ModalShell
@@ -635,7 +690,8 @@ export default function AdminSkills() {
                 {(deleteConfirm.usageCount || 0) > 0 && (
                   <div className="mt-3 rounded-xl border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-500/20 dark:bg-yellow-500/10 dark:text-yellow-200">
                     This skill is used by {deleteConfirm.usageCount} items.
-                    Delete is blocked. Deactivate it instead.
+                    Delete is blocked. Deactivate it, or merge it into the
+                    skill it duplicates.
                   </div>
                 )}
 
@@ -33,17 +33,7 @@ import {
   AlertTriangle,
   X,
 } from "lucide-react";
-
-interface User {
-  _id: string;
-  username: string;
-  email: string;
-  role: "DEVELOPER" | "RECRUITER" | "ADMIN";
-  status: "ACTIVE" | "BANNED";
-  avatar: string | null;
-  createdAt: string;
-  lastLoginAt: string | null;
-}
+import type { User } from "@/types";
 
 function cn(...classes: Array<string | undefined | null | false>) {
   return classes.filter(Boolean).join(" ");
@@ -58,26 +48,6 @@ function useDebouncedValue<T>(value: T, delay = 350) {
   return debounced;
 }
 
-function parseUsersFromResponse(res: any): { users: User[]; total: number } {
-  const root = res?.data?.data ?? res?.data ?? res;
-
-  const users: User[] = Array.isArray(root?.users)
-    ? root.users
-    : Array.isArray(root?.data?.users)
-    ? root.data.users
-    : Array.isArray(root)
-    ? root
-    : [];
-
-  const total =
-    Number(root?.pagination?.total) ||
-    Number(root?.data?.pagination?.total) ||
-    Number(root?.total) ||
-    users.length;
-
-  return { users, total };
-}
-
 function buildQuery(
   params: Record<string, string | number | null | undefined>
 ) {
@@ -184,9 +154,8 @@ export default function AdminUsers() {
       const res = await adminService.getUsers(params);
       if (!alive) return;
 
-      const parsed = parseUsersFromResponse(res);
-      setUsers(parsed.users);
-      setTotalCount(parsed.total);
+      setUsers(res.data.items);
+      setTotalCount(res.data.pagination.total);
     } catch (e) {
       console.error("Failed to fetch users:", e);
       if (!alive) return;
@@ -0,0 +1,517 @@
+/**
+ * @file src/pages/admin/analytics.tsx
+ * @description Admin analytics - platform activity over time with period-over-period
+ * deltas, weekly signup cohort retention and CSV/JSON export
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import Link from "next/link";
+import {
+  Briefcase,
+  ChevronRight,
+  Download,
+  FileJson,
+  FileText,
+  Flag,
+  MessageSquare,
+  RefreshCw,
+  TrendingUp,
+  UserPlus,
+} from "lucide-react";
+import { useAuthStore } from "@/store/authStore";
+import { adminService } from "@/services/adminService";
+import LoadingSpinner from "@/components/common/Loading";
+import { Card, CardBody, CardHeader, PageLoading } from "@/components/common";
+import { CohortTable, LineChart } from "@/components/charts";
+import { StatCard } from "@/components/dashboard";
+import {
+  fillDailySeries,
+  formatDateKey,
+  formatPercent,
+  getDateRange,
+  getMonthRange,
+  getPreviousRange,
+  percentChange,
+  sumBy,
+  type DateRange,
+} from "@/lib/analytics";
+import { downloadCsv, downloadJson, type CsvValue } from "@/lib/csv";
+import { getLoginUrl } from "@/lib/utils";
+import type { AdminAnalytics, AdminDailyCount, AdminSignupPoint } from "@/types";
+
+const PRESETS = [
+  { key: "7d", label: "7 days", getRange: () => getDateRange(7) },
+  { key: "30d", label: "30 days", getRange: () => getDateRange(30) },
+  { key: "90d", label: "90 days", getRange: () => getDateRange(90) },
+  { key: "12m", label: "12 months", getRange: () => getDateRange(365) },
+  { key: "month", label: "This month", getRange: () => getMonthRange(0) },
+  { key: "last-month", label: "Last month", getRange: () => getMonthRange(1) },
+] as const;
+
+type PresetKey = (typeof PRESETS)[number]["key"];
+
+interface AnalyticsResult {
+  key: string;
+  current: AdminAnalytics | null;
+  previous: AdminAnalytics | null;
+  retention: AdminAnalytics["retention"] | null;
+}
+
+const EMPTY_SIGNUPS = { developers: 0, recruiters: 0, admins: 0 };
+
+const signupTotal = (point: Omit<AdminSignupPoint, "date">) =>
+  point.developers + point.recruiters + point.admins;
+
+const dailyTotal = (points?: AdminDailyCount[]) => sumBy(points ?? [], (point) => point.count);
+
+export default function AdminAnalyticsPage() {
+  const router = useRouter();
+  const { isAuthenticated, user, isLoading: authLoading } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === "ADMIN";
+
+  const [presetKey, setPresetKey] = useState<PresetKey>("30d");
+  const [attempt, setAttempt] = useState(0);
+  const [result, setResult] = useState<AnalyticsResult | null>(null);
+
+  const range = useMemo(
+    () => (PRESETS.find((preset) => preset.key === presetKey) ?? PRESETS[1]).getRange(),
+    [presetKey]
+  );
+  const previousRange = useMemo(() => getPreviousRange(range), [range]);
+  const requestKey = `${range.startDate}:${range.endDate}#${attempt}`;
+  const loading = result?.key !== requestKey;
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(getLoginUrl());
+    } else if (!authLoading && isAuthenticated && user?.role !== "ADMIN") {
+      router.push("/");
+    }
+  }, [authLoading, isAuthenticated, user, router]);
+
+  // Selected period, the one before it for deltas, and cohorts that signed up in the period
+  useEffect(() => {
+    if (!isAdmin) return;
+    let alive = true;
+    const key = `${range.startDate}:${range.endDate}#${attempt}`;
+
+    Promise.all([
+      adminService.getAnalytics(range).then((res) => res.data).catch(() => null),
+      adminService.getAnalytics(previousRange).then((res) => res.data).catch(() => null),
+      adminService
+        .getAnalytics({ ...range, metric: "retention" })
+        .then((res) => res.data.retention ?? [])
+        .catch(() => null),
+    ]).then(([current, previous, retention]) => {
+      if (alive) setResult({ key, current, previous, retention });
+    });
+
+    return () => {
+      alive = false;
+    };
+  }, [isAdmin, range, previousRange, attempt]);
+
+  const series = useMemo(() => {
+    const current = result?.current;
+    const fill = (points?: AdminDailyCount[]) =>
+      fillDailySeries(points ?? [], range, { count: 0 });
+    return {
+      signups: fillDailySeries(current?.signups ?? [], range, EMPTY_SIGNUPS),
+      jobs: fill(current?.jobs),
+      applications: fill(current?.applications),
+      posts: fill(current?.posts),
+      reports: fill(current?.reports),
+    };
+  }, [result, range]);
+
+  const cohorts = useMemo(
+    () =>
+      (result?.retention ?? []).map((cohort) => ({
+        key: cohort.cohort,
+        label: `Week of ${formatDateKey(cohort.cohort)}`,
+        size: cohort.size,
+        active: cohort.active,
+      })),
+    [result]
+  );
+
+  if (authLoading || !isAdmin) {
+    return <PageLoading />;
+  }
+
+  const labels = series.signups.map((point) => formatDateKey(point.date));
+  const previous = result?.previous;
+  const totals = {
+    signups: sumBy(series.signups, signupTotal),
+    jobs: sumBy(series.jobs, (point) => point.count),
+    applications: sumBy(series.applications, (point) => point.count),
+    posts: sumBy(series.posts, (point) => point.count),
+    reports: sumBy(series.reports, (point) => point.count),
+  };
+  const previousTotals = previous
+    ? {
+        signups: sumBy(previous.signups ?? [], signupTotal),
+        jobs: dailyTotal(previous.jobs),
+        applications: dailyTotal(previous.applications),
+        posts: dailyTotal(previous.posts),
+        reports: dailyTotal(previous.reports),
+      }
+    : null;
+  const change = (metric: keyof typeof totals) =>
+    previousTotals && !loading ? percentChange(totals[metric], previousTotals[metric]) : null;
+
+  const ready = !loading && !!result?.current;
+  const note = `vs ${formatRangeLabel(previousRange)}`;
+  const filePrefix = `devmatch-analytics-${range.startDate}-to-${range.endDate}`;
+
+  const exportCsv = () =>
+    downloadCsv(filePrefix, [
+      [
+        "Date",
+        "Developer signups",
+        "Recruiter signups",
+        "Admin signups",
+        "Jobs posted",
+        "Applications",
+        "Posts",
+        "Reports",
+      ],
+      ...series.signups.map((point, index): CsvValue[] => [
+        point.date,
+        point.developers,
+        point.recruiters,
+        point.admins,
+        series.jobs[index].count,
+        series.applications[index].count,
+        series.posts[index].count,
+        series.reports[index].count,
+      ]),
+    ]);
+
+  const exportRetentionCsv = () => {
+    const periods = Math.max(0, ...cohorts.map((cohort) => cohort.active.length));
+    downloadCsv(`${filePrefix}-retention`, [
+      ["Cohort week", "Users", ...Array.from({ length: periods }, (_, index) => `Week ${index}`)],
+      ...cohorts.map((cohort): CsvValue[] => [
+        cohort.key,
+        cohort.size,
+        ...cohort.active.map((active) => formatPercent(active, cohort.size)),
+      ]),
+    ]);
+  };
+
+  const exportJson = () =>
+    downloadJson(filePrefix, {
+      range,
+      previousRange,
+      totals,
+      previousTotals,
+      daily: {
+        signups: series.signups,
+        jobs: series.jobs,
+        applications: series.applications,
+        posts: series.posts,
+        reports: series.reports,
+      },
+      retention: result?.retention ?? [],
+    });
+
+  return (
+    <>
+      <Head>
+        <title>Analytics | Admin - DevMatch</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-6">
+            <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+              <Link href="/admin" className="hover:text-blue-600">
+                Admin
+              </Link>
+              <ChevronRight size={16} />
+              <span className="text-gray-900">Analytics</span>
+            </div>
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+                  <TrendingUp className="text-blue-600" />
+                  Platform Analytics
+                </h1>
+                <p className="text-gray-600 mt-1">
+                  {formatRangeLabel(range)} &middot; compared with {formatRangeLabel(previousRange)}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={exportCsv}
+                  disabled={!ready}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Download size={16} />
+                  CSV
+                </button>
+                <button
+                  onClick={exportJson}
+                  disabled={!ready}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <FileJson size={16} />
+                  JSON
+                </button>
+                <button
+                  onClick={() => setAttempt((n) => n + 1)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <RefreshCw size={16} className={loading ? "animate-spin" : ""} />
+                  Refresh
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Presets */}
+          <div className="inline-flex flex-wrap rounded-lg border border-gray-200 bg-white p-1 mb-6">
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.key}
+                onClick={() => setPresetKey(preset.key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  presetKey === preset.key
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4 mb-6">
+            <StatCard
+              label="New users"
+              value={ready ? totals.signups : "–"}
+              icon={UserPlus}
+              change={change("signups")}
+              note={note}
+              accent="text-blue-600"
+            />
+            <StatCard
+              label="Jobs posted"
+              value={ready ? totals.jobs : "–"}
+              icon={Briefcase}
+              change={change("jobs")}
+              note={note}
+            />
+            <StatCard
+              label="Applications"
+              value={ready ? totals.applications : "–"}
+              icon={FileText}
+              change={change("applications")}
+              note={note}
+              accent="text-emerald-600"
+            />
+            <StatCard
+              label="Posts"
+              value={ready ? totals.posts : "–"}
+              icon={MessageSquare}
+              change={change("posts")}
+              note={note}
+              accent="text-violet-600"
+            />
+            <StatCard
+              label="Reports"
+              value={ready ? totals.reports : "–"}
+              icon={Flag}
+              change={change("reports")}
+              lowerIsBetter
+              note={note}
+              accent="text-orange-600"
+            />
+          </div>
+
+          {!loading && !result?.current ? (
+            <div className="bg-white rounded-lg border border-gray-200 py-16 text-center">
+              <p className="text-gray-600 mb-4">Couldn&apos;t load analytics for this period.</p>
+              <button
+                onClick={() => setAttempt((n) => n + 1)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Try again
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Signups by role */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <h2 className="font-semibold text-gray-900">Signups by role</h2>
+                </CardHeader>
+                <CardBody className="text-gray-600">
+                  {loading ? (
+                    <PanelLoading />
+                  ) : (
+                    <LineChart
+                      labels={labels}
+                      series={[
+                        {
+                          name: "Developers",
+                          values: series.signups.map((point) => point.developers),
+                          color: "#3b82f6",
+                        },
+                        {
+                          name: "Recruiters",
+                          values: series.signups.map((point) => point.recruiters),
+                          color: "#8b5cf6",
+                        },
+                        {
+                          name: "Admins",
+                          values: series.signups.map((point) => point.admins),
+                          color: "#f43f5e",
+                        },
+                      ]}
+                      height={240}
+                    />
+                  )}
+                </CardBody>
+              </Card>
+
+              {/* Jobs and applications */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <h2 className="font-semibold text-gray-900">Jobs posted &amp; applications</h2>
+                </CardHeader>
+                <CardBody className="text-gray-600">
+                  {loading ? (
+                    <PanelLoading />
+                  ) : (
+                    <LineChart
+                      labels={labels}
+                      series={[
+                        {
+                          name: "Jobs posted",
+                          values: series.jobs.map((point) => point.count),
+                          color: "#f59e0b",
+                        },
+                        {
+                          name: "Applications",
+                          values: series.applications.map((point) => point.count),
+                          color: "#10b981",
+                        },
+                      ]}
+                    />
+                  )}
+                </CardBody>
+              </Card>
+
+              {/* Posts */}
+              <Card>
+                <CardHeader>
+                  <h2 className="font-semibold text-gray-900">Posts</h2>
+                </CardHeader>
+                <CardBody className="text-gray-600">
+                  {loading ? (
+                    <PanelLoading />
+                  ) : (
+                    <LineChart
+                      labels={labels}
+                      series={[
+                        {
+                          name: "Posts",
+                          values: series.posts.map((point) => point.count),
+                          color: "#8b5cf6",
+                        },
+                      ]}
+                    />
+                  )}
+                </CardBody>
+              </Card>
+
+              {/* Reports */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <h2 className="font-semibold text-gray-900">Reports</h2>
+                    <Link
+                      href="/admin/reports"
+                      className="text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      Review reports
+                    </Link>
+                  </div>
+                </CardHeader>
+                <CardBody className="text-gray-600">
+                  {loading ? (
+                    <PanelLoading />
+                  ) : (
+                    <LineChart
+                      labels={labels}
+                      series={[
+                        {
+                          name: "Reports",
+                          values: series.reports.map((point) => point.count),
+                          color: "#f97316",
+                        },
+                      ]}
+                    />
+                  )}
+                </CardBody>
+              </Card>
+
+              {/* Cohort retention */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <h2 className="font-semibold text-gray-900">Cohort retention</h2>
+                      <p className="text-xs text-gray-500">
+                        Share of each weekly signup cohort active in the weeks after joining
+                      </p>
+                    </div>
+                    <button
+                      onClick={exportRetentionCsv}
+                      disabled={loading || cohorts.length === 0}
+                      className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Download size={14} />
+                      CSV
+                    </button>
+                  </div>
+                </CardHeader>
+                <CardBody className="text-gray-700">
+                  {loading ? (
+                    <PanelLoading />
+                  ) : result?.retention ? (
+                    <CohortTable rows={cohorts} emptyMessage="No signups in this period." />
+                  ) : (
+                    <p className="py-6 text-center text-sm text-gray-500">
+                      Couldn&apos;t load retention for this period.
+                    </p>
+                  )}
+                </CardBody>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+// "Mar 5 – Apr 3"
+function formatRangeLabel(range: DateRange) {
+  return `${formatDateKey(range.startDate)} – ${formatDateKey(range.endDate)}`;
+}
+
+function PanelLoading() {
+  return (
+    <div className="flex justify-center py-12">
+      <LoadingSpinner size="md" />
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * @file src/pages/admin/appeals.tsx
+ * @description Admin queue of suspension appeals - approve to lift the suspension or deny with a reply
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import Link from "next/link";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  RefreshCw,
+  Scale,
+  XCircle,
+} from "lucide-react";
+import { useAuthStore } from "@/store/authStore";
+import { adminService } from "@/services/adminService";
+import { PageLoading } from "@/components/common";
+import Avatar from "@/components/common/Avatar";
+import LoadingSpinner from "@/components/common/Loading";
+import { AuditHistory } from "@/components/admin";
+import { APPEAL_STATUS_STYLES } from "@/lib/moderation";
+import { cn, formatDate, formatRelativeTime, getLoginUrl } from "@/lib/utils";
+import type { Appeal, AppealStatus, PaginationMeta } from "@/types";
+
+const LIMIT = 10;
+
+// Admin-facing labels; the user sees APPEAL_STATUS_LABELS
+const STATUS_LABELS: Record<AppealStatus, string> = {
+  PENDING: "Pending",
+  APPROVED: "Approved",
+  DENIED: "Denied",
+};
+
+export default function AdminAppealsPage() {
+  const router = useRouter();
+  const { isAuthenticated, user, isLoading: authLoading } = useAuthStore();
+
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
+  const [statusFilter, setStatusFilter] = useState<AppealStatus | "all">("PENDING");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  // Appeal being answered, and the reply the user will see
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [response, setResponse] = useState("");
+  const [deciding, setDeciding] = useState(false);
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(getLoginUrl());
+    } else if (!authLoading && isAuthenticated && user?.role !== "ADMIN") {
+      router.push("/");
+    }
+  }, [authLoading, isAuthenticated, user, router]);
+
+  const fetchAppeals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await adminService.getAppeals({
+        page: currentPage,
+        limit: LIMIT,
+        status: statusFilter === "all" ? undefined : statusFilter,
+      });
+      setAppeals(res.data.items);
+      setPagination(res.data.pagination);
+    } catch (err) {
+      console.error("Failed to fetch appeals:", err);
+      setError("Failed to load appeals");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, statusFilter]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.role === "ADMIN") {
+      fetchAppeals();
+    }
+  }, [fetchAppeals, isAuthenticated, user]);
+
+  const handleDecide = async (appealId: string, decision: "APPROVED" | "DENIED") => {
+    if (!response.trim()) return;
+    setDeciding(true);
+    try {
+      const res = await adminService.resolveAppeal(appealId, decision, response.trim());
+      setAppeals((prev) => prev.map((a) => (a._id === appealId ? { ...a, ...res.data } : a)));
+      setReviewing(null);
+      setResponse("");
+    } catch {
+      // The API client toasts failures
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  if (authLoading || (!isAuthenticated && !authLoading)) {
+    return <PageLoading />;
+  }
+
+  if (user?.role !== "ADMIN") {
+    return null;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Appeals | Admin - DevMatch</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+              <Link href="/admin" className="hover:text-blue-600">
+                Admin
+              </Link>
+              <ChevronRight size={16} />
+              <span className="text-gray-900">Appeals</span>
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+                  <Scale className="text-blue-600" />
+                  Suspension Appeals
+                </h1>
+                <p className="text-gray-600 mt-1">
+                  Approve to lift a suspension, or deny with a reply the user will see
+                </p>
+              </div>
+              <button
+                onClick={fetchAppeals}
+                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <RefreshCw size={18} className={loading ? "animate-spin" : ""} />
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-wrap items-center gap-2">
+            {(["PENDING", "APPROVED", "DENIED", "all"] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => {
+                  setStatusFilter(value);
+                  setCurrentPage(1);
+                }}
+                className={cn(
+                  "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                  statusFilter === value
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                )}
+              >
+                {value === "all" ? "All" : STATUS_LABELS[value]}
+              </button>
+            ))}
+            {pagination && (
+              <span className="ml-auto text-sm text-gray-500">{pagination.total} appeals</span>
+            )}
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-center gap-3">
+              <AlertCircle className="text-red-500" size={20} />
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {/* Appeals List */}
+          {loading ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-20 flex justify-center">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : appeals.length === 0 ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-20 text-center">
+              <CheckCircle className="mx-auto text-green-400 mb-4" size={48} />
+              <p className="text-gray-500 text-lg">No appeals found</p>
+              <p className="text-gray-400 text-sm mt-1">
+                {statusFilter === "PENDING"
+                  ? "All caught up! No appeals waiting for review."
+                  : "No appeals match this filter."}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {appeals.map((appeal) => (
+                <div
+                  key={appeal._id}
+                  className="bg-white rounded-lg border border-gray-200 p-6"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <Avatar src={appeal.user.avatar} name={appeal.user.username} />
+                      <div>
+                        <Link
+                          href={`/admin/users?q=${encodeURIComponent(appeal.user.username)}`}
+                          className="font-medium text-gray-900 hover:text-blue-600"
+                        >
+                          @{appeal.user.username}
+                        </Link>
+                        <p className="text-sm text-gray-500 flex items-center gap-3">
+                          <span className="flex items-center gap-1">
+                            <Clock size={12} />
+                            {formatRelativeTime(appeal.createdAt)}
+                          </span>
+                          {(appeal.user.warningCount ?? 0) > 0 && (
+                            <span className="flex items-center gap-1 text-yellow-700">
+                              <AlertTriangle size={12} />
+                              {appeal.user.warningCount} warnings
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    <span
+                      className={cn(
+                        "px-2.5 py-1 rounded-full text-xs font-medium",
+                        APPEAL_STATUS_STYLES[appeal.status]
+                      )}
+                    >
+                      {STATUS_LABELS[appeal.status]}
+                    </span>
+                  </div>
+
+                  {/* Suspension being appealed */}
+                  <div className="mt-4 rounded-lg bg-gray-50 border-l-4 border-orange-300 p-3 text-sm text-gray-700">
+                    <p>
+                      Suspended
+                      {appeal.suspendedUntil
+                        ? ` until ${formatDate(appeal.suspendedUntil)}`
+                        : " until lifted"}
+                      {appeal.suspensionReason && <> &middot; {appeal.suspensionReason}</>}
+                    </p>
+                  </div>
+
+                  <p className="mt-4 text-gray-800 whitespace-pre-wrap">{appeal.message}</p>
+
+                  {appeal.response && (
+                    <p className="mt-4 pt-3 border-t border-gray-100 text-sm text-gray-600">
+                      <span className="font-medium text-gray-900">
+                        Reply from @{appeal.reviewedBy?.username ?? "admin"}:{" "}
+                      </span>
+                      {appeal.response}
+                    </p>
+                  )}
+
+                  {appeal.status === "PENDING" &&
+                    (reviewing === appeal._id ? (
+                      <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                        <AuditHistory targetType="USER" targetId={appeal.user._id} />
+                        <textarea
+                          value={response}
+                          onChange={(e) => setResponse(e.target.value)}
+                          rows={3}
+                          placeholder="Reply to the user (required)..."
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                        />
+                        <div className="flex flex-wrap justify-end gap-2">
+                          <button
+                            onClick={() => {
+                              setReviewing(null);
+                              setResponse("");
+                            }}
+                            className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleDecide(appeal._id, "DENIED")}
+                            disabled={deciding || !response.trim()}
+                            className="flex items-center gap-2 px-4 py-2 text-sm bg-red-100 text-red-700 rounded-lg hover:bg-red-200 disabled:opacity-50"
+                          >
+                            <XCircle size={16} />
+                            Deny
+                          </button>
+                          <button
+                            onClick={() => handleDecide(appeal._id, "APPROVED")}
+                            disabled={deciding || !response.trim()}
+                            className="flex items-center gap-2 px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <CheckCircle size={16} />
+                            Approve &amp; lift suspension
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mt-4 flex justify-end">
+                        <button
+                          onClick={() => {
+                            setReviewing(appeal._id);
+                            setResponse("");
+                          }}
+                          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                        >
+                          Review
+                        </button>
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6 bg-white rounded-lg border border-gray-200 px-6 py-4">
+              <p className="text-sm text-gray-500">
+                Page {currentPage} of {pagination.totalPages}
+              </p>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                  disabled={!pagination.hasPrevPage}
+                  className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft size={18} />
+                </button>
+                <button
+                  onClick={() => setCurrentPage((p) => Math.min(pagination.totalPages, p + 1))}
+                  disabled={!pagination.hasNextPage}
+                  className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight size={18} />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
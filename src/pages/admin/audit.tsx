@@ -0,0 +1,468 @@
+/**
+ * @file src/pages/admin/audit.tsx
+ * @description Admin audit log - every admin action with actor, target, changes and reason.
+ * Filters live in the URL so a target's history can be linked to directly.
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import Link from "next/link";
+import {
+  Calendar,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Filter,
+  History,
+  RefreshCw,
+  Search,
+  X,
+} from "lucide-react";
+import { useAuthStore } from "@/store/authStore";
+import { adminService } from "@/services/adminService";
+import { PageLoading } from "@/components/common";
+import {
+  AUDIT_ACTION_GROUPS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  DESTRUCTIVE_AUDIT_ACTIONS,
+  getAuditChanges,
+  getAuditTargetHref,
+  isAuditAction,
+  isAuditTargetType,
+} from "@/lib/audit";
+import { formatDate, formatRelativeTime, getLoginUrl } from "@/lib/utils";
+import type { AuditLogEntry, PaginationMeta } from "@/types";
+
+const PAGE_SIZE = 25;
+
+interface AuditResult {
+  key: string;
+  entries: AuditLogEntry[];
+  pagination: PaginationMeta | null;
+  error: string | null;
+}
+
+const queryString = (value: string | string[] | undefined) =>
+  typeof value === "string" ? value : "";
+
+export default function AdminAuditPage() {
+  const router = useRouter();
+  const { isAuthenticated, user, isLoading: authLoading } = useAuthStore();
+  const isAdmin = isAuthenticated && user?.role === "ADMIN";
+
+  // Filters come from the URL
+  const actor = queryString(router.query.actor);
+  const action = queryString(router.query.action);
+  const startDate = queryString(router.query.from);
+  const endDate = queryString(router.query.to);
+  const targetType = queryString(router.query.targetType);
+  const targetId = queryString(router.query.targetId);
+  const currentPage = Math.max(1, parseInt(queryString(router.query.page) || "1", 10) || 1);
+
+  const [attempt, setAttempt] = useState(0);
+  const [result, setResult] = useState<AuditResult | null>(null);
+
+  const requestKey = [actor, action, startDate, endDate, targetType, targetId, currentPage, attempt]
+    .map(String)
+    .join("|");
+  const loading = result?.key !== requestKey;
+
+  // Redirect if not admin
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(getLoginUrl());
+    } else if (!authLoading && isAuthenticated && user?.role !== "ADMIN") {
+      router.push("/");
+    }
+  }, [authLoading, isAuthenticated, user, router]);
+
+  // Fetch entries
+  useEffect(() => {
+    if (!isAdmin || !router.isReady) return;
+    let alive = true;
+
+    adminService
+      .getAuditLog({
+        page: currentPage,
+        limit: PAGE_SIZE,
+        actor: actor || undefined,
+        action: isAuditAction(action) ? action : undefined,
+        targetType: isAuditTargetType(targetType) ? targetType : undefined,
+        targetId: targetId || undefined,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+      })
+      .then((res) => {
+        if (!alive) return;
+        setResult({
+          key: requestKey,
+          entries: res.data.items,
+          pagination: res.data.pagination,
+          error: null,
+        });
+      })
+      .catch((err) => {
+        if (!alive) return;
+        setResult({
+          key: requestKey,
+          entries: [],
+          pagination: null,
+          error: err.response?.data?.message || "Failed to load the audit log",
+        });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [
+    isAdmin,
+    router.isReady,
+    requestKey,
+    currentPage,
+    actor,
+    action,
+    targetType,
+    targetId,
+    startDate,
+    endDate,
+  ]);
+
+  // Update URL params; any filter change goes back to page 1
+  const updateFilters = (updates: Record<string, string | null>) => {
+    const newQuery: Record<string, string> = {};
+    Object.entries(router.query).forEach(([key, value]) => {
+      if (typeof value === "string") newQuery[key] = value;
+    });
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null || value === "") {
+        delete newQuery[key];
+      } else {
+        newQuery[key] = value;
+      }
+    });
+
+    if (!("page" in updates)) delete newQuery.page;
+
+    router.push({ pathname: "/admin/audit", query: newQuery }, undefined, { shallow: true });
+  };
+
+  const handleActorSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const value = new FormData(e.currentTarget).get("actor");
+    updateFilters({ actor: typeof value === "string" && value.trim() ? value.trim() : null });
+  };
+
+  const resetFilters = () => {
+    router.push("/admin/audit", undefined, { shallow: true });
+  };
+
+  // Show loading while checking auth
+  if (authLoading || !isAdmin) {
+    return <PageLoading />;
+  }
+
+  const entries = result?.entries ?? [];
+  const pagination = result?.pagination ?? null;
+  const hasFilters = !!(actor || action || startDate || endDate || targetType || targetId);
+  const historyLabel =
+    targetId && (entries.find((entry) => entry.targetId === targetId)?.targetLabel || targetId);
+
+  return (
+    <>
+      <Head>
+        <title>Audit Log | Admin - DevMatch</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+              <Link href="/admin" className="hover:text-blue-600">
+                Admin
+              </Link>
+              <ChevronRight size={16} />
+              <span className="text-gray-900">Audit Log</span>
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+                  <History className="text-blue-600" />
+                  Audit Log
+                </h1>
+                <p className="text-gray-600 mt-1">
+                  Every admin action, who took it and what changed
+                </p>
+              </div>
+              <button
+                onClick={() => setAttempt((n) => n + 1)}
+                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <RefreshCw size={18} className={loading ? "animate-spin" : ""} />
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6">
+            <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+              <form onSubmit={handleActorSearch} className="relative flex-1 min-w-0">
+                <Search
+                  size={18}
+                  className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+                />
+                {/* Keyed by the URL value so back/forward and actor links refill it */}
+                <input
+                  key={actor}
+                  type="text"
+                  name="actor"
+                  defaultValue={actor}
+                  placeholder="Filter by admin username..."
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </form>
+
+              <div className="flex items-center gap-2">
+                <Filter size={18} className="text-gray-400" />
+                <select
+                  value={action}
+                  onChange={(e) => updateFilters({ action: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All actions</option>
+                  {AUDIT_ACTION_GROUPS.map((group) => (
+                    <optgroup key={group.targetType} label={group.label}>
+                      {group.actions.map((option) => (
+                        <option key={option} value={option}>
+                          {AUDIT_ACTION_LABELS[option]}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Calendar size={18} className="text-gray-400" />
+                <input
+                  type="date"
+                  value={startDate}
+                  max={endDate || undefined}
+                  onChange={(e) => updateFilters({ from: e.target.value || null })}
+                  aria-label="From date"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-gray-400">&ndash;</span>
+                <input
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => updateFilters({ to: e.target.value || null })}
+                  aria-label="To date"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {hasFilters && (
+                <button
+                  onClick={resetFilters}
+                  className="text-sm text-gray-500 hover:text-gray-700 whitespace-nowrap"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+
+            {targetId && (
+              <div className="mt-3 inline-flex items-center gap-2 px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-sm">
+                History of{" "}
+                {isAuditTargetType(targetType)
+                  ? AUDIT_TARGET_LABELS[targetType].toLowerCase()
+                  : "target"}{" "}
+                <strong>{historyLabel}</strong>
+                <button
+                  onClick={() => updateFilters({ targetType: null, targetId: null })}
+                  className="hover:text-blue-900"
+                  aria-label="Show all targets"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Error */}
+          {result?.error && !loading && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-red-700">
+              {result.error}
+            </div>
+          )}
+
+          {/* Entries */}
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            {loading ? (
+              <div className="p-8 text-center">
+                <div className="w-8 h-8 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin mx-auto" />
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="p-12 text-center">
+                <History className="mx-auto text-gray-300 mb-4" size={48} />
+                <h3 className="text-lg font-medium text-gray-900 mb-1">No admin actions found</h3>
+                <p className="text-gray-500">
+                  {hasFilters ? "Try different filters" : "Admin actions will appear here"}
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        When
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Admin
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Action
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Target
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Changes
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reason
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {entries.map((entry) => (
+                      <AuditRow
+                        key={entry._id}
+                        entry={entry}
+                        onActorClick={(username) => updateFilters({ actor: username })}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                <p className="text-sm text-gray-500">
+                  Showing {(pagination.page - 1) * pagination.limit + 1} to{" "}
+                  {Math.min(pagination.page * pagination.limit, pagination.total)} of{" "}
+                  {pagination.total} actions
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => updateFilters({ page: String(currentPage - 1) })}
+                    disabled={currentPage === 1}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ChevronLeft size={20} />
+                  </button>
+                  <span className="text-sm text-gray-600">
+                    Page {currentPage} of {pagination.totalPages}
+                  </span>
+                  <button
+                    onClick={() => updateFilters({ page: String(currentPage + 1) })}
+                    disabled={currentPage === pagination.totalPages}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ChevronRight size={20} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function AuditRow({
+  entry,
+  onActorClick,
+}: {
+  entry: AuditLogEntry;
+  onActorClick: (username: string) => void;
+}) {
+  const href = getAuditTargetHref(entry);
+  const changes = getAuditChanges(entry);
+  const destructive = DESTRUCTIVE_AUDIT_ACTIONS.includes(entry.action);
+
+  return (
+    <tr className="hover:bg-gray-50 align-top">
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        <p className="text-gray-900">{formatRelativeTime(entry.createdAt)}</p>
+        <p className="text-xs text-gray-500">{formatDate(entry.createdAt)}</p>
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm">
+        {entry.actor ? (
+          <button
+            onClick={() => onActorClick(entry.actor.username)}
+            className="font-medium text-gray-900 hover:text-blue-600"
+            title="Show only this admin's actions"
+          >
+            @{entry.actor.username}
+          </button>
+        ) : (
+          <span className="text-gray-500">Unknown</span>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap">
+        <span
+          className={`inline-flex px-2.5 py-1 rounded-full text-xs font-medium ${
+            destructive ? "bg-red-100 text-red-700" : "bg-gray-100 text-gray-700"
+          }`}
+        >
+          {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+        </span>
+      </td>
+      <td className="px-6 py-4 text-sm">
+        <p className="text-xs text-gray-500">{AUDIT_TARGET_LABELS[entry.targetType]}</p>
+        {href ? (
+          <Link
+            href={href}
+            className="inline-flex items-center gap-1 font-medium text-blue-600 hover:text-blue-700"
+          >
+            {entry.targetLabel || entry.targetId}
+            <ExternalLink size={12} />
+          </Link>
+        ) : (
+          <span className="font-medium text-gray-900">{entry.targetLabel || entry.targetId}</span>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm">
+        {changes.length === 0 ? (
+          <span className="text-gray-400">&ndash;</span>
+        ) : (
+          <dl className="space-y-1">
+            {changes.map((change) => (
+              <div key={change.field} className="flex flex-wrap gap-x-1.5">
+                <dt className="text-gray-500">{change.field}:</dt>
+                <dd>
+                  <span className="text-red-600 line-through">{change.before}</span>{" "}
+                  &rarr; <span className="text-green-700">{change.after}</span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm text-gray-600 max-w-xs">
+        {entry.reason || <span className="text-gray-400">&ndash;</span>}
+      </td>
+    </tr>
+  );
+}
@@ -31,40 +31,12 @@ import {
 } from "lucide-react";
 import { useAuthStore } from "@/store/authStore";
 import { adminService } from "@/services/adminService";
+import type { JobPostDetails, PaginationMeta } from "@/types";
 import { PageLoading } from "@/components/common";
-import { formatDate } from "@/lib/utils";
-
-interface Job {
-  _id: string;
-  title: string;
-  companyName: string;
-  description: string;
-  location: {
-    city?: string;
-    state?: string;
-    country?: string;
-  };
-  workType: string;
-  requiredSkills: string[];
-  isActive: boolean;
-  isFeatured: boolean;
-  viewCount: number;
-  applicationCount?: number;
-  createdAt: string;
-  recruiter: {
-    _id: string;
-    username: string;
-    email: string;
-  };
-}
+import { AuditHistory } from "@/components/admin";
+import { formatDate, getLoginUrl } from "@/lib/utils";
 
-interface Pagination {
-  currentPage: number;
-  totalPages: number;
-  totalItems: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-}
+type Job = JobPostDetails;
 
 export default function AdminJobsPage() {
   const router = useRouter();
@@ -73,7 +45,7 @@ export default function AdminJobsPage() {
   // State
   const [jobs, setJobs] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
-  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [featuredFilter, setFeaturedFilter] = useState<string>("all");
@@ -85,7 +57,7 @@ export default function AdminJobsPage() {
   // Redirect if not admin
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push("/auth/login?redirect=/admin/jobs");
+      router.push(getLoginUrl());
     } else if (!authLoading && isAuthenticated && user?.role !== "ADMIN") {
       router.push("/");
     }
@@ -108,10 +80,8 @@ export default function AdminJobsPage() {
         params.featured = featuredFilter === "featured";
 
       const response = await adminService.getJobs(params);
-      const data = response.data?.data || response.data;
-
-      setJobs(data?.jobs || []);
-      setPagination(data?.pagination || null);
+      setJobs(response.data.items);
+      setPagination(response.data.pagination);
     } catch (err: any) {
       console.error("Failed to fetch jobs:", err);
       setError(err.response?.data?.message || "Failed to load jobs");
@@ -306,7 +276,7 @@ export default function AdminJobsPage() {
               <div className="bg-white rounded-lg border border-gray-200 p-4">
                 <p className="text-sm text-gray-500">Total Jobs</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {pagination.totalItems}
+                  {pagination.total}
                 </p>
               </div>
               <div className="bg-white rounded-lg border border-gray-200 p-4">
@@ -324,7 +294,7 @@ export default function AdminJobsPage() {
               <div className="bg-white rounded-lg border border-gray-200 p-4">
                 <p className="text-sm text-gray-500">Current Page</p>
                 <p className="text-2xl font-bold text-blue-600">
-                  {pagination.currentPage} / {pagination.totalPages}
+                  {pagination.page} / {pagination.totalPages}
                 </p>
               </div>
             </div>
@@ -539,8 +509,8 @@ export default function AdminJobsPage() {
               <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
                 <p className="text-sm text-gray-500">
                   Showing {(currentPage - 1) * 10 + 1} to{" "}
-                  {Math.min(currentPage * 10, pagination.totalItems)} of{" "}
-                  {pagination.totalItems} jobs
+                  {Math.min(currentPage * 10, pagination.total)} of{" "}
+                  {pagination.total} jobs
                 </p>
                 <div className="flex items-center gap-2">
                   <button
@@ -602,6 +572,8 @@ export default function AdminJobsPage() {
               also be removed.
             </p>
 
+            <AuditHistory targetType="JOB" targetId={deleteModal._id} className="mb-6" />
+
             <div className="flex items-center justify-end gap-3">
               <button
                 onClick={() => setDeleteModal(null)}
@@ -1,9 +1,10 @@
 /**
  * @file src/pages/admin/reports.tsx
- * @description Admin reports management page - view and resolve flagged content
+ * @description Admin moderation queue - reports grouped by target, triaged with
+ * keyboard shortcuts, assigned to admins and resolved with a note
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import Link from "next/link";
@@ -11,7 +12,6 @@ import { motion, AnimatePresence } from "framer-motion";
 import {
   AlertTriangle,
   Flag,
-  Search,
   Filter,
   ChevronLeft,
   ChevronRight,
@@ -22,87 +22,39 @@ import {
   Eye,
   CheckCircle,
   XCircle,
-  Ban,
   Trash2,
   Clock,
   AlertCircle,
   RefreshCw,
-  ExternalLink,
+  Keyboard,
+  UserCheck,
   X,
 } from "lucide-react";
 import { useAuthStore } from "@/store/authStore";
 import { adminService } from "@/services/adminService";
 import { PageLoading } from "@/components/common";
-import { formatDate, formatRelativeTime } from "@/lib/utils";
-
-// Report types
-type ReportType = "POST" | "COMMENT" | "USER" | "JOB";
-type ReportStatus = "PENDING" | "REVIEWED" | "RESOLVED";
-type ReportAction = "DISMISS" | "WARN" | "REMOVE" | "BAN";
-
-interface Reporter {
-  _id: string;
-  username: string;
-  email: string;
-  avatar?: string;
-}
-
-interface ReportedUser {
-  _id: string;
-  username: string;
-  email: string;
-  avatar?: string;
-  role: string;
-}
-
-interface ReportedContent {
-  _id: string;
-  content?: string;
-  title?: string;
-  username?: string;
-  author?: {
-    _id: string;
-    username: string;
-  };
-}
-
-interface Report {
-  _id: string;
-  type: ReportType;
-  reason: string;
-  description?: string;
-  status: ReportStatus;
-  reporter: Reporter;
-  reportedUser?: ReportedUser;
-  reportedContent?: ReportedContent;
-  resolvedBy?: {
-    _id: string;
-    username: string;
-  };
-  resolvedAt?: string;
-  action?: ReportAction;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface Pagination {
-  currentPage: number;
-  totalPages: number;
-  totalItems: number;
-  hasNextPage: boolean;
-  hasPrevPage: boolean;
-}
-
-// Report reason options
-const REPORT_REASONS: Record<string, string> = {
-  SPAM: "Spam or misleading",
-  HARASSMENT: "Harassment or bullying",
-  HATE_SPEECH: "Hate speech or discrimination",
-  INAPPROPRIATE: "Inappropriate content",
-  FAKE: "Fake or fraudulent",
-  COPYRIGHT: "Copyright violation",
-  OTHER: "Other",
-};
+import { ReportDetailPanel } from "@/components/admin";
+import type { AdminOption } from "@/components/admin/ReportDetailPanel";
+import {
+  REPORT_QUEUE_SHORTCUTS,
+  getGroupReasons,
+  getReportReasonLabel,
+  groupReportsByTarget,
+  type ReportGroup,
+} from "@/lib/reports";
+import { cn, formatRelativeTime, getLoginUrl, isTypingTarget } from "@/lib/utils";
+import type {
+  PaginationMeta,
+  Report,
+  ReportAction,
+  ReportStatus,
+  ReportTargetType,
+} from "@/types";
+
+type ReportType = ReportTargetType;
+
+// Larger than other admin lists so reports on the same target land on one page
+const PAGE_SIZE = 25;
 
 export default function AdminReportsPage() {
   const router = useRouter();
@@ -111,18 +63,27 @@ export default function AdminReportsPage() {
   // State
   const [reports, setReports] = useState<Report[]>([]);
   const [loading, setLoading] = useState(true);
-  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("PENDING");
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
-  const [actionLoading, setActionLoading] = useState<string | null>(null);
-  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
+  const [admins, setAdmins] = useState<AdminOption[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [openGroupKey, setOpenGroupKey] = useState<string | null>(null);
+  const [initialAction, setInitialAction] = useState<ReportAction | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const groupRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const groups = useMemo(() => groupReportsByTarget(reports), [reports]);
+  const openGroup = groups.find((g) => g.key === openGroupKey) ?? null;
+  const activeGroup = groups[Math.min(activeIndex, groups.length - 1)];
 
   // Redirect if not admin
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push("/auth/login?redirect=/admin/reports");
+      router.push(getLoginUrl());
     } else if (!authLoading && isAuthenticated && user?.role !== "ADMIN") {
       router.push("/");
     }
@@ -134,26 +95,26 @@ export default function AdminReportsPage() {
       setLoading(true);
       setError(null);
 
-      const params: any = {
+      const params: Parameters<typeof adminService.getReports>[0] = {
         page: currentPage,
-        limit: 10,
+        limit: PAGE_SIZE,
       };
 
-      if (typeFilter !== "all") params.type = typeFilter;
-      if (statusFilter !== "all") params.status = statusFilter;
+      if (typeFilter !== "all") params.type = typeFilter as ReportType;
+      if (statusFilter !== "all") params.status = statusFilter as ReportStatus;
+      if (assigneeFilter !== "all") params.assignedTo = assigneeFilter;
 
       const response = await adminService.getReports(params);
-      const data = response.data?.data || response.data;
-
-      setReports(data?.reports || []);
-      setPagination(data?.pagination || null);
-    } catch (err: any) {
+      setReports(response.data.items);
+      setPagination(response.data.pagination);
+      setActiveIndex(0);
+    } catch (err) {
       console.error("Failed to fetch reports:", err);
-      setError(err.response?.data?.message || "Failed to load reports");
+      setError("Failed to load reports");
     } finally {
       setLoading(false);
     }
-  }, [currentPage, typeFilter, statusFilter]);
+  }, [currentPage, typeFilter, statusFilter, assigneeFilter]);
 
   useEffect(() => {
     if (isAuthenticated && user?.role === "ADMIN") {
@@ -161,30 +122,62 @@ export default function AdminReportsPage() {
     }
   }, [fetchReports, isAuthenticated, user]);
 
-  // Resolve report
-  const handleResolve = async (reportId: string, action: ReportAction) => {
-    try {
-      setActionLoading(reportId);
-      await adminService.resolveReport(reportId, action);
-
-      // Update local state
-      setReports((prev) =>
-        prev.map((r) =>
-          r._id === reportId
-            ? { ...r, status: "RESOLVED" as ReportStatus, action }
-            : r
-        )
-      );
-
-      setSelectedReport(null);
-    } catch (err: any) {
-      console.error("Failed to resolve report:", err);
-      alert(err.response?.data?.message || "Failed to resolve report");
-    } finally {
-      setActionLoading(null);
-    }
+  // Admins reports can be assigned to
+  useEffect(() => {
+    if (!isAuthenticated || user?.role !== "ADMIN") return;
+    adminService
+      .getUsers({ role: "ADMIN", limit: 100 })
+      .then((res) => setAdmins(res.data.items))
+      .catch(() => {});
+  }, [isAuthenticated, user]);
+
+  const openReportGroup = (group: ReportGroup, action: ReportAction | null = null) => {
+    setInitialAction(action);
+    setOpenGroupKey(group.key);
   };
 
+  // Merge what the panel assigned or resolved back into the list
+  const handleUpdated = (updated: Report[]) => {
+    const byId = new Map(updated.map((r) => [r._id, r]));
+    setReports((prev) => prev.map((r) => byId.get(r._id) ?? r));
+  };
+
+  // List shortcuts; the open panel handles its own
+  const listKeyRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    listKeyRef.current = (e: KeyboardEvent) => {
+      if (openGroup || isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.key === "?") {
+        setShowShortcuts((v) => !v);
+      } else if (e.key === "Escape") {
+        setShowShortcuts(false);
+      } else if (e.key === "j" || e.key === "ArrowDown") {
+        e.preventDefault();
+        setActiveIndex((i) => Math.min(groups.length - 1, i + 1));
+      } else if (e.key === "k" || e.key === "ArrowUp") {
+        e.preventDefault();
+        setActiveIndex((i) => Math.max(0, i - 1));
+      } else if ((e.key === "Enter" || e.key === "o") && activeGroup) {
+        e.preventDefault();
+        openReportGroup(activeGroup);
+      }
+    };
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => listKeyRef.current(e);
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Keep the highlighted group on screen while moving with j/k
+  useEffect(() => {
+    if (activeGroup) {
+      groupRefs.current[activeGroup.key]?.scrollIntoView({ block: "nearest" });
+    }
+  }, [activeGroup]);
+
   // Get type icon
   const getTypeIcon = (type: ReportType) => {
     switch (type) {
@@ -283,19 +276,62 @@ export default function AdminReportsPage() {
                   Review and resolve reported content from users
                 </p>
               </div>
-              <button
-                onClick={fetchReports}
-                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
-              >
-                <RefreshCw
-                  size={18}
-                  className={loading ? "animate-spin" : ""}
-                />
-                Refresh
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowShortcuts((v) => !v)}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="Keyboard shortcuts (?)"
+                >
+                  <Keyboard size={18} />
+                  Shortcuts
+                </button>
+                <button
+                  onClick={fetchReports}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <RefreshCw
+                    size={18}
+                    className={loading ? "animate-spin" : ""}
+                  />
+                  Refresh
+                </button>
+              </div>
             </div>
           </div>
 
+          {/* Keyboard shortcuts */}
+          <AnimatePresence>
+            {showShortcuts && (
+              <motion.div
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                className="overflow-hidden"
+              >
+                <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 relative">
+                  <button
+                    onClick={() => setShowShortcuts(false)}
+                    className="absolute top-3 right-3 p-1 text-gray-400 hover:text-gray-600"
+                  >
+                    <X size={16} />
+                  </button>
+                  <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-2 text-sm">
+                    {REPORT_QUEUE_SHORTCUTS.map((s) => (
+                      <div key={s.keys} className="flex items-center gap-2">
+                        <dt>
+                          <kbd className="px-1.5 py-0.5 rounded border border-gray-300 bg-gray-50 text-xs font-mono">
+                            {s.keys}
+                          </kbd>
+                        </dt>
+                        <dd className="text-gray-600">{s.label}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Filters */}
           <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6">
             <div className="flex flex-col sm:flex-row gap-4">
@@ -333,15 +369,36 @@ export default function AdminReportsPage() {
                 <option value="RESOLVED">Resolved</option>
               </select>
 
+              {/* Assignee Filter */}
+              <select
+                value={assigneeFilter}
+                onChange={(e) => {
+                  setAssigneeFilter(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">Any Assignee</option>
+                <option value={user.id}>Assigned to me</option>
+                <option value="none">Unassigned</option>
+                {admins
+                  .filter((a) => a._id !== user.id)
+                  .map((admin) => (
+                    <option key={admin._id} value={admin._id}>
+                      @{admin.username}
+                    </option>
+                  ))}
+              </select>
+
               {/* Stats */}
               {pagination && (
                 <div className="flex items-center gap-4 ml-auto text-sm">
                   <span className="text-gray-500">
-                    {pagination.totalItems} total reports
+                    {pagination.total} total reports
                   </span>
                   {statusFilter === "PENDING" && (
                     <span className="text-yellow-600 font-medium">
-                      {reports.length} pending review
+                      {groups.length} {groups.length === 1 ? "target" : "targets"} to review
                     </span>
                   )}
                 </div>
@@ -357,13 +414,13 @@ export default function AdminReportsPage() {
             </div>
           )}
 
-          {/* Reports List */}
+          {/* Report groups, one per reported target */}
           <div className="space-y-4">
             {loading ? (
               <div className="bg-white rounded-lg border border-gray-200 p-20 flex justify-center">
                 <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
               </div>
-            ) : reports.length === 0 ? (
+            ) : groups.length === 0 ? (
               <div className="bg-white rounded-lg border border-gray-200 p-20 text-center">
                 <CheckCircle
                   className="mx-auto text-green-400 mb-4"
@@ -377,158 +434,188 @@ export default function AdminReportsPage() {
                 </p>
               </div>
             ) : (
-              reports.map((report, index) => (
-                <motion.div
-                  key={report._id}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-md transition-shadow"
-                >
-                  <div className="p-6">
-                    <div className="flex items-start justify-between gap-4">
-                      {/* Left: Report Info */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-3 mb-3">
-                          {/* Type Badge */}
-                          <span
-                            className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${getTypeColor(
-                              report.type
-                            )}`}
-                          >
-                            {getTypeIcon(report.type)}
-                            {report.type}
-                          </span>
-
-                          {/* Status Badge */}
-                          <span
-                            className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(
-                              report.status
-                            )}`}
-                          >
-                            {report.status === "PENDING" && <Clock size={12} />}
-                            {report.status === "REVIEWED" && <Eye size={12} />}
-                            {report.status === "RESOLVED" && (
-                              <CheckCircle size={12} />
-                            )}
-                            {report.status}
-                          </span>
+              groups.map((group, index) => {
+                const latest = group.reports[0];
+                const reasons = getGroupReasons(group);
+                const assignee = group.reports.find((r) => r.assignedTo)?.assignedTo;
+                const status: ReportStatus = group.pendingCount > 0 ? latest.status : "RESOLVED";
+
+                return (
+                  <motion.div
+                    key={group.key}
+                    ref={(el) => {
+                      groupRefs.current[group.key] = el;
+                    }}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                    onClick={() => setActiveIndex(index)}
+                    className={cn(
+                      "bg-white rounded-lg border overflow-hidden hover:shadow-md transition-shadow",
+                      activeGroup?.key === group.key
+                        ? "border-blue-400 ring-1 ring-blue-400"
+                        : "border-gray-200"
+                    )}
+                  >
+                    <div className="p-6">
+                      <div className="flex items-start justify-between gap-4">
+                        {/* Left: Report Info */}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-3 mb-3">
+                            {/* Type Badge */}
+                            <span
+                              className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${getTypeColor(
+                                group.targetType
+                              )}`}
+                            >
+                              {getTypeIcon(group.targetType)}
+                              {group.targetType}
+                            </span>
 
-                          {/* Action taken (if resolved) */}
-                          {report.action && (
+                            {/* Status Badge */}
                             <span
-                              className={`text-xs ${getActionColor(
-                                report.action
+                              className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(
+                                status
                               )}`}
                             >
-                              Action: {report.action}
+                              {status === "PENDING" && <Clock size={12} />}
+                              {status === "REVIEWED" && <Eye size={12} />}
+                              {status === "RESOLVED" && <CheckCircle size={12} />}
+                              {status}
                             </span>
-                          )}
-                        </div>
 
-                        {/* Reason */}
-                        <h3 className="font-semibold text-gray-900 mb-1">
-                          {REPORT_REASONS[report.reason] || report.reason}
-                        </h3>
-
-                        {/* Description */}
-                        {report.description && (
-                          <p className="text-gray-600 text-sm mb-3 line-clamp-2">
-                            {report.description}
-                          </p>
-                        )}
-
-                        {/* Reported Content Preview */}
-                        {report.reportedContent && (
-                          <div className="bg-gray-50 rounded-lg p-3 mb-3 border-l-4 border-gray-300">
-                            {report.type === "POST" ||
-                            report.type === "COMMENT" ? (
-                              <p className="text-sm text-gray-700 line-clamp-2">
-                                &quot;{report.reportedContent.content}&quot;
-                              </p>
-                            ) : report.type === "JOB" ? (
-                              <p className="text-sm text-gray-700">
-                                Job: {report.reportedContent.title}
-                              </p>
-                            ) : (
-                              <p className="text-sm text-gray-700">
-                                User: @{report.reportedContent.username}
-                              </p>
+                            {/* Report count */}
+                            {group.reports.length > 1 && (
+                              <span className="inline-flex items-center gap-1 text-xs font-medium text-red-600">
+                                <Flag size={12} />
+                                {group.reports.length} reports
+                              </span>
                             )}
-                            {report.reportedContent.author && (
-                              <p className="text-xs text-gray-500 mt-1">
-                                By @{report.reportedContent.author.username}
-                              </p>
+
+                            {/* Action taken (if resolved) */}
+                            {group.pendingCount === 0 && latest.action && (
+                              <span
+                                className={`text-xs ${getActionColor(
+                                  latest.action
+                                )}`}
+                              >
+                                Action: {latest.action}
+                              </span>
                             )}
                           </div>
-                        )}
-
-                        {/* Meta Info */}
-                        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
-                          <span className="flex items-center gap-1">
-                            <User size={14} />
-                            Reported by @
-                            {report.reporter?.username || "Unknown"}
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <Clock size={14} />
-                            {formatRelativeTime(report.createdAt)}
-                          </span>
-                          {report.resolvedBy && (
+
+                          {/* Reasons */}
+                          <h3 className="font-semibold text-gray-900 mb-1">
+                            {reasons
+                              .map(({ reason, count }) =>
+                                count > 1
+                                  ? `${getReportReasonLabel(reason)} (${count})`
+                                  : getReportReasonLabel(reason)
+                              )
+                              .join(", ")}
+                          </h3>
+
+                          {/* Description */}
+                          {latest.description && (
+                            <p className="text-gray-600 text-sm mb-3 line-clamp-2">
+                              {latest.description}
+                            </p>
+                          )}
+
+                          {/* Reported Content Preview */}
+                          {latest.reportedContent && (
+                            <div className="bg-gray-50 rounded-lg p-3 mb-3 border-l-4 border-gray-300">
+                              {group.targetType === "POST" ||
+                              group.targetType === "COMMENT" ? (
+                                <p className="text-sm text-gray-700 line-clamp-2">
+                                  &quot;{latest.reportedContent.content}&quot;
+                                </p>
+                              ) : group.targetType === "JOB" ? (
+                                <p className="text-sm text-gray-700">
+                                  Job: {latest.reportedContent.title}
+                                </p>
+                              ) : (
+                                <p className="text-sm text-gray-700">
+                                  User: @{latest.reportedContent.username}
+                                </p>
+                              )}
+                              {latest.reportedContent.author && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  By @{latest.reportedContent.author.username}
+                                </p>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Meta Info */}
+                          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
                             <span className="flex items-center gap-1">
-                              <CheckCircle
-                                size={14}
-                                className="text-green-500"
-                              />
-                              Resolved by @{report.resolvedBy.username}
+                              <User size={14} />
+                              Reported by @
+                              {latest.reporter?.username || "Unknown"}
+                              {group.reports.length > 1 &&
+                                ` and ${group.reports.length - 1} more`}
                             </span>
-                          )}
+                            <span className="flex items-center gap-1">
+                              <Clock size={14} />
+                              {formatRelativeTime(latest.createdAt)}
+                            </span>
+                            {assignee && group.pendingCount > 0 && (
+                              <span className="flex items-center gap-1">
+                                <UserCheck size={14} className="text-blue-500" />
+                                {assignee._id === user.id ? "Assigned to you" : `@${assignee.username}`}
+                              </span>
+                            )}
+                            {group.pendingCount === 0 && latest.resolvedBy && (
+                              <span className="flex items-center gap-1">
+                                <CheckCircle
+                                  size={14}
+                                  className="text-green-500"
+                                />
+                                Resolved by @{latest.resolvedBy.username}
+                              </span>
+                            )}
+                          </div>
                         </div>
-                      </div>
 
-                      {/* Right: Actions */}
-                      <div className="flex items-center gap-2">
-                        {/* View Details */}
-                        <button
-                          onClick={() => setSelectedReport(report)}
-                          className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                          title="View Details"
-                        >
-                          <Eye size={18} />
-                        </button>
-
-                        {report.status === "PENDING" && (
-                          <>
-                            {/* Quick Dismiss */}
-                            <button
-                              onClick={() =>
-                                handleResolve(report._id, "DISMISS")
-                              }
-                              disabled={actionLoading === report._id}
-                              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
-                              title="Dismiss Report"
-                            >
-                              <XCircle size={18} />
-                            </button>
-
-                            {/* Quick Remove Content */}
-                            <button
-                              onClick={() =>
-                                handleResolve(report._id, "REMOVE")
-                              }
-                              disabled={actionLoading === report._id}
-                              className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                              title="Remove Content"
-                            >
-                              <Trash2 size={18} />
-                            </button>
-                          </>
-                        )}
+                        {/* Right: Actions */}
+                        <div className="flex items-center gap-2">
+                          {/* View Details */}
+                          <button
+                            onClick={() => openReportGroup(group)}
+                            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="View Details"
+                          >
+                            <Eye size={18} />
+                          </button>
+
+                          {group.pendingCount > 0 && (
+                            <>
+                              {/* Quick Dismiss - still needs a note */}
+                              <button
+                                onClick={() => openReportGroup(group, "DISMISS")}
+                                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                                title="Dismiss Report"
+                              >
+                                <XCircle size={18} />
+                              </button>
+
+                              {/* Quick Remove Content - still needs a note */}
+                              <button
+                                onClick={() => openReportGroup(group, "REMOVE")}
+                                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Remove Content"
+                              >
+                                <Trash2 size={18} />
+                              </button>
+                            </>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </motion.div>
-              ))
+                  </motion.div>
+                );
+              })
             )}
           </div>
 
@@ -536,9 +623,9 @@ export default function AdminReportsPage() {
           {pagination && pagination.totalPages > 1 && (
             <div className="flex items-center justify-between mt-6 bg-white rounded-lg border border-gray-200 px-6 py-4">
               <p className="text-sm text-gray-500">
-                Showing {(currentPage - 1) * 10 + 1} to{" "}
-                {Math.min(currentPage * 10, pagination.totalItems)} of{" "}
-                {pagination.totalItems} reports
+                Showing {(currentPage - 1) * PAGE_SIZE + 1} to{" "}
+                {Math.min(currentPage * PAGE_SIZE, pagination.total)} of{" "}
+                {pagination.total} reports
               </p>
               <div className="flex items-center gap-2">
                 <button
@@ -568,223 +655,15 @@ export default function AdminReportsPage() {
         </div>
       </div>
 
-      {/* Report Detail Modal */}
-      <AnimatePresence>
-        {selectedReport && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-            <motion.div
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.95 }}
-              className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
-            >
-              {/* Modal Header */}
-              <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div
-                    className={`w-10 h-10 rounded-lg flex items-center justify-center ${getTypeColor(
-                      selectedReport.type
-                    )}`}
-                  >
-                    {getTypeIcon(selectedReport.type)}
-                  </div>
-                  <div>
-                    <h2 className="text-lg font-semibold text-gray-900">
-                      Report Details
-                    </h2>
-                    <p className="text-sm text-gray-500">
-                      {selectedReport.type} Report
-                    </p>
-                  </div>
-                </div>
-                <button
-                  onClick={() => setSelectedReport(null)}
-                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
-                >
-                  <X size={20} />
-                </button>
-              </div>
-
-              {/* Modal Body */}
-              <div className="p-6 space-y-6">
-                {/* Status */}
-                <div className="flex items-center gap-3">
-                  <span
-                    className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium ${getStatusColor(
-                      selectedReport.status
-                    )}`}
-                  >
-                    {selectedReport.status === "PENDING" && <Clock size={14} />}
-                    {selectedReport.status === "REVIEWED" && <Eye size={14} />}
-                    {selectedReport.status === "RESOLVED" && (
-                      <CheckCircle size={14} />
-                    )}
-                    {selectedReport.status}
-                  </span>
-                  {selectedReport.action && (
-                    <span
-                      className={`text-sm ${getActionColor(
-                        selectedReport.action
-                      )}`}
-                    >
-                      Action taken: {selectedReport.action}
-                    </span>
-                  )}
-                </div>
-
-                {/* Reason */}
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500 mb-1">
-                    Reason
-                  </h3>
-                  <p className="text-gray-900">
-                    {REPORT_REASONS[selectedReport.reason] ||
-                      selectedReport.reason}
-                  </p>
-                </div>
-
-                {/* Description */}
-                {selectedReport.description && (
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-500 mb-1">
-                      Additional Details
-                    </h3>
-                    <p className="text-gray-700">
-                      {selectedReport.description}
-                    </p>
-                  </div>
-                )}
-
-                {/* Reported Content */}
-                {selectedReport.reportedContent && (
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-500 mb-2">
-                      Reported Content
-                    </h3>
-                    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                      {(selectedReport.type === "POST" ||
-                        selectedReport.type === "COMMENT") && (
-                        <p className="text-gray-800">
-                          {selectedReport.reportedContent.content}
-                        </p>
-                      )}
-                      {selectedReport.type === "JOB" && (
-                        <div>
-                          <p className="font-medium text-gray-900">
-                            {selectedReport.reportedContent.title}
-                          </p>
-                        </div>
-                      )}
-                      {selectedReport.type === "USER" && (
-                        <div className="flex items-center gap-3">
-                          <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center">
-                            <User size={20} className="text-gray-500" />
-                          </div>
-                          <div>
-                            <p className="font-medium text-gray-900">
-                              @{selectedReport.reportedContent.username}
-                            </p>
-                          </div>
-                        </div>
-                      )}
-                      {selectedReport.reportedContent.author && (
-                        <p className="text-sm text-gray-500 mt-2">
-                          Author: @
-                          {selectedReport.reportedContent.author.username}
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                )}
-
-                {/* Reporter Info */}
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500 mb-2">
-                    Reported By
-                  </h3>
-                  <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center">
-                      <User size={20} className="text-gray-500" />
-                    </div>
-                    <div>
-                      <p className="font-medium text-gray-900">
-                        @{selectedReport.reporter?.username || "Unknown"}
-                      </p>
-                      <p className="text-sm text-gray-500">
-                        {selectedReport.reporter?.email}
-                      </p>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Timestamps */}
-                <div className="flex items-center gap-6 text-sm text-gray-500">
-                  <span>Reported: {formatDate(selectedReport.createdAt)}</span>
-                  {selectedReport.resolvedAt && (
-                    <span>
-                      Resolved: {formatDate(selectedReport.resolvedAt)}
-                    </span>
-                  )}
-                </div>
-              </div>
-
-              {/* Modal Footer - Actions */}
-              {selectedReport.status === "PENDING" && (
-                <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4">
-                  <h3 className="text-sm font-medium text-gray-700 mb-3">
-                    Take Action
-                  </h3>
-                  <div className="flex flex-wrap gap-3">
-                    {/* Dismiss */}
-                    <button
-                      onClick={() =>
-                        handleResolve(selectedReport._id, "DISMISS")
-                      }
-                      disabled={actionLoading === selectedReport._id}
-                      className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
-                    >
-                      <XCircle size={18} />
-                      Dismiss
-                    </button>
-
-                    {/* Warn User */}
-                    <button
-                      onClick={() => handleResolve(selectedReport._id, "WARN")}
-                      disabled={actionLoading === selectedReport._id}
-                      className="flex items-center gap-2 px-4 py-2 bg-yellow-100 text-yellow-700 rounded-lg hover:bg-yellow-200 transition-colors disabled:opacity-50"
-                    >
-                      <AlertTriangle size={18} />
-                      Warn User
-                    </button>
-
-                    {/* Remove Content */}
-                    <button
-                      onClick={() =>
-                        handleResolve(selectedReport._id, "REMOVE")
-                      }
-                      disabled={actionLoading === selectedReport._id}
-                      className="flex items-center gap-2 px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors disabled:opacity-50"
-                    >
-                      <Trash2 size={18} />
-                      Remove Content
-                    </button>
-
-                    {/* Ban User */}
-                    <button
-                      onClick={() => handleResolve(selectedReport._id, "BAN")}
-                      disabled={actionLoading === selectedReport._id}
-                      className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
-                    >
-                      <Ban size={18} />
-                      Ban User
-                    </button>
-                  </div>
-                </div>
-              )}
-            </motion.div>
-          </div>
-        )}
-      </AnimatePresence>
+      {/* Report Detail Panel */}
+      <ReportDetailPanel
+        group={openGroup}
+        initialAction={initialAction}
+        admins={admins}
+        currentAdminId={user.id}
+        onClose={() => setOpenGroupKey(null)}
+        onUpdated={handleUpdated}
+      />
     </>
   );
 }
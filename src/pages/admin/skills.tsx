@@ -9,9 +9,21 @@ import Head from "next/head";
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import { adminService } from "@/services/adminService";
+import type { Skill, SkillCategory } from "@/types";
 import { useToast } from "@/contexts/ToastContext";
 import { useAuth } from "@/contexts/AuthContext";
 import LoadingSpinner from "@/components/common/Loading";
+import {
+  AuditHistory,
+  BulkProgressModal,
+  SkillImportModal,
+  SkillMergeModal,
+  SkillTaxonomyModal,
+} from "@/components/admin";
+import { useBulkOperation } from "@/hooks/useBulkOperation";
+import { downloadCsv } from "@/lib/csv";
+import { skillsToCsvRows, toSkillSlug, type SkillImportRow } from "@/lib/skillImport";
+import { getLoginUrl } from "@/lib/utils";
 import {
   Plus,
   Edit,
@@ -29,8 +41,15 @@ import {
   ToggleRight,
   AlertTriangle,
   Layers,
+  Download,
+  Upload,
+  Tags,
+  GitMerge,
 } from "lucide-react";
 
+// Bulk failures are listed in the progress modal instead of one toast each
+const QUIET = { skipErrorToast: true };
+
 const SKILL_CATEGORIES = [
   { value: "LANGUAGE", label: "Programming Languages", color: "blue" },
   { value: "FRONTEND", label: "Frontend", color: "purple" },
@@ -59,16 +78,6 @@ const getCategoryColor = (category: string) => {
   return colors[cat?.color || "gray"];
 };
 
-interface Skill {
-  _id: string;
-  name: string;
-  slug: string;
-  category: string;
-  isActive: boolean;
-  usageCount?: number;
-  createdAt: string;
-}
-
 export default function AdminSkillsPage() {
   const router = useRouter();
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -77,7 +86,10 @@ export default function AdminSkillsPage() {
   // State
   const [skills, setSkills] = useState<Skill[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
+  // Prefilled by deep links such as the audit log's
+  const [searchQuery, setSearchQuery] = useState(() =>
+    typeof router.query.q === "string" ? router.query.q : ""
+  );
   const [categoryFilter, setCategoryFilter] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
 
@@ -86,7 +98,7 @@ export default function AdminSkillsPage() {
   const [editingSkill, setEditingSkill] = useState<Skill | null>(null);
   const [formData, setFormData] = useState({
     name: "",
-    category: "OTHER",
+    category: "OTHER" as SkillCategory,
   });
   const [formLoading, setFormLoading] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
@@ -95,6 +107,16 @@ export default function AdminSkillsPage() {
   const [deleteConfirm, setDeleteConfirm] = useState<Skill | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // Bulk selection, import and export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showImport, setShowImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Aliases, hierarchy and merging
+  const [taxonomySkill, setTaxonomySkill] = useState<Skill | null>(null);
+  const [mergeSource, setMergeSource] = useState<Skill | null>(null);
+  const bulk = useBulkOperation();
+
   // Prevent duplicate fetches
   const hasFetched = useRef(false);
   const lastFetchKey = useRef("");
@@ -104,7 +126,7 @@ export default function AdminSkillsPage() {
     if (authLoading) return;
 
     if (!isAuthenticated) {
-      router.push("/auth/login?redirect=/admin/skills");
+      router.push(getLoginUrl());
       return;
     }
 
@@ -129,8 +151,8 @@ export default function AdminSkillsPage() {
       if (statusFilter) params.isActive = statusFilter === "active";
 
       const response = await adminService.getSkills(params);
-      const data = response.data?.data || response.data;
-      setSkills(Array.isArray(data) ? data : data?.skills || []);
+      setSkills(response.data.items);
+      setSelectedIds(new Set());
     } catch (err: any) {
       console.error("Failed to fetch skills:", err);
       if (err.response?.status !== 429) {
@@ -194,11 +216,7 @@ export default function AdminSkillsPage() {
     setFormLoading(true);
     try {
       // Generate slug from name
-      const slug = formData.name
-        .toLowerCase()
-        .trim()
-        .replace(/[^a-z0-9]+/g, "-")
-        .replace(/^-|-$/g, "");
+      const slug = toSkillSlug(formData.name);
 
       const payload = {
         ...formData,
@@ -259,6 +277,84 @@ export default function AdminSkillsPage() {
     }
   };
 
+  // Toggle selection of some skills; selects all of them unless all are selected already
+  const toggleSelected = (ids: string[]) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      const allSelected = ids.every((id) => prev.has(id));
+      ids.forEach((id) => (allSelected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  // Activate or deactivate every selected skill that isn't already
+  const handleBulkStatus = (isActive: boolean) => {
+    const targets = skills.filter(
+      (skill) => selectedIds.has(skill._id) && skill.isActive !== isActive
+    );
+    setSelectedIds(new Set());
+    if (targets.length === 0) return;
+
+    bulk.run({
+      title: `${isActive ? "Activating" : "Deactivating"} ${targets.length} skill${targets.length === 1 ? "" : "s"}`,
+      items: targets,
+      getKey: (skill) => skill._id,
+      getLabel: (skill) => skill.name,
+      action: (skill) =>
+        isActive
+          ? adminService.activateSkill(skill._id, QUIET)
+          : adminService.deactivateSkill(skill._id, QUIET),
+      onSuccess: (skill) =>
+        setSkills((prev) =>
+          prev.map((s) => (s._id === skill._id ? { ...s, isActive } : s))
+        ),
+    });
+  };
+
+  // Export every skill matching the filters, not just the loaded ones
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const allSkills = await adminService.getAllSkills({
+        search: searchQuery || undefined,
+        category: categoryFilter || undefined,
+        isActive: statusFilter ? statusFilter === "active" : undefined,
+      });
+      downloadCsv(`skills-${new Date().toISOString().slice(0, 10)}`, skillsToCsvRows(allSkills));
+      success(`Exported ${allSkills.length} skills`);
+    } catch {
+      error("Failed to export skills");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Save confirmed import rows, then reload the list
+  const handleImport = (rows: SkillImportRow[]) => {
+    setShowImport(false);
+    bulk
+      .run({
+        title: `Importing ${rows.length} skill${rows.length === 1 ? "" : "s"}`,
+        items: rows,
+        getKey: (row) => String(row.line),
+        getLabel: (row) => `Line ${row.line}: ${row.name}`,
+        action: async (row) => {
+          if (!row.data) return;
+          const { isActive, ...data } = row.data;
+          if (row.kind === "update" && row.skill) {
+            await adminService.updateSkill(row.skill._id, row.data, QUIET);
+            return;
+          }
+          const created = await adminService.createSkill(data, QUIET);
+          if (isActive === false) await adminService.deactivateSkill(created.data._id, QUIET);
+        },
+      })
+      .then(() => {
+        hasFetched.current = false;
+        fetchSkills();
+      });
+  };
+
   // Reset filters
   const resetFilters = () => {
     setSearchQuery("");
@@ -333,15 +429,32 @@ export default function AdminSkillsPage() {
                   Manage platform skills and categories
                 </p>
               </div>
-              <motion.button
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={() => openModal()}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 shadow-lg shadow-blue-600/20"
-              >
-                <Plus size={18} />
-                Add Skill
-              </motion.button>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => setShowImport(true)}
+                  className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+                >
+                  <Upload size={18} />
+                  Import CSV
+                </button>
+                <button
+                  onClick={handleExport}
+                  disabled={exporting}
+                  className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
+                >
+                  {exporting ? <LoadingSpinner size="sm" /> : <Download size={18} />}
+                  Export CSV
+                </button>
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => openModal()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 shadow-lg shadow-blue-600/20"
+                >
+                  <Plus size={18} />
+                  Add Skill
+                </motion.button>
+              </div>
             </div>
           </motion.div>
 
@@ -501,6 +614,35 @@ export default function AdminSkillsPage() {
             </div>
           )}
 
+          {/* Bulk actions */}
+          {selectedIds.size > 0 && (
+            <div className="sticky top-4 z-20 flex flex-wrap items-center gap-3 bg-gray-900 text-white rounded-xl px-4 py-3 mb-4 shadow-lg">
+              <span className="text-sm font-medium">
+                {selectedIds.size} selected
+              </span>
+              <button
+                onClick={() => handleBulkStatus(true)}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1.5"
+              >
+                <ToggleRight size={16} />
+                Activate
+              </button>
+              <button
+                onClick={() => handleBulkStatus(false)}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1.5"
+              >
+                <ToggleLeft size={16} />
+                Deactivate
+              </button>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="ml-auto px-3 py-1.5 text-sm text-white/70 hover:text-white"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+
           {/* Skills by Category */}
           {!loading && skills.length > 0 && (
             <motion.div
@@ -514,6 +656,7 @@ export default function AdminSkillsPage() {
                   const categoryInfo = SKILL_CATEGORIES.find(
                     (c) => c.value === category
                   );
+                  const categoryIds = categorySkills.map((skill) => skill._id);
 
                   return (
                     <motion.div
@@ -525,6 +668,13 @@ export default function AdminSkillsPage() {
                     >
                       <div className="px-6 py-4 border-b border-gray-100 bg-gray-50/50 flex items-center justify-between">
                         <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={categoryIds.every((id) => selectedIds.has(id))}
+                            onChange={() => toggleSelected(categoryIds)}
+                            className="rounded border-gray-300"
+                            aria-label={`Select all ${categoryInfo?.label || category}`}
+                          />
                           <Code size={18} className="text-gray-400" />
                           {categoryInfo?.label || category.replace("_", " ")}
                           <span className="text-sm font-normal text-gray-500 bg-gray-200 px-2 py-0.5 rounded-full">
@@ -541,11 +691,20 @@ export default function AdminSkillsPage() {
                               initial={{ opacity: 0, scale: 0.9 }}
                               animate={{ opacity: 1, scale: 1 }}
                               className={`group relative flex items-center gap-2 px-4 py-2 rounded-lg border transition-all ${
-                                skill.isActive
-                                  ? "bg-white border-gray-200 hover:border-blue-300 hover:shadow-md"
-                                  : "bg-gray-50 border-gray-200 opacity-60"
+                                selectedIds.has(skill._id)
+                                  ? "bg-blue-50 border-blue-300"
+                                  : skill.isActive
+                                    ? "bg-white border-gray-200 hover:border-blue-300 hover:shadow-md"
+                                    : "bg-gray-50 border-gray-200 opacity-60"
                               }`}
                             >
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(skill._id)}
+                                onChange={() => toggleSelected([skill._id])}
+                                className="rounded border-gray-300"
+                                aria-label={`Select ${skill.name}`}
+                              />
                               <span
                                 className={`font-medium ${
                                   skill.isActive
@@ -560,6 +719,14 @@ export default function AdminSkillsPage() {
                                   {skill.usageCount}
                                 </span>
                               )}
+                              {(skill.aliases?.length ?? 0) > 0 && (
+                                <span
+                                  className="text-xs text-gray-500"
+                                  title={`Also: ${skill.aliases?.join(", ")}`}
+                                >
+                                  <Tags size={12} className="inline" /> {skill.aliases?.length}
+                                </span>
+                              )}
 
                               {/* Action buttons on hover */}
                               <div className="hidden group-hover:flex items-center gap-1 ml-2 pl-2 border-l border-gray-200">
@@ -587,6 +754,20 @@ export default function AdminSkillsPage() {
                                 >
                                   <Edit size={16} />
                                 </button>
+                                <button
+                                  onClick={() => setTaxonomySkill(skill)}
+                                  className="p-1.5 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
+                                  title="Aliases & parent"
+                                >
+                                  <Tags size={16} />
+                                </button>
+                                <button
+                                  onClick={() => setMergeSource(skill)}
+                                  className="p-1.5 rounded-md hover:bg-amber-100 text-amber-600 transition-colors"
+                                  title="Merge into another skill"
+                                >
+                                  <GitMerge size={16} />
+                                </button>
                                 <button
                                   onClick={() => setDeleteConfirm(skill)}
                                   className="p-1.5 rounded-md hover:bg-red-100 text-red-500 transition-colors"
@@ -636,6 +817,40 @@ export default function AdminSkillsPage() {
         </div>
       </div>
 
+      <SkillImportModal
+        open={showImport}
+        onClose={() => setShowImport(false)}
+        onImport={handleImport}
+      />
+
+      <SkillTaxonomyModal
+        skill={taxonomySkill}
+        onClose={() => setTaxonomySkill(null)}
+        onSaved={(updated) => {
+          setTaxonomySkill(null);
+          setSkills((prev) => prev.map((s) => (s._id === updated._id ? updated : s)));
+          success(`"${updated.name}" updated`);
+        }}
+      />
+
+      <SkillMergeModal
+        source={mergeSource}
+        onClose={() => setMergeSource(null)}
+        onMerged={(target) => {
+          success(`"${mergeSource?.name}" merged into "${target.name}"`);
+          setMergeSource(null);
+          hasFetched.current = false;
+          fetchSkills();
+        }}
+      />
+
+      <BulkProgressModal
+        progress={bulk.progress}
+        onCancel={bulk.cancel}
+        onRetry={bulk.retryFailed}
+        onClose={bulk.dismiss}
+      />
+
       {/* Create/Edit Modal */}
       <AnimatePresence>
         {showModal && (
@@ -695,7 +910,10 @@ export default function AdminSkillsPage() {
                   <select
                     value={formData.category}
                     onChange={(e) =>
-                      setFormData({ ...formData, category: e.target.value })
+                      setFormData({
+                        ...formData,
+                        category: e.target.value as SkillCategory,
+                      })
                     }
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   >
@@ -793,6 +1011,8 @@ export default function AdminSkillsPage() {
                 </div>
               )}
 
+              <AuditHistory targetType="SKILL" targetId={deleteConfirm._id} className="mb-6" />
+
               <div className="flex gap-3">
                 <button
                   onClick={() => setDeleteConfirm(null)}
@@ -9,9 +9,15 @@ import Head from "next/head";
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import { adminService } from "@/services/adminService";
+import type { User } from "@/types";
 import { useToast } from "@/contexts/ToastContext";
 import { useAuth } from "@/contexts/AuthContext";
 import LoadingSpinner from "@/components/common/Loading";
+import { AuditHistory, BulkProgressModal } from "@/components/admin";
+import { useBulkOperation } from "@/hooks/useBulkOperation";
+import { downloadCsv, type CsvValue } from "@/lib/csv";
+import { SUSPENSION_DURATIONS, getEffectiveStatus } from "@/lib/moderation";
+import { getLoginUrl } from "@/lib/utils";
 import {
   Search,
   Users,
@@ -33,18 +39,12 @@ import {
   UserX,
   Mail,
   Clock,
+  Download,
+  PauseCircle,
 } from "lucide-react";
 
-interface User {
-  _id: string;
-  username: string;
-  email: string;
-  role: "DEVELOPER" | "RECRUITER" | "ADMIN";
-  status: "ACTIVE" | "BANNED";
-  avatar: string | null;
-  createdAt: string;
-  lastLoginAt: string | null;
-}
+// Bulk failures are listed in the progress modal instead of one toast each
+const QUIET = { skipErrorToast: true };
 
 const ROLE_CONFIG = {
   DEVELOPER: {
@@ -70,6 +70,11 @@ const STATUS_CONFIG = {
     color: "bg-green-100 text-green-800",
     icon: CheckCircle,
   },
+  SUSPENDED: {
+    label: "Suspended",
+    color: "bg-orange-100 text-orange-800",
+    icon: PauseCircle,
+  },
   BANNED: {
     label: "Banned",
     color: "bg-red-100 text-red-800",
@@ -93,6 +98,21 @@ export default function AdminUsersPage() {
   const [showBanModal, setShowBanModal] = useState<User | null>(null);
   const [banReason, setBanReason] = useState("");
 
+  // Warn / suspend modal; both require a reason
+  const [moderation, setModeration] = useState<{ kind: "warn" | "suspend"; user: User } | null>(
+    null
+  );
+  const [moderationReason, setModerationReason] = useState("");
+  const [suspendDays, setSuspendDays] = useState(SUSPENSION_DURATIONS[1].days);
+
+  // Bulk selection (current page) and export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkDialog, setBulkDialog] = useState<"ban" | "role" | null>(null);
+  const [bulkReason, setBulkReason] = useState("");
+  const [bulkRole, setBulkRole] = useState<User["role"]>("DEVELOPER");
+  const [exporting, setExporting] = useState(false);
+  const bulk = useBulkOperation();
+
   // Filters
   const [searchInput, setSearchInput] = useState("");
   const [roleFilter, setRoleFilter] = useState("");
@@ -118,7 +138,7 @@ export default function AdminUsersPage() {
     if (authLoading) return;
 
     if (!isAuthenticated) {
-      router.push("/auth/login?redirect=/admin/users");
+      router.push(getLoginUrl());
       return;
     }
 
@@ -150,9 +170,9 @@ export default function AdminUsersPage() {
         if (statusFilter) params.status = statusFilter;
 
         const response = await adminService.getUsers(params);
-        const data = response.data?.data || response.data;
-        setUsers(data?.users || []);
-        setTotalCount(data?.pagination?.total || 0);
+        setUsers(response.data.items);
+        setSelectedIds(new Set());
+        setTotalCount(response.data.pagination.total);
       } catch (err: any) {
         if (err.response?.status !== 429) {
           console.error("Failed to fetch users:", err);
@@ -269,15 +289,72 @@ export default function AdminUsersPage() {
     }
   };
 
+  const closeModeration = () => {
+    setModeration(null);
+    setModerationReason("");
+  };
+
+  // Warn or suspend the user in the moderation modal
+  const handleModerate = async () => {
+    if (!moderation || !moderationReason.trim()) return;
+    const { kind, user: target } = moderation;
+
+    setActionLoading(target._id);
+    try {
+      const res =
+        kind === "warn"
+          ? await adminService.warnUser(target._id, moderationReason.trim())
+          : await adminService.suspendUser(target._id, {
+              durationDays: suspendDays,
+              reason: moderationReason.trim(),
+            });
+      success(
+        kind === "warn"
+          ? `@${target.username} has been warned`
+          : `@${target.username} has been suspended`
+      );
+      setUsers((prev) => prev.map((u) => (u._id === target._id ? { ...u, ...res.data } : u)));
+      closeModeration();
+    } catch {
+      // The API client toasts failures
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Lift a suspension early
+  const handleUnsuspendUser = async (targetUser: User) => {
+    setActionLoading(targetUser._id);
+    try {
+      await adminService.unsuspendUser(targetUser._id);
+      success(`Suspension lifted for @${targetUser.username}`);
+      setUsers((prev) =>
+        prev.map((u) =>
+          u._id === targetUser._id
+            ? { ...u, status: "ACTIVE" as const, suspendedUntil: null }
+            : u
+        )
+      );
+    } catch {
+      // The API client toasts failures
+    } finally {
+      setActionLoading(null);
+      setActionMenuOpen(null);
+    }
+  };
+
   // Change user role
-  const handleChangeRole = async (targetUser: User, newRole: string) => {
+  const handleChangeRole = async (
+    targetUser: User,
+    newRole: User["role"]
+  ) => {
     setActionLoading(targetUser._id);
     try {
       await adminService.updateUserRole(targetUser._id, newRole);
       success(`User @${targetUser.username} role changed to ${newRole}`);
       setUsers((prev) =>
         prev.map((u) =>
-          u._id === targetUser._id ? { ...u, role: newRole as User["role"] } : u
+          u._id === targetUser._id ? { ...u, role: newRole } : u
         )
       );
     } catch (err: any) {
@@ -288,6 +365,107 @@ export default function AdminUsersPage() {
     }
   };
 
+  // Admins can't bulk-act on their own account
+  const selectableIds = users.filter((u) => u._id !== user?.id).map((u) => u._id);
+  const selectedUsers = users.filter((u) => selectedIds.has(u._id));
+
+  const toggleSelected = (ids: string[]) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      const allSelected = ids.every((id) => prev.has(id));
+      ids.forEach((id) => (allSelected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  // Run one action over the selected users it applies to
+  const runBulk = (
+    title: string,
+    targets: User[],
+    action: (target: User) => Promise<unknown>,
+    patch: Partial<User>
+  ) => {
+    setSelectedIds(new Set());
+    setBulkDialog(null);
+    setBulkReason("");
+    if (targets.length === 0) return;
+
+    bulk.run({
+      title: `${title} ${targets.length} user${targets.length === 1 ? "" : "s"}`,
+      items: targets,
+      getKey: (target) => target._id,
+      getLabel: (target) => `@${target.username}`,
+      action,
+      onSuccess: (target) =>
+        setUsers((prev) =>
+          prev.map((u) => (u._id === target._id ? { ...u, ...patch } : u))
+        ),
+    });
+  };
+
+  const handleBulkBan = () =>
+    runBulk(
+      "Banning",
+      selectedUsers.filter((u) => u.status !== "BANNED"),
+      (target) => adminService.banUser(target._id, bulkReason, QUIET),
+      { status: "BANNED" }
+    );
+
+  const handleBulkUnban = () =>
+    runBulk(
+      "Unbanning",
+      selectedUsers.filter((u) => u.status === "BANNED"),
+      (target) => adminService.unbanUser(target._id, QUIET),
+      { status: "ACTIVE" }
+    );
+
+  const handleBulkRole = () =>
+    runBulk(
+      `Changing role to ${ROLE_CONFIG[bulkRole].label} for`,
+      selectedUsers.filter((u) => u.role !== bulkRole),
+      (target) => adminService.updateUserRole(target._id, bulkRole, QUIET),
+      { role: bulkRole }
+    );
+
+  // Export every user matching the filters, not just this page
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const allUsers = await adminService.getAllUsers({
+        search: searchQuery || undefined,
+        role: roleFilter || undefined,
+        status: statusFilter || undefined,
+      });
+      downloadCsv(`users-${new Date().toISOString().slice(0, 10)}`, [
+        [
+          "username",
+          "email",
+          "role",
+          "status",
+          "warnings",
+          "suspended_until",
+          "joined",
+          "last_login",
+        ],
+        ...allUsers.map((u): CsvValue[] => [
+          u.username,
+          u.email,
+          u.role,
+          getEffectiveStatus(u),
+          u.warningCount ?? 0,
+          getEffectiveStatus(u) === "SUSPENDED" ? u.suspendedUntil : null,
+          u.createdAt,
+          u.lastLoginAt,
+        ]),
+      ]);
+      success(`Exported ${allUsers.length} users`);
+    } catch {
+      error("Failed to export users");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -298,7 +476,7 @@ export default function AdminUsersPage() {
   };
 
   // Format relative time
-  const formatRelativeTime = (dateString: string | null) => {
+  const formatRelativeTime = (dateString?: string | null) => {
     if (!dateString) return "Never";
 
     const date = new Date(dateString);
@@ -483,6 +661,7 @@ export default function AdminUsersPage() {
               >
                 <option value="">All Statuses</option>
                 <option value="ACTIVE">Active</option>
+                <option value="SUSPENDED">Suspended</option>
                 <option value="BANNED">Banned</option>
               </select>
 
@@ -517,6 +696,14 @@ export default function AdminUsersPage() {
                 ? "Loading..."
                 : `${totalCount} user${totalCount !== 1 ? "s" : ""} found`}
             </p>
+            <button
+              onClick={handleExport}
+              disabled={exporting || loading || totalCount === 0}
+              className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
+            >
+              {exporting ? <LoadingSpinner size="sm" /> : <Download size={18} />}
+              Export CSV
+            </button>
           </div>
 
           {/* Loading */}
@@ -526,6 +713,40 @@ export default function AdminUsersPage() {
             </div>
           )}
 
+          {/* Bulk actions */}
+          {selectedIds.size > 0 && (
+            <div className="sticky top-4 z-20 flex flex-wrap items-center gap-3 bg-gray-900 text-white rounded-xl px-4 py-3 mb-4 shadow-lg">
+              <span className="text-sm font-medium">{selectedIds.size} selected</span>
+              <button
+                onClick={() => setBulkDialog("ban")}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1.5"
+              >
+                <Ban size={16} />
+                Ban
+              </button>
+              <button
+                onClick={handleBulkUnban}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1.5"
+              >
+                <UserCheck size={16} />
+                Unban
+              </button>
+              <button
+                onClick={() => setBulkDialog("role")}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-lg flex items-center gap-1.5"
+              >
+                <UserCog size={16} />
+                Change role
+              </button>
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="ml-auto px-3 py-1.5 text-sm text-white/70 hover:text-white"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+
           {/* Users Table */}
           {!loading && users.length > 0 && (
             <motion.div
@@ -538,6 +759,19 @@ export default function AdminUsersPage() {
                 <table className="w-full">
                   <thead className="bg-gray-50 border-b border-gray-200">
                     <tr>
+                      <th className="pl-6 py-4 w-4">
+                        <input
+                          type="checkbox"
+                          checked={
+                            selectableIds.length > 0 &&
+                            selectableIds.every((id) => selectedIds.has(id))
+                          }
+                          onChange={() => toggleSelected(selectableIds)}
+                          disabled={selectableIds.length === 0}
+                          className="rounded border-gray-300"
+                          aria-label="Select all users on this page"
+                        />
+                      </th>
                       <th className="px-6 py-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
                         User
                       </th>
@@ -547,6 +781,9 @@ export default function AdminUsersPage() {
                       <th className="px-6 py-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
                         Status
                       </th>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                        Warnings
+                      </th>
                       <th className="px-6 py-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
                         Joined
                       </th>
@@ -561,7 +798,9 @@ export default function AdminUsersPage() {
                   <tbody className="divide-y divide-gray-100">
                     {users.map((targetUser, index) => {
                       const roleConfig = ROLE_CONFIG[targetUser.role];
-                      const statusConfig = STATUS_CONFIG[targetUser.status];
+                      const status = getEffectiveStatus(targetUser);
+                      const statusConfig = STATUS_CONFIG[status];
+                      const warningCount = targetUser.warningCount ?? 0;
                       const StatusIcon = statusConfig.icon;
 
                       return (
@@ -570,8 +809,20 @@ export default function AdminUsersPage() {
                           initial={{ opacity: 0, y: 10 }}
                           animate={{ opacity: 1, y: 0 }}
                           transition={{ delay: 0.05 * index }}
-                          className="hover:bg-gray-50 transition-colors"
+                          className={`transition-colors ${
+                            selectedIds.has(targetUser._id) ? "bg-blue-50" : "hover:bg-gray-50"
+                          }`}
                         >
+                          <td className="pl-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(targetUser._id)}
+                              onChange={() => toggleSelected([targetUser._id])}
+                              disabled={targetUser._id === user?.id}
+                              className="rounded border-gray-300 disabled:opacity-40"
+                              aria-label={`Select @${targetUser.username}`}
+                            />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center gap-3">
                               {targetUser.avatar ? (
@@ -613,6 +864,29 @@ export default function AdminUsersPage() {
                               <StatusIcon size={12} />
                               {statusConfig.label}
                             </span>
+                            {status === "SUSPENDED" && (
+                              <p className="mt-1 text-xs text-gray-500">
+                                {targetUser.suspendedUntil
+                                  ? `Until ${formatDate(targetUser.suspendedUntil)}`
+                                  : "Until lifted"}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {warningCount > 0 ? (
+                              <span
+                                className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium ${
+                                  warningCount >= 3
+                                    ? "bg-red-100 text-red-800"
+                                    : "bg-yellow-100 text-yellow-800"
+                                }`}
+                              >
+                                <AlertTriangle size={12} />
+                                {warningCount}
+                              </span>
+                            ) : (
+                              <span className="text-sm text-gray-400">None</span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center gap-1 text-sm text-gray-500">
@@ -674,7 +948,13 @@ export default function AdminUsersPage() {
                                     <div className="px-4 py-1.5 text-xs text-gray-400 uppercase font-semibold">
                                       Change Role
                                     </div>
-                                    {["DEVELOPER", "RECRUITER", "ADMIN"].map(
+                                    {(
+                                      [
+                                        "DEVELOPER",
+                                        "RECRUITER",
+                                        "ADMIN",
+                                      ] as const
+                                    ).map(
                                       (role) => (
                                         <button
                                           key={role}
@@ -698,7 +978,45 @@ export default function AdminUsersPage() {
 
                                     <div className="border-t border-gray-100 my-1" />
 
-                                    {targetUser.status === "ACTIVE" ? (
+                                    {status !== "BANNED" && (
+                                      <button
+                                        onClick={() => {
+                                          setModeration({ kind: "warn", user: targetUser });
+                                          setActionMenuOpen(null);
+                                        }}
+                                        className="w-full px-4 py-2.5 text-left text-sm flex items-center gap-2 hover:bg-yellow-50 text-yellow-700"
+                                      >
+                                        <AlertTriangle size={16} />
+                                        Warn User
+                                      </button>
+                                    )}
+
+                                    {status === "ACTIVE" && (
+                                      <button
+                                        onClick={() => {
+                                          setModeration({ kind: "suspend", user: targetUser });
+                                          setActionMenuOpen(null);
+                                        }}
+                                        className="w-full px-4 py-2.5 text-left text-sm flex items-center gap-2 hover:bg-orange-50 text-orange-700"
+                                      >
+                                        <PauseCircle size={16} />
+                                        Suspend User
+                                      </button>
+                                    )}
+
+                                    {status === "SUSPENDED" && (
+                                      <button
+                                        onClick={() =>
+                                          handleUnsuspendUser(targetUser)
+                                        }
+                                        className="w-full px-4 py-2.5 text-left text-sm flex items-center gap-2 hover:bg-green-50 text-green-600"
+                                      >
+                                        <CheckCircle size={16} />
+                                        Lift Suspension
+                                      </button>
+                                    )}
+
+                                    {status !== "BANNED" ? (
                                       <button
                                         onClick={() => {
                                           setShowBanModal(targetUser);
@@ -874,6 +1192,8 @@ export default function AdminUsersPage() {
                 />
               </div>
 
+              <AuditHistory targetType="USER" targetId={showBanModal._id} className="mb-6" />
+
               <div className="flex gap-3">
                 <button
                   onClick={() => {
@@ -902,6 +1222,227 @@ export default function AdminUsersPage() {
         )}
       </AnimatePresence>
 
+      {/* Warn / Suspend Modal */}
+      <AnimatePresence>
+        {moderation && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            onClick={closeModeration}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-2xl max-w-md w-full p-6 shadow-xl"
+            >
+              <div className="flex items-center gap-4 mb-4">
+                <div
+                  className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${
+                    moderation.kind === "warn"
+                      ? "bg-yellow-100 text-yellow-600"
+                      : "bg-orange-100 text-orange-600"
+                  }`}
+                >
+                  {moderation.kind === "warn" ? (
+                    <AlertTriangle size={24} />
+                  ) : (
+                    <PauseCircle size={24} />
+                  )}
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {moderation.kind === "warn" ? "Warn User" : "Suspend User"}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    @{moderation.user.username} &middot;{" "}
+                    {moderation.user.warningCount ?? 0} previous warnings
+                  </p>
+                </div>
+              </div>
+
+              <p className="text-gray-600 mb-4">
+                {moderation.kind === "warn"
+                  ? "They will see this reason in a banner the next time they use DevMatch."
+                  : "They can still sign in and read, but can't post, comment or apply until the suspension ends. They can appeal it."}
+              </p>
+
+              {moderation.kind === "suspend" && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    Duration
+                  </label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {SUSPENSION_DURATIONS.map((d) => (
+                      <button
+                        key={d.days}
+                        onClick={() => setSuspendDays(d.days)}
+                        className={`px-2 py-2 text-sm rounded-lg border transition-colors ${
+                          suspendDays === d.days
+                            ? "border-orange-500 bg-orange-50 text-orange-700"
+                            : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        {d.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Reason
+                </label>
+                <textarea
+                  value={moderationReason}
+                  onChange={(e) => setModerationReason(e.target.value)}
+                  rows={3}
+                  placeholder={
+                    moderation.kind === "warn"
+                      ? "What they did and which rule it breaks..."
+                      : "Why they are being suspended..."
+                  }
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                />
+              </div>
+
+              <AuditHistory targetType="USER" targetId={moderation.user._id} className="mb-6" />
+
+              <div className="flex gap-3">
+                <button
+                  onClick={closeModeration}
+                  className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleModerate}
+                  disabled={
+                    actionLoading === moderation.user._id || !moderationReason.trim()
+                  }
+                  className={`flex-1 px-4 py-2.5 text-white rounded-lg disabled:opacity-50 flex items-center justify-center gap-2 transition-colors ${
+                    moderation.kind === "warn"
+                      ? "bg-yellow-600 hover:bg-yellow-700"
+                      : "bg-orange-600 hover:bg-orange-700"
+                  }`}
+                >
+                  {actionLoading === moderation.user._id && <LoadingSpinner size="sm" />}
+                  {moderation.kind === "warn" ? "Send Warning" : "Suspend"}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Bulk Ban / Role Modal */}
+      <AnimatePresence>
+        {bulkDialog && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            onClick={() => setBulkDialog(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-2xl max-w-md w-full p-6 shadow-xl"
+            >
+              <div className="flex items-center gap-4 mb-4">
+                <div
+                  className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${
+                    bulkDialog === "ban" ? "bg-red-100 text-red-600" : "bg-blue-100 text-blue-600"
+                  }`}
+                >
+                  {bulkDialog === "ban" ? <AlertTriangle size={24} /> : <UserCog size={24} />}
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {bulkDialog === "ban"
+                      ? `Ban ${selectedUsers.length} users`
+                      : `Change role of ${selectedUsers.length} users`}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {selectedUsers
+                      .slice(0, 3)
+                      .map((u) => `@${u.username}`)
+                      .join(", ")}
+                    {selectedUsers.length > 3 && ` and ${selectedUsers.length - 3} more`}
+                  </p>
+                </div>
+              </div>
+
+              {bulkDialog === "ban" ? (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    Reason (optional, recorded for each user)
+                  </label>
+                  <textarea
+                    value={bulkReason}
+                    onChange={(e) => setBulkReason(e.target.value)}
+                    rows={3}
+                    placeholder="Enter reason for banning..."
+                    className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 resize-none"
+                  />
+                </div>
+              ) : (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    New role
+                  </label>
+                  <select
+                    value={bulkRole}
+                    onChange={(e) => setBulkRole(e.target.value as User["role"])}
+                    className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {(Object.keys(ROLE_CONFIG) as User["role"][]).map((role) => (
+                      <option key={role} value={role}>
+                        {ROLE_CONFIG[role].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setBulkDialog(null)}
+                  className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={bulkDialog === "ban" ? handleBulkBan : handleBulkRole}
+                  className={`flex-1 px-4 py-2.5 text-white rounded-lg flex items-center justify-center gap-2 transition-colors ${
+                    bulkDialog === "ban"
+                      ? "bg-red-600 hover:bg-red-700"
+                      : "bg-blue-600 hover:bg-blue-700"
+                  }`}
+                >
+                  {bulkDialog === "ban" ? <Ban size={18} /> : <UserCog size={18} />}
+                  {bulkDialog === "ban" ? "Ban users" : "Change role"}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <BulkProgressModal
+        progress={bulk.progress}
+        onCancel={bulk.cancel}
+        onRetry={bulk.retryFailed}
+        onClose={bulk.dismiss}
+      />
+
       {/* Click outside to close action menu */}
       {actionMenuOpen && (
         <div
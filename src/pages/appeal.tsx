@@ -0,0 +1,209 @@
+/**
+ * @file src/pages/appeal.tsx
+ * @description Suspended users appeal their suspension and follow earlier appeals
+ */
+
+import { useEffect, useState } from "react";
+import Head from "next/head";
+import { CheckCircle, ShieldAlert } from "lucide-react";
+import type { AxiosError } from "axios";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import LoadingSpinner from "@/components/common/Loading";
+import { appealService } from "@/services/appealService";
+import { getErrorMessage } from "@/services/api";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
+import { useAuthStore } from "@/store/authStore";
+import {
+  APPEAL_STATUS_LABELS,
+  APPEAL_STATUS_STYLES,
+  MAX_APPEAL_LENGTH,
+  MIN_APPEAL_LENGTH,
+  formatSuspensionRemaining,
+} from "@/lib/moderation";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type { Appeal } from "@/types";
+
+function AppealPageContent() {
+  const { isSuspended, suspendedUntil, suspensionReason } = useAccountStatus();
+
+  const [appeals, setAppeals] = useState<Appeal[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [message, setMessage] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    appealService
+      .getMyAppeals()
+      .then((res) => {
+        if (!alive) return;
+        setAppeals(res.data);
+        // A decided appeal may have lifted the suspension since the user was last read
+        if (res.data.some((appeal) => appeal.status !== "PENDING")) {
+          useAuthStore.getState().refreshUser();
+        }
+      })
+      .catch(() => {
+        if (alive) {
+          setAppeals([]);
+          setLoadError(true);
+        }
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const pendingAppeal = appeals?.find((a) => a.status === "PENDING");
+  const trimmed = message.trim();
+  const canSubmit = trimmed.length >= MIN_APPEAL_LENGTH && !submitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const res = await appealService.create(trimmed);
+      setAppeals((prev) => [res.data, ...(prev ?? [])]);
+      setMessage("");
+      useAuthStore.getState().refreshUser();
+    } catch (err) {
+      setSubmitError(getErrorMessage(err as AxiosError));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Appeal Suspension - DevMatch</title>
+        <meta name="description" content="Appeal your account suspension" />
+      </Head>
+
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Appeal Suspension</h1>
+          <p className="text-gray-600">
+            Tell the moderators why your suspension should be lifted. An admin reviews every
+            appeal.
+          </p>
+        </div>
+
+        {/* Current suspension */}
+        {isSuspended ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex gap-3">
+            <ShieldAlert className="text-red-600 shrink-0" size={20} />
+            <div className="text-sm">
+              <p className="font-medium text-red-800">
+                Your account is suspended {formatSuspensionRemaining(suspendedUntil)}.
+              </p>
+              {suspensionReason && <p className="text-red-700 mt-1">Reason: {suspensionReason}</p>}
+            </div>
+          </div>
+        ) : (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 flex items-center gap-3">
+            <CheckCircle className="text-green-600 shrink-0" size={20} />
+            <p className="text-sm text-green-800">Your account isn&apos;t suspended.</p>
+          </div>
+        )}
+
+        {/* Appeal form */}
+        {isSuspended && appeals && !pendingAppeal && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg border border-gray-200 p-6 mb-8"
+          >
+            <label htmlFor="appeal-message" className="block text-sm font-medium text-gray-700 mb-1.5">
+              Your appeal
+            </label>
+            <textarea
+              id="appeal-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={6}
+              maxLength={MAX_APPEAL_LENGTH}
+              placeholder="What happened, and why you think the suspension should be lifted..."
+              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+            />
+            <div className="mt-1 flex justify-between text-xs text-gray-500">
+              <span>
+                {trimmed.length < MIN_APPEAL_LENGTH
+                  ? `At least ${MIN_APPEAL_LENGTH} characters`
+                  : "You can file one appeal at a time"}
+              </span>
+              <span>
+                {message.length}/{MAX_APPEAL_LENGTH}
+              </span>
+            </div>
+            {submitError && <p className="mt-2 text-sm text-red-600">{submitError}</p>}
+            <div className="mt-4 flex justify-end">
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {submitting && <LoadingSpinner size="sm" />}
+                Submit appeal
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Earlier appeals */}
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Your appeals</h2>
+        {!appeals ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-red-600">Couldn&apos;t load your appeals.</p>
+        ) : appeals.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven&apos;t filed any appeals.</p>
+        ) : (
+          <ul className="space-y-4">
+            {appeals.map((appeal) => (
+              <li key={appeal._id} className="bg-white rounded-lg border border-gray-200 p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{appeal.message}</p>
+                  <span
+                    className={cn(
+                      "px-2.5 py-1 rounded-full text-xs font-medium whitespace-nowrap",
+                      APPEAL_STATUS_STYLES[appeal.status]
+                    )}
+                  >
+                    {APPEAL_STATUS_LABELS[appeal.status]}
+                  </span>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Filed {formatRelativeTime(appeal.createdAt).toLowerCase()}
+                  {appeal.reviewedAt &&
+                    ` · reviewed ${formatRelativeTime(appeal.reviewedAt).toLowerCase()}`}
+                </p>
+                {appeal.response && (
+                  <p className="mt-3 pt-3 border-t border-gray-100 text-sm text-gray-600">
+                    <span className="font-medium text-gray-900">Moderator reply: </span>
+                    {appeal.response}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default function AppealPage() {
+  return (
+    <ProtectedRoute>
+      <AppealPageContent />
+    </ProtectedRoute>
+  );
+}
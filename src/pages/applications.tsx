@@ -10,13 +10,25 @@ import Head from "next/head";
 import { useAuth } from "../contexts/AuthContext";
 import { useToast } from "../contexts/ToastContext";
 import { applicationService } from "../services/applicationService";
+import { useRealtimeEvent } from "../hooks/useRealtime";
 import LoadingSpinner from "../components/common/Loading";
+import { StageBadge } from "@/components/applications";
+import {
+  DEFAULT_HIRING_STAGES,
+  findStage,
+  getInitialStage,
+  getJobStages,
+  getOpenStages,
+  getStageByKind,
+  mergeStages,
+} from "@/lib/hiringStages";
+import { getLoginUrl } from "@/lib/utils";
+import type { ApplicationStatus, HiringStage, HiringStageKind } from "@/types";
 import {
   Briefcase,
   Clock,
   CheckCircle,
   XCircle,
-  Eye,
   FileText,
   Calendar,
   MapPin,
@@ -36,8 +48,9 @@ interface Application {
     locationString?: string;
     salaryString?: string | null;
     isExpired?: boolean;
+    stages?: HiringStage[];
   };
-  status: "PENDING" | "REVIEWED" | "SHORTLISTED" | "ACCEPTED" | "REJECTED" | "WITHDRAWN";
+  status: ApplicationStatus;
   coverLetter?: string;
   resumeUrl?: string | null;
   skillsMatchPercent?: number;
@@ -46,45 +59,58 @@ interface Application {
   updatedAt: string;
 }
 
-const STATUS_CONFIG = {
-  PENDING: {
-    label: "Pending",
-    color: "bg-yellow-100 text-yellow-800",
+// Summary cards filter by what a stage means, since every job names its own stages
+const KIND_CARDS: {
+  kind: HiringStageKind;
+  label: string;
+  icon: typeof Clock;
+  iconClass: string;
+  activeClass: string;
+}[] = [
+  {
+    kind: "OPEN",
+    label: "In progress",
     icon: Clock,
-    description: "Your application is awaiting review",
-  },
-  REVIEWED: {
-    label: "Reviewed",
-    color: "bg-blue-100 text-blue-800",
-    icon: Eye,
-    description: "The recruiter has reviewed your application",
-  },
-  SHORTLISTED: {
-    label: "Shortlisted",
-    color: "bg-green-100 text-green-800",
-    icon: CheckCircle,
-    description: "Congratulations! You've been shortlisted",
+    iconClass: "bg-yellow-100 text-yellow-600",
+    activeClass: "border-yellow-500 ring-2 ring-yellow-100",
   },
-  ACCEPTED: {
-    label: "Accepted",
-    color: "bg-emerald-100 text-emerald-800",
+  {
+    kind: "HIRED",
+    label: "Hired",
     icon: CheckCircle,
-    description: "Congratulations! Your application was accepted",
+    iconClass: "bg-green-100 text-green-600",
+    activeClass: "border-green-500 ring-2 ring-green-100",
   },
-  REJECTED: {
+  {
+    kind: "REJECTED",
     label: "Rejected",
-    color: "bg-red-100 text-red-800",
     icon: XCircle,
-    description: "Unfortunately, your application was not selected",
-  },
-  WITHDRAWN: {
-    label: "Withdrawn",
-    color: "bg-gray-100 text-gray-800",
-    icon: XCircle,
-    description: "You withdrew this application",
+    iconClass: "bg-red-100 text-red-600",
+    activeClass: "border-red-500 ring-2 ring-red-100",
   },
+];
+
+const describeStage = (stage: HiringStage, stages: HiringStage[]) => {
+  switch (stage.kind) {
+    case "HIRED":
+      return "Congratulations! You got the job";
+    case "REJECTED":
+      return "Unfortunately, your application was not selected";
+    case "WITHDRAWN":
+      return "You withdrew this application";
+    default:
+      return stage.key === getInitialStage(stages).key
+        ? "Your application is awaiting review"
+        : `Your application is at the ${stage.label} stage`;
+  }
 };
 
+// Withdrawing stays possible through the first two in-progress stages
+const canWithdraw = (stages: HiringStage[], status: ApplicationStatus) =>
+  getOpenStages(stages)
+    .slice(0, 2)
+    .some((stage) => stage.key === status);
+
 export default function MyApplications() {
   const router = useRouter();
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -94,7 +120,8 @@ export default function MyApplications() {
   const [loading, setLoading] = useState(true);
   const [totalCount, setTotalCount] = useState(0);
   const [withdrawing, setWithdrawing] = useState<string | null>(null);
-  const [filter, setFilter] = useState<string>("ALL");
+  const [kindFilter, setKindFilter] = useState<HiringStageKind | "ALL">("ALL");
+  const [stageFilter, setStageFilter] = useState<ApplicationStatus | null>(null);
 
   // Prevent duplicate fetches
   const hasFetched = useRef(false);
@@ -104,7 +131,7 @@ export default function MyApplications() {
     if (authLoading) return;
 
     if (!isAuthenticated) {
-      router.push("/auth/login?redirect=/my-applications");
+      router.push(getLoginUrl());
       return;
     }
 
@@ -125,9 +152,8 @@ export default function MyApplications() {
 
       try {
         const response = await applicationService.getMyApplications({});
-        const data = response.data?.data || response.data;
-        setApplications(Array.isArray(data) ? data : data?.applications || []);
-        setTotalCount(data?.pagination?.total || data?.applications?.length || 0);
+        setApplications(response.data.items);
+        setTotalCount(response.data.pagination.total);
       } catch (err: any) {
         if (err.response?.status !== 429) {
           console.error("Failed to fetch applications:", err);
@@ -141,6 +167,13 @@ export default function MyApplications() {
     fetchApplications();
   }, [authLoading, isAuthenticated, user, showError]);
 
+  // Live status updates from recruiters
+  useRealtimeEvent("application:status", ({ applicationId, status }) => {
+    setApplications((prev) =>
+      prev.map((app) => (app._id === applicationId ? { ...app, status } : app))
+    );
+  });
+
   // Withdraw application
   const handleWithdraw = async (applicationId: string) => {
     if (!confirm("Are you sure you want to withdraw this application?")) return;
@@ -150,7 +183,9 @@ export default function MyApplications() {
       await applicationService.withdraw(applicationId);
       setApplications((prev) =>
         prev.map((app) =>
-          app._id === applicationId ? { ...app, status: "WITHDRAWN" as const } : app
+          app._id === applicationId
+            ? { ...app, status: getStageByKind(getJobStages(app.jobPost), "WITHDRAWN").key }
+            : app
         )
       );
       success("Application withdrawn");
@@ -161,20 +196,49 @@ export default function MyApplications() {
     }
   };
 
-  // Filter applications
-  const filteredApplications =
-    filter === "ALL"
-      ? applications
-      : applications.filter((app) => app.status === filter);
-
-  // Stats
-  const stats = {
-    total: applications.length,
-    pending: applications.filter((a) => a.status === "PENDING").length,
-    shortlisted: applications.filter((a) => a.status === "SHORTLISTED" || a.status === "ACCEPTED").length,
-    rejected: applications.filter((a) => a.status === "REJECTED").length,
+  const kindOf = (app: Application) => findStage(getJobStages(app.jobPost), app.status).kind;
+
+  // Counts per stage kind and per stage key
+  const kindCounts = applications.reduce(
+    (acc, app) => {
+      acc[kindOf(app)] = (acc[kindOf(app)] || 0) + 1;
+      return acc;
+    },
+    {} as Partial<Record<HiringStageKind, number>>
+  );
+  const stageCounts = applications.reduce(
+    (acc, app) => {
+      acc[app.status] = (acc[app.status] || 0) + 1;
+      return acc;
+    },
+    {} as Record<ApplicationStatus, number>
+  );
+
+  // Stage chips cover every stage the user's applications can be in
+  const allStages = mergeStages(
+    DEFAULT_HIRING_STAGES,
+    ...applications.map((app) => getJobStages(app.jobPost))
+  );
+  const stageChips = allStages.filter(
+    (stage) =>
+      stageCounts[stage.key] && (kindFilter === "ALL" || stage.kind === kindFilter)
+  );
+
+  const selectKind = (kind: HiringStageKind | "ALL") => {
+    setKindFilter(kind);
+    setStageFilter(null);
   };
 
+  // Filter applications
+  const filteredApplications = applications.filter(
+    (app) =>
+      (kindFilter === "ALL" || kindOf(app) === kindFilter) &&
+      (!stageFilter || app.status === stageFilter)
+  );
+  const activeFilterLabel = stageFilter
+    ? findStage(allStages, stageFilter).label
+    : KIND_CARDS.find((card) => card.kind === kindFilter)?.label;
+
   // Show loading while checking auth
   if (authLoading) {
     return (
@@ -208,11 +272,11 @@ export default function MyApplications() {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
           <button
-            onClick={() => setFilter("ALL")}
+            onClick={() => selectKind("ALL")}
             className={`bg-white rounded-lg border p-4 text-left transition-all ${
-              filter === "ALL" ? "border-blue-500 ring-2 ring-blue-100" : "border-gray-200 hover:border-gray-300"
+              kindFilter === "ALL" ? "border-blue-500 ring-2 ring-blue-100" : "border-gray-200 hover:border-gray-300"
             }`}
           >
             <div className="flex items-center gap-3">
@@ -220,64 +284,52 @@ export default function MyApplications() {
                 <FileText className="text-blue-600" size={20} />
               </div>
               <div>
-                <p className="text-2xl font-bold text-gray-900">{stats.total}</p>
+                <p className="text-2xl font-bold text-gray-900">{applications.length}</p>
                 <p className="text-sm text-gray-500">Total</p>
               </div>
             </div>
           </button>
 
-          <button
-            onClick={() => setFilter("PENDING")}
-            className={`bg-white rounded-lg border p-4 text-left transition-all ${
-              filter === "PENDING" ? "border-yellow-500 ring-2 ring-yellow-100" : "border-gray-200 hover:border-gray-300"
-            }`}
-          >
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
-                <Clock className="text-yellow-600" size={20} />
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-gray-900">{stats.pending}</p>
-                <p className="text-sm text-gray-500">Pending</p>
-              </div>
-            </div>
-          </button>
-
-          <button
-            onClick={() => setFilter("SHORTLISTED")}
-            className={`bg-white rounded-lg border p-4 text-left transition-all ${
-              filter === "SHORTLISTED" ? "border-green-500 ring-2 ring-green-100" : "border-gray-200 hover:border-gray-300"
-            }`}
-          >
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
-                <CheckCircle className="text-green-600" size={20} />
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-gray-900">{stats.shortlisted}</p>
-                <p className="text-sm text-gray-500">Shortlisted</p>
-              </div>
-            </div>
-          </button>
-
-          <button
-            onClick={() => setFilter("REJECTED")}
-            className={`bg-white rounded-lg border p-4 text-left transition-all ${
-              filter === "REJECTED" ? "border-red-500 ring-2 ring-red-100" : "border-gray-200 hover:border-gray-300"
-            }`}
-          >
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-red-100 rounded-lg flex items-center justify-center">
-                <XCircle className="text-red-600" size={20} />
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-gray-900">{stats.rejected}</p>
-                <p className="text-sm text-gray-500">Rejected</p>
+          {KIND_CARDS.map(({ kind, label, icon: Icon, iconClass, activeClass }) => (
+            <button
+              key={kind}
+              onClick={() => selectKind(kind)}
+              className={`bg-white rounded-lg border p-4 text-left transition-all ${
+                kindFilter === kind ? activeClass : "border-gray-200 hover:border-gray-300"
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${iconClass}`}>
+                  <Icon size={20} />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-gray-900">{kindCounts[kind] ?? 0}</p>
+                  <p className="text-sm text-gray-500">{label}</p>
+                </div>
               </div>
-            </div>
-          </button>
+            </button>
+          ))}
         </div>
 
+        {/* Stage chips */}
+        {stageChips.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            {stageChips.map((stage) => (
+              <button
+                key={stage.key}
+                onClick={() => setStageFilter(stageFilter === stage.key ? null : stage.key)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                  stageFilter === stage.key
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {stage.label} ({stageCounts[stage.key]})
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex justify-center py-12">
@@ -289,8 +341,7 @@ export default function MyApplications() {
         {!loading && filteredApplications.length > 0 && (
           <div className="space-y-4">
             {filteredApplications.map((application) => {
-              const statusConfig = STATUS_CONFIG[application.status] || STATUS_CONFIG.PENDING;
-              const StatusIcon = statusConfig.icon;
+              const stages = getJobStages(application.jobPost);
 
               return (
                 <div
@@ -314,12 +365,7 @@ export default function MyApplications() {
                             >
                               {application.jobPost.title}
                             </Link>
-                            <span
-                              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${statusConfig.color}`}
-                            >
-                              <StatusIcon size={12} />
-                              {statusConfig.label}
-                            </span>
+                            <StageBadge stages={stages} status={application.status} />
                             {!application.jobPost.isActive && (
                               <span className="px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full text-xs">
                                 Job Closed
@@ -350,7 +396,9 @@ export default function MyApplications() {
                           </div>
 
                           {/* Status Description */}
-                          <p className="text-sm text-gray-500 mt-2">{statusConfig.description}</p>
+                          <p className="text-sm text-gray-500 mt-2">
+                            {describeStage(findStage(stages, application.status), stages)}
+                          </p>
                         </div>
                       </div>
                     </div>
@@ -365,7 +413,7 @@ export default function MyApplications() {
                         View Job
                       </Link>
 
-                      {(application.status === "PENDING" || application.status === "REVIEWED") && (
+                      {canWithdraw(stages, application.status) && (
                         <button
                           onClick={() => handleWithdraw(application._id)}
                           disabled={withdrawing === application._id}
@@ -402,14 +450,16 @@ export default function MyApplications() {
           <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
             <Briefcase className="mx-auto text-gray-300 mb-4" size={64} />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
-              {filter === "ALL" ? "No applications yet" : `No ${filter.toLowerCase()} applications`}
+              {activeFilterLabel
+                ? `No ${activeFilterLabel.toLowerCase()} applications`
+                : "No applications yet"}
             </h3>
             <p className="text-gray-500 mb-4">
-              {filter === "ALL"
+              {!activeFilterLabel
                 ? "Start applying to jobs to track your applications here"
                 : "Try selecting a different filter"}
             </p>
-            {filter === "ALL" && (
+            {!activeFilterLabel && (
               <Link
                 href="/jobs"
                 className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
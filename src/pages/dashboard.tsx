@@ -0,0 +1,338 @@
+/**
+ * @file src/pages/dashboard.tsx
+ * @description Developer dashboard: profile views, post engagement, application funnel,
+ * pinned repo clicks and a checklist towards a complete profile
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { Eye, FileText, Heart, MousePointerClick } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { developerService } from "@/services/developerService";
+import { applicationService } from "@/services/applicationService";
+import LoadingSpinner from "@/components/common/Loading";
+import { Card, CardBody, CardHeader } from "@/components/common";
+import { BarList, FunnelChart, LineChart } from "@/components/charts";
+import { CompletenessChecklist, StatCard } from "@/components/dashboard";
+import {
+  RANGE_OPTIONS,
+  buildApplicationFunnel,
+  fillDailySeries,
+  formatDateKey,
+  getDateRange,
+  sumBy,
+  type ApplicationFunnel,
+  type RangeDays,
+} from "@/lib/analytics";
+import type {
+  PinnedRepoClickStats,
+  PostEngagementStats,
+  ProfileCompleteness,
+  ProfileViewStats,
+} from "@/types";
+
+// Funnel is built from the most recent applications
+const FUNNEL_SAMPLE = 100;
+
+interface RangeStats {
+  days: RangeDays;
+  views: ProfileViewStats | null;
+  engagement: PostEngagementStats | null;
+  clicks: PinnedRepoClickStats | null;
+}
+
+interface FunnelStats {
+  funnel: ApplicationFunnel;
+  total: number;
+}
+
+export default function DeveloperDashboard() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const isDeveloper = isAuthenticated && user?.role === "DEVELOPER";
+
+  const [days, setDays] = useState<RangeDays>(30);
+  const [stats, setStats] = useState<RangeStats | null>(null);
+  const [completeness, setCompleteness] = useState<ProfileCompleteness | null>(null);
+  const [funnel, setFunnel] = useState<FunnelStats | null>(null);
+
+  const range = useMemo(() => getDateRange(days), [days]);
+  const loading = stats?.days !== days;
+
+  // Redirect if not authenticated or not a developer
+  useEffect(() => {
+    if (authLoading) return;
+    if (!isAuthenticated) {
+      router.push("/login?redirect=/dashboard");
+      return;
+    }
+    if (user?.role !== "DEVELOPER") {
+      router.push("/");
+    }
+  }, [authLoading, isAuthenticated, user, router]);
+
+  // Stats for the selected range; each panel degrades on its own if its endpoint fails
+  useEffect(() => {
+    if (!isDeveloper) return;
+    let alive = true;
+
+    Promise.all([
+      developerService.getProfileViews(range).then((res) => res.data).catch(() => null),
+      developerService.getPostEngagement(range).then((res) => res.data).catch(() => null),
+      developerService.getPinnedRepoClicks(range).then((res) => res.data).catch(() => null),
+    ]).then(([views, engagement, clicks]) => {
+      if (alive) setStats({ days, views, engagement, clicks });
+    });
+
+    return () => {
+      alive = false;
+    };
+  }, [isDeveloper, range, days]);
+
+  // Range-independent panels
+  useEffect(() => {
+    if (!isDeveloper) return;
+
+    developerService
+      .getProfileCompleteness()
+      .then((res) => setCompleteness(res.data))
+      .catch(() => {});
+
+    applicationService
+      .getMyApplications({ page: 1, limit: FUNNEL_SAMPLE })
+      .then((res) =>
+        setFunnel({
+          funnel: buildApplicationFunnel(res.data.items),
+          total: res.data.pagination.total,
+        })
+      )
+      .catch(() => {});
+  }, [isDeveloper]);
+
+  const viewSeries = useMemo(
+    () => fillDailySeries(stats?.views?.views ?? [], range, { count: 0 }),
+    [stats, range]
+  );
+  const engagementSeries = useMemo(
+    () => fillDailySeries(stats?.engagement?.daily ?? [], range, { likes: 0, comments: 0 }),
+    [stats, range]
+  );
+
+  if (authLoading || !isDeveloper) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const rangeLabel = `Last ${days} days`;
+  const likes = sumBy(engagementSeries, (point) => point.likes);
+  const comments = sumBy(engagementSeries, (point) => point.comments);
+
+  return (
+    <>
+      <Head>
+        <title>Dashboard - DevMatch</title>
+        <meta name="description" content="Your profile and application analytics" />
+      </Head>
+
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard</h1>
+            <p className="text-gray-600">How recruiters and the community see your work</p>
+          </div>
+          <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+            {RANGE_OPTIONS.map((option) => (
+              <button
+                key={option.days}
+                onClick={() => setDays(option.days)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  days === option.days
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <StatCard
+            label="Profile views"
+            value={loading ? "–" : (stats?.views?.total ?? 0)}
+            icon={Eye}
+            note={rangeLabel}
+            accent="text-blue-600"
+          />
+          <StatCard
+            label="Applications"
+            value={funnel?.total ?? "–"}
+            icon={FileText}
+            note="All time"
+          />
+          <StatCard
+            label="Likes & comments"
+            value={loading ? "–" : likes + comments}
+            icon={Heart}
+            note={rangeLabel}
+            accent="text-rose-600"
+          />
+          <StatCard
+            label="Pinned repo clicks"
+            value={loading ? "–" : (stats?.clicks?.total ?? 0)}
+            icon={MousePointerClick}
+            note={rangeLabel}
+            accent="text-emerald-600"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Profile views */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <h2 className="font-semibold text-gray-900">Profile views</h2>
+            </CardHeader>
+            <CardBody className="text-gray-600">
+              {loading ? (
+                <PanelLoading />
+              ) : stats?.views ? (
+                <LineChart
+                  labels={viewSeries.map((point) => formatDateKey(point.date))}
+                  series={[{ name: "Views", values: viewSeries.map((point) => point.count) }]}
+                />
+              ) : (
+                <PanelError />
+              )}
+            </CardBody>
+          </Card>
+
+          {/* Completeness */}
+          <Card>
+            <CardHeader>
+              <h2 className="font-semibold text-gray-900">Complete your profile</h2>
+            </CardHeader>
+            <CardBody>
+              {completeness && user ? (
+                <CompletenessChecklist completeness={completeness} username={user.username} />
+              ) : (
+                <PanelLoading />
+              )}
+            </CardBody>
+          </Card>
+
+          {/* Post engagement */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Post engagement</h2>
+                {stats?.engagement && !loading && (
+                  <span className="text-xs text-gray-500">
+                    {stats.engagement.totals.posts.toLocaleString()} posts all time
+                  </span>
+                )}
+              </div>
+            </CardHeader>
+            <CardBody className="text-gray-600">
+              {loading ? (
+                <PanelLoading />
+              ) : stats?.engagement ? (
+                <LineChart
+                  labels={engagementSeries.map((point) => formatDateKey(point.date))}
+                  series={[
+                    {
+                      name: "Likes",
+                      values: engagementSeries.map((point) => point.likes),
+                      color: "#f43f5e",
+                    },
+                    {
+                      name: "Comments",
+                      values: engagementSeries.map((point) => point.comments),
+                      color: "#8b5cf6",
+                    },
+                  ]}
+                />
+              ) : (
+                <PanelError />
+              )}
+            </CardBody>
+          </Card>
+
+          {/* Application funnel */}
+          <Card>
+            <CardHeader>
+              <h2 className="font-semibold text-gray-900">Application funnel</h2>
+            </CardHeader>
+            <CardBody className="text-gray-700">
+              {!funnel ? (
+                <PanelLoading />
+              ) : funnel.total === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500">
+                  No applications yet.{" "}
+                  <Link href="/jobs" className="text-blue-600 hover:text-blue-700">
+                    Browse jobs
+                  </Link>
+                </p>
+              ) : (
+                <>
+                  <FunnelChart steps={funnel.funnel.steps} />
+                  <p className="mt-4 text-xs text-gray-500">
+                    {funnel.funnel.rejected} rejected · {funnel.funnel.withdrawn} withdrawn
+                    {funnel.total > FUNNEL_SAMPLE &&
+                      ` · based on your latest ${FUNNEL_SAMPLE} applications`}
+                  </p>
+                </>
+              )}
+            </CardBody>
+          </Card>
+
+          {/* Pinned repo clicks */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Pinned repo clicks</h2>
+                <span className="text-xs text-gray-500">From your profile · {rangeLabel}</span>
+              </div>
+            </CardHeader>
+            <CardBody className="text-gray-700">
+              {loading ? (
+                <PanelLoading />
+              ) : stats?.clicks ? (
+                <BarList
+                  items={stats.clicks.repos.map((repo) => ({
+                    key: repo.repoId,
+                    label: repo.fullName || repo.name,
+                    value: repo.clicks,
+                    href: `/details/${repo.repoId}`,
+                  }))}
+                  color="#10b981"
+                  emptyMessage="No clicks in this period. Pin your best repos to show them off."
+                />
+              ) : (
+                <PanelError />
+              )}
+            </CardBody>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function PanelLoading() {
+  return (
+    <div className="flex justify-center py-12">
+      <LoadingSpinner size="md" />
+    </div>
+  );
+}
+
+function PanelError() {
+  return <p className="py-12 text-center text-sm text-gray-500">Couldn&apos;t load this chart.</p>;
+}
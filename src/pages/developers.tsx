@@ -10,6 +10,7 @@ import { motion, AnimatePresence, type Variants } from "framer-motion";
 import { developerService } from "@/services/developerService";
 import { skillService } from "@/services/skillService";
 import LoadingSpinner from "@/components/common/Loading";
+import { BookmarkButton } from "@/components/bookmarks";
 import {
   Search,
   Filter,
@@ -166,7 +167,7 @@ export default function DevelopersPage() {
     const fetchSkills = async () => {
       try {
         const response = await skillService.getSkills();
-        setSkills(response.data?.data || response.data || []);
+        setSkills(response.data);
       } catch (err) {
         console.error("Failed to fetch skills:", err);
       }
@@ -194,8 +195,8 @@ export default function DevelopersPage() {
         if (filters.openToWork) params.openToWork = true;
 
         const response = await developerService.getDevelopers(params);
-        setDevelopers(response.data?.data?.developers || []);
-        setTotalCount(response.data?.data?.pagination?.total || 0);
+        setDevelopers(response.data.items);
+        setTotalCount(response.data.pagination.total);
       } catch (err) {
         console.error("Failed to fetch developers:", err);
         setDevelopers([]);
@@ -644,7 +645,7 @@ function DeveloperCard({ developer }: { developer: Developer }) {
 
         <div className="px-5 pb-5">
           {/* Avatar */}
-          <div className="-mt-10 mb-3">
+          <div className="-mt-10 mb-3 flex items-end justify-between">
             {developer.user?.avatar ? (
               <img
                 src={developer.user.avatar}
@@ -658,6 +659,19 @@ function DeveloperCard({ developer }: { developer: Developer }) {
                 {username.charAt(0).toUpperCase()}
               </div>
             )}
+            {developer.user && (
+              <BookmarkButton
+                target={{
+                  type: "DEVELOPER",
+                  targetId: developer.user._id,
+                  title: developer.user.username,
+                  subtitle: developer.headline || undefined,
+                  href: profileHref,
+                  imageUrl: developer.user.avatar,
+                }}
+                tone="dark"
+              />
+            )}
           </div>
 
           {/* Name */}
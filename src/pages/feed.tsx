@@ -11,7 +11,11 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/contexts/ToastContext";
 import { postService } from "@/services/postService";
 import { githubService } from "@/services/githubService";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { useAccountStatus } from "@/hooks/useAccountStatus";
 import LoadingSpinner from "@/components/common/Loading";
+import { ReportModal } from "@/components/reports";
+import { SuspendedNotice } from "@/components/account";
 import {
   Heart,
   MessageCircle,
@@ -48,9 +52,9 @@ interface Post {
     _id: string;
     name: string;
     fullName: string;
-    description: string;
+    description: string | null;
     stars: number;
-    language: string;
+    language: string | null;
     htmlUrl: string;
   };
   jobPost?: {
@@ -89,6 +93,7 @@ interface RepoResult {
 
 const Feed = () => {
   const { user, isAuthenticated } = useAuth();
+  const { isSuspended } = useAccountStatus();
   const { success, error } = useToast();
   const router = useRouter();
 
@@ -140,7 +145,7 @@ const Feed = () => {
           sort: sortUi, // backend can ignore if unsupported
         });
 
-        const rawPosts = response.data?.data?.posts || [];
+        const rawPosts = response.data.items;
         const newPosts = rawPosts.map((post: any) => ({
           ...post,
           isLiked: post.hasLiked || post.isLiked || false,
@@ -195,9 +200,8 @@ const Feed = () => {
     if (!repoSearchQuery.trim()) return;
     setSearchingRepos(true);
     try {
-      const response = await githubService.searchRepos({ q: repoSearchQuery });
-      const repos = response.data?.data?.items || response.data?.items || [];
-      setRepoResults(repos);
+      const response = await githubService.searchRepos<RepoResult>({ q: repoSearchQuery });
+      setRepoResults(response.data.items);
     } catch (err) {
       error("Failed to search repositories");
     } finally {
@@ -234,9 +238,12 @@ const Feed = () => {
       if (postType === "SHARE_JOB" && selectedJob) postData.jobPostId = selectedJob._id;
 
       const response = await postService.createPost(postData);
-      const newPost = response.data?.data || response.data;
+      const newPost = response.data;
 
-      setPosts((prev) => [{ ...newPost, isLiked: false }, ...prev]);
+      // The realtime post:created event may have added it already
+      setPosts((prev) =>
+        prev.some((p) => p._id === newPost._id) ? prev : [{ ...newPost, isLiked: false }, ...prev]
+      );
 
       setNewPostContent("");
       setPostType("TEXT");
@@ -308,6 +315,27 @@ const Feed = () => {
     );
   };
 
+  // Live updates: new posts from others land on top, counts follow the server
+  useRealtimeEvent("post:created", (post) => {
+    setPosts((prev) =>
+      prev.some((p) => p._id === post._id) ? prev : [{ ...post, isLiked: false }, ...prev]
+    );
+  });
+
+  useRealtimeEvent("post:updated", ({ postId, likesCount, commentsCount }) => {
+    setPosts((prev) =>
+      prev.map((p) =>
+        p._id === postId
+          ? {
+              ...p,
+              likesCount: likesCount ?? p.likesCount,
+              commentsCount: commentsCount ?? p.commentsCount,
+            }
+          : p
+      )
+    );
+  });
+
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900 dark:bg-[#0b0f14] dark:text-white">
       <div className="mx-auto flex max-w-6xl gap-6 px-4 py-6">
@@ -397,7 +425,10 @@ const Feed = () => {
           </div>
 
           {/* Create Post */}
-          {isAuthenticated && (
+          {isAuthenticated && isSuspended && (
+            <SuspendedNotice compact action="post" className="mb-4" />
+          )}
+          {isAuthenticated && !isSuspended && (
             <div className="mb-4 overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm dark:border-white/10 dark:bg-white/[0.03]">
               <div className="flex gap-3 p-4">
                 <Link href={`/profile/${user?.username}`} className="shrink-0">
@@ -771,9 +802,11 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
   const [loadingComments, setLoadingComments] = useState(false);
   const [newComment, setNewComment] = useState("");
   const [postingComment, setPostingComment] = useState(false);
+  const [reporting, setReporting] = useState(false);
 
   const { error } = useToast();
   const { isAuthenticated } = useAuth();
+  const { isSuspended } = useAccountStatus();
   const router = useRouter();
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -810,9 +843,7 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
     setLoadingComments(true);
     try {
       const response = await postService.getComments(post._id);
-      const commentsData =
-        response.data?.data?.comments || response.data?.data || response.data?.comments || [];
-      setComments(commentsData);
+      setComments(response.data.items);
     } catch (err) {
       error("Failed to load comments");
     } finally {
@@ -830,7 +861,7 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
     setPostingComment(true);
     try {
       const response = await postService.addComment(post._id, newComment);
-      const newCommentData = response.data?.data || response.data;
+      const newCommentData = response.data;
       setComments((prev) => [...prev, newCommentData]);
       setNewComment("");
       onCommentAdded(post._id);
@@ -841,6 +872,15 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
     }
   };
 
+  const handleReportClick = () => {
+    setShowMenu(false);
+    if (!isAuthenticated) {
+      router.push(`/login?redirect=${encodeURIComponent("/feed")}`);
+      return;
+    }
+    setReporting(true);
+  };
+
   const handleLikeClick = () => {
     if (!isAuthenticated) {
       router.push(`/login?redirect=${encodeURIComponent("/feed")}`);
@@ -966,7 +1006,10 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
                       </button>
                     </>
                   ) : (
-                    <button className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-rose-600 hover:bg-gray-50 dark:text-rose-400 dark:hover:bg-white/[0.06]">
+                    <button
+                      onClick={handleReportClick}
+                      className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-rose-600 hover:bg-gray-50 dark:text-rose-400 dark:hover:bg-white/[0.06]"
+                    >
                       <Flag size={14} />
                       Report
                     </button>
@@ -1150,7 +1193,9 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
               )}
 
               <div className="mt-3 flex gap-2">
-                {isAuthenticated ? (
+                {isAuthenticated && isSuspended ? (
+                  <SuspendedNotice compact action="comment" className="w-full" />
+                ) : isAuthenticated ? (
                   <>
                     <input
                       type="text"
@@ -1187,6 +1232,19 @@ const PostCard = ({ post, currentUserId, onLike, onDelete, onCommentAdded }: Pos
           )}
         </div>
       </div>
+
+      <ReportModal
+        target={
+          reporting
+            ? {
+                targetType: "POST",
+                targetId: post._id,
+                label: `Post by @${post.author.username}`,
+              }
+            : null
+        }
+        onClose={() => setReporting(false)}
+      />
     </div>
   );
 };
@@ -194,30 +194,15 @@ export default function HomePage() {
       try {
         const [jobsRes, reposRes] = await Promise.allSettled([
           jobService.getFeaturedJobs(3),
-          githubService.getTrending({ limit: 3 }),
+          githubService.getTrending<TrendingRepo>({ limit: 3 }),
         ]);
 
         if (jobsRes.status === "fulfilled") {
-          const jobsData =
-            (jobsRes.value as any)?.data?.data ?? (jobsRes.value as any)?.data;
-          const jobs: Job[] = Array.isArray(jobsData)
-            ? jobsData
-            : Array.isArray(jobsData?.jobs)
-            ? jobsData.jobs
-            : [];
-          setRecentJobs(jobs);
+          setRecentJobs(jobsRes.value.data);
         }
 
         if (reposRes.status === "fulfilled") {
-          const reposData =
-            (reposRes.value as any)?.data?.data ??
-            (reposRes.value as any)?.data;
-          const repos: TrendingRepo[] = Array.isArray(reposData)
-            ? reposData
-            : Array.isArray(reposData?.repos)
-            ? reposData.repos
-            : [];
-          setTrendingRepos(repos);
+          setTrendingRepos(reposRes.value.data);
         }
       } catch (e) {
         console.error("Failed to fetch homepage data:", e);
@@ -0,0 +1,466 @@
+/**
+ * @file src/pages/jobs/[id]/analytics.tsx
+ * @description Job performance for its recruiter: views vs applications, conversion,
+ * time to first application, applicant skills and pipeline breakdown, with CSV export
+ */
+
+import { useRouter } from "next/router";
+import { useEffect, useMemo, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { FiArrowLeft, FiBriefcase, FiDownload } from "react-icons/fi";
+import { Clock, Eye, FileText, Percent } from "lucide-react";
+import toast from "react-hot-toast";
+import { jobService, applicationService } from "@/services";
+import { useAuthStore } from "@/store/authStore";
+import { useSkillCatalog } from "@/hooks/useSkillCatalog";
+import { Card, CardBody, CardHeader, Button, Loading, PageLoading } from "@/components/common";
+import { countByStatus } from "@/components/applications";
+import { BarList, LineChart } from "@/components/charts";
+import { StatCard } from "@/components/dashboard";
+import { findStage, getJobStages } from "@/lib/hiringStages";
+import {
+  RANGE_OPTIONS,
+  countApplicantSkills,
+  fillDailySeries,
+  formatDateKey,
+  formatDuration,
+  formatPercent,
+  getDateRange,
+  getDateRangeSince,
+  sumBy,
+  type RangeDays,
+} from "@/lib/analytics";
+import { downloadCsv, toFileSlug, type CsvValue } from "@/lib/csv";
+import { getLoginUrl } from "@/lib/utils";
+import type { Application, ApplicationStats, JobAnalytics, JobPostDetails } from "@/types";
+
+type RangeOption = RangeDays | "all";
+
+const VIEWS_COLOR = "#3b82f6";
+const APPLICATIONS_COLOR = "#10b981";
+
+export default function JobAnalyticsPage() {
+  const router = useRouter();
+  const { id } = router.query;
+  const { user, isAuthenticated, isLoading: authLoading } = useAuthStore();
+  const canView = isAuthenticated && (user?.role === "RECRUITER" || user?.role === "ADMIN");
+  const skillCatalog = useSkillCatalog();
+
+  const [job, setJob] = useState<JobPostDetails | null>(null);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [stats, setStats] = useState<ApplicationStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rangeOption, setRangeOption] = useState<RangeOption>(30);
+  const [analytics, setAnalytics] = useState<{ key: string; data: JobAnalytics | null } | null>(
+    null
+  );
+
+  const range = useMemo(() => {
+    if (rangeOption !== "all") return getDateRange(rangeOption);
+    return job ? getDateRangeSince(job.createdAt) : null;
+  }, [rangeOption, job]);
+  const rangeKey = range ? `${range.startDate}:${range.endDate}` : "";
+  const analyticsLoading = analytics?.key !== rangeKey;
+
+  // Redirect if not authenticated or not a recruiter
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(getLoginUrl());
+    } else if (!authLoading && isAuthenticated && !canView) {
+      router.push("/jobs");
+    }
+  }, [authLoading, isAuthenticated, canView, router]);
+
+  // Job, applicants and pipeline counts don't depend on the range
+  useEffect(() => {
+    if (!id || typeof id !== "string" || !canView) return;
+
+    Promise.all([
+      jobService.getJob(id),
+      applicationService.getJobApplications(id, { limit: 100 }),
+      applicationService
+        .getApplicationStats(id)
+        .then((res) => res.data)
+        .catch(() => null),
+    ])
+      .then(([jobRes, appRes, statsData]) => {
+        const jobData = jobRes.data;
+
+        // Check ownership
+        if (jobData.recruiter._id !== user?.id && user?.role !== "ADMIN") {
+          toast.error("You do not have permission to view this job's analytics");
+          router.push("/jobs");
+          return;
+        }
+
+        setJob(jobData);
+        setApplications(appRes.data.items);
+        setStats(statsData);
+      })
+      .catch((err) => {
+        const message = err.response?.data?.message || "Failed to load job analytics";
+        toast.error(message);
+        router.push("/my-jobs");
+      })
+      .finally(() => setLoading(false));
+  }, [id, canView, user, router]);
+
+  // Daily views and applications for the selected range
+  useEffect(() => {
+    if (!id || typeof id !== "string" || !job || !range) return;
+    let alive = true;
+    const key = `${range.startDate}:${range.endDate}`;
+
+    jobService
+      .getJobAnalytics(id, range)
+      .then((res) => alive && setAnalytics({ key, data: res.data }))
+      .catch(() => alive && setAnalytics({ key, data: null }));
+
+    return () => {
+      alive = false;
+    };
+  }, [id, job, range]);
+
+  const daily = useMemo(
+    () =>
+      range
+        ? fillDailySeries(analytics?.data?.daily ?? [], range, { views: 0, applications: 0 })
+        : [],
+    [analytics, range]
+  );
+
+  const skills = useMemo(
+    () =>
+      countApplicantSkills(
+        applications.map((application) => application.developerProfile?.skills ?? []),
+        job?.requiredSkills ?? [],
+        skillCatalog
+      ),
+    [applications, job, skillCatalog]
+  );
+
+  // Pipeline order first, then any statuses no longer in the pipeline
+  const statusRows = useMemo(() => {
+    const stages = getJobStages(job);
+    const byStatus = stats?.byStatus ?? countByStatus(applications);
+    const extra = Object.keys(byStatus).filter((key) => !stages.some((stage) => stage.key === key));
+    return [...stages.map((stage) => stage.key), ...extra].map((key) => ({
+      key,
+      label: findStage(stages, key).label,
+      value: byStatus[key] ?? 0,
+    }));
+  }, [job, stats, applications]);
+
+  if (authLoading || loading) {
+    return <PageLoading />;
+  }
+
+  if (!job) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-3xl mx-auto px-4 text-center">
+          <FiBriefcase className="mx-auto text-gray-300 mb-4" size={64} />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Job Not Found</h3>
+          <p className="text-gray-500 mb-4">This job posting may have been removed.</p>
+          <Link href="/my-jobs">
+            <Button>My Jobs</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const views = sumBy(daily, (point) => point.views);
+  const applied = sumBy(daily, (point) => point.applications);
+  const totalApplicants = stats?.total ?? applications.length;
+
+  const firstApplicationAt =
+    analytics?.data?.firstApplicationAt ??
+    applications.reduce<string | null>(
+      (earliest, application) =>
+        !earliest || application.appliedAt < earliest ? application.appliedAt : earliest,
+      null
+    );
+  const timeToFirst = firstApplicationAt
+    ? formatDuration(new Date(firstApplicationAt).getTime() - new Date(job.createdAt).getTime())
+    : null;
+
+  const rangeLabel =
+    rangeOption === "all" ? "Since posted" : `Last ${rangeOption} days`;
+  const filePrefix = `${toFileSlug(job.title)}-${range?.startDate}-to-${range?.endDate}`;
+
+  const exportDaily = () =>
+    downloadCsv(`${filePrefix}-daily`, [
+      ["Date", "Views", "Applications", "Conversion"],
+      ...daily.map((point): CsvValue[] => [
+        point.date,
+        point.views,
+        point.applications,
+        formatPercent(point.applications, point.views),
+      ]),
+    ]);
+
+  const exportSkills = () =>
+    downloadCsv(`${toFileSlug(job.title)}-applicant-skills`, [
+      ["Skill", "Required", "Applicants", "Share of applicants"],
+      ...skills.required.map((row): CsvValue[] => [
+        row.skill,
+        "yes",
+        row.count,
+        formatPercent(row.count, applications.length),
+      ]),
+      ...skills.other.map((row): CsvValue[] => [
+        row.skill,
+        "no",
+        row.count,
+        formatPercent(row.count, applications.length),
+      ]),
+    ]);
+
+  const exportStatuses = () =>
+    downloadCsv(`${toFileSlug(job.title)}-pipeline`, [
+      ["Stage", "Applications", "Share"],
+      ...statusRows.map((row): CsvValue[] => [
+        row.label,
+        row.value,
+        formatPercent(row.value, totalApplicants),
+      ]),
+    ]);
+
+  return (
+    <>
+      <Head>
+        <title>Analytics for {job.title} | DevMatch</title>
+        <meta name="description" content={`Performance of the ${job.title} job posting`} />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6"
+          >
+            <Link
+              href="/my-jobs"
+              className="inline-flex items-center gap-2 text-gray-500 hover:text-gray-700 text-sm mb-4"
+            >
+              <FiArrowLeft className="w-4 h-4" />
+              Back to My Jobs
+            </Link>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Job Analytics</h1>
+                <p className="text-gray-600 mt-1">
+                  {job.title} &middot;{" "}
+                  <Link
+                    href={`/jobs/${job._id}/applications`}
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    {totalApplicants} applicants
+                  </Link>
+                </p>
+              </div>
+              <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+                {[...RANGE_OPTIONS, { days: "all" as const, label: "Since posted" }].map(
+                  (option) => (
+                    <button
+                      key={option.days}
+                      onClick={() => setRangeOption(option.days)}
+                      className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                        rangeOption === option.days
+                          ? "bg-blue-600 text-white"
+                          : "text-gray-600 hover:bg-gray-100"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+          </motion.div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <StatCard
+              label="Views"
+              value={analyticsLoading ? "–" : views}
+              icon={Eye}
+              note={`${rangeLabel} · ${job.viewCount.toLocaleString()} all time`}
+              accent="text-blue-600"
+            />
+            <StatCard
+              label="Applications"
+              value={analyticsLoading ? "–" : applied}
+              icon={FileText}
+              note={rangeLabel}
+              accent="text-emerald-600"
+            />
+            <StatCard
+              label="Conversion rate"
+              value={analyticsLoading ? "–" : formatPercent(applied, views)}
+              icon={Percent}
+              note="Applications per view"
+            />
+            <StatCard
+              label="Time to first application"
+              value={timeToFirst ?? "–"}
+              icon={Clock}
+              note={timeToFirst ? "After posting" : "No applications yet"}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Views vs applications */}
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <PanelTitle
+                  title="Views vs applications"
+                  onExport={exportDaily}
+                  disabled={analyticsLoading || !analytics?.data}
+                />
+              </CardHeader>
+              <CardBody className="text-gray-600">
+                {analyticsLoading ? (
+                  <PanelLoading />
+                ) : analytics?.data ? (
+                  <LineChart
+                    labels={daily.map((point) => formatDateKey(point.date))}
+                    series={[
+                      {
+                        name: "Views",
+                        values: daily.map((point) => point.views),
+                        color: VIEWS_COLOR,
+                      },
+                      {
+                        name: "Applications",
+                        values: daily.map((point) => point.applications),
+                        color: APPLICATIONS_COLOR,
+                      },
+                    ]}
+                    height={240}
+                  />
+                ) : (
+                  <p className="py-12 text-center text-sm text-gray-500">
+                    Couldn&apos;t load views for this period.
+                  </p>
+                )}
+              </CardBody>
+            </Card>
+
+            {/* Required skills coverage */}
+            <Card>
+              <CardHeader>
+                <PanelTitle
+                  title="Required skills among applicants"
+                  onExport={exportSkills}
+                  disabled={applications.length === 0}
+                />
+              </CardHeader>
+              <CardBody className="text-gray-700">
+                <BarList
+                  items={skills.required.map((row) => ({
+                    key: row.skill,
+                    label: row.skill,
+                    value: row.count,
+                  }))}
+                  sorted={false}
+                  limit={20}
+                  color={APPLICATIONS_COLOR}
+                  formatValue={(value) =>
+                    `${value} (${formatPercent(value, applications.length)})`
+                  }
+                  emptyMessage="This job lists no required skills."
+                />
+              </CardBody>
+            </Card>
+
+            {/* Other applicant skills */}
+            <Card>
+              <CardHeader>
+                <h2 className="font-semibold text-gray-900">Other skills applicants bring</h2>
+              </CardHeader>
+              <CardBody className="text-gray-700">
+                <BarList
+                  items={skills.other.map((row) => ({
+                    key: row.skill,
+                    label: row.skill,
+                    value: row.count,
+                  }))}
+                  color="#8b5cf6"
+                  emptyMessage="No applicant skills yet."
+                />
+                {totalApplicants > applications.length && (
+                  <p className="mt-3 text-xs text-gray-500">
+                    Based on the latest {applications.length} applicants.
+                  </p>
+                )}
+              </CardBody>
+            </Card>
+
+            {/* Status breakdown */}
+            <Card>
+              <CardHeader>
+                <PanelTitle
+                  title="Pipeline breakdown"
+                  onExport={exportStatuses}
+                  disabled={totalApplicants === 0}
+                />
+              </CardHeader>
+              <CardBody className="text-gray-700">
+                {totalApplicants === 0 ? (
+                  <p className="py-6 text-center text-sm text-gray-500">No applications yet.</p>
+                ) : (
+                  <BarList
+                    items={statusRows}
+                    sorted={false}
+                    limit={statusRows.length}
+                    formatValue={(value) => `${value} (${formatPercent(value, totalApplicants)})`}
+                  />
+                )}
+              </CardBody>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function PanelTitle({
+  title,
+  onExport,
+  disabled,
+}: {
+  title: string;
+  onExport: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <h2 className="font-semibold text-gray-900">{title}</h2>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        leftIcon={<FiDownload />}
+        onClick={onExport}
+        disabled={disabled}
+      >
+        CSV
+      </Button>
+    </div>
+  );
+}
+
+function PanelLoading() {
+  return (
+    <div className="flex justify-center py-12">
+      <Loading size="md" />
+    </div>
+  );
+}
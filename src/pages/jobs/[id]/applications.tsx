@@ -1,61 +1,89 @@
 /**
  * @file src/pages/jobs/[id]/applications.tsx
- * @description View applications for a job - recruiters only
+ * @description Applicant pipeline for a job - recruiters only
  */
 
 import { useRouter } from "next/router";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Head from "next/head";
 import Link from "next/link";
 import { motion } from "framer-motion";
-import {
-  FiArrowLeft,
-  FiUser,
-  FiMail,
-  FiCalendar,
-  FiExternalLink,
-  FiCheck,
-  FiX,
-  FiClock,
-  FiFileText,
-  FiGithub,
-  FiBriefcase,
-} from "react-icons/fi";
+import { FiArrowLeft, FiBriefcase, FiUser, FiX } from "react-icons/fi";
 import toast from "react-hot-toast";
-import { jobAPINew, applicationAPI } from "@/lib/api";
+import { jobService, applicationService, interviewService } from "@/services";
 import { useAuthStore } from "@/store/authStore";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { useSkillCatalog } from "@/hooks/useSkillCatalog";
+import { rankByMatch, scoreMatch } from "@/lib/matchScore";
+import {
+  findStage,
+  getBoardStages,
+  getJobStages,
+  isClosedStage,
+  isUnassignedStatus,
+} from "@/lib/hiringStages";
+import {
+  failedKnockouts,
+  matchesScreeningFilter,
+  type ScreeningFilter,
+} from "@/lib/screeningQuestions";
+import { getLoginUrl } from "@/lib/utils";
+import type {
+  Application,
+  ApplicationStats,
+  ApplicationStatus,
+  Interview,
+  InterviewProposal,
+  JobPostDetails,
+} from "@/types";
+import { Card, CardBody, Button, PageLoading } from "@/components/common";
 import {
-  Card,
-  CardBody,
-  Button,
-  Badge,
-  PageLoading,
-} from "@/components/common";
-
-const STATUS_CONFIG: Record<string, { label: string; variant: string; icon: any }> = {
-  PENDING: { label: "Pending", variant: "warning", icon: FiClock },
-  REVIEWED: { label: "Reviewed", variant: "info", icon: FiFileText },
-  SHORTLISTED: { label: "Shortlisted", variant: "primary", icon: FiCheck },
-  ACCEPTED: { label: "Accepted", variant: "success", icon: FiCheck },
-  REJECTED: { label: "Rejected", variant: "danger", icon: FiX },
-  WITHDRAWN: { label: "Withdrawn", variant: "default", icon: FiX },
-};
+  ApplicationDrawer,
+  ApplicationPipeline,
+  ScreeningFilterBar,
+  StageBadge,
+  applyMoveToStats,
+  countByStatus,
+} from "@/components/applications";
+import {
+  ScheduleInterviewModal,
+  isActiveInterview,
+  latestByApplication,
+} from "@/components/interviews";
+
+// Moving a single candidate into one of these opens the interview scheduler
+const SCHEDULING_STAGES = ["SHORTLISTED", "INTERVIEWING"];
 
 export default function JobApplicationsPage() {
   const router = useRouter();
   const { id } = router.query;
   const { user, isAuthenticated, isLoading: authLoading } = useAuthStore();
+  const skillCatalog = useSkillCatalog();
 
-  const [job, setJob] = useState<any>(null);
-  const [applications, setApplications] = useState<any[]>([]);
+  const [job, setJob] = useState<JobPostDetails | null>(null);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [stats, setStats] = useState<ApplicationStats | null>(null);
   const [loading, setLoading] = useState(true);
-  const [updating, setUpdating] = useState<string | null>(null);
-  const [filter, setFilter] = useState<string>("ALL");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<"recent" | "match">("match");
+  // Latest interview per application id
+  const [interviews, setInterviews] = useState<Record<string, Interview>>({});
+  const [scheduleForId, setScheduleForId] = useState<string | null>(null);
+  const [screeningFilter, setScreeningFilter] = useState<ScreeningFilter>({
+    questionId: "",
+    value: "",
+  });
+  const [hideKnockedOut, setHideKnockedOut] = useState(false);
+
+  const stages = useMemo(() => getJobStages(job), [job]);
+  const screeningQuestions = useMemo(() => job?.screeningQuestions ?? [], [job]);
 
   // Redirect if not authenticated or not a recruiter
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push(`/auth/login?redirect=/jobs/${id}/applications`);
+      router.push(getLoginUrl());
     } else if (
       !authLoading &&
       isAuthenticated &&
@@ -66,6 +94,24 @@ export default function JobApplicationsPage() {
     }
   }, [authLoading, isAuthenticated, user, router, id]);
 
+  // Column counts come from the stats endpoint; local counts are the fallback
+  const loadStats = useCallback(() => {
+    if (!id || typeof id !== "string") return;
+    applicationService
+      .getApplicationStats(id)
+      .then((res) => setStats(res.data))
+      .catch(() => setStats(null));
+  }, [id]);
+
+  // Interviews load separately; the board works without them
+  const loadInterviews = useCallback(() => {
+    if (!id || typeof id !== "string") return;
+    interviewService
+      .getInterviews({ jobId: id })
+      .then((res) => setInterviews(latestByApplication(res.data)))
+      .catch(() => {});
+  }, [id]);
+
   // Fetch job and applications
   useEffect(() => {
     if (!id || typeof id !== "string") return;
@@ -74,11 +120,11 @@ export default function JobApplicationsPage() {
     setLoading(true);
 
     Promise.all([
-      jobAPINew.getById(id),
-      applicationAPI.getJobApplications(id, {}),
+      jobService.getJob(id),
+      applicationService.getJobApplications(id, { limit: 100 }),
     ])
       .then(([jobRes, appRes]) => {
-        const jobData = jobRes.data.data;
+        const jobData = jobRes.data;
 
         // Check ownership
         if (jobData.recruiter._id !== user?.id && user?.role !== "ADMIN") {
@@ -88,10 +134,9 @@ export default function JobApplicationsPage() {
         }
 
         setJob(jobData);
-        
-        // Handle different response structures
-        const appData = appRes.data?.data;
-        setApplications(Array.isArray(appData) ? appData : appData?.applications || []);
+        setApplications(appRes.data.items);
+        loadStats();
+        loadInterviews();
       })
       .catch((err) => {
         const message = err.response?.data?.message || "Failed to load applications";
@@ -101,48 +146,207 @@ export default function JobApplicationsPage() {
       .finally(() => {
         setLoading(false);
       });
-  }, [id, isAuthenticated, user, router]);
+  }, [id, isAuthenticated, user, router, loadStats, loadInterviews]);
+
+  // Live updates: new applicants and status changes (e.g. withdrawals)
+  useRealtimeEvent("application:created", (application) => {
+    if (application.jobPost?._id !== id) return;
+    setApplications((prev) =>
+      prev.some((app) => app._id === application._id) ? prev : [application, ...prev]
+    );
+    loadStats();
+    toast.success(`New application from ${application.applicant?.username ?? "a candidate"}`);
+  });
+
+  useRealtimeEvent("application:status", ({ applicationId, jobId, status }) => {
+    if (jobId !== id) return;
+    setApplications((prev) =>
+      prev.map((app) => (app._id === applicationId ? { ...app, status } : app))
+    );
+    loadStats();
+  });
+
+  const upsertInterview = useCallback((interview: Interview) => {
+    setInterviews((prev) => ({ ...prev, [interview.application]: interview }));
+  }, []);
+
+  useRealtimeEvent("interview:updated", (interview) => {
+    if (interview.jobPost._id !== id) return;
+    upsertInterview(interview);
+    const name = interview.applicant.username;
+    if (interview.status === "SCHEDULED") {
+      toast.success(`${name} picked an interview time`);
+    } else if (interview.status === "RESCHEDULE_REQUESTED") {
+      toast(`${name} asked for other interview times`);
+    } else if (interview.status === "CANCELLED" && interview.cancelledBy === "DEVELOPER") {
+      toast(`${name} cancelled the interview`);
+    }
+  });
 
-  // Update application status
-  const updateStatus = async (applicationId: string, status: string) => {
-    setUpdating(applicationId);
+  /**
+   * Send slots for the application being scheduled
+   * An open interview gets new times instead of a second interview
+   */
+  const proposeInterview = async (proposal: InterviewProposal): Promise<boolean> => {
+    if (!scheduleForId) return false;
+    const current = interviews[scheduleForId];
 
     try {
-      await applicationAPI.updateStatus(applicationId, status);
+      const res = isActiveInterview(current)
+        ? await interviewService.reschedule(current._id, proposal)
+        : await interviewService.propose(scheduleForId, proposal);
+      upsertInterview(res.data);
+      toast.success(
+        isActiveInterview(current) ? "New times sent" : "Interview invitation sent"
+      );
+      return true;
+    } catch {
+      // The API client shows the error
+      return false;
+    }
+  };
+
+  const toggleSelect = (applicationId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(applicationId)) next.delete(applicationId);
+      else next.add(applicationId);
+      return next;
+    });
+  };
+
+  /**
+   * Move applications to a new status
+   * The board updates immediately and rolls back if the request fails
+   * @param note - Reason kept in the timeline (single moves only)
+   * @returns Whether the move was saved
+   */
+  const moveApplications = async (
+    applicationIds: string[],
+    status: ApplicationStatus,
+    note?: string
+  ): Promise<boolean> => {
+    const moving = applications.filter(
+      (app) =>
+        applicationIds.includes(app._id) && app.status !== status && !savingIds.has(app._id)
+    );
+    if (moving.length === 0) return false;
+
+    const movingIds = moving.map((app) => app._id);
+    const previous = new Map(moving.map((app) => [app._id, app.status]));
+    const label = findStage(stages, status).label;
+
+    setApplications((prev) =>
+      prev.map((app) => (previous.has(app._id) ? { ...app, status } : app))
+    );
+    setStats((prev) => prev && applyMoveToStats(prev, moving, status));
+    setSavingIds((prev) => new Set([...prev, ...movingIds]));
+
+    try {
+      if (movingIds.length === 1) {
+        await applicationService.updateStatus(movingIds[0], status, note);
+      } else {
+        await applicationService.bulkUpdateStatus(movingIds, status);
+      }
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        movingIds.forEach((appId) => next.delete(appId));
+        return next;
+      });
+      toast.success(
+        movingIds.length === 1
+          ? `Moved to ${label}`
+          : `Moved ${movingIds.length} applications to ${label}`
+      );
+      loadStats();
+      // Shortlisting one candidate leads straight into scheduling
+      if (
+        movingIds.length === 1 &&
+        SCHEDULING_STAGES.includes(status) &&
+        !isActiveInterview(interviews[movingIds[0]])
+      ) {
+        setScheduleForId(movingIds[0]);
+      }
+      return true;
+    } catch (err: any) {
+      // Roll back only the cards this move touched
       setApplications((prev) =>
         prev.map((app) =>
-          app._id === applicationId ? { ...app, status } : app
+          previous.has(app._id) && app.status === status
+            ? { ...app, status: previous.get(app._id)! }
+            : app
         )
       );
-      toast.success(`Application ${status.toLowerCase()}`);
-    } catch (err: any) {
+      setStats(
+        (prev) =>
+          prev &&
+          moving.reduce(
+            (acc, app) => applyMoveToStats(acc, [{ ...app, status }], app.status),
+            prev
+          )
+      );
       const message = err.response?.data?.message || "Failed to update status";
       toast.error(message);
+      return false;
     } finally {
-      setUpdating(null);
+      setSavingIds((prev) => {
+        const next = new Set(prev);
+        movingIds.forEach((appId) => next.delete(appId));
+        return next;
+      });
     }
   };
 
-  // Format date
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
+  // Rank candidates against the job; applicants without a profile sort last
+  const matchScores = useMemo(() => {
+    const scores: Record<string, number> = {};
+    if (!job) return scores;
+    applications.forEach((app) => {
+      if (app.developerProfile) {
+        scores[app._id] = scoreMatch(job, app.developerProfile, skillCatalog).score;
+      }
     });
-  };
+    return scores;
+  }, [job, applications, skillCatalog]);
 
-  // Filter applications
-  const filteredApplications =
-    filter === "ALL"
-      ? applications
-      : applications.filter((app) => app.status === filter);
+  const filterQuestion = screeningQuestions.find((q) => q.id === screeningFilter.questionId);
+  const filtering = (!!filterQuestion && !!screeningFilter.value) || hideKnockedOut;
 
-  // Count by status
-  const statusCounts = (Array.isArray(applications) ? applications : []).reduce((acc, app) => {
-    acc[app.status] = (acc[app.status] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  const visibleApplications = useMemo(
+    () =>
+      applications.filter(
+        (app) =>
+          (!filterQuestion ||
+            matchesScreeningFilter(filterQuestion, app.screeningAnswers, screeningFilter)) &&
+          (!hideKnockedOut ||
+            failedKnockouts(screeningQuestions, app.screeningAnswers).length === 0)
+      ),
+    [applications, filterQuestion, screeningFilter, hideKnockedOut, screeningQuestions]
+  );
+
+  const sortedApplications = useMemo(
+    () =>
+      sortBy === "match"
+        ? rankByMatch(visibleApplications, (app) => matchScores[app._id])
+        : visibleApplications,
+    [sortBy, visibleApplications, matchScores]
+  );
+
+  const closeDrawer = useCallback(() => setOpenId(null), []);
+  const closeSchedule = useCallback(() => setScheduleForId(null), []);
+  const openApplication = applications.find((app) => app._id === openId) ?? null;
+  const scheduleApplication = applications.find((app) => app._id === scheduleForId);
+
+  // Server counts cover every applicant; while filtering, count what's shown
+  const counts = filtering
+    ? countByStatus(visibleApplications)
+    : stats?.byStatus ?? countByStatus(applications);
+  const closedApplications = applications.filter((app) =>
+    isClosedStage(findStage(stages, app.status))
+  );
+  const unassignedApplications = applications.filter((app) =>
+    isUnassignedStatus(stages, app.status)
+  );
 
   if (authLoading || loading) {
     return <PageLoading />;
@@ -171,7 +375,7 @@ export default function JobApplicationsPage() {
       </Head>
 
       <div className="min-h-screen bg-gray-50 py-8">
-        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           {/* Header */}
           <motion.div
             initial={{ opacity: 0, y: -10 }}
@@ -185,208 +389,196 @@ export default function JobApplicationsPage() {
               <FiArrowLeft className="w-4 h-4" />
               Back to Job
             </Link>
-            <h1 className="text-2xl font-bold text-gray-900">Applications</h1>
-            <p className="text-gray-600 mt-1">{job.title}</p>
+            <div className="flex flex-wrap items-end justify-between gap-2">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Applications</h1>
+                <p className="text-gray-600 mt-1">{job.title}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <p className="hidden text-sm text-gray-500 md:block">
+                  {stats?.total ?? applications.length} total &middot; drag cards between
+                  columns or select several to move them together
+                </p>
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as "recent" | "match")}
+                  aria-label="Sort applicants"
+                  className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="match">Best match</option>
+                  <option value="recent">Most recent</option>
+                </select>
+              </div>
+            </div>
           </motion.div>
 
-          {/* Stats */}
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.1 }}
-            className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-7 gap-4 mb-6"
-          >
-            <button
-              onClick={() => setFilter("ALL")}
-              className={`p-4 rounded-lg text-center transition-all ${
-                filter === "ALL"
-                  ? "bg-blue-50 border-2 border-blue-500"
-                  : "bg-white border border-gray-200 hover:border-gray-300"
-              }`}
+          {/* Bulk actions */}
+          {selectedIds.size > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="sticky top-20 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3"
             >
-              <p className="text-2xl font-bold text-gray-900">{applications.length}</p>
-              <p className="text-sm text-gray-600">Total</p>
-            </button>
-            {Object.entries(STATUS_CONFIG).map(([status, config]) => (
-              <button
-                key={status}
-                onClick={() => setFilter(status)}
-                className={`p-4 rounded-lg text-center transition-all ${
-                  filter === status
-                    ? "bg-blue-50 border-2 border-blue-500"
-                    : "bg-white border border-gray-200 hover:border-gray-300"
-                }`}
+              <span className="mr-2 text-sm font-medium text-blue-900">
+                {selectedIds.size} selected
+              </span>
+              {getBoardStages(stages).map((stage) => (
+                <Button
+                  key={stage.key}
+                  variant={stage.kind === "REJECTED" ? "danger" : "outline"}
+                  size="sm"
+                  onClick={() => moveApplications(Array.from(selectedIds), stage.key)}
+                >
+                  Move to {stage.label}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                leftIcon={<FiX />}
+                onClick={() => setSelectedIds(new Set())}
+                className="ml-auto"
               >
-                <p className="text-2xl font-bold text-gray-900">
-                  {statusCounts[status] || 0}
-                </p>
-                <p className="text-sm text-gray-600">{config.label}</p>
-              </button>
-            ))}
-          </motion.div>
+                Clear
+              </Button>
+            </motion.div>
+          )}
+
+          {/* Screening answer filters */}
+          {screeningQuestions.length > 0 && applications.length > 0 && (
+            <ScreeningFilterBar
+              questions={screeningQuestions}
+              filter={screeningFilter}
+              onFilterChange={setScreeningFilter}
+              hideKnockedOut={hideKnockedOut}
+              onHideKnockedOutChange={setHideKnockedOut}
+              matching={visibleApplications.length}
+              total={applications.length}
+            />
+          )}
 
-          {/* Applications List */}
+          {/* Pipeline */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.2 }}
-            className="space-y-4"
+            transition={{ delay: 0.1 }}
           >
-            {filteredApplications.length === 0 ? (
+            {applications.length === 0 ? (
               <Card>
                 <CardBody className="p-8 text-center">
                   <FiUser className="mx-auto text-gray-300 mb-4" size={48} />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No Applications</h3>
-                  <p className="text-gray-500">
-                    {filter === "ALL"
-                      ? "No one has applied to this job yet."
-                      : `No ${filter.toLowerCase()} applications.`}
-                  </p>
+                  <p className="text-gray-500">No one has applied to this job yet.</p>
                 </CardBody>
               </Card>
             ) : (
-              filteredApplications.map((application) => {
-                const statusConfig = STATUS_CONFIG[application.status] || STATUS_CONFIG.PENDING;
-                const StatusIcon = statusConfig.icon;
-
-                return (
-                  <Card key={application._id} className="hover:shadow-md transition-shadow">
-                    <CardBody className="p-6">
-                      <div className="flex flex-col lg:flex-row lg:items-center gap-4">
-                        {/* Applicant Info */}
-                        <div className="flex-1">
-                          <div className="flex items-center gap-3 mb-2">
-                            <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
-                              {application.developer?.avatar ? (
-                                <img
-                                  src={application.developer.avatar}
-                                  alt={application.developer.name}
-                                  className="w-10 h-10 rounded-full object-cover"
-                                />
-                              ) : (
-                                <FiUser className="w-5 h-5 text-gray-500" />
-                              )}
-                            </div>
-                            <div>
-                              <h3 className="font-semibold text-gray-900">
-                                {application.developer?.name || "Unknown Applicant"}
-                              </h3>
-                              <p className="text-sm text-gray-500">
-                                {application.developer?.headline || "Developer"}
-                              </p>
-                            </div>
-                            <Badge variant={statusConfig.variant as any} className="ml-auto lg:hidden">
-                              <StatusIcon className="w-3 h-3 mr-1" />
-                              {statusConfig.label}
-                            </Badge>
-                          </div>
-
-                          {/* Contact & Links */}
-                          <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-3">
-                            {application.developer?.email && (
-                              <a
-                                href={`mailto:${application.developer.email}`}
-                                className="flex items-center gap-1.5 hover:text-blue-600"
-                              >
-                                <FiMail className="w-4 h-4" />
-                                {application.developer.email}
-                              </a>
-                            )}
-                            {application.developer?.githubUsername && (
-                              <a
-                                href={`https://github.com/${application.developer.githubUsername}`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-1.5 hover:text-blue-600"
-                              >
-                                <FiGithub className="w-4 h-4" />
-                                {application.developer.githubUsername}
-                              </a>
-                            )}
-                            <span className="flex items-center gap-1.5">
-                              <FiCalendar className="w-4 h-4" />
-                              Applied {formatDate(application.createdAt)}
-                            </span>
-                          </div>
-
-                          {/* Cover Letter Preview */}
-                          {application.coverLetter && (
-                            <p className="text-sm text-gray-600 line-clamp-2">
-                              {application.coverLetter}
-                            </p>
-                          )}
-                        </div>
-
-                        {/* Status & Actions */}
-                        <div className="flex flex-col items-end gap-3">
-                          <Badge variant={statusConfig.variant as any} className="hidden lg:flex">
-                            <StatusIcon className="w-3 h-3 mr-1" />
-                            {statusConfig.label}
-                          </Badge>
-
-                          <div className="flex flex-wrap gap-2">
-                            <Link href={`/developers/${application.developer?._id}`}>
-                              <Button variant="outline" size="sm" leftIcon={<FiExternalLink />}>
-                                View Profile
-                              </Button>
-                            </Link>
-
-                            {application.status === "PENDING" && (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => updateStatus(application._id, "REVIEWED")}
-                                isLoading={updating === application._id}
-                              >
-                                Mark Reviewed
-                              </Button>
-                            )}
-
-                            {(application.status === "PENDING" || application.status === "REVIEWED") && (
-                              <>
-                                <Button
-                                  variant="primary"
-                                  size="sm"
-                                  leftIcon={<FiCheck />}
-                                  onClick={() => updateStatus(application._id, "SHORTLISTED")}
-                                  isLoading={updating === application._id}
-                                >
-                                  Shortlist
-                                </Button>
-                                <Button
-                                  variant="danger"
-                                  size="sm"
-                                  leftIcon={<FiX />}
-                                  onClick={() => updateStatus(application._id, "REJECTED")}
-                                  isLoading={updating === application._id}
-                                >
-                                  Reject
-                                </Button>
-                              </>
-                            )}
-
-                            {application.status === "SHORTLISTED" && (
-                              <Button
-                                variant="primary"
-                                size="sm"
-                                leftIcon={<FiCheck />}
-                                onClick={() => updateStatus(application._id, "ACCEPTED")}
-                                isLoading={updating === application._id}
-                              >
-                                Accept
-                              </Button>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    </CardBody>
-                  </Card>
-                );
-              })
+              <ApplicationPipeline
+                applications={sortedApplications}
+                stages={stages}
+                screeningQuestions={screeningQuestions}
+                matchScores={matchScores}
+                interviews={interviews}
+                counts={counts}
+                selectedIds={selectedIds}
+                savingIds={savingIds}
+                onToggleSelect={toggleSelect}
+                onOpen={setOpenId}
+                onMove={moveApplications}
+              />
             )}
           </motion.div>
+
+          {/* Applications in a stage that was removed from the pipeline have no column */}
+          {unassignedApplications.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 }}
+              className="mt-8"
+            >
+              <h2 className="text-lg font-semibold text-gray-900">Unassigned</h2>
+              <p className="mb-3 text-sm text-gray-500">
+                Their stage was removed from this job. Open an application to move it into the
+                pipeline.
+              </p>
+              <Card>
+                <CardBody className="divide-y divide-gray-100 p-0">
+                  {unassignedApplications.map((application) => (
+                    <div
+                      key={application._id}
+                      className="flex items-center justify-between gap-4 px-4 py-3"
+                    >
+                      <button
+                        onClick={() => setOpenId(application._id)}
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {application.applicant?.username ?? "Unknown applicant"}
+                      </button>
+                      <StageBadge stages={stages} status={application.status} />
+                    </div>
+                  ))}
+                </CardBody>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Hired and withdrawn applications leave the board */}
+          {closedApplications.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="mt-8"
+            >
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Closed</h2>
+              <Card>
+                <CardBody className="divide-y divide-gray-100 p-0">
+                  {closedApplications.map((application) => (
+                    <div
+                      key={application._id}
+                      className="flex items-center justify-between gap-4 px-4 py-3"
+                    >
+                      <button
+                        onClick={() => setOpenId(application._id)}
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {application.applicant?.username ?? "Unknown applicant"}
+                      </button>
+                      <StageBadge stages={stages} status={application.status} />
+                    </div>
+                  ))}
+                </CardBody>
+              </Card>
+            </motion.div>
+          )}
         </div>
       </div>
+
+      <ApplicationDrawer
+        application={openApplication}
+        stages={stages}
+        screeningQuestions={screeningQuestions}
+        currentUserId={user?.id}
+        onClose={closeDrawer}
+        onMove={(status, note) =>
+          openId ? moveApplications([openId], status, note) : Promise.resolve(false)
+        }
+        interview={openId ? interviews[openId] : undefined}
+        onScheduleInterview={() => setScheduleForId(openId)}
+        onInterviewUpdated={upsertInterview}
+      />
+
+      <ScheduleInterviewModal
+        open={!!scheduleForId}
+        applicantName={scheduleApplication?.applicant?.username}
+        interview={
+          scheduleForId && isActiveInterview(interviews[scheduleForId])
+            ? interviews[scheduleForId]
+            : null
+        }
+        onClose={closeSchedule}
+        onSubmit={proposeInterview}
+      />
     </>
   );
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 /**
  * @file src/pages/jobs/[id]/apply.tsx
- * @description Apply to job page - developers only
+ * @description Apply to job page - developers only; a step-by-step wizard whose
+ * progress is kept as a draft so leaving the page loses nothing
  */
 
 import { useRouter } from "next/router";
@@ -10,7 +11,6 @@ import Link from "next/link";
 import { motion } from "framer-motion";
 import {
   FiArrowLeft,
-  FiSend,
   FiBriefcase,
   FiMapPin,
   FiDollarSign,
@@ -19,63 +19,29 @@ import {
   FiCheckCircle,
 } from "react-icons/fi";
 import toast from "react-hot-toast";
-import { jobAPINew, applicationAPI } from "@/lib/api";
-import { useAuthStore } from "@/store/authStore";
-import {
-  Card,
-  CardBody,
-  CardHeader,
-  Button,
-  Badge,
-  Textarea,
-  Input,
-  PageLoading,
-} from "@/components/common";
+import { jobService } from "@/services";
+import { Card, CardBody, Button, Badge, PageLoading } from "@/components/common";
+import { ApplyWizard } from "@/components/apply";
+import RoleRoute from "@/components/auth/RoleRoute";
 
-export default function ApplyToJobPage() {
+function ApplyToJobContent() {
   const router = useRouter();
   const { id } = router.query;
-  const { user, isAuthenticated, isLoading: authLoading } = useAuthStore();
 
   const [job, setJob] = useState<any>(null);
   const [loading, setLoading] = useState(true);
-  const [submitting, setSubmitting] = useState(false);
   const [alreadyApplied, setAlreadyApplied] = useState(false);
   const [applicationSuccess, setApplicationSuccess] = useState(false);
 
-  const [formData, setFormData] = useState({
-    coverLetter: "",
-    resumeUrl: "",
-  });
-
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  // Redirect if not authenticated or not a developer
-  useEffect(() => {
-    if (authLoading) return;
-
-    if (!isAuthenticated) {
-      router.push(`/auth/login?redirect=/jobs/${id}/apply`);
-      return;
-    }
-
-    if (user?.role !== "DEVELOPER") {
-      toast.error("Only developers can apply to jobs");
-      router.push(`/jobs/${id}`);
-      return;
-    }
-  }, [authLoading, isAuthenticated, user, router, id]);
-
   // Fetch job details
   useEffect(() => {
     if (!id || typeof id !== "string") return;
-    if (authLoading || !isAuthenticated) return;
 
     const fetchJob = async () => {
       setLoading(true);
       try {
-        const response = await jobAPINew.getById(id);
-        const jobData = response.data.data;
+        const response = await jobService.getJob(id);
+        const jobData = response.data;
 
         // Check if job is active
         if (!jobData.isActive) {
@@ -111,77 +77,7 @@ export default function ApplyToJobPage() {
     };
 
     fetchJob();
-  }, [id, authLoading, isAuthenticated, router]);
-
-  // Handle input changes
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
-  ) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
-
-    // Clear error when field is modified
-    if (errors[name]) {
-      setErrors((prev) => ({ ...prev, [name]: "" }));
-    }
-  };
-
-  // Validate form
-  const validate = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.coverLetter.trim()) {
-      newErrors.coverLetter = "Please write a cover letter";
-    } else if (formData.coverLetter.length < 50) {
-      newErrors.coverLetter = "Cover letter must be at least 50 characters";
-    } else if (formData.coverLetter.length > 5000) {
-      newErrors.coverLetter = "Cover letter cannot exceed 5000 characters";
-    }
-
-    if (formData.resumeUrl && formData.resumeUrl.trim()) {
-      try {
-        new URL(formData.resumeUrl);
-      } catch {
-        newErrors.resumeUrl = "Please enter a valid URL";
-      }
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!validate()) {
-      toast.error("Please fix the errors in the form");
-      return;
-    }
-
-    setSubmitting(true);
-
-    try {
-      await applicationAPI.apply(id as string, {
-        coverLetter: formData.coverLetter.trim(),
-        resumeUrl: formData.resumeUrl.trim() || undefined,
-      });
-
-      setApplicationSuccess(true);
-      toast.success("Application submitted successfully!");
-    } catch (err: any) {
-      const message =
-        err.response?.data?.message || "Failed to submit application";
-
-      if (message.toLowerCase().includes("already applied")) {
-        setAlreadyApplied(true);
-      }
-
-      toast.error(message);
-    } finally {
-      setSubmitting(false);
-    }
-  };
+  }, [id, router]);
 
   // Format salary
   const formatSalary = (salary: any) => {
@@ -215,7 +111,7 @@ export default function ApplyToJobPage() {
     return type?.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase());
   };
 
-  if (authLoading || loading) {
+  if (loading) {
     return <PageLoading />;
   }
 
@@ -362,63 +258,12 @@ export default function ApplyToJobPage() {
               transition={{ delay: 0.1 }}
               className="lg:col-span-2"
             >
-              <form onSubmit={handleSubmit}>
-                <Card>
-                  <CardHeader>
-                    <h2 className="font-semibold text-gray-900">
-                      Your Application
-                    </h2>
-                    <p className="text-sm text-gray-500">
-                      Tell the recruiter why you're a great fit for this role
-                    </p>
-                  </CardHeader>
-                  <CardBody className="space-y-4">
-                    {/* Cover Letter */}
-                    <div>
-                      <Textarea
-                        label="Cover Letter *"
-                        name="coverLetter"
-                        value={formData.coverLetter}
-                        onChange={handleChange}
-                        placeholder="Introduce yourself and explain why you're interested in this position. Highlight relevant experience and skills that make you a strong candidate..."
-                        rows={10}
-                        error={errors.coverLetter}
-                      />
-                      <p className="text-xs text-gray-500 mt-1">
-                        {formData.coverLetter.length}/5000 characters (minimum
-                        50)
-                      </p>
-                    </div>
-
-                    {/* Resume URL */}
-                    <div>
-                      <Input
-                        label="Resume URL (Optional)"
-                        name="resumeUrl"
-                        value={formData.resumeUrl}
-                        onChange={handleChange}
-                        placeholder="https://drive.google.com/your-resume or LinkedIn profile"
-                        error={errors.resumeUrl}
-                      />
-                      <p className="text-xs text-gray-500 mt-1">
-                        Link to your resume, portfolio, or LinkedIn profile
-                      </p>
-                    </div>
-
-                    {/* Submit Button */}
-                    <div className="pt-4">
-                      <Button
-                        type="submit"
-                        leftIcon={<FiSend />}
-                        isLoading={submitting}
-                        className="w-full sm:w-auto"
-                      >
-                        Submit Application
-                      </Button>
-                    </div>
-                  </CardBody>
-                </Card>
-              </form>
+              <ApplyWizard
+                key={job._id}
+                job={job}
+                onSubmitted={() => setApplicationSuccess(true)}
+                onAlreadyApplied={() => setAlreadyApplied(true)}
+              />
             </motion.div>
 
             {/* Job Summary Sidebar */}
@@ -503,3 +348,11 @@ export default function ApplyToJobPage() {
     </>
   );
 }
+
+export default function ApplyToJobPage() {
+  return (
+    <RoleRoute allowedRoles={["DEVELOPER"]} requireActive action="apply to jobs">
+      <ApplyToJobContent />
+    </RoleRoute>
+  );
+}
@@ -20,7 +20,7 @@ import {
   FiUsers,
 } from "react-icons/fi";
 import toast from "react-hot-toast";
-import { jobAPINew } from "@/lib/api";
+import { jobService } from "@/services";
 import { useAuthStore } from "@/store/authStore";
 import {
   Card,
@@ -47,10 +47,10 @@ export default function JobDetailsPage() {
     setLoading(true);
     setError(null);
 
-    jobAPINew
-      .getById(id)
+    jobService
+      .getJob(id)
       .then((res) => {
-        setJob(res.data.data);
+        setJob(res.data);
       })
       .catch((err) => {
         const message = err.response?.data?.message || "Failed to load job";
@@ -11,6 +11,8 @@ import { motion, AnimatePresence, type Variants } from "framer-motion";
 import { jobService } from "@/services/jobService";
 import { skillService } from "@/services/skillService";
 import { useAuthStore } from "@/store/authStore";
+import { useSavedSearches } from "@/hooks/useSavedSearches";
+import { describeJobFilters, parseJobFilters } from "@/lib/jobSearch";
 import LoadingSpinner from "@/components/common/Loading";
 import {
   Search,
@@ -28,42 +30,13 @@ import {
   Star,
   Users,
   Sparkles,
+  Bookmark,
+  BookmarkCheck,
+  Bell,
 } from "lucide-react";
+import type { JobPost } from "@/types";
 
-interface Job {
-  _id: string;
-  title: string;
-  companyName: string;
-  description: string;
-  location: {
-    city?: string;
-    state?: string;
-    country?: string;
-  };
-  workType: string;
-  requiredSkills: string[];
-  preferredSkills: string[];
-  minYearsExperience: number;
-  maxYearsExperience: number | null;
-  salary?: {
-    min?: number;
-    max?: number;
-    currency?: string;
-    isVisible?: boolean;
-  };
-  employmentType: string;
-  applicationDeadline: string | null;
-  isActive: boolean;
-  isFeatured: boolean;
-  viewCount: number;
-  createdAt: string;
-  recruiter: {
-    _id: string;
-    username: string;
-    avatar: string | null;
-  };
-  applicationCount?: number;
-}
+type Job = JobPost;
 
 interface Skill {
   _id: string;
@@ -146,6 +119,9 @@ export default function JobsPage() {
       workType: (query.workType as string) || "",
       country: (query.country as string) || "",
       employmentType: (query.employmentType as string) || "",
+      minSalary: (query.minSalary as string) || "",
+      maxExperience: (query.maxExperience as string) || "",
+      featured: query.featured === "true",
     };
   }, [mounted, router.isReady, router.query]);
 
@@ -166,8 +142,7 @@ export default function JobsPage() {
     const fetchSkills = async () => {
       try {
         const response = await skillService.getSkills();
-        const data = response.data?.data || response.data;
-        setSkills(Array.isArray(data) ? data : []);
+        setSkills(response.data);
       } catch (err) {
         console.error("Failed to fetch skills:", err);
       }
@@ -182,8 +157,7 @@ export default function JobsPage() {
     const fetchFeatured = async () => {
       try {
         const response = await jobService.getFeaturedJobs(3);
-        const data = response.data?.data || response.data;
-        setFeaturedJobs(data?.jobs || []);
+        setFeaturedJobs(response.data);
       } catch (err) {
         console.error("Failed to fetch featured jobs:", err);
       }
@@ -209,11 +183,14 @@ export default function JobsPage() {
         if (filters.country) params.country = filters.country;
         if (filters.employmentType)
           params.employmentType = filters.employmentType;
+        if (filters.minSalary) params.minSalary = Number(filters.minSalary);
+        if (filters.maxExperience)
+          params.maxExperience = Number(filters.maxExperience);
+        if (filters.featured) params.featured = true;
 
         const response = await jobService.getJobs(params);
-        const data = response.data?.data || response.data;
-        setJobs(data?.jobs || []);
-        setTotalCount(data?.pagination?.total || 0);
+        setJobs(response.data.items);
+        setTotalCount(response.data.pagination.total);
       } catch (err) {
         console.error("Failed to fetch jobs:", err);
         setJobs([]);
@@ -280,12 +257,43 @@ export default function JobsPage() {
       filters.skills ||
       filters.workType ||
       filters.country ||
-      filters.employmentType);
+      filters.employmentType ||
+      filters.minSalary ||
+      filters.maxExperience ||
+      filters.featured);
 
   const totalPages = Math.ceil(totalCount / limit);
   const currentPage = filters?.page || 1;
   const isRecruiter = user?.role === "RECRUITER";
 
+  // Saved searches (developers and signed-out visitors)
+  const { searches, saveSearch, findSearch, markSeen } = useSavedSearches();
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const [saveAlerts, setSaveAlerts] = useState(false);
+
+  const searchFilters = useMemo(
+    () => (filters ? parseJobFilters(router.query) : {}),
+    [filters, router.query]
+  );
+  const savedMatch = hasActiveFilters ? findSearch(searchFilters) : undefined;
+  const savedMatchId = savedMatch?._id;
+
+  // Viewing a saved search's results resets its "new since last visit" count
+  useEffect(() => {
+    if (savedMatchId) markSeen(savedMatchId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedMatchId]);
+
+  const handleSaveSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = saveName.trim() || describeJobFilters(searchFilters).join(", ");
+    saveSearch(name, searchFilters, saveAlerts && !!user);
+    setShowSaveForm(false);
+    setSaveName("");
+    setSaveAlerts(false);
+  };
+
   // SSR and initial client render
   if (!mounted) {
     return (
@@ -418,6 +426,9 @@ export default function JobsPage() {
                         filters?.workType,
                         filters?.country,
                         filters?.employmentType,
+                        filters?.minSalary,
+                        filters?.maxExperience,
+                        filters?.featured,
                       ].filter(Boolean).length
                     }
                   </span>
@@ -509,6 +520,61 @@ export default function JobsPage() {
                       />
                     </div>
 
+                    {/* Min salary */}
+                    <div>
+                      <label className="block text-sm font-medium text-white/75 mb-2">
+                        Minimum Salary
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1000}
+                        value={filters?.minSalary || ""}
+                        onChange={(e) =>
+                          updateFilters({ minSalary: e.target.value || null })
+                        }
+                        placeholder="e.g., 80000"
+                        className={[
+                          "w-full rounded-2xl border border-white/10 bg-white/5 px-3 py-3 text-sm text-white placeholder:text-white/35",
+                          "outline-none focus:ring-2 focus:ring-sky-500/40 focus:border-sky-400/40",
+                        ].join(" ")}
+                      />
+                    </div>
+
+                    {/* Max experience */}
+                    <div>
+                      <label className="block text-sm font-medium text-white/75 mb-2">
+                        Max Years Required
+                      </label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={30}
+                        value={filters?.maxExperience || ""}
+                        onChange={(e) =>
+                          updateFilters({ maxExperience: e.target.value || null })
+                        }
+                        placeholder="e.g., 3"
+                        className={[
+                          "w-full rounded-2xl border border-white/10 bg-white/5 px-3 py-3 text-sm text-white placeholder:text-white/35",
+                          "outline-none focus:ring-2 focus:ring-sky-500/40 focus:border-sky-400/40",
+                        ].join(" ")}
+                      />
+                    </div>
+
+                    {/* Featured */}
+                    <label className="flex items-end gap-3 pb-3 text-sm font-medium text-white/75 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!filters?.featured}
+                        onChange={(e) =>
+                          updateFilters({ featured: e.target.checked ? "true" : null })
+                        }
+                        className="h-4 w-4 rounded border-white/20 bg-white/5 accent-sky-400"
+                      />
+                      Featured only
+                    </label>
+
                     {/* Clear */}
                     <div className="flex items-end">
                       <button
@@ -579,6 +645,30 @@ export default function JobsPage() {
                 </Chip>
               )}
 
+              {filters?.country && (
+                <Chip onClear={() => updateFilters({ country: null })}>
+                  {filters.country}
+                </Chip>
+              )}
+
+              {filters?.minSalary && (
+                <Chip onClear={() => updateFilters({ minSalary: null })}>
+                  {Number(filters.minSalary).toLocaleString()}+ salary
+                </Chip>
+              )}
+
+              {filters?.maxExperience && (
+                <Chip onClear={() => updateFilters({ maxExperience: null })}>
+                  ≤ {filters.maxExperience} yrs experience
+                </Chip>
+              )}
+
+              {filters?.featured && (
+                <Chip onClear={() => updateFilters({ featured: null })}>
+                  Featured
+                </Chip>
+              )}
+
               {selectedSkills.map((slug) => (
                 <Chip key={slug} onClear={() => toggleSkill(slug)}>
                   {skills.find((s) => s.slug === slug)?.name || slug}
@@ -587,15 +677,96 @@ export default function JobsPage() {
             </div>
           )}
 
-          {/* Results count */}
-          <div className="mb-6 flex items-center justify-between">
+          {/* Results count + saved searches */}
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
             <p className="text-white/60 text-sm">
               {loading
                 ? "Loading..."
                 : `${totalCount} job${totalCount !== 1 ? "s" : ""} found`}
             </p>
+
+            {!isRecruiter && (
+              <div className="flex items-center gap-2">
+                {searches.length > 0 && (
+                  <Link
+                    href="/saved-searches"
+                    className="text-sm text-white/55 hover:text-white"
+                  >
+                    Saved searches ({searches.length})
+                  </Link>
+                )}
+
+                {hasActiveFilters &&
+                  (savedMatch ? (
+                    <span className="inline-flex items-center gap-2 rounded-2xl border border-emerald-300/20 bg-emerald-400/10 px-3 py-2 text-sm text-emerald-200">
+                      <BookmarkCheck size={16} />
+                      Saved as “{savedMatch.name}”
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => setShowSaveForm((v) => !v)}
+                      className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm font-semibold text-white/80 hover:bg-white/10"
+                    >
+                      <Bookmark size={16} />
+                      Save search
+                    </button>
+                  ))}
+              </div>
+            )}
           </div>
 
+          {/* Save search form */}
+          <AnimatePresence>
+            {showSaveForm && hasActiveFilters && !savedMatch && (
+              <motion.form
+                initial="hidden"
+                animate="visible"
+                exit="exit"
+                variants={pop}
+                onSubmit={handleSaveSearch}
+                className="mb-6"
+              >
+                <GlassCard className="p-4 flex flex-col gap-3 md:flex-row md:items-center">
+                  <input
+                    type="text"
+                    autoFocus
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    placeholder={describeJobFilters(searchFilters).join(", ")}
+                    maxLength={60}
+                    className={[
+                      "flex-1 rounded-2xl border border-white/10 bg-white/5 px-3 py-2.5 text-sm text-white placeholder:text-white/35",
+                      "outline-none focus:ring-2 focus:ring-sky-500/40 focus:border-sky-400/40",
+                    ].join(" ")}
+                  />
+                  <label
+                    className={[
+                      "inline-flex items-center gap-2 text-sm",
+                      user ? "text-white/75 cursor-pointer" : "text-white/35",
+                    ].join(" ")}
+                    title={user ? undefined : "Sign in to get job alerts"}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={saveAlerts}
+                      disabled={!user}
+                      onChange={(e) => setSaveAlerts(e.target.checked)}
+                      className="h-4 w-4 accent-sky-400"
+                    />
+                    <Bell size={14} />
+                    Notify me about new matches
+                  </label>
+                  <button
+                    type="submit"
+                    className="rounded-2xl bg-white px-4 py-2.5 text-sm font-semibold text-black hover:bg-white/90"
+                  >
+                    Save
+                  </button>
+                </GlassCard>
+              </motion.form>
+            )}
+          </AnimatePresence>
+
           {/* Loading */}
           {loading && (
             <div className="flex justify-center py-12">
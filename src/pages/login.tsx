@@ -8,6 +8,7 @@ import { useRouter } from "next/router";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
 import { LoginForm } from "@/components/auth";
+import { getSafeRedirect } from "@/lib/utils";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -15,8 +16,7 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (isAuthenticated) {
-      const redirect = (router.query.redirect as string) || "/";
-      router.push(redirect);
+      router.push(getSafeRedirect(router.query.redirect));
     }
   }, [isAuthenticated, router]);
 
@@ -0,0 +1,493 @@
+/**
+ * @file src/pages/messages.tsx
+ * @description Direct messages inbox
+ * - Conversation list with unread counts and typing state
+ * - Thread with read receipts; composer with markdown preview
+ * - /messages?to=<username> starts (or opens) a conversation,
+ *   respecting the recipient's "Allow Messages" setting
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { messageService } from "@/services/messageService";
+import { userService } from "@/services/userService";
+import { useMessageStore } from "@/store/messageStore";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import LoadingSpinner from "@/components/common/Loading";
+import {
+  ConversationList,
+  MessageComposer,
+  MessageThread,
+  ParticipantAvatar,
+  getOtherParticipant,
+} from "@/components/messages";
+import type {
+  Conversation,
+  ConversationParticipant,
+  Message,
+  UserProfileResponse,
+} from "@/types";
+import { ArrowLeft, Lock, MessagesSquare } from "lucide-react";
+
+const PAGE_SIZE = 30;
+// Hide "typing…" if the stop signal never arrives
+const TYPING_TIMEOUT_MS = 6000;
+
+// 403 from the API means the recipient has turned messages off
+const sendErrorMessage = (err: unknown, username?: string) =>
+  (err as { response?: { status?: number } })?.response?.status === 403
+    ? `${username || "This user"} isn't accepting messages`
+    : "Failed to send message";
+
+export default function MessagesPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { error } = useToast();
+  const decrementUnread = useMessageStore((state) => state.decrementUnread);
+  const currentUserId = user?.id;
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [typingIds, setTypingIds] = useState<Set<string>>(() => new Set());
+  // Recipient for a conversation that doesn't exist yet (?to=)
+  const [recipient, setRecipient] = useState<UserProfileResponse | null>(null);
+
+  const typingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const conversationsRef = useRef(conversations);
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  const activeId = typeof router.query.c === "string" ? router.query.c : null;
+  const toUsername = typeof router.query.to === "string" ? router.query.to : null;
+  const activeConversation = conversations.find((c) => c._id === activeId);
+  const newRecipient =
+    !activeId && toUsername && recipient?.username === toUsername ? recipient : null;
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      const target = router.asPath || "/messages";
+      router.push(`/login?redirect=${encodeURIComponent(target)}`);
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    messageService
+      .getConversations()
+      .then((res) => setConversations(res.data))
+      .catch(() => error("Failed to load conversations"))
+      .finally(() => setLoading(false));
+  }, [isAuthenticated, error]);
+
+  const openConversation = useCallback(
+    (conversationId: string, replace = false) => {
+      const url = { pathname: "/messages", query: { c: conversationId } };
+      if (replace) router.replace(url, undefined, { shallow: true });
+      else router.push(url, undefined, { shallow: true });
+    },
+    [router]
+  );
+
+  // ?to=<username>: open the existing conversation, or look the user up to start one
+  useEffect(() => {
+    if (!toUsername || loading) return;
+
+    if (toUsername === user?.username) {
+      error("You can't message yourself");
+      return;
+    }
+
+    const existing = conversationsRef.current.find((c) =>
+      c.participants.some((p) => p.username === toUsername)
+    );
+    if (existing) {
+      openConversation(existing._id, true);
+      return;
+    }
+
+    let cancelled = false;
+    userService
+      .getUserByUsername(toUsername)
+      .then((res) => {
+        if (!cancelled) setRecipient(res.data);
+      })
+      .catch(() => {
+        if (!cancelled) error("User not found");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [toUsername, loading, user?.username, openConversation, error]);
+
+  // Newest conversation first
+  const upsertConversation = (conversation: Conversation) => {
+    setConversations((prev) => [
+      conversation,
+      ...prev.filter((c) => c._id !== conversation._id),
+    ]);
+  };
+
+  const handleRead = (conversationId: string, count: number) => {
+    setConversations((prev) =>
+      prev.map((c) => (c._id === conversationId ? { ...c, unreadCount: 0 } : c))
+    );
+    if (count > 0) decrementUnread(count);
+    messageService.markRead(conversationId).catch(() => {});
+  };
+
+  const handleSent = (conversationId: string, message: Message) => {
+    setConversations((prev) => {
+      const conversation = prev.find((c) => c._id === conversationId);
+      if (!conversation) return prev;
+      return [
+        { ...conversation, lastMessage: message, updatedAt: message.createdAt },
+        ...prev.filter((c) => c._id !== conversationId),
+      ];
+    });
+  };
+
+  const handleStart = async (content: string) => {
+    if (!newRecipient) return false;
+    try {
+      const response = await messageService.startConversation(newRecipient.username, content);
+      const { conversation, message } = response.data;
+      upsertConversation({ ...conversation, lastMessage: message, unreadCount: 0 });
+      openConversation(conversation._id, true);
+      return true;
+    } catch (err) {
+      error(sendErrorMessage(err, newRecipient.username));
+      return false;
+    }
+  };
+
+  const setTyping = (conversationId: string, isTyping: boolean) => {
+    const timers = typingTimers.current;
+    const existing = timers.get(conversationId);
+    if (existing) clearTimeout(existing);
+    timers.delete(conversationId);
+
+    setTypingIds((prev) => {
+      if (prev.has(conversationId) === isTyping) return prev;
+      const next = new Set(prev);
+      if (isTyping) next.add(conversationId);
+      else next.delete(conversationId);
+      return next;
+    });
+
+    if (isTyping) {
+      timers.set(
+        conversationId,
+        setTimeout(() => setTyping(conversationId, false), TYPING_TIMEOUT_MS)
+      );
+    }
+  };
+
+  useEffect(() => {
+    const timers = typingTimers.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  useRealtimeEvent(
+    "message:created",
+    (message) => {
+      setTyping(message.conversation, false);
+
+      const known = conversationsRef.current.some((c) => c._id === message.conversation);
+      if (!known) {
+        // First message of a conversation someone else started
+        messageService
+          .getConversations()
+          .then((res) => setConversations(res.data))
+          .catch(() => {});
+        return;
+      }
+
+      const unseen = message.sender !== currentUserId && message.conversation !== activeId;
+      setConversations((prev) => {
+        const conversation = prev.find((c) => c._id === message.conversation);
+        if (!conversation) return prev;
+        return [
+          {
+            ...conversation,
+            lastMessage: message,
+            updatedAt: message.createdAt,
+            unreadCount: conversation.unreadCount + (unseen ? 1 : 0),
+          },
+          ...prev.filter((c) => c._id !== message.conversation),
+        ];
+      });
+    },
+    isAuthenticated
+  );
+
+  useRealtimeEvent(
+    "conversation:typing",
+    ({ conversationId, userId, isTyping }) => {
+      if (userId !== currentUserId) setTyping(conversationId, isTyping);
+    },
+    isAuthenticated
+  );
+
+  if (authLoading || !isAuthenticated) {
+    return (
+      <div className="flex justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const showThread = !!activeConversation || !!newRecipient;
+
+  return (
+    <>
+      <Head>
+        <title>Messages - DevMatch</title>
+        <meta name="description" content="Your DevMatch conversations" />
+      </Head>
+
+      <div className="mx-auto max-w-6xl px-4 py-10">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-white">Messages</h1>
+          <p className="mt-2 text-white/60">Talk to recruiters and developers directly.</p>
+        </div>
+
+        <div className="grid h-[calc(100vh-14rem)] min-h-[480px] overflow-hidden rounded-3xl border border-white/10 bg-white/[0.04] md:grid-cols-[320px_1fr]">
+          {/* Conversations */}
+          <aside
+            className={[
+              "overflow-y-auto border-white/10 md:border-r",
+              showThread ? "hidden md:block" : "block",
+            ].join(" ")}
+          >
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="md" />
+              </div>
+            ) : conversations.length === 0 ? (
+              <div className="px-6 py-12 text-center">
+                <MessagesSquare className="mx-auto mb-3 text-white/25" size={40} />
+                <p className="text-sm text-white/55">
+                  No conversations yet. Use “Message” on a profile to start one.
+                </p>
+              </div>
+            ) : (
+              <ConversationList
+                conversations={conversations}
+                activeId={activeId}
+                currentUserId={currentUserId}
+                typingIds={typingIds}
+                onSelect={(id) => openConversation(id)}
+              />
+            )}
+          </aside>
+
+          {/* Thread */}
+          <section className={["min-h-0 flex-col", showThread ? "flex" : "hidden md:flex"].join(" ")}>
+            {activeConversation ? (
+              <ConversationPane
+                key={activeConversation._id}
+                conversation={activeConversation}
+                currentUserId={currentUserId}
+                isTyping={typingIds.has(activeConversation._id)}
+                onRead={(count) => handleRead(activeConversation._id, count)}
+                onSent={(message) => handleSent(activeConversation._id, message)}
+              />
+            ) : newRecipient ? (
+              <>
+                <ThreadHeader
+                  participant={{
+                    _id: newRecipient.id,
+                    username: newRecipient.username,
+                    avatar: newRecipient.avatar,
+                    role: newRecipient.role,
+                  }}
+                />
+                <div className="flex-1" />
+                {newRecipient.allowMessages === false ? (
+                  <MessagesOffNotice username={newRecipient.username} />
+                ) : (
+                  <MessageComposer
+                    onSend={handleStart}
+                    placeholder={`Message ${newRecipient.username}…`}
+                  />
+                )}
+              </>
+            ) : (
+              <div className="flex flex-1 items-center justify-center text-sm text-white/45">
+                Select a conversation
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/* ---------- Thread ---------- */
+
+function ConversationPane({
+  conversation,
+  currentUserId,
+  isTyping,
+  onRead,
+  onSent,
+}: {
+  conversation: Conversation;
+  currentUserId?: string;
+  isTyping: boolean;
+  onRead: (count: number) => void;
+  onSent: (message: Message) => void;
+}) {
+  const { error } = useToast();
+  const other = getOtherParticipant(conversation, currentUserId);
+
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const onReadRef = useRef(onRead);
+  useEffect(() => {
+    onReadRef.current = onRead;
+  });
+
+  // Keyed by conversation id, so this runs once per opened conversation
+  const initialUnread = useRef(conversation.unreadCount);
+  useEffect(() => {
+    messageService
+      .getMessages(conversation._id, { limit: PAGE_SIZE })
+      .then((res) => {
+        setMessages(res.data.items);
+        setHasMore(res.data.pagination.hasNextPage);
+        if (initialUnread.current > 0) onReadRef.current(initialUnread.current);
+      })
+      .catch(() => error("Failed to load messages"))
+      .finally(() => setLoading(false));
+  }, [conversation._id, error]);
+
+  const loadEarlier = async () => {
+    if (!messages[0]) return;
+    setLoading(true);
+    try {
+      const response = await messageService.getMessages(conversation._id, {
+        before: messages[0].createdAt,
+        limit: PAGE_SIZE,
+      });
+      setMessages((prev) => [...response.data.items, ...prev]);
+      setHasMore(response.data.pagination.hasNextPage);
+    } catch {
+      error("Failed to load messages");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const appendMessage = (message: Message) => {
+    setMessages((prev) => (prev.some((m) => m._id === message._id) ? prev : [...prev, message]));
+  };
+
+  const handleSend = async (content: string) => {
+    try {
+      const response = await messageService.sendMessage(conversation._id, content);
+      appendMessage(response.data);
+      onSent(response.data);
+      return true;
+    } catch (err) {
+      error(sendErrorMessage(err, other?.username));
+      return false;
+    }
+  };
+
+  const handleTyping = (typing: boolean) => {
+    messageService.sendTyping(conversation._id, typing).catch(() => {});
+  };
+
+  useRealtimeEvent("message:created", (message) => {
+    if (message.conversation !== conversation._id) return;
+    appendMessage(message);
+    // The navbar counted it as unread; it's being read right now
+    if (message.sender !== currentUserId) onRead(1);
+  });
+
+  useRealtimeEvent("message:read", ({ conversationId, userId, readAt }) => {
+    if (conversationId !== conversation._id || userId === currentUserId) return;
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.sender === currentUserId && !m.readBy.includes(userId) && m.createdAt <= readAt
+          ? { ...m, readBy: [...m.readBy, userId] }
+          : m
+      )
+    );
+  });
+
+  return (
+    <>
+      <ThreadHeader participant={other} />
+      <MessageThread
+        messages={messages}
+        currentUserId={currentUserId}
+        other={other}
+        isTyping={isTyping}
+        hasMore={hasMore}
+        loadingMore={loading}
+        onLoadMore={loadEarlier}
+      />
+      <MessageComposer
+        onSend={handleSend}
+        onTyping={handleTyping}
+        placeholder={other ? `Message ${other.username}…` : undefined}
+      />
+    </>
+  );
+}
+
+function ThreadHeader({ participant }: { participant?: ConversationParticipant }) {
+  return (
+    <div className="flex items-center gap-3 border-b border-white/10 px-4 py-3">
+      <Link
+        href="/messages"
+        className="rounded-xl p-1.5 text-white/60 hover:bg-white/10 hover:text-white md:hidden"
+        aria-label="Back to conversations"
+      >
+        <ArrowLeft size={18} />
+      </Link>
+      <ParticipantAvatar participant={participant} size="sm" />
+      <div className="min-w-0">
+        {participant ? (
+          <Link
+            href={`/profile/${participant.username}`}
+            className="block truncate text-sm font-semibold text-white hover:text-sky-200"
+          >
+            {participant.username}
+          </Link>
+        ) : (
+          <span className="text-sm font-semibold text-white/70">Unknown user</span>
+        )}
+        {participant?.role && (
+          <span className="text-xs capitalize text-white/45">
+            {participant.role.toLowerCase()}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function MessagesOffNotice({ username }: { username: string }) {
+  return (
+    <div className="flex items-center gap-2 border-t border-white/10 px-4 py-4 text-sm text-white/55">
+      <Lock size={16} />
+      {username} isn&apos;t accepting messages.
+    </div>
+  );
+}
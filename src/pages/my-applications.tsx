@@ -8,14 +8,23 @@ import Link from "next/link";
 import Head from "next/head";
 import { useRouter } from "next/router";
 import { applicationService } from "@/services/applicationService";
+import { interviewService } from "@/services/interviewService";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+import { useApplicationDrafts } from "@/hooks/useApplicationDrafts";
 import { useToast } from "@/contexts/ToastContext";
 import LoadingSpinner from "@/components/common/Loading";
+import { InterviewCard, latestByApplication } from "@/components/interviews";
+import { StageBadge, getStageConfig } from "@/components/applications";
+import { APPLY_STEP_LABELS } from "@/components/apply";
+import {
+  DEFAULT_HIRING_STAGES,
+  findStage,
+  getInitialStage,
+  getJobStages,
+  mergeStages,
+} from "@/lib/hiringStages";
 import {
   Briefcase,
-  Clock,
-  CheckCircle,
-  XCircle,
-  Eye,
   MapPin,
   Building,
   Calendar,
@@ -24,7 +33,11 @@ import {
   FileText,
   ChevronLeft,
   ChevronRight,
+  Clock,
+  PenLine,
 } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+import type { ApplicationStatus, HiringStage, Interview } from "@/types";
 
 interface Application {
   _id: string;
@@ -38,8 +51,9 @@ interface Application {
     };
     workType: string;
     isActive: boolean;
+    stages?: HiringStage[];
   };
-  status: "PENDING" | "REVIEWED" | "SHORTLISTED" | "REJECTED";
+  status: ApplicationStatus;
   coverLetter?: string;
   appliedAt: string;
   updatedAt: string;
@@ -51,29 +65,6 @@ interface ApplicationParams {
   status?: string;
 }
 
-const STATUS_CONFIG = {
-  PENDING: {
-    label: "Pending",
-    color: "bg-yellow-100 text-yellow-800",
-    icon: Clock,
-  },
-  REVIEWED: {
-    label: "Reviewed",
-    color: "bg-blue-100 text-blue-800",
-    icon: Eye,
-  },
-  SHORTLISTED: {
-    label: "Shortlisted",
-    color: "bg-green-100 text-green-800",
-    icon: CheckCircle,
-  },
-  REJECTED: {
-    label: "Rejected",
-    color: "bg-red-100 text-red-800",
-    icon: XCircle,
-  },
-} as const;
-
 export default function MyApplications() {
   const router = useRouter();
   const { success, error: showError } = useToast();
@@ -82,6 +73,9 @@ export default function MyApplications() {
   const [loading, setLoading] = useState(true);
   const [totalCount, setTotalCount] = useState(0);
   const [withdrawing, setWithdrawing] = useState<string | null>(null);
+  // Latest interview per application id
+  const [interviews, setInterviews] = useState<Record<string, Interview>>({});
+  const { drafts, discardDraft } = useApplicationDrafts();
 
   // Use ref to prevent duplicate fetches
   const hasFetched = useRef(false);
@@ -114,9 +108,8 @@ export default function MyApplications() {
         if (statusFilter) params.status = statusFilter;
 
         const response = await applicationService.getMyApplications(params);
-        const data = response.data?.data || response.data;
-        setApplications(data?.applications || []);
-        setTotalCount(data?.pagination?.total || 0);
+        setApplications(response.data.items);
+        setTotalCount(response.data.pagination.total);
       } catch (err) {
         showError("Failed to load applications");
       } finally {
@@ -127,6 +120,14 @@ export default function MyApplications() {
     fetchApplications();
   }, [router.isReady, currentPage, statusFilter]);
 
+  // Interviews for all applications; one request covers every page
+  useEffect(() => {
+    interviewService
+      .getInterviews()
+      .then((res) => setInterviews(latestByApplication(res.data)))
+      .catch(() => {});
+  }, []);
+
   const updateFilters = (updates: Record<string, string | null>) => {
     const newQuery: Record<string, string> = { ...router.query } as Record<
       string,
@@ -154,13 +155,35 @@ export default function MyApplications() {
     updateFilters({ page: newPage.toString() });
   };
 
+  // Live status updates from recruiters
+  useRealtimeEvent("application:status", ({ applicationId, status }) => {
+    setApplications((prev) =>
+      prev.map((a) => (a._id === applicationId ? { ...a, status } : a))
+    );
+  });
+
+  const upsertInterview = (interview: Interview) => {
+    setInterviews((prev) => ({ ...prev, [interview.application]: interview }));
+  };
+
+  // Live interview changes from recruiters
+  useRealtimeEvent("interview:updated", (interview) => {
+    upsertInterview(interview);
+    const company = interview.jobPost.companyName;
+    if (interview.status === "PROPOSED") {
+      success(`${company} sent interview times to pick from`);
+    } else if (interview.status === "CANCELLED" && interview.cancelledBy === "RECRUITER") {
+      showError(`${company} cancelled the interview`);
+    }
+  });
+
   const handleWithdraw = async (applicationId: string) => {
     if (!window.confirm("Are you sure you want to withdraw this application?"))
       return;
 
     setWithdrawing(applicationId);
     try {
-      await applicationService.withdrawApplication(applicationId);
+      await applicationService.withdraw(applicationId);
       setApplications((prev) => prev.filter((a) => a._id !== applicationId));
       setTotalCount((prev) => prev - 1);
       success("Application withdrawn");
@@ -171,8 +194,20 @@ export default function MyApplications() {
     }
   };
 
+  const handleDiscardDraft = (jobId: string) => {
+    if (!window.confirm("Discard this unfinished application?")) return;
+    discardDraft(jobId);
+  };
+
   const totalPages = Math.ceil(totalCount / limit);
 
+  // Each job has its own pipeline; offer every stage seen, plus the active filter
+  const filterStages = mergeStages(
+    DEFAULT_HIRING_STAGES,
+    ...applications.map((application) => getJobStages(application.jobPost)),
+    statusFilter ? [findStage(DEFAULT_HIRING_STAGES, statusFilter)] : []
+  );
+
   return (
     <>
       <Head>
@@ -201,26 +236,85 @@ export default function MyApplications() {
             >
               All ({totalCount})
             </button>
-            {Object.entries(STATUS_CONFIG).map(([statusKey, config]) => {
-              const IconComponent = config.icon;
+            {filterStages.map((stage) => {
+              const IconComponent = getStageConfig(filterStages, stage.key).icon;
               return (
                 <button
-                  key={statusKey}
-                  onClick={() => updateFilters({ status: statusKey })}
+                  key={stage.key}
+                  onClick={() => updateFilters({ status: stage.key })}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${
-                    statusFilter === statusKey
+                    statusFilter === stage.key
                       ? "bg-blue-600 text-white"
                       : "bg-gray-100 text-gray-700 hover:bg-gray-200"
                   }`}
                 >
                   <IconComponent size={14} />
-                  {config.label}
+                  {stage.label}
                 </button>
               );
             })}
           </div>
         </div>
 
+        {/* Unsent drafts, saved while applying */}
+        {!statusFilter && currentPage === 1 && drafts.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">
+              In progress ({drafts.length})
+            </h2>
+            <div className="space-y-3">
+              {drafts.map((draft) => (
+                <div
+                  key={draft.jobId}
+                  className="bg-white rounded-lg border border-dashed border-gray-300 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 flex-wrap mb-1">
+                      <Link
+                        href={`/jobs/${draft.jobId}`}
+                        className="font-semibold text-gray-900 hover:text-blue-600"
+                      >
+                        {draft.job.title}
+                      </Link>
+                      <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full text-xs">
+                        Not submitted
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-gray-600 flex-wrap">
+                      <span className="flex items-center gap-1">
+                        <Building size={14} />
+                        {draft.job.companyName}
+                      </span>
+                      <span>Stopped at: {APPLY_STEP_LABELS[draft.step]}</span>
+                      <span className="flex items-center gap-1 text-xs text-gray-500">
+                        <Clock size={12} />
+                        Edited {formatRelativeTime(draft.updatedAt).toLowerCase()}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Link
+                      href={`/jobs/${draft.jobId}/apply`}
+                      className="px-3 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg flex items-center gap-2 text-sm"
+                    >
+                      <PenLine size={16} />
+                      Continue
+                    </Link>
+                    <button
+                      onClick={() => handleDiscardDraft(draft.jobId)}
+                      className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg flex items-center gap-2 text-sm"
+                    >
+                      <Trash2 size={16} />
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Loading */}
         {loading && (
           <div className="flex justify-center py-12">
@@ -232,8 +326,7 @@ export default function MyApplications() {
         {!loading && applications.length > 0 && (
           <div className="space-y-4 mb-8">
             {applications.map((application) => {
-              const statusConfig = STATUS_CONFIG[application.status];
-              const StatusIcon = statusConfig.icon;
+              const stages = getJobStages(application.jobPost);
 
               return (
                 <div
@@ -249,12 +342,7 @@ export default function MyApplications() {
                         >
                           {application.jobPost.title}
                         </Link>
-                        <span
-                          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${statusConfig.color}`}
-                        >
-                          <StatusIcon size={12} />
-                          {statusConfig.label}
-                        </span>
+                        <StageBadge stages={stages} status={application.status} />
                         {!application.jobPost.isActive && (
                           <span className="px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full text-xs">
                             Job Closed
@@ -304,7 +392,7 @@ export default function MyApplications() {
                         <ExternalLink size={16} />
                         View Job
                       </Link>
-                      {application.status === "PENDING" && (
+                      {application.status === getInitialStage(stages).key && (
                         <button
                           onClick={() => handleWithdraw(application._id)}
                           disabled={withdrawing === application._id}
@@ -320,6 +408,15 @@ export default function MyApplications() {
                       )}
                     </div>
                   </div>
+
+                  {interviews[application._id] && (
+                    <InterviewCard
+                      interview={interviews[application._id]}
+                      viewer="DEVELOPER"
+                      onUpdated={upsertInterview}
+                      className="mt-4"
+                    />
+                  )}
                 </div>
               );
             })}
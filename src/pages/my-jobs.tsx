@@ -23,6 +23,7 @@ import {
   ToggleRight,
   Calendar,
   ExternalLink,
+  BarChart3,
 } from "lucide-react";
 
 interface Job {
@@ -36,7 +37,7 @@ interface Job {
   workType: string;
   isActive: boolean;
   viewCount: number;
-  applicationCount: number;
+  applicationCount?: number;
   createdAt: string;
 }
 
@@ -75,8 +76,7 @@ const MyJobs = () => {
       hasFetched.current = true;
       try {
         const response = await jobService.getMyJobs();
-        const data = response.data?.data || response.data;
-        setJobs(Array.isArray(data) ? data : data?.jobs || []);
+        setJobs(response.data.items);
       } catch (err: any) {
         if (err.response?.status !== 429) {
           error("Failed to load jobs");
@@ -266,6 +266,13 @@ const MyJobs = () => {
                     >
                       <Users size={18} />
                     </Link>
+                    <Link
+                      href={`/jobs/${job._id}/analytics`}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                      title="Analytics"
+                    >
+                      <BarChart3 size={18} />
+                    </Link>
                     <Link
                       href={`/jobs/${job._id}`}
                       className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
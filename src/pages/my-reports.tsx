@@ -0,0 +1,241 @@
+/**
+ * @file src/pages/my-reports.tsx
+ * @description Reports the signed-in user has filed, with their review status
+ */
+
+import { useEffect, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { ChevronLeft, ChevronRight, ExternalLink, Flag } from "lucide-react";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import LoadingSpinner from "@/components/common/Loading";
+import { reportService } from "@/services/reportService";
+import {
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_STYLES,
+  REPORT_TARGET_LABELS,
+  getReportOutcome,
+  getReportReasonLabel,
+  getReportTargetHref,
+} from "@/lib/reports";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type { PaginationMeta, Report, ReportStatus } from "@/types";
+
+const STATUSES: ReportStatus[] = ["PENDING", "REVIEWED", "RESOLVED"];
+const LIMIT = 10;
+
+interface ReportsResult {
+  key: string;
+  reports: Report[];
+  pagination: PaginationMeta | null;
+  error: boolean;
+}
+
+const isReportStatus = (value: unknown): value is ReportStatus =>
+  typeof value === "string" && STATUSES.includes(value as ReportStatus);
+
+function MyReports() {
+  const router = useRouter();
+  const status = isReportStatus(router.query.status) ? router.query.status : undefined;
+  const page = Math.max(1, parseInt((router.query.page as string) || "1", 10) || 1);
+
+  const [result, setResult] = useState<ReportsResult | null>(null);
+  const requestKey = `${status ?? "all"}:${page}`;
+  const loading = result?.key !== requestKey;
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    let alive = true;
+    const key = `${status ?? "all"}:${page}`;
+
+    reportService
+      .getMyReports({ status, page, limit: LIMIT })
+      .then((res) => {
+        if (alive) {
+          setResult({ key, reports: res.data.items, pagination: res.data.pagination, error: false });
+        }
+      })
+      .catch(() => {
+        if (alive) setResult({ key, reports: [], pagination: null, error: true });
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [router.isReady, status, page]);
+
+  const updateQuery = (updates: { status?: ReportStatus | null; page?: number }) => {
+    const query: Record<string, string> = {};
+    const nextStatus = "status" in updates ? updates.status : status;
+    if (nextStatus) query.status = nextStatus;
+    const nextPage = updates.page ?? 1;
+    if (nextPage > 1) query.page = String(nextPage);
+    router.push({ pathname: "/my-reports", query }, undefined, { shallow: true });
+  };
+
+  const reports = loading ? [] : (result?.reports ?? []);
+  const pagination = loading ? null : result?.pagination;
+
+  return (
+    <>
+      <Head>
+        <title>My Reports - DevMatch</title>
+        <meta name="description" content="Reports you have filed and their status" />
+      </Head>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Reports</h1>
+          <p className="text-gray-600">
+            Posts, comments, people and jobs you reported, and where each review stands
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6">
+          <div className="flex flex-wrap gap-2">
+            {[undefined, ...STATUSES].map((value) => (
+              <button
+                key={value ?? "all"}
+                onClick={() => updateQuery({ status: value ?? null })}
+                className={cn(
+                  "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                  status === value
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                )}
+              >
+                {value ? REPORT_STATUS_LABELS[value] : "All"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {!loading && result?.error && (
+          <div className="text-center py-12 bg-white rounded-lg border border-gray-200 text-gray-500">
+            Couldn&apos;t load your reports. Try again in a moment.
+          </div>
+        )}
+
+        {!loading && reports.length > 0 && (
+          <div className="space-y-4 mb-8">
+            {reports.map((report) => (
+              <ReportRow key={report._id} report={report} />
+            ))}
+          </div>
+        )}
+
+        {!loading && !result?.error && reports.length === 0 && (
+          <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+            <Flag className="mx-auto text-gray-300 mb-4" size={64} />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No reports</h3>
+            <p className="text-gray-500">
+              {status
+                ? "Try a different filter"
+                : "Use the Report option on a post, comment, profile or job to flag it for review"}
+            </p>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2 mt-8">
+            <button
+              onClick={() => updateQuery({ page: page - 1 })}
+              disabled={!pagination.hasPrevPage}
+              className="p-2 rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft size={20} />
+            </button>
+
+            <span className="px-4 py-2 text-gray-600">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+
+            <button
+              onClick={() => updateQuery({ page: page + 1 })}
+              disabled={!pagination.hasNextPage}
+              className="p-2 rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight size={20} />
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+function ReportRow({ report }: { report: Report }) {
+  const href = getReportTargetHref(report);
+  const outcome = getReportOutcome(report);
+  const excerpt =
+    report.reportedContent?.title ??
+    report.reportedContent?.content ??
+    (report.reportedUser ? `@${report.reportedUser.username}` : null);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 flex-wrap mb-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">
+              {REPORT_TARGET_LABELS[report.targetType]}
+            </span>
+            <span className="text-gray-300">&middot;</span>
+            <span className="font-medium text-gray-900">{getReportReasonLabel(report.reason)}</span>
+          </div>
+          {excerpt && <p className="text-sm text-gray-600 line-clamp-2">{excerpt}</p>}
+          {report.description && (
+            <p className="mt-1 text-sm text-gray-500 italic line-clamp-2">
+              &ldquo;{report.description}&rdquo;
+            </p>
+          )}
+          <p className="mt-2 text-xs text-gray-500">
+            Reported {formatRelativeTime(report.createdAt).toLowerCase()}
+            {report.resolvedAt && ` · closed ${formatRelativeTime(report.resolvedAt).toLowerCase()}`}
+          </p>
+        </div>
+
+        <div className="flex flex-col items-end gap-2 flex-shrink-0">
+          <span
+            className={cn(
+              "px-2.5 py-1 rounded-full text-xs font-medium",
+              REPORT_STATUS_STYLES[report.status]
+            )}
+          >
+            {REPORT_STATUS_LABELS[report.status]}
+          </span>
+          {href && (
+            <Link
+              href={href}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              View
+              <ExternalLink size={14} />
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {outcome && (
+        <p className="mt-3 pt-3 border-t border-gray-100 text-sm text-gray-600">{outcome}</p>
+      )}
+    </div>
+  );
+}
+
+export default function MyReportsPage() {
+  return (
+    <ProtectedRoute>
+      <MyReports />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,287 @@
+/**
+ * @file src/pages/notifications.tsx
+ * @description Full notification center
+ * - Filter by type and unread
+ * - Mark one / all as read
+ * - Delete one / clear all
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { activityService } from "@/services/activityService";
+import { useNotificationStore } from "@/store/notificationStore";
+import LoadingSpinner from "@/components/common/Loading";
+import {
+  NotificationItem,
+  NOTIFICATION_CONFIG,
+  NOTIFICATION_TYPES,
+} from "@/components/notifications";
+import type { Notification, NotificationType } from "@/types";
+import { Bell, CheckCheck, Trash2 } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { success, error } = useToast();
+  const { unreadCount, setUnreadCount, decrementUnread, fetchUnreadCount } =
+    useNotificationStore();
+
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [typeFilter, setTypeFilter] = useState<NotificationType | null>(null);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [clearing, setClearing] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(`/login?redirect=${encodeURIComponent("/notifications")}`);
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  const fetchNotifications = useCallback(
+    async (pageNum: number, append: boolean) => {
+      if (append) setLoadingMore(true);
+      else setLoading(true);
+
+      try {
+        const response = await activityService.getFeed({
+          page: pageNum,
+          limit: PAGE_SIZE,
+          type: typeFilter ?? undefined,
+          unreadOnly: unreadOnly || undefined,
+        });
+        const { items, pagination } = response.data;
+
+        setNotifications((prev) => (append ? [...prev, ...items] : items));
+        setHasMore(pagination.hasNextPage);
+        setPage(pageNum);
+      } catch {
+        if (!append) setNotifications([]);
+        error("Failed to load notifications");
+      } finally {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    },
+    [typeFilter, unreadOnly, error]
+  );
+
+  // Refetch from page 1 whenever filters change
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchNotifications(1, false);
+    fetchUnreadCount();
+  }, [isAuthenticated, fetchNotifications, fetchUnreadCount]);
+
+  const handleMarkRead = async (id: string) => {
+    try {
+      await activityService.markOneAsRead(id);
+      setNotifications((prev) =>
+        unreadOnly
+          ? prev.filter((n) => n._id !== id)
+          : prev.map((n) => (n._id === id ? { ...n, isRead: true } : n))
+      );
+      decrementUnread();
+    } catch {
+      error("Failed to mark notification as read");
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.isRead) handleMarkRead(notification._id);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await activityService.markAsRead();
+      setNotifications((prev) =>
+        unreadOnly ? [] : prev.map((n) => ({ ...n, isRead: true }))
+      );
+      setUnreadCount(0);
+      success("All notifications marked as read");
+    } catch {
+      error("Failed to mark notifications as read");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const target = notifications.find((n) => n._id === id);
+    try {
+      await activityService.delete(id);
+      setNotifications((prev) => prev.filter((n) => n._id !== id));
+      if (target && !target.isRead) decrementUnread();
+    } catch {
+      error("Failed to delete notification");
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm("Clear all notifications? This cannot be undone.")) return;
+
+    setClearing(true);
+    try {
+      await activityService.clearAll();
+      setNotifications([]);
+      setHasMore(false);
+      setUnreadCount(0);
+      success("Notifications cleared");
+    } catch {
+      error("Failed to clear notifications");
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return (
+      <div className="flex justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const filterButton = (active: boolean) =>
+    [
+      "inline-flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors",
+      active
+        ? "bg-white text-black"
+        : "border border-white/10 bg-white/5 text-white/70 hover:bg-white/10 hover:text-white",
+    ].join(" ");
+
+  return (
+    <>
+      <Head>
+        <title>Notifications - DevMatch</title>
+        <meta name="description" content="Your DevMatch notifications" />
+      </Head>
+
+      <div className="mx-auto max-w-3xl px-4 py-10">
+        {/* Header */}
+        <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Notifications</h1>
+            <p className="mt-2 text-white/60">
+              {unreadCount > 0
+                ? `You have ${unreadCount} unread notification${unreadCount === 1 ? "" : "s"}`
+                : "You're all caught up"}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              disabled={unreadCount === 0}
+              className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-semibold text-white/80 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <CheckCheck size={16} />
+              Mark all read
+            </button>
+            <button
+              type="button"
+              onClick={handleClearAll}
+              disabled={clearing || notifications.length === 0}
+              className="inline-flex items-center gap-2 rounded-2xl border border-red-500/20 bg-red-500/10 px-4 py-2 text-sm font-semibold text-red-300 hover:bg-red-500/20 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {clearing ? <LoadingSpinner size="sm" /> : <Trash2 size={16} />}
+              Clear all
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 rounded-3xl border border-white/10 bg-white/[0.04] p-4 backdrop-blur-md">
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setTypeFilter(null)}
+              className={filterButton(typeFilter === null)}
+            >
+              All
+            </button>
+            {NOTIFICATION_TYPES.map((type) => {
+              const config = NOTIFICATION_CONFIG[type];
+              const Icon = config.icon;
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setTypeFilter(type)}
+                  className={filterButton(typeFilter === type)}
+                >
+                  <Icon size={14} />
+                  {config.label}
+                </button>
+              );
+            })}
+          </div>
+
+          <label className="mt-4 inline-flex cursor-pointer items-center gap-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(e) => setUnreadOnly(e.target.checked)}
+              className="h-4 w-4 rounded border-white/20 bg-white/5"
+            />
+            Unread only
+          </label>
+        </div>
+
+        {/* List */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="rounded-3xl border border-white/10 bg-white/[0.04] py-16 text-center">
+            <Bell className="mx-auto mb-4 text-white/25" size={48} />
+            <h3 className="text-lg font-medium text-white/90">No notifications</h3>
+            <p className="mt-1 text-sm text-white/50">
+              {typeFilter || unreadOnly
+                ? "Try a different filter"
+                : "Activity from people and jobs you follow will show up here"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-1 rounded-3xl border border-white/10 bg-white/[0.04] p-2">
+            {notifications.map((notification) => (
+              <NotificationItem
+                key={notification._id}
+                notification={notification}
+                onOpen={handleOpen}
+                onMarkRead={handleMarkRead}
+                onDelete={handleDelete}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Load more */}
+        {!loading && hasMore && (
+          <div className="mt-6 flex justify-center">
+            <button
+              type="button"
+              onClick={() => fetchNotifications(page + 1, true)}
+              disabled={loadingMore}
+              className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-5 py-2 text-sm font-semibold text-white/80 hover:bg-white/10 disabled:opacity-50"
+            >
+              {loadingMore && <LoadingSpinner size="sm" />}
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -8,7 +8,7 @@ import Head from "next/head";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { FiArrowLeft, FiSearch, FiUsers } from "react-icons/fi";
-import { followAPI } from "@/lib/api";
+import { userService } from "@/services";
 import { Avatar, Card, CardBody, Button } from "@/components/common";
 
 interface User {
@@ -80,8 +80,8 @@ export default function FollowersPage() {
         if (page === 1) setLoading(true);
         else setLoadingMore(true);
 
-        const res = await followAPI.getFollowers(username, page);
-        const data: User[] = res.data?.data?.followers || res.data?.data || [];
+        const res = await userService.getFollowers(username, { page });
+        const data: User[] = res.data.items;
 
         setFollowers((prev) => (page === 1 ? data : [...prev, ...data]));
         setHasMore(data.length >= 20);
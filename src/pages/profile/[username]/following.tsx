@@ -8,7 +8,7 @@ import Head from "next/head";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { FiArrowLeft, FiSearch, FiUsers } from "react-icons/fi";
-import { followAPI } from "@/lib/api";
+import { userService } from "@/services";
 import { Avatar, Card, CardBody, Button } from "@/components/common";
 
 interface User {
@@ -81,8 +81,8 @@ export default function FollowingPage() {
         if (page === 1) setLoading(true);
         else setLoadingMore(true);
 
-        const res = await followAPI.getFollowing(username, page);
-        const data: User[] = res.data?.data?.following || res.data?.data || [];
+        const res = await userService.getFollowing(username, { page });
+        const data: User[] = res.data.items;
 
         // IMPORTANT: append on load-more
         setFollowing((prev) => (page === 1 ? data : [...prev, ...data]));
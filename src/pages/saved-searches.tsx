@@ -0,0 +1,232 @@
+/**
+ * @file src/pages/saved-searches.tsx
+ * @description Manage saved job searches
+ * - New jobs since the last visit
+ * - Rename / delete
+ * - Opt in to JOB_MATCH alerts (signed-in users)
+ */
+
+"use client";
+
+import { useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useAuthStore } from "@/store/authStore";
+import { useHydrated } from "@/hooks/useHydrated";
+import { useNewJobCounts, useSavedSearches } from "@/hooks/useSavedSearches";
+import { describeJobFilters, jobFiltersToQuery } from "@/lib/jobSearch";
+import { formatRelativeTime } from "@/lib/utils";
+import LoadingSpinner from "@/components/common/Loading";
+import type { SavedSearch } from "@/types";
+import { Bell, BellOff, Bookmark, Check, Pencil, Search, Trash2, X } from "lucide-react";
+
+export default function SavedSearchesPage() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const { searches, synced, updateSearch, removeSearch } = useSavedSearches();
+  const newCounts = useNewJobCounts(searches);
+
+  // Searches come from localStorage, so render them after hydration
+  const mounted = useHydrated();
+
+  if (!mounted) {
+    return (
+      <div className="flex justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Saved Searches - DevMatch</title>
+        <meta name="description" content="Your saved job searches and alerts" />
+      </Head>
+
+      <div className="mx-auto max-w-3xl px-4 py-10">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-white">Saved Searches</h1>
+          <p className="mt-2 text-white/60">
+            {isAuthenticated
+              ? synced
+                ? "Synced to your account. Turn on alerts to be notified about new matches."
+                : "Saved on this device."
+              : "Saved on this device only. Searches you save while signed in sync to your account and can send job alerts."}
+          </p>
+        </div>
+
+        {searches.length === 0 ? (
+          <div className="rounded-3xl border border-white/10 bg-white/[0.04] p-10 text-center">
+            <Bookmark className="mx-auto mb-4 text-white/25" size={56} />
+            <h3 className="mb-2 text-lg font-semibold text-white">No saved searches</h3>
+            <p className="mb-4 text-white/55">
+              Filter the job board and use “Save search” to keep it here.
+            </p>
+            <Link href="/jobs" className="font-semibold text-sky-300 hover:text-sky-200">
+              Browse jobs
+            </Link>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {searches.map((search) => (
+              <SavedSearchRow
+                key={search._id}
+                search={search}
+                newCount={newCounts[search._id]}
+                canAlert={isAuthenticated}
+                onRename={(name) => updateSearch(search._id, { name })}
+                onToggleAlerts={() =>
+                  updateSearch(search._id, { alertsEnabled: !search.alertsEnabled })
+                }
+                onDelete={() => {
+                  if (window.confirm(`Delete “${search.name}”?`)) removeSearch(search._id);
+                }}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+/* ---------- Row ---------- */
+
+function SavedSearchRow({
+  search,
+  newCount,
+  canAlert,
+  onRename,
+  onToggleAlerts,
+  onDelete,
+}: {
+  search: SavedSearch;
+  newCount?: number;
+  canAlert: boolean;
+  onRename: (name: string) => void;
+  onToggleAlerts: () => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(search.name);
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) onRename(name.trim());
+    setEditing(false);
+  };
+
+  const labels = describeJobFilters(search.filters);
+  const href = { pathname: "/jobs", query: jobFiltersToQuery(search.filters) };
+
+  return (
+    <li className="rounded-2xl border border-white/10 bg-white/[0.04] p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          {editing ? (
+            <form onSubmit={submitRename} className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+                className="flex-1 rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-sky-500/40"
+              />
+              <button type="submit" className="rounded-lg p-1.5 text-white/70 hover:bg-white/10" aria-label="Save name">
+                <Check size={16} />
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setName(search.name);
+                  setEditing(false);
+                }}
+                className="rounded-lg p-1.5 text-white/70 hover:bg-white/10"
+                aria-label="Cancel"
+              >
+                <X size={16} />
+              </button>
+            </form>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Link href={href} className="truncate font-semibold text-white hover:text-sky-200">
+                {search.name}
+              </Link>
+              {newCount !== undefined && newCount > 0 && (
+                <span className="rounded-full bg-sky-500/20 px-2 py-0.5 text-xs font-semibold text-sky-200">
+                  {newCount} new
+                </span>
+              )}
+            </div>
+          )}
+
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {labels.map((label) => (
+              <span
+                key={label}
+                className="rounded-full border border-white/10 bg-white/5 px-2.5 py-0.5 text-xs text-white/65"
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+
+          <p className="mt-2 text-xs text-white/40">
+            {newCount === undefined
+              ? `Last viewed ${formatRelativeTime(search.lastSeenAt)}`
+              : `${newCount} new since last visit · viewed ${formatRelativeTime(search.lastSeenAt)}`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={onToggleAlerts}
+            disabled={!canAlert}
+            title={
+              canAlert
+                ? search.alertsEnabled
+                  ? "Alerts on"
+                  : "Alerts off"
+                : "Sign in to get job alerts"
+            }
+            className={[
+              "rounded-xl p-2 transition-colors disabled:cursor-not-allowed disabled:opacity-40",
+              search.alertsEnabled
+                ? "bg-sky-500/15 text-sky-200 hover:bg-sky-500/25"
+                : "text-white/55 hover:bg-white/10 hover:text-white",
+            ].join(" ")}
+            aria-pressed={search.alertsEnabled}
+            aria-label="Toggle job alerts"
+          >
+            {search.alertsEnabled ? <Bell size={16} /> : <BellOff size={16} />}
+          </button>
+          <Link
+            href={href}
+            className="rounded-xl p-2 text-white/55 hover:bg-white/10 hover:text-white"
+            aria-label="View results"
+          >
+            <Search size={16} />
+          </Link>
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="rounded-xl p-2 text-white/55 hover:bg-white/10 hover:text-white"
+            aria-label="Rename"
+          >
+            <Pencil size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={onDelete}
+            className="rounded-xl p-2 text-red-300/70 hover:bg-red-500/10 hover:text-red-300"
+            aria-label="Delete"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * @file src/pages/saved.tsx
+ * @description Bookmarked jobs, repos and developers
+ * - Grouped by type
+ * - Private notes and tags per bookmark
+ * - Filter by tag
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useAuthStore } from "@/store/authStore";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { useHydrated } from "@/hooks/useHydrated";
+import { formatRelativeTime } from "@/lib/utils";
+import LoadingSpinner from "@/components/common/Loading";
+import type { Bookmark, BookmarkType } from "@/types";
+import {
+  Bookmark as BookmarkIcon,
+  Briefcase,
+  Github,
+  Plus,
+  StickyNote,
+  Trash2,
+  User,
+  X,
+} from "lucide-react";
+
+const GROUPS: { type: BookmarkType; label: string; icon: typeof Briefcase }[] = [
+  { type: "JOB", label: "Jobs", icon: Briefcase },
+  { type: "REPO", label: "Repositories", icon: Github },
+  { type: "DEVELOPER", label: "Developers", icon: User },
+];
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+export default function SavedPage() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const { bookmarks, synced, updateBookmark, removeBookmark } = useBookmarks();
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  // Bookmarks come from localStorage, so render them after hydration
+  const mounted = useHydrated();
+
+  const allTags = useMemo(
+    () => Array.from(new Set(bookmarks.flatMap((b) => b.tags))).sort(),
+    [bookmarks]
+  );
+
+  const visible = activeTag ? bookmarks.filter((b) => b.tags.includes(activeTag)) : bookmarks;
+
+  if (!mounted) {
+    return (
+      <div className="flex justify-center py-24">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Saved - DevMatch</title>
+        <meta name="description" content="Jobs, repositories and developers you saved for later" />
+      </Head>
+
+      <div className="mx-auto max-w-3xl px-4 py-10">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-white">Saved</h1>
+          <p className="mt-2 text-white/60">
+            {isAuthenticated
+              ? synced
+                ? "Synced to your account."
+                : "Saved on this device."
+              : "Saved on this device only. Bookmarks you save while signed in follow you across devices."}
+          </p>
+        </div>
+
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <div className="mb-6 flex flex-wrap gap-2">
+            <TagFilterButton active={activeTag === null} onClick={() => setActiveTag(null)}>
+              All
+            </TagFilterButton>
+            {allTags.map((tag) => (
+              <TagFilterButton
+                key={tag}
+                active={activeTag === tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              >
+                #{tag}
+              </TagFilterButton>
+            ))}
+          </div>
+        )}
+
+        {bookmarks.length === 0 ? (
+          <div className="rounded-3xl border border-white/10 bg-white/[0.04] p-10 text-center">
+            <BookmarkIcon className="mx-auto mb-4 text-white/25" size={56} />
+            <h3 className="mb-2 text-lg font-semibold text-white">Nothing saved yet</h3>
+            <p className="mb-4 text-white/55">
+              Use the bookmark button on jobs, repositories and developers to save them here.
+            </p>
+            <div className="flex justify-center gap-4 text-sm font-semibold">
+              <Link href="/jobs" className="text-sky-300 hover:text-sky-200">
+                Browse jobs
+              </Link>
+              <Link href="/developers" className="text-sky-300 hover:text-sky-200">
+                Find developers
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {GROUPS.map(({ type, label, icon: Icon }) => {
+              const items = visible.filter((b) => b.type === type);
+              if (items.length === 0) return null;
+
+              return (
+                <section key={type}>
+                  <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-white/55">
+                    <Icon size={16} />
+                    {label}
+                    <span className="text-white/35">({items.length})</span>
+                  </h2>
+                  <ul className="space-y-3">
+                    {items.map((bookmark) => (
+                      <BookmarkRow
+                        key={bookmark._id}
+                        bookmark={bookmark}
+                        onUpdate={(changes) => updateBookmark(bookmark._id, changes)}
+                        onRemove={() => removeBookmark(bookmark._id)}
+                        onTagClick={setActiveTag}
+                      />
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+
+            {visible.length === 0 && (
+              <p className="text-center text-white/55">No bookmarks tagged #{activeTag}.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+/* ---------- UI ---------- */
+
+function TagFilterButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={[
+        "rounded-full border px-3 py-1 text-sm transition-colors",
+        active
+          ? "border-white bg-white text-black"
+          : "border-white/10 bg-white/5 text-white/70 hover:bg-white/10",
+      ].join(" ")}
+    >
+      {children}
+    </button>
+  );
+}
+
+function BookmarkRow({
+  bookmark,
+  onUpdate,
+  onRemove,
+  onTagClick,
+}: {
+  bookmark: Bookmark;
+  onUpdate: (changes: Partial<Pick<Bookmark, "note" | "tags">>) => void;
+  onRemove: () => void;
+  onTagClick: (tag: string) => void;
+}) {
+  const [editingNote, setEditingNote] = useState(false);
+  const [note, setNote] = useState(bookmark.note ?? "");
+  const [tagInput, setTagInput] = useState("");
+
+  const saveNote = () => {
+    const trimmed = note.trim();
+    if (trimmed !== (bookmark.note ?? "")) onUpdate({ note: trimmed });
+    setEditingNote(false);
+  };
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagInput);
+    if (tag && !bookmark.tags.includes(tag)) onUpdate({ tags: [...bookmark.tags, tag] });
+    setTagInput("");
+  };
+
+  return (
+    <li className="rounded-2xl border border-white/10 bg-white/[0.04] p-5">
+      <div className="flex items-start gap-4">
+        {bookmark.imageUrl ? (
+          <img
+            src={bookmark.imageUrl}
+            alt={bookmark.title}
+            className="h-11 w-11 flex-shrink-0 rounded-xl object-cover"
+          />
+        ) : (
+          <div className="flex h-11 w-11 flex-shrink-0 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500/40 to-fuchsia-500/20 font-bold text-white">
+            {bookmark.title.charAt(0).toUpperCase()}
+          </div>
+        )}
+
+        <div className="min-w-0 flex-1">
+          <Link
+            href={bookmark.href}
+            className="block truncate font-semibold text-white hover:text-sky-200"
+          >
+            {bookmark.title}
+          </Link>
+          {bookmark.subtitle && (
+            <p className="truncate text-sm text-white/55">{bookmark.subtitle}</p>
+          )}
+          <p className="mt-1 text-xs text-white/40">
+            Saved {formatRelativeTime(bookmark.createdAt)}
+          </p>
+
+          {/* Note */}
+          {editingNote ? (
+            <div className="mt-3">
+              <textarea
+                autoFocus
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                maxLength={1000}
+                placeholder="Why did you save this?"
+                className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/35 outline-none focus:ring-2 focus:ring-sky-500/40"
+              />
+              <div className="mt-2 flex gap-2">
+                <button
+                  type="button"
+                  onClick={saveNote}
+                  className="rounded-xl bg-white px-3 py-1.5 text-sm font-semibold text-black hover:bg-white/90"
+                >
+                  Save note
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setNote(bookmark.note ?? "");
+                    setEditingNote(false);
+                  }}
+                  className="rounded-xl px-3 py-1.5 text-sm text-white/70 hover:bg-white/10"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : bookmark.note ? (
+            <button
+              type="button"
+              onClick={() => setEditingNote(true)}
+              className="mt-3 block w-full whitespace-pre-wrap rounded-xl border border-white/10 bg-white/[0.03] px-3 py-2 text-left text-sm text-white/75 hover:bg-white/[0.06]"
+            >
+              {bookmark.note}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setEditingNote(true)}
+              className="mt-3 inline-flex items-center gap-1.5 text-sm text-white/50 hover:text-white"
+            >
+              <StickyNote size={14} />
+              Add note
+            </button>
+          )}
+
+          {/* Tags */}
+          <div className="mt-3 flex flex-wrap items-center gap-1.5">
+            {bookmark.tags.map((tag) => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 rounded-full border border-sky-400/20 bg-sky-500/10 px-2.5 py-0.5 text-xs text-sky-200"
+              >
+                <button type="button" onClick={() => onTagClick(tag)} className="hover:underline">
+                  #{tag}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onUpdate({ tags: bookmark.tags.filter((t) => t !== tag) })}
+                  className="rounded-full text-sky-200/70 hover:text-white"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            <form onSubmit={addTag} className="inline-flex items-center gap-1">
+              <input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                maxLength={30}
+                placeholder="Add tag"
+                className="w-24 rounded-full border border-white/10 bg-transparent px-2.5 py-0.5 text-xs text-white placeholder:text-white/35 outline-none focus:border-white/30"
+              />
+              {tagInput.trim() && (
+                <button
+                  type="submit"
+                  className="rounded-full p-1 text-white/60 hover:bg-white/10 hover:text-white"
+                  aria-label="Add tag"
+                >
+                  <Plus size={12} />
+                </button>
+              )}
+            </form>
+          </div>
+        </div>
+
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-xl p-2 text-red-300/70 hover:bg-red-500/10 hover:text-red-300"
+          aria-label="Remove bookmark"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -213,9 +213,9 @@ export default function SearchPage() {
           per_page: perPage,
         });
 
-        const responseData = response.data?.data || response.data;
+        const responseData = response.data;
 
-        const items = responseData?.items || [];
+        const items = responseData.items;
         const transformedRepos = items.map((item: any) => ({
           githubId: item.id,
           name: item.name,
@@ -235,7 +235,7 @@ export default function SearchPage() {
         }));
 
         setResults(transformedRepos);
-        setTotalCount(responseData?.total_count || 0);
+        setTotalCount(responseData.total_count || 0);
       } catch (err) {
         console.error("Failed to search repos:", err);
         setResults([]);
@@ -5,6 +5,7 @@
  * - Update email
  * - Delete account
  * - Privacy settings
+ * - Resume library (developers)
  */
 
 "use client";
@@ -15,6 +16,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/contexts/ToastContext";
 import { userService } from "@/services/userService";
 import LoadingSpinner from "@/components/common/Loading";
+import { ResumeLibrary } from "@/components/resumes";
 import {
   KeyRound,
   Mail,
@@ -28,9 +30,10 @@ import {
   User,
   Bell,
   Lock,
+  FileText,
 } from "lucide-react";
 
-type SettingsTab = "account" | "security" | "privacy";
+type SettingsTab = "account" | "security" | "privacy" | "resumes";
 
 const Settings = () => {
   const { user, logout } = useAuth();
@@ -196,6 +199,9 @@ const Settings = () => {
     { id: "account" as const, label: "Account", icon: User },
     { id: "security" as const, label: "Security", icon: Lock },
     { id: "privacy" as const, label: "Privacy", icon: Shield },
+    ...(user?.role === "DEVELOPER"
+      ? [{ id: "resumes" as const, label: "Resumes", icon: FileText }]
+      : []),
   ];
 
   return (
@@ -700,6 +706,18 @@ const Settings = () => {
         </div>
       )}
 
+      {/* Resumes Tab */}
+      {activeTab === "resumes" && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Resumes</h2>
+          <p className="text-sm text-gray-500 mb-6">
+            Keep a few versions and pick one per application. We read each
+            upload to suggest skills and links for your profile.
+          </p>
+          <ResumeLibrary />
+        </div>
+      )}
+
       {/* Delete Account Modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
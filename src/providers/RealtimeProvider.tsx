@@ -0,0 +1,54 @@
+/**
+ * @file src/providers/RealtimeProvider.tsx
+ * @description Opens the realtime channel while signed in and feeds it into global state
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useAuthStore } from "@/store/authStore";
+import { useNotificationStore } from "@/store/notificationStore";
+import { useMessageStore } from "@/store/messageStore";
+import { realtimeService } from "@/services/realtimeService";
+import { useRealtimeEvent } from "@/hooks/useRealtime";
+
+interface RealtimeProviderProps {
+  children: React.ReactNode;
+}
+
+const RealtimeProvider = ({ children }: RealtimeProviderProps) => {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const userId = useAuthStore((state) => state.user?.id);
+  const incrementUnread = useNotificationStore((state) => state.incrementUnread);
+  const fetchUnreadMessages = useMessageStore((state) => state.fetchUnreadCount);
+  const incrementUnreadMessages = useMessageStore((state) => state.incrementUnread);
+  const resetMessages = useMessageStore((state) => state.reset);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    realtimeService.connect();
+    return () => realtimeService.disconnect();
+  }, [isAuthenticated]);
+
+  // Messages have no polling; load the count once and keep it current from events
+  useEffect(() => {
+    if (isAuthenticated) fetchUnreadMessages();
+    else resetMessages();
+  }, [isAuthenticated, fetchUnreadMessages, resetMessages]);
+
+  // Bump the navbar badge without waiting for the next poll
+  useRealtimeEvent("notification:created", () => incrementUnread(), isAuthenticated);
+
+  useRealtimeEvent(
+    "message:created",
+    (message) => {
+      if (message.sender !== userId) incrementUnreadMessages();
+    },
+    isAuthenticated
+  );
+
+  return <>{children}</>;
+};
+
+export default RealtimeProvider;
@@ -0,0 +1,47 @@
+/**
+ * @file src/services/activityService.ts
+ * @description API service for the signed-in user's activity / notifications
+ */
+
+import { http } from "./api";
+import type { Notification, NotificationType } from "@/types";
+
+// The unread count is polled in the background; its failures are silent
+const quiet = { skipErrorToast: true };
+
+export const activityService = {
+  // Get activity feed
+  getFeed: (params?: {
+    type?: NotificationType;
+    unreadOnly?: boolean;
+    page?: number;
+    limit?: number;
+  }) => {
+    return http.paginated<Notification>("/activity", "activities", { params });
+  },
+
+  // Get unread count
+  getUnreadCount: () => {
+    return http.get<{ count: number }>("/activity/unread/count", quiet);
+  },
+
+  // Mark several (or, without ids, all) as read
+  markAsRead: (activityIds?: string[]) => {
+    return http.post<null>("/activity/read", { activityIds });
+  },
+
+  // Mark one as read
+  markOneAsRead: (activityId: string) => {
+    return http.patch<Notification>(`/activity/${activityId}/read`);
+  },
+
+  // Delete one
+  delete: (activityId: string) => {
+    return http.delete(`/activity/${activityId}`);
+  },
+
+  // Clear all
+  clearAll: () => {
+    return http.delete("/activity/all");
+  },
+};
@@ -3,21 +3,60 @@
  * @description API service for admin functionality
  */
 
-import api from "./api";
+import type { AxiosRequestConfig } from "axios";
+import { http } from "./api";
+import type {
+  Activity,
+  Appeal,
+  AppealStatus,
+  AdminAnalytics,
+  AdminAnalyticsMetric,
+  AuditAction,
+  AuditLogEntry,
+  AuditTargetType,
+  DashboardStats,
+  JobPost,
+  JobPostDetails,
+  PaginatedResponse,
+  Report,
+  ReportAction,
+  ReportTargetPreview,
+  Skill,
+  SkillCategory,
+  SkillMergePreview,
+  User,
+} from "@/types";
 
+// Walk every page of a paginated endpoint (exports need the whole filtered list)
+async function collectPages<T>(
+  fetchPage: (page: number) => Promise<{ data: PaginatedResponse<T> }>
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = await fetchPage(page);
+    items.push(...data.items);
+    if (!data.pagination.hasNextPage || data.items.length === 0) return items;
+  }
+}
+
+// Bulk operations pass `{ skipErrorToast: true }` as `config` and report failures together
 export const adminService = {
   // ==================== DASHBOARD ====================
 
   getDashboardStats: () => {
-    return api.get("/admin/dashboard/stats");
+    return http.get<DashboardStats>("/admin/dashboard/stats");
   },
 
   getRecentUsers: (limit: number = 5) => {
-    return api.get("/admin/dashboard/recent-users", { params: { limit } });
+    return http.list<User>("/admin/dashboard/recent-users", "users", {
+      params: { limit },
+    });
   },
 
   getRecentActivity: (limit: number = 10) => {
-    return api.get("/admin/dashboard/activity", { params: { limit } });
+    return http.list<Activity>("/admin/dashboard/activity", "activities", {
+      params: { limit },
+    });
   },
 
   // ==================== USER MANAGEMENT ====================
@@ -29,27 +68,49 @@ export const adminService = {
     role?: string;
     status?: string;
   }) => {
-    return api.get("/admin/users", { params });
+    return http.paginated<User>("/admin/users", "users", { params });
+  },
+
+  getAllUsers: (params?: { search?: string; role?: string; status?: string }) => {
+    return collectPages((page) => adminService.getUsers({ ...params, page, limit: 100 }));
   },
 
   getUser: (userId: string) => {
-    return api.get(`/admin/users/${userId}`);
+    return http.get<User>(`/admin/users/${userId}`);
+  },
+
+  updateUserRole: (userId: string, role: User["role"], config?: AxiosRequestConfig) => {
+    return http.patch<User>(`/admin/users/${userId}/role`, { role }, config);
+  },
+
+  banUser: (userId: string, reason?: string, config?: AxiosRequestConfig) => {
+    return http.patch<User>(`/admin/users/${userId}/ban`, { reason }, config);
+  },
+
+  unbanUser: (userId: string, config?: AxiosRequestConfig) => {
+    return http.patch<User>(`/admin/users/${userId}/unban`, undefined, config);
   },
 
-  updateUserRole: (userId: string, role: string) => {
-    return api.patch(`/admin/users/${userId}/role`, { role });
+  // Adds to the user's warning count and shows them a banner
+  warnUser: (userId: string, reason: string, config?: AxiosRequestConfig) => {
+    return http.post<User>(`/admin/users/${userId}/warnings`, { reason }, config);
   },
 
-  banUser: (userId: string, reason?: string) => {
-    return api.patch(`/admin/users/${userId}/ban`, { reason });
+  // The API lifts the suspension on its own after `durationDays`
+  suspendUser: (
+    userId: string,
+    data: { durationDays: number; reason: string },
+    config?: AxiosRequestConfig
+  ) => {
+    return http.patch<User>(`/admin/users/${userId}/suspend`, data, config);
   },
 
-  unbanUser: (userId: string) => {
-    return api.patch(`/admin/users/${userId}/unban`);
+  unsuspendUser: (userId: string, config?: AxiosRequestConfig) => {
+    return http.patch<User>(`/admin/users/${userId}/unsuspend`, undefined, config);
   },
 
   deleteUser: (userId: string) => {
-    return api.delete(`/admin/users/${userId}`);
+    return http.delete(`/admin/users/${userId}`);
   },
 
   // ==================== SKILL MANAGEMENT ====================
@@ -61,35 +122,71 @@ export const adminService = {
     category?: string;
     isActive?: boolean;
   }) => {
-    return api.get("/admin/skills", { params });
+    return http.paginated<Skill>("/admin/skills", "skills", { params });
   },
 
-  createSkill: (data: { name: string; category: string; icon?: string }) => {
-    return api.post("/admin/skills", data);
+  getAllSkills: (params?: { search?: string; category?: string; isActive?: boolean }) => {
+    return collectPages((page) => adminService.getSkills({ ...params, page, limit: 100 }));
+  },
+
+  createSkill: (
+    data: {
+      name: string;
+      slug?: string;
+      category: SkillCategory;
+      icon?: string;
+    },
+    config?: AxiosRequestConfig
+  ) => {
+    return http.post<Skill>("/admin/skills", data, config);
   },
 
   updateSkill: (
     skillId: string,
     data: {
       name?: string;
-      category?: string;
+      slug?: string;
+      category?: SkillCategory;
       icon?: string;
       isActive?: boolean;
-    }
+    },
+    config?: AxiosRequestConfig
   ) => {
-    return api.put(`/admin/skills/${skillId}`, data);
+    return http.put<Skill>(`/admin/skills/${skillId}`, data, config);
   },
 
-  deactivateSkill: (skillId: string) => {
-    return api.patch(`/admin/skills/${skillId}/deactivate`);
+  deactivateSkill: (skillId: string, config?: AxiosRequestConfig) => {
+    return http.patch<Skill>(`/admin/skills/${skillId}/deactivate`, undefined, config);
   },
 
-  activateSkill: (skillId: string) => {
-    return api.patch(`/admin/skills/${skillId}/activate`);
+  activateSkill: (skillId: string, config?: AxiosRequestConfig) => {
+    return http.patch<Skill>(`/admin/skills/${skillId}/activate`, undefined, config);
   },
 
   deleteSkill: (skillId: string) => {
-    return api.delete(`/admin/skills/${skillId}`);
+    return http.delete(`/admin/skills/${skillId}`);
+  },
+
+  // Aliases and parent; a null parent makes the skill top-level again
+  updateSkillTaxonomy: (
+    skillId: string,
+    data: {
+      aliases?: string[];
+      parent?: string | null;
+    }
+  ) => {
+    return http.patch<Skill>(`/admin/skills/${skillId}/taxonomy`, data);
+  },
+
+  previewSkillMerge: (sourceId: string, targetId: string) => {
+    return http.get<SkillMergePreview>(`/admin/skills/${sourceId}/merge`, {
+      params: { into: targetId },
+    });
+  },
+
+  // Re-points profiles, jobs and child skills at the target, then removes the source
+  mergeSkills: (sourceId: string, targetId: string) => {
+    return http.post<Skill>(`/admin/skills/${sourceId}/merge`, { into: targetId });
   },
 
   // ==================== JOB MANAGEMENT ====================
@@ -101,19 +198,19 @@ export const adminService = {
     status?: string;
     featured?: boolean;
   }) => {
-    return api.get("/admin/jobs", { params });
+    return http.paginated<JobPostDetails>("/admin/jobs", "jobs", { params });
   },
 
   toggleJobFeatured: (jobId: string, featured: boolean) => {
-    return api.patch(`/admin/jobs/${jobId}/featured`, { featured });
+    return http.patch<JobPost>(`/admin/jobs/${jobId}/featured`, { featured });
   },
 
   deactivateJob: (jobId: string) => {
-    return api.patch(`/admin/jobs/${jobId}/deactivate`);
+    return http.patch<JobPost>(`/admin/jobs/${jobId}/deactivate`);
   },
 
   deleteJob: (jobId: string) => {
-    return api.delete(`/admin/jobs/${jobId}`);
+    return http.delete(`/admin/jobs/${jobId}`);
   },
 
   // ==================== REPORTS ====================
@@ -122,16 +219,65 @@ export const adminService = {
     page?: number;
     limit?: number;
     type?: "POST" | "COMMENT" | "USER" | "JOB";
+    targetId?: string;
     status?: "PENDING" | "REVIEWED" | "RESOLVED";
+    // Admin user id, or "none" for unassigned reports
+    assignedTo?: string;
   }) => {
-    return api.get("/admin/reports", { params });
+    return http.paginated<Report>("/admin/reports", "reports", { params });
+  },
+
+  // The reported post, comment (with its thread), user or job, for the detail panel
+  getReportTarget: (reportId: string) => {
+    return http.get<ReportTargetPreview>(`/admin/reports/${reportId}/target`, {
+      skipErrorToast: true,
+    });
+  },
+
+  // Reports on one target are assigned together; pass null to unassign
+  assignReports: (reportIds: string[], adminId: string | null) => {
+    return http.patch<Report[]>("/admin/reports/assign", { reportIds, adminId });
+  },
+
+  // `resolution` is required and stored on the report
+  resolveReport: (reportId: string, action: ReportAction, resolution: string) => {
+    return http.patch<Report>(`/admin/reports/${reportId}/resolve`, { action, resolution });
+  },
+
+  // Resolves reports on one target together, so WARN, REMOVE or BAN is applied only once
+  resolveReports: (reportIds: string[], action: ReportAction, resolution: string) => {
+    return http.patch<Report[]>("/admin/reports/resolve", { reportIds, action, resolution });
   },
 
-  resolveReport: (
-    reportId: string,
-    action: "DISMISS" | "WARN" | "REMOVE" | "BAN"
+  // ==================== APPEALS ====================
+
+  getAppeals: (params?: { page?: number; limit?: number; status?: AppealStatus }) => {
+    return http.paginated<Appeal>("/admin/appeals", "appeals", { params });
+  },
+
+  // Approving lifts the suspension; `response` is shown to the user either way
+  resolveAppeal: (
+    appealId: string,
+    decision: Exclude<AppealStatus, "PENDING">,
+    response: string
   ) => {
-    return api.patch(`/admin/reports/${reportId}/resolve`, { action });
+    return http.patch<Appeal>(`/admin/appeals/${appealId}`, { status: decision, response });
+  },
+
+  // ==================== AUDIT LOG ====================
+
+  getAuditLog: (params?: {
+    page?: number;
+    limit?: number;
+    // Actor username
+    actor?: string;
+    action?: AuditAction;
+    targetType?: AuditTargetType;
+    targetId?: string;
+    startDate?: string;
+    endDate?: string;
+  }) => {
+    return http.paginated<AuditLogEntry>("/admin/audit", "entries", { params });
   },
 
   // ==================== ANALYTICS ====================
@@ -139,8 +285,8 @@ export const adminService = {
   getAnalytics: (params?: {
     startDate?: string;
     endDate?: string;
-    metric?: string;
+    metric?: AdminAnalyticsMetric;
   }) => {
-    return api.get("/admin/analytics", { params });
+    return http.get<AdminAnalytics>("/admin/analytics", { params });
   },
 };
@@ -1,12 +1,40 @@
 /**
  * @file src/services/api.ts
- * @description Axios instance configuration with global error handling
+ * @description Single API client: axios instance, global error handling and typed request helpers
  */
 
-import axios, { AxiosError } from "axios";
+import axios, { AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from "axios";
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  PaginationMeta,
+  RefreshResponse,
+} from "@/types";
+import {
+  authEvents,
+  broadcastSession,
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  isTokenExpired,
+  setSession,
+} from "./session";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Don't refresh or retry on 401 (login, register and refresh itself)
+    skipAuthRefresh?: boolean;
+    // Caller handles failures itself (e.g. optional background sync)
+    skipErrorToast?: boolean;
+    _retry?: boolean;
+  }
+}
+
+export const API_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
 
 const api = axios.create({
-  baseURL: process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api",
+  baseURL: API_URL,
   headers: {
     "Content-Type": "application/json",
   },
@@ -14,7 +42,7 @@ const api = axios.create({
 });
 
 // Error message helper
-const getErrorMessage = (error: AxiosError): string => {
+export const getErrorMessage = (error: AxiosError): string => {
   // Network error (server down, no internet)
   if (error.code === "ERR_NETWORK" || error.message === "Network Error") {
     return "Unable to connect to server. Please check your connection.";
@@ -28,7 +56,7 @@ const getErrorMessage = (error: AxiosError): string => {
   // Server responded with error
   if (error.response) {
     const status = error.response.status;
-    const data = error.response.data as any;
+    const data = error.response.data as Partial<ApiResponse<unknown>> | undefined;
 
     // Use server message if available
     if (data?.message) {
@@ -75,15 +103,66 @@ export const setToastHandler = (
   showToast = handler;
 };
 
-// Request interceptor to add auth token
+// Event emitter for global errors (rate limits)
+export const apiErrorEvent = new EventTarget();
+
+// ==================== TOKEN REFRESH ====================
+
+// The in-flight refresh; every request that needs a token waits on it
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token
+ * Concurrent callers share one request
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (refreshPromise) return refreshPromise;
+
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.reject(new Error("No refresh token"));
+
+  refreshPromise = api
+    .post<ApiResponse<RefreshResponse>>(
+      "/auth/refresh",
+      { refreshToken },
+      { skipAuthRefresh: true }
+    )
+    .then((res) => {
+      const { token, refreshToken: rotated } = res.data.data;
+      setSession(token, rotated);
+      authEvents.dispatchEvent(new CustomEvent("tokenRefreshed", { detail: { token } }));
+      broadcastSession({ type: "refresh", token });
+      return token;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+};
+
+// Give up on the session; AuthProvider logs out and sends the user to /login
+const expireSession = () => {
+  clearSession();
+  authEvents.dispatchEvent(new Event("sessionExpired"));
+};
+
+// Request interceptor: add auth token, refreshing it first if it has expired
 api.interceptors.request.use(
-  (config) => {
-    if (typeof window !== "undefined") {
-      const token = localStorage.getItem("token");
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
+  async (config) => {
+    let token = getAccessToken();
+
+    if (token && !config.skipAuthRefresh && isTokenExpired(token) && getRefreshToken()) {
+      try {
+        token = await refreshAccessToken();
+      } catch {
+        // Send the stale token; the 401 handler below ends the session
       }
     }
+
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     return config;
   },
   (error) => Promise.reject(error)
@@ -92,20 +171,50 @@ api.interceptors.request.use(
 // Response interceptor for global error handling
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    // Handle 401 - redirect to login
-    if (error.response?.status === 401) {
-      if (typeof window !== "undefined") {
-        localStorage.removeItem("token");
-        // Only redirect if not already on login page
-        if (!window.location.pathname.includes("/login")) {
-          window.location.href = "/login";
+  async (error: AxiosError) => {
+    const status = error.response?.status;
+    const original = error.config as InternalAxiosRequestConfig | undefined;
+
+    // 401: refresh once and replay the request, or end the session
+    if (status === 401 && original && !original.skipAuthRefresh) {
+      const sent = String(original.headers.Authorization || "").replace("Bearer ", "");
+
+      // Signed-out visitor: there is no session to expire
+      if (!sent) return Promise.reject(error);
+
+      if (!original._retry) {
+        original._retry = true;
+
+        // Another tab may already have refreshed
+        const current = getAccessToken();
+        if (current && current !== sent && !isTokenExpired(current)) {
+          return api(original);
+        }
+
+        if (getRefreshToken()) {
+          try {
+            await refreshAccessToken();
+            return api(original);
+          } catch {
+            // Refresh token is gone or rejected
+          }
         }
       }
+
+      expireSession();
+      showToast?.("Your session has expired. Please log in again.", "error");
+      return Promise.reject(error);
+    }
+
+    // Emit event for rate limit errors
+    if (status === 429) {
+      apiErrorEvent.dispatchEvent(
+        new CustomEvent("apiError", { detail: { type: "rateLimit", error } })
+      );
     }
 
     // Show toast notification for errors
-    if (showToast) {
+    if (showToast && !original?.skipErrorToast) {
       const message = getErrorMessage(error);
       showToast(message, "error");
     }
@@ -114,4 +223,69 @@ api.interceptors.response.use(
   }
 );
 
-export default api;
\ No newline at end of file
+// ==================== RESPONSE NORMALIZATION ====================
+
+/**
+ * List endpoints return either a bare array, `{ items, pagination }` or
+ * `{ [key]: items, pagination }`. Normalize all of them to PaginatedResponse.
+ */
+export function toPaginated<T>(payload: unknown, key: string): PaginatedResponse<T> {
+  const record = (payload ?? {}) as Record<string, unknown>;
+
+  let items: T[] = [];
+  if (Array.isArray(payload)) items = payload as T[];
+  else if (Array.isArray(record[key])) items = record[key] as T[];
+  else if (Array.isArray(record.items)) items = record.items as T[];
+
+  const pagination: PaginationMeta = (record.pagination as PaginationMeta) ?? {
+    total: items.length,
+    page: 1,
+    limit: items.length,
+    totalPages: 1,
+    hasNextPage: false,
+    hasPrevPage: false,
+  };
+
+  return { items, pagination };
+}
+
+// ==================== TYPED REQUEST HELPERS ====================
+
+export const http = {
+  get: <T>(url: string, config?: AxiosRequestConfig) =>
+    api.get<ApiResponse<T>>(url, config).then((res) => res.data),
+
+  post: <T>(url: string, body?: unknown, config?: AxiosRequestConfig) =>
+    api.post<ApiResponse<T>>(url, body, config).then((res) => res.data),
+
+  put: <T>(url: string, body?: unknown, config?: AxiosRequestConfig) =>
+    api.put<ApiResponse<T>>(url, body, config).then((res) => res.data),
+
+  patch: <T>(url: string, body?: unknown, config?: AxiosRequestConfig) =>
+    api.patch<ApiResponse<T>>(url, body, config).then((res) => res.data),
+
+  delete: <T = null>(url: string, config?: AxiosRequestConfig) =>
+    api.delete<ApiResponse<T>>(url, config).then((res) => res.data),
+
+  // GET a list endpoint and normalize its payload (see toPaginated)
+  paginated: async <T>(
+    url: string,
+    key: string,
+    config?: AxiosRequestConfig
+  ): Promise<ApiResponse<PaginatedResponse<T>>> => {
+    const res = await api.get<ApiResponse<unknown>>(url, config);
+    return { ...res.data, data: toPaginated<T>(res.data.data, key) };
+  },
+
+  // GET a non-paginated list endpoint
+  list: async <T>(
+    url: string,
+    key: string,
+    config?: AxiosRequestConfig
+  ): Promise<ApiResponse<T[]>> => {
+    const res = await api.get<ApiResponse<unknown>>(url, config);
+    return { ...res.data, data: toPaginated<T>(res.data.data, key).items };
+  },
+};
+
+export default api;
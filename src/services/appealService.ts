@@ -0,0 +1,19 @@
+/**
+ * @file src/services/appealService.ts
+ * @description API service for suspended users appealing their suspension
+ */
+
+import { http } from "./api";
+import type { Appeal } from "@/types";
+
+export const appealService = {
+  // Appeal the current suspension; the API allows one open appeal at a time
+  create: (message: string) => {
+    return http.post<Appeal>("/appeals", { message }, { skipErrorToast: true });
+  },
+
+  // Appeals I have filed, newest first
+  getMyAppeals: () => {
+    return http.list<Appeal>("/appeals/mine", "appeals");
+  },
+};
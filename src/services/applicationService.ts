@@ -3,7 +3,13 @@
  * @description API service for job applications
  */
 
-import api from "./api";
+import { http } from "./api";
+import type {
+  Application,
+  ApplicationStats,
+  ApplicationStatus,
+  ScreeningAnswer,
+} from "@/types";
 
 export const applicationService = {
   // ==================== DEVELOPER (APPLICANT) ====================
@@ -13,10 +19,13 @@ export const applicationService = {
     jobId: string,
     data: {
       coverLetter?: string;
+      // Library resume; resumeUrl is kept for links to hosted resumes
+      resumeId?: string;
       resumeUrl?: string;
-    }
+      screeningAnswers?: ScreeningAnswer[];
+    } = {}
   ) => {
-    return api.post(`/jobs/${jobId}/apply`, data);
+    return http.post<Application>(`/jobs/${jobId}/applications`, data);
   },
 
   // Get my applications (as developer)
@@ -25,22 +34,26 @@ export const applicationService = {
     limit?: number;
     status?: string;
   }) => {
-    return api.get("/applications/me", { params }); // Changed from /my to /me
+    return http.paginated<Application>("/applications/me", "applications", {
+      params,
+    });
   },
 
   // Get single application
   getApplication: (applicationId: string) => {
-    return api.get(`/applications/${applicationId}`);
+    return http.get<Application>(`/applications/${applicationId}`);
   },
 
-  // Withdraw application
-  withdrawApplication: (applicationId: string) => {
-    return api.delete(`/applications/${applicationId}`);
+  // Withdraw application (keeps the record with a WITHDRAWN status)
+  withdraw: (applicationId: string) => {
+    return http.patch<Application>(`/applications/${applicationId}/withdraw`);
   },
 
   // Check if already applied to a job
   checkApplicationStatus: (jobId: string) => {
-    return api.get(`/jobs/${jobId}/application-status`);
+    return http.get<{ hasApplied: boolean; application?: Application }>(
+      `/jobs/${jobId}/application-status`
+    );
   },
 
   // ==================== RECRUITER ====================
@@ -53,7 +66,9 @@ export const applicationService = {
     status?: string;
     sort?: string;
   }) => {
-    return api.get("/applications/recruiter", { params });
+    return http.paginated<Application>("/applications/recruiter", "applications", {
+      params,
+    });
   },
 
   // Get applications for a specific job
@@ -65,30 +80,54 @@ export const applicationService = {
       status?: string;
     }
   ) => {
-    return api.get(`/jobs/${jobId}/applications`, { params });
+    return http.paginated<Application>(`/jobs/${jobId}/applications`, "applications", {
+      params,
+    });
   },
 
   // Update application status
-  updateStatus: (applicationId: string, status: string) => {
-    return api.patch(`/applications/${applicationId}/status`, { status });
+  updateStatus: (
+    applicationId: string,
+    status: ApplicationStatus,
+    note?: string
+  ) => {
+    return http.patch<Application>(`/applications/${applicationId}/status`, {
+      status,
+      note,
+    });
   },
 
   // Bulk update application status
-  bulkUpdateStatus: (applicationIds: string[], status: string) => {
-    return api.patch("/applications/bulk-status", { applicationIds, status });
+  bulkUpdateStatus: (applicationIds: string[], status: ApplicationStatus) => {
+    return http.patch<{ modifiedCount: number }>("/applications/bulk-status", {
+      applicationIds,
+      status,
+    });
   },
 
   // Add note to application
   addNote: (applicationId: string, note: string) => {
-    return api.post(`/applications/${applicationId}/notes`, { note });
+    return http.post<Application>(`/applications/${applicationId}/notes`, {
+      note,
+    });
   },
 
-  // Get application statistics for recruiter
-  getApplicationStats: () => {
-    return api.get("/applications/stats");
+  // Edit a note (author only)
+  updateNote: (applicationId: string, noteId: string, note: string) => {
+    return http.patch<Application>(`/applications/${applicationId}/notes/${noteId}`, {
+      note,
+    });
   },
 
-  withdraw: (applicationId: string) => {
-  return api.patch(`/applications/${applicationId}/withdraw`);
-},
+  // Delete a note (author only)
+  deleteNote: (applicationId: string, noteId: string) => {
+    return http.delete<Application>(`/applications/${applicationId}/notes/${noteId}`);
+  },
+
+  // Get application statistics for recruiter, optionally for one job
+  getApplicationStats: (jobId?: string) => {
+    return http.get<ApplicationStats>("/applications/stats", {
+      params: jobId ? { jobId } : undefined,
+    });
+  },
 };
@@ -0,0 +1,175 @@
+/**
+ * @file src/services/assistProviders.ts
+ * @description Pluggable providers for the writing assistant (hosted model, offline mock)
+ */
+
+import { countWords, findNonInclusiveTerms, findToneNotes, tightenText } from "@/lib/writingChecks";
+import type { AssistRequest } from "@/types";
+
+export type AssistProviderName = "http" | "mock";
+
+export interface AssistProvider {
+  readonly name: AssistProviderName;
+  // Yields the response text in chunks; stops early when the signal aborts
+  stream: (request: AssistRequest, signal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+const isAborted = (signal?: AbortSignal) => signal?.aborted ?? false;
+
+// POST {baseUrl}/assist/stream, answered with a chunked text/plain body.
+// axios can't read a response body incrementally in the browser, so this uses fetch.
+export const createHttpAssistProvider = (
+  baseUrl: string,
+  getToken: () => string | null | Promise<string | null>
+): AssistProvider => ({
+  name: "http",
+
+  async *stream(request, signal) {
+    const token = await getToken();
+    const response = await fetch(`${baseUrl}/assist/stream`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/plain",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.message || "The writing assistant is unavailable right now");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const chunk = decoder.decode(value, { stream: true });
+        if (chunk) yield chunk;
+      }
+      const rest = decoder.decode();
+      if (rest) yield rest;
+    } finally {
+      reader.releaseLock();
+    }
+  },
+});
+
+/* ------------------------------ Mock provider ----------------------------- */
+
+const list = (items: string[] | undefined) => {
+  const values = (items ?? []).filter(Boolean);
+  if (values.length <= 1) return values.join("");
+  return `${values.slice(0, -1).join(", ")} and ${values[values.length - 1]}`;
+};
+
+const humanize = (value: string | undefined) =>
+  value ? value.replace(/_/g, "-").toLowerCase() : "";
+
+function draftCoverLetter({ job, profile }: AssistRequest): string {
+  const company = job?.companyName || "your company";
+  const title = job?.title || "this role";
+  const required = job?.requiredSkills ?? [];
+  const overlap = (profile?.skills ?? []).filter((skill) =>
+    required.some((req) => req.toLowerCase() === skill.toLowerCase())
+  );
+  const years = profile?.yearsOfExperience;
+
+  const experience = years
+    ? ` and bring ${years} ${years === 1 ? "year" : "years"} of software development experience`
+    : "";
+  const headline = profile?.headline ? ` In a line: ${profile.headline.replace(/\.$/, "")}.` : "";
+
+  const paragraphs = [
+    `Dear ${company} hiring team,`,
+    `I'd like to apply for the ${title} position${experience}.${headline}`,
+    overlap.length > 0
+      ? `The role calls for ${list(required.slice(0, 5))}. I work with ${list(overlap.slice(0, 4))} day to day and would bring that experience to the team from the start.`
+      : `I've read the requirements closely and I'm confident my background maps well to ${list(required.slice(0, 4)) || "what you're looking for"}.`,
+    `[Add a project you're proud of: what you built, the problem it solved and the outcome.]`,
+    `I'd welcome the chance to talk about how I can help ${company}. Thank you for your time.`,
+    `Best regards,\n${profile?.username ?? ""}`.trim(),
+  ];
+  return paragraphs.join("\n\n");
+}
+
+function draftJobDescription({ job }: AssistRequest): string {
+  const company = job?.companyName || "We";
+  const title = job?.title || "software engineer";
+  const minYears = job?.minYearsExperience ?? 0;
+  const setting = [humanize(job?.workType), humanize(job?.employmentType)].filter(Boolean).join(", ");
+
+  const sections = [
+    `About the role\n${company === "We" ? "We are" : `${company} is`} looking for a new ${title}${setting ? ` (${setting})` : ""}. You'll join a small product team and own features from design through release.`,
+    `What you'll do\n- Design, build and ship features end to end\n- Review code and share knowledge with the team\n- Work with product and design to shape the roadmap`,
+    `What we're looking for\n${[
+      minYears > 0 ? `- ${minYears}+ years of professional experience` : "- Experience shipping production software",
+      ...(job?.requiredSkills ?? []).slice(0, 6).map((skill) => `- Hands-on experience with ${skill}`),
+    ].join("\n")}`,
+    job?.preferredSkills?.length
+      ? `Nice to have\n${job.preferredSkills.slice(0, 5).map((skill) => `- ${skill}`).join("\n")}`
+      : "",
+    `We don't expect anyone to tick every box. If this role excites you, we'd like to hear from you.`,
+  ];
+  return sections.filter(Boolean).join("\n\n");
+}
+
+function reviewText({ text, surface }: AssistRequest): string {
+  if (!text.trim()) return "There's no text to review yet.";
+
+  const terms = findNonInclusiveTerms(text);
+  const tone = findToneNotes(text, surface);
+  const tightened = tightenText(text);
+  const saved = countWords(text) - countWords(tightened);
+
+  const sections: string[] = [];
+  sections.push(
+    terms.length > 0
+      ? `Inclusive language\n${terms
+          .map(({ term, suggestion, reason }) => `- "${term}" → ${suggestion}. ${reason}.`)
+          .join("\n")}`
+      : "Inclusive language\n- No exclusionary wording found."
+  );
+  sections.push(
+    tone.length > 0 ? `Tone\n${tone.map((note) => `- ${note}`).join("\n")}` : "Tone\n- Reads clear and professional."
+  );
+  if (saved > 0) {
+    sections.push(`Length\n- Tightening would cut about ${saved} ${saved === 1 ? "word" : "words"}.`);
+  }
+  return sections.join("\n\n");
+}
+
+export interface MockAssistOptions {
+  // Pause between streamed words; 0 streams as fast as possible
+  chunkDelayMs?: number;
+}
+
+// Deterministic, offline responses built from the request; for tests and local development
+export const createMockAssistProvider = ({ chunkDelayMs = 20 }: MockAssistOptions = {}): AssistProvider => ({
+  name: "mock",
+
+  async *stream(request, signal) {
+    const output =
+      request.task === "draft"
+        ? request.surface === "coverLetter"
+          ? draftCoverLetter(request)
+          : draftJobDescription(request)
+        : request.task === "tighten"
+          ? tightenText(request.text)
+          : reviewText(request);
+
+    for (const chunk of output.match(/\S+\s*|\s+/g) ?? []) {
+      if (isAborted(signal)) return;
+      if (chunkDelayMs > 0) await new Promise((resolve) => setTimeout(resolve, chunkDelayMs));
+      yield chunk;
+    }
+  },
+});
+
+// NEXT_PUBLIC_ASSIST_PROVIDER=mock forces the offline provider
+export const getDefaultAssistProviderName = (): AssistProviderName =>
+  process.env.NEXT_PUBLIC_ASSIST_PROVIDER === "mock" ? "mock" : "http";
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { createAssistClient } from "./assistService";
+import { createMockAssistProvider, type AssistProvider } from "./assistProviders";
+import type { AssistRequest } from "@/types";
+
+const tighten: AssistRequest = {
+  task: "tighten",
+  surface: "coverLetter",
+  text: "In order to help, I would really like to utilize my skills.",
+};
+
+const createClient = (provider: AssistProvider = createMockAssistProvider({ chunkDelayMs: 0 })) =>
+  createAssistClient({ provider });
+
+describe("createAssistClient", () => {
+  it("resolves with the assembled text", async () => {
+    const text = await createClient().stream(tighten);
+    expect(text).toBe("To help, I would like to use my skills.");
+  });
+
+  it("passes each chunk and the text so far to onChunk", async () => {
+    const calls: [string, string][] = [];
+    const text = await createClient().stream(tighten, {
+      onChunk: (chunk, soFar) => calls.push([chunk, soFar]),
+    });
+
+    expect(calls.map(([chunk]) => chunk)).toEqual(text.match(/\S+\s*/g));
+    expect(calls[0]).toEqual(["To ", "To "]);
+    expect(calls[calls.length - 1][1]).toBe(text);
+  });
+
+  it("resolves with the partial text when the stream is aborted", async () => {
+    const controller = new AbortController();
+    let chunks = 0;
+    const text = await createClient().stream(tighten, {
+      signal: controller.signal,
+      onChunk: () => {
+        if (++chunks === 3) controller.abort();
+      },
+    });
+
+    expect(text).toBe("To help, I ");
+  });
+
+  it("resolves with the partial text when the provider throws after an abort", async () => {
+    const controller = new AbortController();
+    const provider: AssistProvider = {
+      name: "mock",
+      async *stream() {
+        yield "Partial ";
+        controller.abort();
+        throw new DOMException("The operation was aborted", "AbortError");
+      },
+    };
+
+    const text = await createClient(provider).stream(tighten, { signal: controller.signal });
+    expect(text).toBe("Partial ");
+  });
+
+  it("rejects when the provider fails without an abort", async () => {
+    const provider: AssistProvider = {
+      name: "http",
+      async *stream() {
+        yield "Partial ";
+        throw new Error("The writing assistant is unavailable right now");
+      },
+    };
+
+    await expect(createClient(provider).stream(tighten)).rejects.toThrow("unavailable");
+  });
+
+  it("streams through a provider swapped in at runtime", async () => {
+    const client = createClient({
+      name: "http",
+      async *stream() {
+        yield "unused";
+      },
+    });
+    client.setProvider(createMockAssistProvider({ chunkDelayMs: 0 }));
+
+    expect(client.getProviderName()).toBe("mock");
+    expect(await client.stream(tighten)).toBe("To help, I would like to use my skills.");
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @file src/services/assistService.ts
+ * @description Writing assistant: drafts, tightens and reviews editor text through a pluggable provider
+ */
+
+import { API_URL, refreshAccessToken } from "./api";
+import { getAccessToken, getRefreshToken, isTokenExpired } from "./session";
+import {
+  createHttpAssistProvider,
+  createMockAssistProvider,
+  getDefaultAssistProviderName,
+  type AssistProvider,
+} from "./assistProviders";
+import type { AssistRequest } from "@/types";
+
+export interface AssistClientOptions {
+  provider?: AssistProvider;
+}
+
+export interface AssistStreamOptions {
+  // Called with each chunk and the text so far
+  onChunk?: (chunk: string, text: string) => void;
+  signal?: AbortSignal;
+}
+
+// The HTTP provider calls fetch directly, so it refreshes an expired token the
+// way the API client's request interceptor does
+const getFreshAccessToken = async (): Promise<string | null> => {
+  const token = getAccessToken();
+  if (token && isTokenExpired(token) && getRefreshToken()) {
+    return refreshAccessToken().catch(() => token);
+  }
+  return token;
+};
+
+const createDefaultProvider = (): AssistProvider =>
+  getDefaultAssistProviderName() === "mock"
+    ? createMockAssistProvider()
+    : createHttpAssistProvider(API_URL, getFreshAccessToken);
+
+export function createAssistClient(options: AssistClientOptions = {}) {
+  let provider = options.provider ?? createDefaultProvider();
+
+  return {
+    /**
+     * Stream a response; resolves with the full text once the provider finishes.
+     * An aborted stream resolves with what arrived before the abort.
+     */
+    stream: async (request: AssistRequest, { onChunk, signal }: AssistStreamOptions = {}) => {
+      let text = "";
+      try {
+        for await (const chunk of provider.stream(request, signal)) {
+          if (signal?.aborted) break;
+          text += chunk;
+          onChunk?.(chunk, text);
+        }
+      } catch (err) {
+        if (signal?.aborted) return text;
+        throw err;
+      }
+      return text;
+    },
+
+    // Swap providers at runtime (e.g. the mock in tests or offline development)
+    setProvider: (next: AssistProvider) => {
+      provider = next;
+    },
+
+    getProviderName: () => provider.name,
+  };
+}
+
+export type AssistClient = ReturnType<typeof createAssistClient>;
+
+export const assistService = createAssistClient();
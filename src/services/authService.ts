@@ -3,27 +3,34 @@
  * @description Authentication API service
  */
 
-import api from "./api";
+import type { AxiosRequestConfig } from "axios";
+import { http } from "./api";
+import type { AuthResponse, MeResponse } from "@/types";
+
+// A 401 here means bad credentials, not an expired session
+const noRefresh = { skipAuthRefresh: true };
 
 export const authService = {
   login: (email: string, password: string) => {
-    return api.post("/auth/login", { email, password });
+    return http.post<AuthResponse>("/auth/login", { email, password }, noRefresh);
   },
 
   register: (data: {
     username: string;
     email: string;
     password: string;
-    role: string;
+    role: "DEVELOPER" | "RECRUITER";
+    companyName?: string;
   }) => {
-    return api.post("/auth/register", data);
+    return http.post<AuthResponse>("/auth/register", data, noRefresh);
   },
 
-  getMe: () => {
-    return api.get("/auth/me");
+  getMe: (config?: AxiosRequestConfig) => {
+    return http.get<MeResponse>("/auth/me", config);
   },
 
-  logout: () => {
-    return api.post("/auth/logout");
+  // Revokes the refresh token server-side
+  logout: (refreshToken?: string | null) => {
+    return http.post<null>("/auth/logout", { refreshToken }, noRefresh);
   },
 };
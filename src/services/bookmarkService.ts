@@ -0,0 +1,32 @@
+/**
+ * @file src/services/bookmarkService.ts
+ * @description API service for bookmarked jobs, repos and developers
+ */
+
+import { http } from "./api";
+import type { Bookmark, BookmarkTarget } from "@/types";
+
+// Bookmarks live in localStorage first; server sync failures are silent
+const quiet = { skipErrorToast: true };
+
+export const bookmarkService = {
+  // Get my bookmarks
+  getBookmarks: () => {
+    return http.list<Bookmark>("/bookmarks", "bookmarks", quiet);
+  },
+
+  // Bookmark a job, repo or developer
+  create: (data: BookmarkTarget & { note?: string; tags?: string[] }) => {
+    return http.post<Bookmark>("/bookmarks", data, quiet);
+  },
+
+  // Edit note / tags
+  update: (bookmarkId: string, data: Partial<Pick<Bookmark, "note" | "tags">>) => {
+    return http.patch<Bookmark>(`/bookmarks/${bookmarkId}`, data, quiet);
+  },
+
+  // Remove a bookmark
+  delete: (bookmarkId: string) => {
+    return http.delete(`/bookmarks/${bookmarkId}`, quiet);
+  },
+};
@@ -3,7 +3,16 @@
  * @description API service for developer profiles and listings
  */
 
-import api from "./api";
+import { http } from "./api";
+import type {
+  DeveloperProfile,
+  DeveloperSummary,
+  PinnedRepoClickStats,
+  PostEngagementStats,
+  ProfileCompleteness,
+  ProfileViewStats,
+  RepoSnapshot,
+} from "@/types";
 
 export const developerService = {
   // ==================== PUBLIC ====================
@@ -20,12 +29,14 @@ export const developerService = {
     openToWork?: boolean;
     sort?: string;
   }) => {
-    return api.get("/developers", { params });
+    return http.paginated<DeveloperSummary>("/developers", "developers", {
+      params,
+    });
   },
 
   // Get developer profile by username
   getDeveloperByUsername: (username: string) => {
-    return api.get(`/developers/${username}`);
+    return http.get<DeveloperProfile>(`/developers/${username}`);
   },
 
   // Search developers
@@ -36,83 +47,85 @@ export const developerService = {
       skills?: string[];
     }
   ) => {
-    return api.get("/developers/search", {
+    return http.list<DeveloperSummary>("/developers/search", "developers", {
       params: { q: query, ...params },
     });
   },
 
   // Get featured developers
   getFeaturedDevelopers: (limit: number = 6) => {
-    return api.get("/developers/featured", { params: { limit } });
+    return http.list<DeveloperSummary>("/developers/featured", "developers", {
+      params: { limit },
+    });
   },
 
   // ==================== PROFILE MANAGEMENT ====================
 
   // Get my developer profile
   getMyProfile: () => {
-    return api.get("/developers/me");
-  },
-
-  // Update my developer profile
-  updateMyProfile: (data: {
-    headline?: string;
-    bio?: string;
-    skills?: string[];
-    yearsOfExperience?: number;
-    location?: {
-      city?: string;
-      state?: string;
-      country?: string;
-    };
-    isOpenToWork?: boolean;
-    preferredWorkTypes?: string[];
-    githubUsername?: string;
-    portfolioUrl?: string;
-    linkedinUrl?: string;
-    twitterUrl?: string;
-    websiteUrl?: string;
-    isPublic?: boolean;
-  }) => {
-    return api.put("/developers/me", data);
+    return http.get<DeveloperProfile>("/developers/me");
   },
 
   // ==================== SKILLS ====================
 
   // Add skill to profile
   addSkill: (skillSlug: string) => {
-    return api.post("/developers/me/skills", { skill: skillSlug });
+    return http.post<DeveloperProfile>("/developers/me/skills", {
+      skill: skillSlug,
+    });
   },
 
   // Remove skill from profile
   removeSkill: (skillSlug: string) => {
-    return api.delete(`/developers/me/skills/${skillSlug}`);
+    return http.delete<DeveloperProfile>(`/developers/me/skills/${skillSlug}`);
   },
 
   // Update all skills
   updateSkills: (skills: string[]) => {
-    return api.put("/developers/me/skills", { skills });
+    return http.put<DeveloperProfile>("/developers/me/skills", { skills });
   },
 
   // ==================== PINNED REPOS ====================
 
-  // Get pinned repos
-  getPinnedRepos: () => {
-    return api.get("/developers/me/pinned-repos");
+  // Get a developer's pinned repos (public)
+  getPinnedRepos: (username: string) => {
+    return http.list<RepoSnapshot>(
+      `/developers/${username}/pinned-repos`,
+      "pinnedRepos"
+    );
+  },
+
+  // Get a developer's repos (public)
+  getRepos: (username: string, params?: { page?: number; limit?: number }) => {
+    return http.paginated<RepoSnapshot>(`/developers/${username}/repos`, "repos", {
+      params,
+    });
   },
 
   // Pin a repo
   pinRepo: (repoId: string) => {
-    return api.post("/developers/me/pinned-repos", { repoId });
+    return http.post<null>("/developers/me/pinned-repos", { repoId });
   },
 
   // Unpin a repo
   unpinRepo: (repoId: string) => {
-    return api.delete(`/developers/me/pinned-repos/${repoId}`);
+    return http.delete(`/developers/me/pinned-repos/${repoId}`);
+  },
+
+  // Record a visit to a pinned repo from a profile; failures are ignored
+  trackPinnedRepoClick: (username: string, repoId: string) => {
+    return http.post<null>(
+      `/developers/${username}/pinned-repos/${repoId}/click`,
+      undefined,
+      { skipErrorToast: true }
+    );
   },
 
   // Reorder pinned repos
   reorderPinnedRepos: (repoIds: string[]) => {
-    return api.put("/developers/me/pinned-repos/reorder", { repoIds });
+    return http.put<RepoSnapshot[]>("/developers/me/pinned-repos/reorder", {
+      repoIds,
+    });
   },
 
   // ==================== WORK PREFERENCES ====================
@@ -128,18 +141,32 @@ export const developerService = {
     };
     preferredLocations?: string[];
   }) => {
-    return api.put("/developers/me/work-preferences", data);
+    return http.put<DeveloperProfile>("/developers/me/work-preferences", data);
   },
 
   // ==================== STATS ====================
 
   // Get profile views
   getProfileViews: (params?: { startDate?: string; endDate?: string }) => {
-    return api.get("/developers/me/views", { params });
+    return http.get<ProfileViewStats>("/developers/me/views", { params });
+  },
+
+  // Get likes and comments on my posts
+  getPostEngagement: (params?: { startDate?: string; endDate?: string }) => {
+    return http.get<PostEngagementStats>("/developers/me/post-engagement", {
+      params,
+    });
+  },
+
+  // Get clicks on my pinned repos
+  getPinnedRepoClicks: (params?: { startDate?: string; endDate?: string }) => {
+    return http.get<PinnedRepoClickStats>("/developers/me/pinned-repos/clicks", {
+      params,
+    });
   },
 
   // Get profile completeness
   getProfileCompleteness: () => {
-    return api.get("/developers/me/completeness");
+    return http.get<ProfileCompleteness>("/developers/me/completeness");
   },
 };
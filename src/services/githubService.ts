@@ -3,11 +3,17 @@
  * @description GitHub API service
  */
 
-import api from "./api";
+import { http } from "./api";
+import type {
+  LanguageBreakdown,
+  ReadmeResponse,
+  RepoSearchResult,
+  RepoSnapshot,
+} from "@/types";
 
 export const githubService = {
-  // Search GitHub repos (via backend)
-  searchRepos: (params: {
+  // Search GitHub repos (via backend). Item shape depends on the caller's view.
+  searchRepos: <T = RepoSnapshot>(params: {
     q: string;
     language?: string;
     sort?: string;
@@ -15,36 +21,36 @@ export const githubService = {
     page?: number;
     per_page?: number;
   }) => {
-    return api.get("/github/search/repos", { params });
+    return http.get<RepoSearchResult<T>>("/github/search/repos", { params });
   },
 
   // Get repo by MongoDB ID
   getRepo: (id: string) => {
-    return api.get(`/repos/${id}`);
+    return http.get<RepoSnapshot>(`/repos/${id}`);
   },
 
   // Get repo by full name (owner/repo) - fetches from GitHub and caches
   getRepoByFullName: (fullName: string) => {
-    return api.get(`/github/repos/${fullName}`);
+    return http.get<RepoSnapshot>(`/github/repos/${fullName}`);
   },
 
-  // Get trending repos
-  getTrending: (params?: {
+  // Get trending repos (cached snapshots or raw GitHub items)
+  getTrending: <T = RepoSnapshot>(params?: {
     language?: string;
     since?: string;
     limit?: number;
   }) => {
-    return api.get("/github/trending", { params });
+    return http.list<T>("/github/trending", "repos", { params });
   },
 
   // Get repo README
   getReadme: (fullName: string) => {
-    return api.get(`/github/repos/${fullName}/readme`);
+    return http.get<ReadmeResponse>(`/github/repos/${fullName}/readme`);
   },
 
   // Get repo languages
   getLanguages: (fullName: string) => {
-    return api.get(`/github/repos/${fullName}/languages`);
+    return http.get<LanguageBreakdown[]>(`/github/repos/${fullName}/languages`);
   },
 
   // Get user repos
@@ -52,11 +58,13 @@ export const githubService = {
     username: string,
     params?: { page?: number; per_page?: number }
   ) => {
-    return api.get(`/github/users/${username}/repos`, { params });
+    return http.list<RepoSnapshot>(`/github/users/${username}/repos`, "repos", {
+      params,
+    });
   },
 
   // Sync repo (refresh cache)
   syncRepo: (fullName: string) => {
-    return api.post(`/github/repos/${fullName}/sync`);
+    return http.post<RepoSnapshot>(`/github/repos/${fullName}/sync`);
   },
 };
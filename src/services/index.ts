@@ -3,14 +3,25 @@
  * @description Export all services
  */
 
-export { default as api } from "./api";
+export { default as api, http } from "./api";
 export { authService } from "./authService";
 export { userService } from "./userService";
 export { developerService } from "./developerService";
+export { profileService } from "./profileService";
 export { applicationService } from "./applicationService";
+export { interviewService } from "./interviewService";
+export { resumeService } from "./resumeService";
 export { skillService } from "./skillService";
 export { githubService } from "./githubService";
 export { postService } from "./postService";
+export { reviewService } from "./reviewService";
+export { savedSearchService } from "./savedSearchService";
+export { bookmarkService } from "./bookmarkService";
+export { activityService } from "./activityService";
+export { messageService } from "./messageService";
 export { adminService } from "./adminService";
+export { reportService } from "./reportService";
+export { appealService } from "./appealService";
 export { jobService } from "./jobService";
-
+export { realtimeService, createRealtimeClient } from "./realtimeService";
+export { assistService, createAssistClient } from "./assistService";
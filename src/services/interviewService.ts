@@ -0,0 +1,38 @@
+/**
+ * @file src/services/interviewService.ts
+ * @description API service for interview scheduling on applications
+ */
+
+import { http } from "./api";
+import type { Interview, InterviewProposal } from "@/types";
+
+export const interviewService = {
+  // Get interviews; without params returns the signed-in user's interviews
+  getInterviews: (params?: { jobId?: string; applicationId?: string }) => {
+    return http.list<Interview>("/interviews", "interviews", { params });
+  },
+
+  // Recruiter: propose time slots for an application
+  propose: (applicationId: string, data: InterviewProposal) => {
+    return http.post<Interview>("/interviews", { applicationId, ...data });
+  },
+
+  // Developer: pick one of the proposed slots
+  selectSlot: (interviewId: string, slotId: string) => {
+    return http.post<Interview>(`/interviews/${interviewId}/select`, { slotId });
+  },
+
+  // Recruiter: offer new slots (back to PROPOSED)
+  // Developer: ask for other times (RESCHEDULE_REQUESTED)
+  reschedule: (
+    interviewId: string,
+    data: Partial<InterviewProposal> & { reason?: string }
+  ) => {
+    return http.post<Interview>(`/interviews/${interviewId}/reschedule`, data);
+  },
+
+  // Either side: cancel
+  cancel: (interviewId: string, reason?: string) => {
+    return http.post<Interview>(`/interviews/${interviewId}/cancel`, { reason });
+  },
+};
@@ -3,7 +3,8 @@
  * @description Job API service
  */
 
-import api from "./api";
+import { http } from "./api";
+import type { JobAnalytics, JobPayload, JobPost, JobPostDetails } from "@/types";
 
 export const jobService = {
   // Get all jobs with filters
@@ -15,77 +16,67 @@ export const jobService = {
     workType?: string;
     country?: string;
     employmentType?: string;
+    minSalary?: number;
+    maxExperience?: number;
     featured?: boolean;
   }) => {
-    return api.get("/jobs", { params });
+    return http.paginated<JobPost>("/jobs", "jobs", { params });
   },
 
   // Get single job by ID
   getJob: (id: string) => {
-    return api.get(`/jobs/${id}`);
+    return http.get<JobPostDetails>(`/jobs/${id}`);
   },
 
   // Get featured jobs
   getFeaturedJobs: (limit: number = 6) => {
-    return api.get("/jobs/featured", { params: { limit } });
+    return http.list<JobPost>("/jobs/featured", "jobs", { params: { limit } });
   },
 
   // Create job (Recruiter only)
-  createJob: (data: {
-    title: string;
-    companyName: string;
-    description: string;
-    location?: { city?: string; state?: string; country?: string };
-    workType: string;
-    requiredSkills?: string[];
-    preferredSkills?: string[];
-    minYearsExperience?: number;
-    maxYearsExperience?: number;
-    salary?: {
-      min?: number;
-      max?: number;
-      currency?: string;
-      isVisible?: boolean;
-    };
-    employmentType?: string;
-    applicationDeadline?: string;
-    externalApplicationUrl?: string;
-  }) => {
-    return api.post("/jobs", data);
+  createJob: (data: JobPayload) => {
+    return http.post<JobPost>("/jobs", data);
   },
 
   // Update job
-  updateJob: (id: string, data: any) => {
-    return api.put(`/jobs/${id}`, data);
+  updateJob: (id: string, data: Partial<JobPayload>) => {
+    return http.put<JobPost>(`/jobs/${id}`, data);
   },
 
   // Delete job
   deleteJob: (id: string) => {
-    return api.delete(`/jobs/${id}`);
+    return http.delete(`/jobs/${id}`);
   },
 
   // Get my jobs (Recruiter) - Fixed endpoint
-  getMyJobs: (params?: { page?: number; limit?: number }) => {
-    return api.get("/jobs/me", { params });
+  getMyJobs: (params?: { isActive?: boolean; page?: number; limit?: number }) => {
+    return http.paginated<JobPost>("/jobs/me", "jobs", { params });
+  },
+
+  // Views and applications per day for one of my jobs
+  getJobAnalytics: (id: string, params?: { startDate?: string; endDate?: string }) => {
+    return http.get<JobAnalytics>(`/jobs/${id}/analytics`, { params });
   },
 
   // Activate job - Fixed endpoint to match backend
   activateJob: (id: string) => {
-    return api.patch(`/jobs/${id}/status`, { isActive: true });
+    return http.patch<JobPost>(`/jobs/${id}/status`, { isActive: true });
   },
 
   // Deactivate job - Fixed endpoint to match backend
   deactivateJob: (id: string) => {
-    return api.patch(`/jobs/${id}/status`, { isActive: false });
+    return http.patch<JobPost>(`/jobs/${id}/status`, { isActive: false });
   },
 
   // Toggle featured (Admin)
   toggleFeatured: (id: string) => {
-    return api.patch(`/jobs/${id}/featured`);
+    return http.patch<JobPost>(`/jobs/${id}/featured`);
   },
 
   // Search jobs
   searchJobs: (query: string, params?: { limit?: number }) => {
-    return api.get("/jobs/search", { params: { q: query, ...params } });
+    return http.list<JobPost>("/jobs/search", "jobs", {
+      params: { q: query, ...params },
+    });
   },
 };
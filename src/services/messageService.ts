@@ -0,0 +1,77 @@
+/**
+ * @file src/services/messageService.ts
+ * @description API service for direct messages between users
+ */
+
+import { http } from "./api";
+import { realtimeService } from "./realtimeService";
+import type { Conversation, Message } from "@/types";
+
+// The unread count is polled in the background; its failures are silent
+const quiet = { skipErrorToast: true };
+
+export const messageService = {
+  // ==================== CONVERSATIONS ====================
+
+  // Get my conversations, most recent first
+  getConversations: () => {
+    return http.list<Conversation>("/conversations", "conversations");
+  },
+
+  // Start a conversation with a user (or continue the existing one)
+  // Fails with 403 when the recipient doesn't allow messages
+  startConversation: (username: string, content: string) => {
+    return http.post<{ conversation: Conversation; message: Message }>("/conversations", {
+      username,
+      content,
+    });
+  },
+
+  // Get total unread messages
+  getUnreadCount: () => {
+    return http.get<{ count: number }>("/conversations/unread/count", quiet);
+  },
+
+  // ==================== MESSAGES ====================
+
+  // Get a page of messages, oldest first; pass `before` to load earlier ones
+  getMessages: (conversationId: string, params?: { before?: string; limit?: number }) => {
+    return http.paginated<Message>(`/conversations/${conversationId}/messages`, "messages", {
+      params,
+    });
+  },
+
+  // Send a message
+  sendMessage: (conversationId: string, content: string) => {
+    return http.post<Message>(`/conversations/${conversationId}/messages`, { content });
+  },
+
+  // ==================== SIGNALS ====================
+  // Typing indicators and read receipts go over the realtime channel when the
+  // transport can send, and fall back to HTTP otherwise
+
+  // Mark every message in the conversation as read
+  markRead: async (conversationId: string) => {
+    if (realtimeService.send({ type: "conversation:read", payload: { conversationId } })) {
+      return;
+    }
+    await http.post<null>(`/conversations/${conversationId}/read`);
+  },
+
+  // Tell the other participant I'm typing (or stopped)
+  sendTyping: async (conversationId: string, isTyping: boolean) => {
+    if (
+      realtimeService.send({
+        type: "conversation:typing",
+        payload: { conversationId, isTyping },
+      })
+    ) {
+      return;
+    }
+    await http.post<null>(
+      `/conversations/${conversationId}/typing`,
+      { isTyping },
+      { skipErrorToast: true }
+    );
+  },
+};
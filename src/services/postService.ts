@@ -3,12 +3,13 @@
  * @description API service for posts/feed functionality
  */
 
-import api from "./api";
+import { http } from "./api";
+import type { Comment, Post, PostType } from "@/types";
 
 export const postService = {
   // Get feed posts
   getFeed: (params?: { page?: number; limit?: number; sort?: "hot" | "new" | "top" }) => {
-    return api.get("/posts", { params });
+    return http.paginated<Post>("/posts", "posts", { params });
   },
 
   // Get posts by user
@@ -16,61 +17,65 @@ export const postService = {
     username: string,
     params?: { page?: number; limit?: number }
   ) => {
-    return api.get(`/posts/user/${username}`, { params });
+    return http.paginated<Post>(`/users/${username}/posts`, "posts", { params });
   },
 
   // Get single post
   getPost: (postId: string) => {
-    return api.get(`/posts/${postId}`);
+    return http.get<Post>(`/posts/${postId}`);
   },
 
   // Create post
   createPost: (data: {
     content: string;
-    type?: "TEXT" | "SHARE_REPO" | "SHARE_JOB";
+    type?: PostType;
     repoId?: string;
+    githubId?: number;
+    repoFullName?: string;
     jobPostId?: string;
   }) => {
-    return api.post("/posts", data);
+    return http.post<Post>("/posts", data);
   },
 
   // Update post
   updatePost: (postId: string, data: { content: string }) => {
-    return api.put(`/posts/${postId}`, data);
+    return http.put<Post>(`/posts/${postId}`, data);
   },
 
   // Delete post
   deletePost: (postId: string) => {
-    return api.delete(`/posts/${postId}`);
+    return http.delete(`/posts/${postId}`);
   },
 
   // Like post
   likePost: (postId: string) => {
-    return api.post(`/posts/${postId}/likes`);
+    return http.post<null>(`/posts/${postId}/likes`);
   },
 
   // Unlike post
   unlikePost: (postId: string) => {
-    return api.delete(`/posts/${postId}/likes`);
+    return http.delete(`/posts/${postId}/likes`);
   },
 
   // Get comments for post
   getComments: (postId: string, params?: { page?: number; limit?: number }) => {
-    return api.get(`/posts/${postId}/comments`, { params });
+    return http.paginated<Comment>(`/posts/${postId}/comments`, "comments", {
+      params,
+    });
   },
 
   // Add comment to post
   addComment: (postId: string, content: string) => {
-    return api.post(`/posts/${postId}/comments`, { content });
+    return http.post<Comment>(`/posts/${postId}/comments`, { content });
   },
 
   // Delete comment
   deleteComment: (postId: string, commentId: string) => {
-    return api.delete(`/posts/${postId}/comments/${commentId}`);
+    return http.delete(`/posts/${postId}/comments/${commentId}`);
   },
 
   // Report post
   reportPost: (postId: string, reason: string) => {
-    return api.post(`/posts/${postId}/report`, { reason });
+    return http.post<null>(`/posts/${postId}/report`, { reason });
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,34 @@
+/**
+ * @file src/services/profileService.ts
+ * @description API service for editing the signed-in user's role profile
+ */
+
+import { http } from "./api";
+import type {
+  DeveloperProfileFormData,
+  Location,
+  SessionProfile,
+} from "@/types";
+
+export const profileService = {
+  // Update my developer profile
+  updateDeveloperProfile: (data: Partial<DeveloperProfileFormData>) => {
+    return http.put<SessionProfile>("/profile/developer", data);
+  },
+
+  // Update my recruiter profile
+  updateRecruiterProfile: (data: {
+    companyName?: string;
+    companyWebsite?: string;
+    companyDescription?: string;
+    companySize?: string;
+    industry?: string;
+    positionTitle?: string;
+    location?: Location;
+    portfolioUrl?: string;
+    linkedinUrl?: string;
+    twitterUrl?: string;
+  }) => {
+    return http.put<SessionProfile>("/profile/recruiter", data);
+  },
+};
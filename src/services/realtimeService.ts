@@ -0,0 +1,236 @@
+/**
+ * @file src/services/realtimeService.ts
+ * @description Realtime channel: one connection, typed event subscriptions,
+ * reconnect with exponential backoff and WebSocket -> SSE fallback
+ */
+
+import { API_URL } from "./api";
+import { getAccessToken } from "./session";
+import { getDefaultTransports, type RealtimeTransport, type TransportFactory } from "./realtimeTransports";
+import type {
+  RealtimeClientEvent,
+  RealtimeEvent,
+  RealtimeEventType,
+  RealtimeStatus,
+} from "@/types";
+
+export const REALTIME_URL = process.env.NEXT_PUBLIC_REALTIME_URL || `${API_URL}/realtime`;
+
+export type RealtimeEventPayload<T extends RealtimeEventType> = Extract<
+  RealtimeEvent,
+  { type: T }
+>["payload"];
+export type RealtimeEventHandler<T extends RealtimeEventType> = (
+  payload: RealtimeEventPayload<T>
+) => void;
+
+export interface BackoffOptions {
+  initialMs: number;
+  maxMs: number;
+  factor: number;
+}
+
+export interface RealtimeClientOptions {
+  url?: string;
+  transports?: TransportFactory[];
+  getToken?: () => string | null;
+  backoff?: Partial<BackoffOptions>;
+  // Failed attempts (that never opened) before moving to the next transport
+  attemptsPerTransport?: number;
+}
+
+const DEFAULT_BACKOFF: BackoffOptions = { initialMs: 1000, maxMs: 30000, factor: 2 };
+
+/**
+ * Delay before reconnect attempt N (0-based), with +/-20% jitter so many tabs
+ * don't reconnect in lockstep after a server restart
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(options.maxMs, options.initialMs * options.factor ** attempt);
+  const jitter = base * 0.2 * (random() * 2 - 1);
+  return Math.round(Math.min(options.maxMs, Math.max(0, base + jitter)));
+}
+
+function isRealtimeEvent(value: unknown): value is RealtimeEvent {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === "string" &&
+    "payload" in value
+  );
+}
+
+export function createRealtimeClient(options: RealtimeClientOptions = {}) {
+  const url = options.url ?? REALTIME_URL;
+  const getToken = options.getToken ?? getAccessToken;
+  const backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+  const attemptsPerTransport = options.attemptsPerTransport ?? 3;
+
+  const handlers = new Map<RealtimeEventType, Set<(payload: unknown) => void>>();
+  const statusListeners = new Set<(status: RealtimeStatus) => void>();
+
+  let status: RealtimeStatus = "idle";
+  let transport: RealtimeTransport | null = null;
+  let transportIndex = 0;
+  let attempt = 0;
+  let failuresOnTransport = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let wanted = false;
+
+  const setStatus = (next: RealtimeStatus) => {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+  };
+
+  const dispatch = (raw: string) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return; // Ignore keep-alives and malformed frames
+    }
+    if (!isRealtimeEvent(parsed)) return;
+
+    handlers.get(parsed.type)?.forEach((handler) => {
+      try {
+        handler(parsed.payload);
+      } catch (err) {
+        console.error(`Realtime handler for "${parsed.type}" failed:`, err);
+      }
+    });
+  };
+
+  const clearReconnect = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (!wanted) return;
+
+    const transports = options.transports ?? getDefaultTransports();
+    if (failuresOnTransport >= attemptsPerTransport && transports.length > 1) {
+      transportIndex = (transportIndex + 1) % transports.length;
+      failuresOnTransport = 0;
+    }
+
+    setStatus("reconnecting");
+    clearReconnect();
+    reconnectTimer = setTimeout(open, getBackoffDelay(attempt, backoff));
+    attempt += 1;
+  };
+
+  function open() {
+    reconnectTimer = null;
+    if (!wanted) return;
+
+    const transports = options.transports ?? getDefaultTransports();
+    if (transports.length === 0) {
+      setStatus("closed");
+      return;
+    }
+
+    let opened = false;
+    transport = transports[transportIndex % transports.length](url, getToken());
+    setStatus(attempt === 0 ? "connecting" : "reconnecting");
+
+    try {
+      transport.connect({
+        onOpen: () => {
+          opened = true;
+          attempt = 0;
+          failuresOnTransport = 0;
+          setStatus("open");
+        },
+        onMessage: dispatch,
+        onClose: () => {
+          transport = null;
+          if (!opened) failuresOnTransport += 1;
+          scheduleReconnect();
+        },
+      });
+    } catch (err) {
+      // Constructors throw synchronously on malformed URLs
+      console.error("Realtime connection failed:", err);
+      transport = null;
+      failuresOnTransport += 1;
+      scheduleReconnect();
+    }
+  }
+
+  // Reconnect right away when the network comes back
+  const onOnline = () => {
+    if (wanted && status === "reconnecting") {
+      clearReconnect();
+      open();
+    }
+  };
+
+  return {
+    // Open the channel (no-op if already open or connecting)
+    connect: () => {
+      if (wanted) return;
+      wanted = true;
+      attempt = 0;
+      failuresOnTransport = 0;
+      if (typeof window !== "undefined") window.addEventListener("online", onOnline);
+      open();
+    },
+
+    // Close the channel and stop reconnecting
+    disconnect: () => {
+      wanted = false;
+      clearReconnect();
+      transport?.close();
+      transport = null;
+      if (typeof window !== "undefined") window.removeEventListener("online", onOnline);
+      setStatus("closed");
+    },
+
+    // Subscribe to one event type; returns an unsubscribe function
+    subscribe: <T extends RealtimeEventType>(type: T, handler: RealtimeEventHandler<T>) => {
+      const set = handlers.get(type) ?? new Set();
+      const wrapped = handler as (payload: unknown) => void;
+      set.add(wrapped);
+      handlers.set(type, set);
+      return () => {
+        set.delete(wrapped);
+      };
+    },
+
+    // Listen for connection status changes; returns an unsubscribe function
+    onStatusChange: (listener: (status: RealtimeStatus) => void) => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+
+    /**
+     * Send an event up the channel
+     * @returns false if not connected or the transport is receive-only;
+     * callers should fall back to HTTP
+     */
+    send: (event: RealtimeClientEvent) => {
+      if (status !== "open" || !transport?.send) return false;
+      try {
+        return transport.send(JSON.stringify(event));
+      } catch {
+        return false;
+      }
+    },
+
+    getStatus: () => status,
+
+    getTransportName: () => transport?.name ?? null,
+  };
+}
+
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>;
+
+export const realtimeService = createRealtimeClient();
@@ -0,0 +1,103 @@
+/**
+ * @file src/services/realtimeTransports.ts
+ * @description Pluggable transports for the realtime channel (WebSocket, Server-Sent Events)
+ */
+
+export type RealtimeTransportName = "websocket" | "sse";
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: () => void;
+}
+
+export interface RealtimeTransport {
+  readonly name: RealtimeTransportName;
+  connect: (handlers: TransportHandlers) => void;
+  close: () => void;
+  // Client -> server frames; absent on receive-only transports (SSE).
+  // Returns false when the frame could not be sent.
+  send?: (data: string) => boolean;
+}
+
+// Builds a transport for a base URL and (optional) auth token
+export type TransportFactory = (baseUrl: string, token: string | null) => RealtimeTransport;
+
+const withToken = (url: string, token: string | null) =>
+  token ? `${url}${url.includes("?") ? "&" : "?"}token=${encodeURIComponent(token)}` : url;
+
+// ws(s)://host/api/realtime
+export const createWebSocketTransport: TransportFactory = (baseUrl, token) => {
+  let socket: WebSocket | null = null;
+
+  return {
+    name: "websocket",
+
+    connect: (handlers) => {
+      const url = withToken(baseUrl.replace(/^http/, "ws"), token);
+      socket = new WebSocket(url);
+
+      socket.onopen = () => handlers.onOpen();
+      socket.onmessage = (e) => {
+        if (typeof e.data === "string") handlers.onMessage(e.data);
+      };
+      // onerror is always followed by onclose, so only close is reported
+      socket.onclose = () => {
+        socket = null;
+        handlers.onClose();
+      };
+    },
+
+    close: () => {
+      if (!socket) return;
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    },
+
+    send: (data) => {
+      if (socket?.readyState !== WebSocket.OPEN) return false;
+      socket.send(data);
+      return true;
+    },
+  };
+};
+
+// http(s)://host/api/realtime/sse
+export const createSSETransport: TransportFactory = (baseUrl, token) => {
+  let source: EventSource | null = null;
+
+  return {
+    name: "sse",
+
+    connect: (handlers) => {
+      source = new EventSource(withToken(`${baseUrl}/sse`, token));
+
+      source.onopen = () => handlers.onOpen();
+      source.onmessage = (e) => handlers.onMessage(e.data);
+      // EventSource retries on its own; close it so the client's backoff decides instead
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        handlers.onClose();
+      };
+    },
+
+    close: () => {
+      if (!source) return;
+      source.onerror = null;
+      source.close();
+      source = null;
+    },
+  };
+};
+
+// Transports the browser actually supports, in order of preference
+export const getDefaultTransports = (): TransportFactory[] => {
+  if (typeof window === "undefined") return [];
+
+  const transports: TransportFactory[] = [];
+  if ("WebSocket" in window) transports.push(createWebSocketTransport);
+  if ("EventSource" in window) transports.push(createSSETransport);
+  return transports;
+};
@@ -0,0 +1,42 @@
+/**
+ * @file src/services/reportService.ts
+ * @description API service for reporting posts, comments, users and jobs
+ */
+
+import { http } from "./api";
+import type { Report, ReportReason, ReportStatus, ReportTargetType } from "@/types";
+
+// The report dialog shows failures inline, including "already reported"
+const quiet = { skipErrorToast: true };
+
+export const reportService = {
+  // Report a post, comment, user or job
+  create: (data: {
+    targetType: ReportTargetType;
+    targetId: string;
+    reason: ReportReason;
+    description?: string;
+  }) => {
+    return http.post<Report>("/reports", data, quiet);
+  },
+
+  // Reports I have filed, newest first
+  getMyReports: (params?: {
+    page?: number;
+    limit?: number;
+    status?: ReportStatus;
+    targetType?: ReportTargetType;
+    targetId?: string;
+  }) => {
+    return http.paginated<Report>("/reports/mine", "reports", { params });
+  },
+
+  // My report on one target, if I have filed one
+  getMyReportFor: async (targetType: ReportTargetType, targetId: string) => {
+    const res = await http.paginated<Report>("/reports/mine", "reports", {
+      params: { targetType, targetId, limit: 1 },
+      ...quiet,
+    });
+    return res.data.items[0] ?? null;
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * @file src/services/resumeService.ts
+ * @description API service for a developer's resume library
+ */
+
+import { http } from "./api";
+import type { Resume } from "@/types";
+
+export const resumeService = {
+  // Get the signed-in developer's resumes
+  getResumes: () => {
+    return http.list<Resume>("/resumes", "resumes");
+  },
+
+  // Upload a PDF or DOCX; parsing starts on the server once it is stored
+  // Errors are shown next to the drop zone, so the global toast is skipped
+  uploadResume: (file: File, onProgress?: (percent: number) => void) => {
+    const formData = new FormData();
+    formData.append("resume", file);
+    return http.post<Resume>("/resumes", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+      skipErrorToast: true,
+      // Large files on slow connections outlast the default 15s
+      timeout: 120000,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+  },
+
+  // Make a resume the one pre-selected when applying
+  setDefault: (resumeId: string) => {
+    return http.post<Resume>(`/resumes/${resumeId}/default`);
+  },
+
+  // Parse again, e.g. after parsing failed
+  reparse: (resumeId: string) => {
+    return http.post<Resume>(`/resumes/${resumeId}/parse`);
+  },
+
+  // Delete a resume; applications keep the copy they were sent with
+  deleteResume: (resumeId: string) => {
+    return http.delete(`/resumes/${resumeId}`);
+  },
+};
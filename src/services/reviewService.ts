@@ -0,0 +1,40 @@
+/**
+ * @file src/services/reviewService.ts
+ * @description API service for repo and developer reviews
+ */
+
+import { http } from "./api";
+import type { Review } from "@/types";
+
+type ReviewInput = { rating: number; title?: string; content?: string };
+
+export const reviewService = {
+  // Get reviews written about a user
+  getUserReviews: (username: string, params?: { page?: number }) => {
+    return http.paginated<Review>(`/reviews/user/${username}`, "reviews", {
+      params,
+    });
+  },
+
+  // Get reviews for a repo
+  getRepoReviews: (repoId: string, params?: { page?: number }) => {
+    return http.paginated<Review>(`/reviews/repo/${repoId}`, "reviews", {
+      params,
+    });
+  },
+
+  // Create review for repo
+  createRepoReview: (repoId: string, data: ReviewInput) => {
+    return http.post<Review>(`/reviews/repo/${repoId}`, data);
+  },
+
+  // Update review
+  updateReview: (reviewId: string, data: Partial<ReviewInput>) => {
+    return http.put<Review>(`/reviews/${reviewId}`, data);
+  },
+
+  // Delete review
+  deleteReview: (reviewId: string) => {
+    return http.delete(`/reviews/${reviewId}`);
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * @file src/services/savedSearchService.ts
+ * @description API service for saved job searches and job alerts
+ */
+
+import { http } from "./api";
+import { jobFiltersToParams } from "@/lib/jobSearch";
+import type { JobFilters, JobPost, SavedSearch } from "@/types";
+
+// Saved searches live in localStorage first; server sync failures are silent
+const quiet = { skipErrorToast: true };
+
+export const savedSearchService = {
+  // Get my saved searches
+  getSavedSearches: () => {
+    return http.list<SavedSearch>("/saved-searches", "savedSearches", quiet);
+  },
+
+  // Save a search
+  create: (data: {
+    name: string;
+    filters: JobFilters;
+    alertsEnabled?: boolean;
+    lastSeenAt?: string;
+  }) => {
+    return http.post<SavedSearch>("/saved-searches", data, quiet);
+  },
+
+  // Rename, change filters, toggle alerts or mark as seen
+  update: (
+    searchId: string,
+    data: Partial<Pick<SavedSearch, "name" | "filters" | "alertsEnabled" | "lastSeenAt">>
+  ) => {
+    return http.patch<SavedSearch>(`/saved-searches/${searchId}`, data, quiet);
+  },
+
+  // Jobs matching the filters posted after `since` (read pagination.total)
+  countNewJobs: (filters: JobFilters, since: string) => {
+    return http.paginated<JobPost>("/jobs", "jobs", {
+      params: { ...jobFiltersToParams(filters), postedAfter: since, limit: 1 },
+      ...quiet,
+    });
+  },
+
+  // Delete a saved search
+  delete: (searchId: string) => {
+    return http.delete(`/saved-searches/${searchId}`, quiet);
+  },
+};
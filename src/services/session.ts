@@ -0,0 +1,103 @@
+/**
+ * @file src/services/session.ts
+ * @description Token storage, expiry checks and cross-tab session sync
+ */
+
+import Cookies from "js-cookie";
+import { jwtDecode, type JwtPayload } from "jwt-decode";
+
+const TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const CHANNEL_NAME = "devmatch-auth";
+
+// ==================== TOKEN STORAGE ====================
+
+// Access token lives in localStorage and in a cookie
+export const getAccessToken = (): string | null => {
+  if (typeof window === "undefined") return Cookies.get(TOKEN_KEY) || null;
+  return localStorage.getItem(TOKEN_KEY) || Cookies.get(TOKEN_KEY) || null;
+};
+
+export const getRefreshToken = (): string | null => {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+};
+
+export const setSession = (token: string, refreshToken?: string) => {
+  Cookies.set(TOKEN_KEY, token, { expires: 7 });
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearSession = () => {
+  Cookies.remove(TOKEN_KEY);
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// ==================== EXPIRY ====================
+
+/**
+ * Whether a JWT is expired or will be within `skewSeconds`
+ * Undecodable tokens count as expired; tokens without `exp` never expire
+ */
+export const isTokenExpired = (token: string, skewSeconds: number = 30): boolean => {
+  try {
+    const { exp } = jwtDecode<JwtPayload>(token);
+    if (!exp) return false;
+    return exp * 1000 - skewSeconds * 1000 <= Date.now();
+  } catch {
+    return true;
+  }
+};
+
+// ==================== EVENTS ====================
+
+// In-tab events raised by the API client ("tokenRefreshed", "sessionExpired")
+export const authEvents = new EventTarget();
+
+// ==================== CROSS-TAB SYNC ====================
+
+export type SessionMessage =
+  | { type: "login" }
+  | { type: "logout" }
+  | { type: "refresh"; token: string };
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === "undefined" || !("BroadcastChannel" in window)) return null;
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+// Tell other tabs about a session change (the sending tab does not receive it)
+export const broadcastSession = (message: SessionMessage) => {
+  getChannel()?.postMessage(message);
+};
+
+/**
+ * Listen for session changes made in other tabs
+ * Uses BroadcastChannel, falling back to storage events on the token key
+ * @returns Unsubscribe function
+ */
+export const subscribeSession = (listener: (message: SessionMessage) => void) => {
+  if (typeof window === "undefined") return () => {};
+
+  const bc = getChannel();
+  if (bc) {
+    const onMessage = (e: MessageEvent<SessionMessage>) => listener(e.data);
+    bc.addEventListener("message", onMessage);
+    return () => bc.removeEventListener("message", onMessage);
+  }
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== TOKEN_KEY) return;
+    if (!e.newValue) listener({ type: "logout" });
+    else if (!e.oldValue) listener({ type: "login" });
+    else listener({ type: "refresh", token: e.newValue });
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+};
@@ -3,22 +3,23 @@
  * @description API service for skills
  */
 
-import api from "./api";
+import { http } from "./api";
+import type { GroupedSkills, Skill } from "@/types";
 
 export const skillService = {
   // Get all active skills
-  getSkills: (params?: { grouped?: boolean }) => {
-    return api.get("/skills", { params });
+  getSkills: () => {
+    return http.list<Skill>("/skills", "skills");
   },
 
   // Get skills grouped by category
   getSkillsGrouped: () => {
-    return api.get("/skills", { params: { grouped: "true" } });
+    return http.get<GroupedSkills>("/skills", { params: { grouped: "true" } });
   },
 
   // Search skills (for autocomplete)
   searchSkills: (query: string, limit?: number) => {
-    return api.get("/skills/search", {
+    return http.list<Skill>("/skills/search", "skills", {
       params: { q: query, limit: limit || 10 },
     });
   },
@@ -3,72 +3,77 @@
  * @description API service for user account management
  */
 
-import api from "./api";
+import { http } from "./api";
+import type {
+  FollowStatus,
+  FollowUser,
+  PrivacySettings,
+  User,
+  UserProfileResponse,
+} from "@/types";
 
 export const userService = {
   // ==================== PROFILE ====================
 
   // Get current user
   getMe: () => {
-    return api.get("/users/me");
+    return http.get<User>("/users/me");
   },
 
   // Update basic user info
   updateMe: (data: { username?: string; avatar?: string }) => {
-    return api.put("/users/me", data);
+    return http.put<User>("/users/me", data);
   },
 
   // Upload avatar
   uploadAvatar: (file: File) => {
     const formData = new FormData();
     formData.append("avatar", file);
-    return api.post("/users/me/avatar", formData, {
+    return http.post<{ avatar: string }>("/users/me/avatar", formData, {
       headers: { "Content-Type": "multipart/form-data" },
     });
   },
 
   // Delete avatar
   deleteAvatar: () => {
-    return api.delete("/users/me/avatar");
+    return http.delete("/users/me/avatar");
   },
 
   // ==================== ACCOUNT SETTINGS ====================
 
   // Change password
   changePassword: (currentPassword: string, newPassword: string) => {
-    return api.put("/users/me/password", { currentPassword, newPassword });
+    return http.put<null>("/users/me/password", {
+      currentPassword,
+      newPassword,
+    });
   },
 
   // Change email
   changeEmail: (newEmail: string, password: string) => {
-    return api.put("/users/me/email", { newEmail, password });
+    return http.put<null>("/users/me/email", { newEmail, password });
   },
 
   // Update privacy settings
-  updatePrivacySettings: (settings: {
-    profilePublic?: boolean;
-    showEmail?: boolean;
-    showLocation?: boolean;
-    allowMessages?: boolean;
-  }) => {
-    return api.put("/users/me/privacy", settings);
+  updatePrivacySettings: (settings: PrivacySettings) => {
+    return http.put<PrivacySettings>("/users/me/privacy", settings);
   },
 
   // Get privacy settings
   getPrivacySettings: () => {
-    return api.get("/users/me/privacy");
+    return http.get<PrivacySettings>("/users/me/privacy");
   },
 
   // Delete account
   deleteAccount: () => {
-    return api.delete("/users/me");
+    return http.delete("/users/me");
   },
 
   // ==================== PUBLIC PROFILES ====================
 
-  // Get user by username
+  // Get user (with role profile, stats and follow state) by username
   getUserByUsername: (username: string) => {
-    return api.get(`/users/${username}`);
+    return http.get<UserProfileResponse>(`/users/${username}`);
   },
 
   // Search users
@@ -79,19 +84,21 @@ export const userService = {
       limit?: number;
     }
   ) => {
-    return api.get("/users/search", { params: { q: query, ...params } });
+    return http.list<User>("/users/search", "users", {
+      params: { q: query, ...params },
+    });
   },
 
   // ==================== FOLLOW SYSTEM ====================
 
   // Follow user
-  followUser: (userId: string) => {
-    return api.post(`/users/${userId}/follow`);
+  followUser: (username: string) => {
+    return http.post<null>(`/users/${username}/follow`);
   },
 
   // Unfollow user
-  unfollowUser: (userId: string) => {
-    return api.delete(`/users/${userId}/follow`);
+  unfollowUser: (username: string) => {
+    return http.delete(`/users/${username}/follow`);
   },
 
   // Get followers
@@ -102,7 +109,9 @@ export const userService = {
       limit?: number;
     }
   ) => {
-    return api.get(`/users/${username}/followers`, { params });
+    return http.paginated<FollowUser>(`/users/${username}/followers`, "followers", {
+      params,
+    });
   },
 
   // Get following
@@ -113,37 +122,14 @@ export const userService = {
       limit?: number;
     }
   ) => {
-    return api.get(`/users/${username}/following`, { params });
+    return http.paginated<FollowUser>(`/users/${username}/following`, "following", {
+      params,
+    });
   },
 
   // Check if following
-  checkFollowing: (userId: string) => {
-    return api.get(`/users/${userId}/is-following`);
-  },
-
-  // ==================== NOTIFICATIONS ====================
-
-  // Get notifications
-  getNotifications: (params?: {
-    page?: number;
-    limit?: number;
-    unreadOnly?: boolean;
-  }) => {
-    return api.get("/users/me/notifications", { params });
-  },
-
-  // Mark notification as read
-  markNotificationRead: (notificationId: string) => {
-    return api.patch(`/users/me/notifications/${notificationId}/read`);
-  },
-
-  // Mark all notifications as read
-  markAllNotificationsRead: () => {
-    return api.patch("/users/me/notifications/read-all");
-  },
-
-  // Get unread notification count
-  getUnreadCount: () => {
-    return api.get("/users/me/notifications/unread-count");
+  checkFollowing: (username: string) => {
+    return http.get<FollowStatus>(`/users/${username}/follow/status`);
   },
 };
+
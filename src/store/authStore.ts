@@ -5,27 +5,15 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import Cookies from "js-cookie";
-import api, { authAPI } from "@/lib/api";
-
-// Types
-interface User {
-  id: string;
-  username: string;
-  email: string;
-  role: "DEVELOPER" | "RECRUITER" | "ADMIN";
-  avatar: string | null;
-  createdAt: string;
-}
-
-interface Profile {
-  _id: string;
-  headline?: string;
-  bio?: string;
-  skills?: string[];
-  companyName?: string;
-  [key: string]: unknown;
-}
+import { authService } from "@/services/authService";
+import {
+  broadcastSession,
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  setSession,
+} from "@/services/session";
+import type { SessionProfile as Profile, SessionUser as User } from "@/types";
 
 interface AuthState {
   user: User | null;
@@ -45,25 +33,14 @@ interface AuthState {
     role: "DEVELOPER" | "RECRUITER";
     companyName?: string;
   }) => Promise<void>;
-  logout: () => void;
+  // broadcast: false when mirroring a logout that happened in another tab
+  logout: (options?: { broadcast?: boolean }) => void;
   fetchUser: () => Promise<void>;
+  // Re-read the signed-in user (e.g. a suspension that started or was lifted) in the background
+  refreshUser: () => Promise<void>;
   updateProfile: (profile: Profile) => void;
 }
 
-// Helper to clear all auth data
-const clearAuthData = () => {
-  Cookies.remove("token");
-  localStorage.removeItem("token");
-  delete api.defaults.headers.common["Authorization"];
-};
-
-// Helper to set all auth data
-const setAuthData = (token: string) => {
-  Cookies.set("token", token, { expires: 7 });
-  localStorage.setItem("token", token);
-  api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-};
-
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
@@ -82,9 +59,9 @@ export const useAuthStore = create<AuthState>()(
 
       setToken: (token) => {
         if (token) {
-          setAuthData(token);
+          setSession(token);
         } else {
-          clearAuthData();
+          clearSession();
         }
         set({ token });
       },
@@ -96,22 +73,20 @@ export const useAuthStore = create<AuthState>()(
 
         try {
           // Clear any existing auth data first
-          clearAuthData();
+          clearSession();
           set({ user: null, profile: null, token: null, isAuthenticated: false });
 
-          const response = await authAPI.login({ email, password });
-          const { user, token } = response.data?.data || {};
+          const response = await authService.login(email, password);
+          const { user, token, refreshToken } = response.data || {};
 
           if (!user || !token) {
-            const message =
-              response.data?.message || "Login failed. Please try again.";
-            const axiosError: any = new Error(message);
-            axiosError.response = response;
-            throw axiosError;
+            throw new Error(
+              response.message || "Login failed. Please try again."
+            );
           }
 
           // Set token everywhere
-          setAuthData(token);
+          setSession(token, refreshToken);
 
           // Update state with user from login response
           set({
@@ -123,8 +98,8 @@ export const useAuthStore = create<AuthState>()(
 
           // Fetch full profile using the NEW token
           try {
-            const meResponse = await authAPI.getMe();
-            const { profile, ...fullUser } = meResponse.data.data;
+            const meResponse = await authService.getMe();
+            const { profile, ...fullUser } = meResponse.data;
             set({
               user: fullUser,
               profile,
@@ -133,8 +108,10 @@ export const useAuthStore = create<AuthState>()(
             // Profile fetch failed but login succeeded - user can still use the app
             console.warn("Failed to fetch profile after login:", profileError);
           }
+
+          broadcastSession({ type: "login" });
         } catch (error) {
-          clearAuthData();
+          clearSession();
           set({
             user: null,
             profile: null,
@@ -151,23 +128,20 @@ export const useAuthStore = create<AuthState>()(
 
         try {
           // Clear any existing auth data first
-          clearAuthData();
+          clearSession();
           set({ user: null, profile: null, token: null, isAuthenticated: false });
 
-          const response = await authAPI.register(data);
-          const { user, token } = response.data?.data || {};
+          const response = await authService.register(data);
+          const { user, token, refreshToken } = response.data || {};
 
           if (!user || !token) {
-            const message =
-              response.data?.message ||
-              "Registration failed. Please try again.";
-            const axiosError: any = new Error(message);
-            axiosError.response = response;
-            throw axiosError;
+            throw new Error(
+              response.message || "Registration failed. Please try again."
+            );
           }
 
           // Set token everywhere
-          setAuthData(token);
+          setSession(token, refreshToken);
 
           // Update state
           set({
@@ -179,8 +153,8 @@ export const useAuthStore = create<AuthState>()(
 
           // Fetch full profile
           try {
-            const meResponse = await authAPI.getMe();
-            const { profile, ...fullUser } = meResponse.data.data;
+            const meResponse = await authService.getMe();
+            const { profile, ...fullUser } = meResponse.data;
             set({
               user: fullUser,
               profile,
@@ -188,8 +162,10 @@ export const useAuthStore = create<AuthState>()(
           } catch (profileError) {
             console.warn("Failed to fetch profile after register:", profileError);
           }
+
+          broadcastSession({ type: "login" });
         } catch (error) {
-          clearAuthData();
+          clearSession();
           set({
             user: null,
             profile: null,
@@ -201,9 +177,16 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      logout: () => {
+      logout: ({ broadcast = true } = {}) => {
+        if (broadcast) {
+          // Revoke the refresh token; local logout doesn't wait on it
+          const refreshToken = getRefreshToken();
+          if (refreshToken) authService.logout(refreshToken).catch(() => {});
+          broadcastSession({ type: "logout" });
+        }
+
         // Clear all auth data
-        clearAuthData();
+        clearSession();
         
         // Update state first
         set({
@@ -221,8 +204,8 @@ export const useAuthStore = create<AuthState>()(
       },
 
       fetchUser: async () => {
-        // Get token from state first, then fallbacks
-        const token = get().token || localStorage.getItem("token") || Cookies.get("token");
+        // Shared storage first: another tab may have signed in as someone else
+        const token = getAccessToken() || get().token;
         
         if (!token) {
           set({ isLoading: false, isAuthenticated: false });
@@ -230,12 +213,12 @@ export const useAuthStore = create<AuthState>()(
         }
 
         // Ensure token is set in all places
-        setAuthData(token);
+        setSession(token);
         set({ isLoading: true });
 
         try {
-          const response = await authAPI.getMe();
-          const { profile, ...user } = response.data.data;
+          const response = await authService.getMe();
+          const { profile, ...user } = response.data;
 
           set({
             user,
@@ -245,7 +228,7 @@ export const useAuthStore = create<AuthState>()(
             isLoading: false,
           });
         } catch (error) {
-          clearAuthData();
+          clearSession();
           localStorage.removeItem("auth-storage");
           set({
             user: null,
@@ -257,6 +240,20 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
+      refreshUser: async () => {
+        if (!get().isAuthenticated || !getAccessToken()) return;
+
+        try {
+          const response = await authService.getMe({ skipErrorToast: true });
+          const { profile, ...user } = response.data;
+          // Signed out or switched account while the request was in flight
+          if (!get().isAuthenticated || get().user?.id !== user.id) return;
+          set({ user, profile });
+        } catch {
+          // Keep the stored user; an expired session is handled by the API client
+        }
+      },
+
       updateProfile: (profile) => set({ profile }),
     }),
     {
@@ -267,8 +264,9 @@ export const useAuthStore = create<AuthState>()(
         isAuthenticated: state.isAuthenticated,
       }),
       onRehydrateStorage: () => (state) => {
-        if (state?.token) {
-          setAuthData(state.token);
+        // Don't clobber a newer token refreshed by another tab
+        if (state?.token && !getAccessToken()) {
+          setSession(state.token);
         }
       },
     }
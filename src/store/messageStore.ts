@@ -0,0 +1,40 @@
+/**
+ * @file src/store/messageStore.ts
+ * @description Unread direct message count shared by the navbar and /messages
+ */
+
+import { create } from "zustand";
+import { messageService } from "@/services/messageService";
+
+interface MessageState {
+  unreadCount: number;
+
+  // Actions
+  fetchUnreadCount: () => Promise<void>;
+  setUnreadCount: (count: number) => void;
+  incrementUnread: () => void;
+  decrementUnread: (by?: number) => void;
+  reset: () => void;
+}
+
+export const useMessageStore = create<MessageState>((set) => ({
+  unreadCount: 0,
+
+  fetchUnreadCount: async () => {
+    try {
+      const response = await messageService.getUnreadCount();
+      set({ unreadCount: response.data.count });
+    } catch {
+      // Keep the last known count
+    }
+  },
+
+  setUnreadCount: (unreadCount) => set({ unreadCount }),
+
+  incrementUnread: () => set((state) => ({ unreadCount: state.unreadCount + 1 })),
+
+  decrementUnread: (by = 1) =>
+    set((state) => ({ unreadCount: Math.max(0, state.unreadCount - by) })),
+
+  reset: () => set({ unreadCount: 0 }),
+}));
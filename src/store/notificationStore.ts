@@ -0,0 +1,40 @@
+/**
+ * @file src/store/notificationStore.ts
+ * @description Unread notification count shared by the navbar bell and /notifications
+ */
+
+import { create } from "zustand";
+import { activityService } from "@/services/activityService";
+
+interface NotificationState {
+  unreadCount: number;
+
+  // Actions
+  fetchUnreadCount: () => Promise<void>;
+  setUnreadCount: (count: number) => void;
+  incrementUnread: () => void;
+  decrementUnread: (by?: number) => void;
+  reset: () => void;
+}
+
+export const useNotificationStore = create<NotificationState>((set) => ({
+  unreadCount: 0,
+
+  fetchUnreadCount: async () => {
+    try {
+      const response = await activityService.getUnreadCount();
+      set({ unreadCount: response.data.count });
+    } catch {
+      // Keep the last known count; the next poll will retry
+    }
+  },
+
+  setUnreadCount: (unreadCount) => set({ unreadCount }),
+
+  incrementUnread: () => set((state) => ({ unreadCount: state.unreadCount + 1 })),
+
+  decrementUnread: (by = 1) =>
+    set((state) => ({ unreadCount: Math.max(0, state.unreadCount - by) })),
+
+  reset: () => set({ unreadCount: 0 }),
+}));
@@ -10,17 +10,91 @@ export interface User {
   username: string;
   email: string;
   role: "DEVELOPER" | "RECRUITER" | "ADMIN";
-  status: "ACTIVE" | "BANNED";
+  status: UserStatus;
   avatar: string | null;
   createdAt: string;
   updatedAt: string;
   lastLoginAt?: string;
+  // Set while SUSPENDED; the API lifts the suspension once it passes
+  suspendedUntil?: string | null;
+  suspensionReason?: string | null;
+  warningCount?: number;
+}
+
+// SUSPENDED accounts can still sign in and read, but not post or apply
+export type UserStatus = "ACTIVE" | "SUSPENDED" | "BANNED";
+
+export interface UserWarning {
+  _id: string;
+  reason: string;
+  createdAt: string;
 }
 
 export interface AuthUser extends User {
   token: string;
 }
 
+// Signed-in user as returned by /auth endpoints (uses `id`, not `_id`)
+export interface SessionUser {
+  id: string;
+  username: string;
+  email: string;
+  role: "DEVELOPER" | "RECRUITER" | "ADMIN";
+  avatar: string | null;
+  createdAt: string;
+  // Moderation state; sessions from before suspensions existed omit it
+  status?: UserStatus;
+  suspendedUntil?: string | null;
+  suspensionReason?: string | null;
+  warningCount?: number;
+  latestWarning?: UserWarning | null;
+}
+
+export interface SessionProfile {
+  _id: string;
+  headline?: string;
+  bio?: string;
+  skills?: string[];
+  companyName?: string;
+  [key: string]: unknown;
+}
+
+export interface AuthResponse {
+  user: SessionUser;
+  token: string;
+  refreshToken?: string;
+}
+
+// POST /auth/refresh; the refresh token is rotated when the server sends a new one
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+export type MeResponse = SessionUser & { profile: SessionProfile | null };
+
+// Public profile as returned by /users/:username
+export interface UserProfileResponse extends SessionUser {
+  profile: (DeveloperProfile & RecruiterProfile) | null;
+  stats: {
+    followers: number;
+    following: number;
+    posts: number;
+    repos?: number;
+    jobs?: number;
+  };
+  isFollowing: boolean;
+  // Recipient's "Allow Messages" privacy setting (missing = allowed)
+  allowMessages?: boolean;
+}
+
+export interface PrivacySettings {
+  profilePublic?: boolean;
+  showEmail?: boolean;
+  showLocation?: boolean;
+  allowMessages?: boolean;
+}
+
 // ==================== PROFILE TYPES ====================
 
 export interface DeveloperProfile {
@@ -45,6 +119,33 @@ export interface DeveloperProfile {
   updatedAt: string;
 }
 
+// Listing endpoints populate only the public bits of the user
+export interface DeveloperSummary extends Omit<DeveloperProfile, "user"> {
+  user: Pick<User, "_id" | "username" | "avatar"> | null;
+}
+
+export interface ProfileViewStats {
+  total: number;
+  views: { date: string; count: number }[];
+}
+
+export interface ProfileCompleteness {
+  completeness: number;
+  missingFields: string[];
+}
+
+// Likes and comments received on the developer's posts, per day
+export interface PostEngagementStats {
+  totals: { posts: number; likes: number; comments: number };
+  daily: { date: string; likes: number; comments: number }[];
+}
+
+// Visits to pinned repos from the developer's profile
+export interface PinnedRepoClickStats {
+  total: number;
+  repos: { repoId: string; name: string; fullName: string; clicks: number }[];
+}
+
 export interface RecruiterProfile {
   _id: string;
   user: User | string;
@@ -102,10 +203,29 @@ export interface JobPost {
   isFeatured: boolean;
   viewCount: number;
   applicationCount?: number;
+  // Ordered hiring pipeline; jobs created before stages existed omit it
+  stages?: HiringStage[];
+  // Asked on the apply form, in order
+  screeningQuestions?: ScreeningQuestion[];
   createdAt: string;
   updatedAt: string;
 }
 
+// GET /jobs/:id populates the recruiter and adds viewer-specific fields
+export interface JobPostDetails extends Omit<JobPost, "recruiter"> {
+  recruiter: User;
+  recruiterProfile?: Partial<RecruiterProfile>;
+  hasApplied?: boolean;
+}
+
+// GET /jobs/:id/analytics for a date range
+export interface JobAnalytics {
+  totals: { views: number; applications: number };
+  daily: { date: string; views: number; applications: number }[];
+  // Over the job's whole life, not just the range
+  firstApplicationAt: string | null;
+}
+
 export interface SalaryRange {
   min?: number;
   max?: number;
@@ -120,6 +240,42 @@ export type EmploymentType =
   | "INTERNSHIP"
   | "FREELANCE";
 
+// ==================== SCREENING TYPES ====================
+
+export type ScreeningQuestionType =
+  | "SHORT_TEXT"
+  | "LONG_TEXT"
+  | "SINGLE_CHOICE"
+  | "MULTIPLE_CHOICE"
+  | "YES_NO"
+  | "NUMBER";
+
+export interface ScreeningQuestion {
+  // Stable id that answers refer to; new questions get one on the client
+  id: string;
+  type: ScreeningQuestionType;
+  prompt: string;
+  // SINGLE_CHOICE and MULTIPLE_CHOICE only
+  options?: string[];
+  required: boolean;
+  // Applicants whose answer doesn't qualify are flagged as knocked out
+  knockout: boolean;
+  // Choice and YES_NO knockouts: answers that qualify ("Yes"/"No" for YES_NO)
+  qualifyingAnswers?: string[];
+  // NUMBER knockouts: lowest qualifying value
+  minValue?: number;
+}
+
+// YES_NO answers are booleans, NUMBER answers numbers, MULTIPLE_CHOICE a list of options
+export type ScreeningAnswerValue = string | string[] | number | boolean;
+
+export interface ScreeningAnswer {
+  questionId: string;
+  // Prompt when the applicant answered; the question may have changed since
+  prompt?: string;
+  value: ScreeningAnswerValue;
+}
+
 // ==================== APPLICATION TYPES ====================
 
 export interface Application {
@@ -129,16 +285,192 @@ export interface Application {
   status: ApplicationStatus;
   coverLetter?: string;
   resumeUrl?: string;
+  // Library resume picked when applying; older applications only have resumeUrl
+  resume?: Pick<Resume, "_id" | "fileName" | "mimeType" | "url">;
+  screeningAnswers?: ScreeningAnswer[];
+  skillsMatchPercent?: number;
   appliedAt: string;
+  createdAt: string;
   updatedAt: string;
   developerProfile?: DeveloperProfile;
+  // Recruiter-only fields, present on the single-application endpoint
+  notes?: ApplicationNote[];
+  statusHistory?: ApplicationStatusChange[];
+}
+
+// Private recruiter note on an application (markdown)
+export interface ApplicationNote {
+  _id: string;
+  author: Pick<User, "_id" | "username" | "avatar"> | null;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApplicationStatusChange {
+  _id?: string;
+  status: ApplicationStatus;
+  changedBy?: Pick<User, "_id" | "username" | "avatar"> | null;
+  note?: string;
+  changedAt: string;
 }
 
-export type ApplicationStatus =
-  | "PENDING"
-  | "REVIEWED"
-  | "SHORTLISTED"
-  | "REJECTED";
+export type ApplyStep = "profile" | "resume" | "coverLetter" | "questions" | "confirm";
+
+// Apply wizard progress kept in localStorage until the application is sent
+export interface ApplicationDraft {
+  jobId: string;
+  userId: string;
+  // Enough of the job to list the draft without fetching it
+  job: Pick<JobPost, "title" | "companyName">;
+  step: ApplyStep;
+  coverLetter: string;
+  // Undefined until the developer picks; null applies without a resume
+  resumeId?: string | null;
+  resumeName?: string;
+  // Screening answers keyed by question id, as typed in the form
+  answers: Record<string, string | string[]>;
+  updatedAt: string;
+}
+
+// Key of one of the job's hiring stages (e.g. "PENDING", "INTERVIEWING")
+export type ApplicationStatus = string;
+
+// What reaching a stage means; keys and labels are up to each team
+export type HiringStageKind =
+  | "OPEN" // Still in progress; the first OPEN stage is where new applications land
+  | "HIRED"
+  | "REJECTED"
+  | "WITHDRAWN"; // Set when the developer withdraws
+
+export interface HiringStage {
+  // Stable id stored on applications; renaming a stage keeps its key
+  key: string;
+  label: string;
+  kind: HiringStageKind;
+}
+
+export interface ApplicationStats {
+  total: number;
+  byStatus: Partial<Record<ApplicationStatus, number>>;
+}
+
+// ==================== INTERVIEW TYPES ====================
+
+export type InterviewStatus =
+  | "PROPOSED" // Recruiter offered slots, waiting for the developer to pick one
+  | "SCHEDULED"
+  | "RESCHEDULE_REQUESTED" // Developer asked for other times
+  | "CANCELLED";
+
+export type InterviewFormat = "VIDEO" | "PHONE" | "ONSITE";
+
+// Times are ISO strings in UTC
+export interface InterviewSlot {
+  _id: string;
+  start: string;
+  end: string;
+}
+
+export interface Interview {
+  _id: string;
+  application: string;
+  jobPost: Pick<JobPost, "_id" | "title" | "companyName">;
+  recruiter: Pick<User, "_id" | "username" | "email">;
+  applicant: Pick<User, "_id" | "username" | "email">;
+  status: InterviewStatus;
+  format: InterviewFormat;
+  // Meeting link, phone number or address
+  location?: string;
+  notes?: string;
+  // IANA time zone the recruiter proposed in, shown for reference
+  timeZone: string;
+  slots: InterviewSlot[];
+  selectedSlotId?: string | null;
+  rescheduleReason?: string;
+  cancelledBy?: "RECRUITER" | "DEVELOPER";
+  cancelReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InterviewProposal {
+  format: InterviewFormat;
+  location?: string;
+  notes?: string;
+  timeZone: string;
+  slots: { start: string; end: string }[];
+}
+
+// ==================== RESUME TYPES ====================
+
+// Parsing runs on the server after upload
+export type ResumeParseStatus = "PENDING" | "PARSED" | "FAILED";
+
+// Profile fields suggested from a resume; skills are slugs from the skill catalog
+export type ResumeSuggestions = Partial<
+  Pick<
+    DeveloperProfileFormData,
+    | "headline"
+    | "skills"
+    | "yearsOfExperience"
+    | "githubUsername"
+    | "portfolioUrl"
+    | "linkedinUrl"
+    | "twitterUrl"
+    | "websiteUrl"
+  >
+>;
+
+export interface Resume {
+  _id: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string;
+  // Pre-selected when applying
+  isDefault: boolean;
+  parseStatus: ResumeParseStatus;
+  suggestions?: ResumeSuggestions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ==================== ASSIST TYPES ====================
+
+// What the writing assistant is asked to do with the text
+export type AssistTask = "draft" | "tighten" | "review";
+
+// Editor the request comes from; providers adjust the prompt to it
+export type AssistSurface = "coverLetter" | "jobDescription";
+
+export type AssistJobContext = Partial<
+  Pick<
+    JobPost,
+    | "title"
+    | "companyName"
+    | "description"
+    | "requiredSkills"
+    | "preferredSkills"
+    | "minYearsExperience"
+    | "workType"
+    | "employmentType"
+  >
+>;
+
+export type AssistProfileContext = Partial<
+  Pick<DeveloperProfileFormData, "headline" | "bio" | "skills" | "yearsOfExperience">
+> & { username?: string };
+
+// Body of POST /assist/stream
+export interface AssistRequest {
+  task: AssistTask;
+  surface: AssistSurface;
+  // Current editor text; empty when drafting from scratch
+  text: string;
+  job?: AssistJobContext;
+  profile?: AssistProfileContext;
+}
 
 // ==================== POST TYPES ====================
 
@@ -215,12 +547,36 @@ export interface LanguageBreakdown {
   percentage: number;
 }
 
+export interface RepoSearchResult<T = RepoSnapshot> {
+  items: T[];
+  total_count: number;
+}
+
+export interface ReadmeResponse {
+  readme?: string | null;
+  content?: string | null;
+}
+
 export type ComplexityLevel =
   | "BEGINNER"
   | "INTERMEDIATE"
   | "ADVANCED"
   | "EXPERT";
 
+// ==================== REVIEW TYPES ====================
+
+export interface Review {
+  _id: string;
+  rating: number;
+  title: string;
+  content: string;
+  reviewer: Pick<User, "_id" | "username" | "avatar"> | null;
+  author?: Pick<User, "_id" | "username" | "avatar"> | null;
+  repo?: RepoSnapshot | string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
 // ==================== SKILL TYPES ====================
 
 export interface Skill {
@@ -231,10 +587,27 @@ export interface Skill {
   icon: string | null;
   isActive: boolean;
   usageCount: number;
+  // Other spellings that resolve to this skill, e.g. "ReactJS" for React
+  aliases?: string[];
+  // Broader skill this one sits under, e.g. React for Next.js
+  parent?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// What merging one skill into another would move, before it is confirmed
+export interface SkillMergePreview {
+  source: Skill;
+  target: Skill;
+  profiles: number;
+  jobs: number;
+  // Source name and aliases the target does not already answer to
+  aliasesAdded: string[];
+  // Skills whose parent moves from the source to the target
+  children: number;
+  usageCountAfter: number;
+}
+
 export type SkillCategory =
   | "LANGUAGE"
   | "FRONTEND"
@@ -259,6 +632,62 @@ export interface Follow {
   createdAt: string;
 }
 
+export interface FollowStatus {
+  isFollowing: boolean;
+}
+
+// Row in a followers/following list
+export interface FollowUser extends User {
+  headline?: string;
+  isFollowing?: boolean;
+}
+
+// ==================== BOOKMARK TYPES ====================
+
+export type BookmarkType = "JOB" | "REPO" | "DEVELOPER";
+
+// What gets bookmarked; title/subtitle/href are snapshots so /saved renders without refetching
+export interface BookmarkTarget {
+  type: BookmarkType;
+  targetId: string;
+  title: string;
+  subtitle?: string;
+  href: string;
+  imageUrl?: string | null;
+}
+
+export interface Bookmark extends BookmarkTarget {
+  _id: string;
+  note?: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ==================== MESSAGE TYPES ====================
+
+export type ConversationParticipant = Pick<User, "_id" | "username" | "avatar" | "role">;
+
+export interface Conversation {
+  _id: string;
+  participants: ConversationParticipant[];
+  lastMessage: Message | null;
+  // Messages the current user hasn't read yet
+  unreadCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Message {
+  _id: string;
+  conversation: string;
+  sender: string;
+  content: string;
+  // Ids of participants who have read the message (read receipts)
+  readBy: string[];
+  createdAt: string;
+}
+
 // ==================== NOTIFICATION TYPES ====================
 
 export interface Notification {
@@ -267,11 +696,20 @@ export interface Notification {
   type: NotificationType;
   title: string;
   message: string;
-  data?: Record<string, any>;
+  data?: NotificationData;
   isRead: boolean;
   createdAt: string;
 }
 
+// Ids the backend attaches so a notification can link to its subject
+export interface NotificationData {
+  username?: string;
+  postId?: string;
+  jobId?: string;
+  applicationId?: string;
+  [key: string]: unknown;
+}
+
 export type NotificationType =
   | "FOLLOW"
   | "LIKE"
@@ -281,6 +719,41 @@ export type NotificationType =
   | "JOB_MATCH"
   | "SYSTEM";
 
+// ==================== REALTIME TYPES ====================
+
+// Messages pushed by the server, over WebSocket or SSE, as `{ type, payload }`
+export type RealtimeEvent =
+  | { type: "post:created"; payload: Post }
+  | {
+      type: "post:updated";
+      payload: { postId: string; likesCount?: number; commentsCount?: number };
+    }
+  | { type: "application:created"; payload: Application }
+  | {
+      type: "application:status";
+      payload: { applicationId: string; jobId: string; status: ApplicationStatus };
+    }
+  | { type: "notification:created"; payload: Notification }
+  | { type: "interview:updated"; payload: Interview }
+  | { type: "message:created"; payload: Message }
+  | {
+      type: "message:read";
+      payload: { conversationId: string; userId: string; readAt: string };
+    }
+  | {
+      type: "conversation:typing";
+      payload: { conversationId: string; userId: string; isTyping: boolean };
+    };
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+// Messages the client sends up the channel, when the transport can send
+export type RealtimeClientEvent =
+  | { type: "conversation:typing"; payload: { conversationId: string; isTyping: boolean } }
+  | { type: "conversation:read"; payload: { conversationId: string } };
+
+export type RealtimeStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
 // ==================== API RESPONSE TYPES ====================
 
 export interface ApiResponse<T = any> {
@@ -331,6 +804,27 @@ export interface JobFormData {
   employmentType: EmploymentType;
   applicationDeadline?: string;
   externalApplicationUrl?: string;
+  screeningQuestions: ScreeningQuestion[];
+}
+
+// Body accepted by POST /jobs and PUT /jobs/:id
+export interface JobPayload {
+  title: string;
+  description: string;
+  companyName?: string;
+  location?: Location;
+  workType: WorkType;
+  requiredSkills?: string[];
+  preferredSkills?: string[];
+  minYearsExperience?: number;
+  maxYearsExperience?: number;
+  salary?: Partial<SalaryRange>;
+  employmentType?: EmploymentType;
+  applicationDeadline?: string;
+  externalApplicationUrl?: string;
+  isActive?: boolean;
+  stages?: HiringStage[];
+  screeningQuestions?: ScreeningQuestion[];
 }
 
 export interface DeveloperProfileFormData {
@@ -374,6 +868,18 @@ export interface JobFilters {
   featured?: boolean;
 }
 
+// A named JobFilters set; `lastSeenAt` drives the "new since last visit" count
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  filters: JobFilters;
+  // Opt in to JOB_MATCH notifications for new matching jobs
+  alertsEnabled: boolean;
+  lastSeenAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface DeveloperFilters {
   q?: string;
   skills?: string[];
@@ -404,6 +910,8 @@ export interface DashboardStats {
     total: number;
     pending: number;
     thisWeek: number;
+    // Counts per stage key across all jobs
+    byStatus?: Partial<Record<ApplicationStatus, number>>;
   };
   skills: {
     total: number;
@@ -412,6 +920,44 @@ export interface DashboardStats {
   };
 }
 
+// Daily counts from /admin/analytics; `metric` narrows the response to one series
+export type AdminAnalyticsMetric =
+  | "signups"
+  | "jobs"
+  | "applications"
+  | "posts"
+  | "reports"
+  | "retention";
+
+export interface AdminDailyCount {
+  date: string;
+  count: number;
+}
+
+export interface AdminSignupPoint {
+  date: string;
+  developers: number;
+  recruiters: number;
+  admins: number;
+}
+
+export interface RetentionCohort {
+  // First day (YYYY-MM-DD) of the signup week
+  cohort: string;
+  size: number;
+  // Cohort members active in each week since signup; index 0 is the signup week
+  active: number[];
+}
+
+export interface AdminAnalytics {
+  signups?: AdminSignupPoint[];
+  jobs?: AdminDailyCount[];
+  applications?: AdminDailyCount[];
+  posts?: AdminDailyCount[];
+  reports?: AdminDailyCount[];
+  retention?: RetentionCohort[];
+}
+
 export interface Activity {
   type: string;
   message: string;
@@ -419,15 +965,130 @@ export interface Activity {
   data?: Record<string, any>;
 }
 
+export type ReportTargetType = "POST" | "COMMENT" | "USER" | "JOB";
+export type ReportStatus = "PENDING" | "REVIEWED" | "RESOLVED";
+export type ReportAction = "DISMISS" | "WARN" | "REMOVE" | "BAN";
+export type ReportReason =
+  | "SPAM"
+  | "HARASSMENT"
+  | "HATE_SPEECH"
+  | "INAPPROPRIATE"
+  | "FAKE"
+  | "COPYRIGHT"
+  | "OTHER";
+
+// Something a user can report, plus how to name it in the report dialog
+export interface ReportTarget {
+  targetType: ReportTargetType;
+  targetId: string;
+  label: string;
+}
+
 export interface Report {
   _id: string;
-  reporter: User;
-  targetType: "POST" | "COMMENT" | "USER" | "JOB";
+  reporter: Pick<User, "_id" | "username" | "email"> & { avatar?: string | null };
+  targetType: ReportTargetType;
   targetId: string;
   reason: string;
-  status: "PENDING" | "REVIEWED" | "RESOLVED";
+  description?: string;
+  status: ReportStatus;
+  // Populated target, depending on targetType
+  reportedUser?: Pick<User, "_id" | "username" | "email" | "role"> & {
+    avatar?: string | null;
+  };
+  reportedContent?: {
+    _id: string;
+    content?: string;
+    title?: string;
+    username?: string;
+    author?: Pick<User, "_id" | "username">;
+  };
+  // Admin triaging the report; unassigned reports are open to any admin
+  assignedTo?: Pick<User, "_id" | "username"> & { avatar?: string | null };
+  assignedAt?: string;
+  action?: ReportAction;
+  // Note the resolving admin is required to leave
   resolution?: string;
-  resolvedBy?: User;
+  resolvedBy?: Pick<User, "_id" | "username">;
   resolvedAt?: string;
   createdAt: string;
+  updatedAt?: string;
+}
+
+// GET /admin/reports/:id/target - the reported thing as it is now; null once deleted
+export type ReportTargetPreview =
+  | { targetType: "POST"; post: Post | null }
+  | {
+      targetType: "COMMENT";
+      comment: Comment | null;
+      // The post the comment sits under and the comments just before and after it
+      post: Post | null;
+      thread: Comment[];
+    }
+  | {
+      targetType: "USER";
+      user: User | null;
+      profile: Partial<DeveloperProfile & RecruiterProfile> | null;
+      stats?: UserProfileResponse["stats"];
+    }
+  | { targetType: "JOB"; job: JobPostDetails | null };
+
+export type AuditAction =
+  | "USER_ROLE_CHANGED"
+  | "USER_BANNED"
+  | "USER_UNBANNED"
+  | "USER_WARNED"
+  | "USER_SUSPENDED"
+  | "USER_UNSUSPENDED"
+  | "USER_DELETED"
+  | "SKILL_CREATED"
+  | "SKILL_UPDATED"
+  | "SKILL_ACTIVATED"
+  | "SKILL_DEACTIVATED"
+  | "SKILL_DELETED"
+  | "SKILL_MERGED"
+  | "JOB_FEATURED"
+  | "JOB_UNFEATURED"
+  | "JOB_DEACTIVATED"
+  | "JOB_DELETED"
+  | "REPORT_RESOLVED";
+
+export type AuditTargetType = "USER" | "SKILL" | "JOB" | "REPORT";
+
+// One admin action, recorded by the API when it happens
+export interface AuditLogEntry {
+  _id: string;
+  actor: Pick<User, "_id" | "username"> & { avatar?: string | null };
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  // Username, skill name or job title at the time, so deleted targets stay readable
+  targetLabel?: string;
+  // Changed fields only, e.g. { role: "DEVELOPER" } -> { role: "RECRUITER" }
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  reason?: string;
+  createdAt: string;
+}
+
+// ==================== APPEAL TYPES ====================
+
+export type AppealStatus = "PENDING" | "APPROVED" | "DENIED";
+
+// A suspended user's request to lift their suspension
+export interface Appeal {
+  _id: string;
+  user: Pick<User, "_id" | "username" | "email" | "status" | "warningCount"> & {
+    avatar?: string | null;
+  };
+  message: string;
+  // The suspension being appealed, as it was when the appeal was filed
+  suspensionReason?: string | null;
+  suspendedUntil?: string | null;
+  status: AppealStatus;
+  // Admin's reply, shown to the user
+  response?: string;
+  reviewedBy?: Pick<User, "_id" | "username">;
+  reviewedAt?: string;
+  createdAt: string;
 }
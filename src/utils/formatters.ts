@@ -57,6 +57,114 @@ export const formatDateTime = (dateString: string): string => {
   });
 };
 
+/**
+ * IANA time zone of the browser (e.g., "Europe/Berlin"), UTC on the server
+ */
+export const getLocalTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+/**
+ * Format date and time in a given time zone, with its abbreviation
+ * (e.g., "Tue, Oct 21, 2026, 10:00 AM PDT")
+ */
+export const formatDateTimeInZone = (
+  dateString: string,
+  timeZone: string = getLocalTimeZone(),
+  options?: Intl.DateTimeFormatOptions
+): string => {
+  return new Date(dateString).toLocaleString("en-US", {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    timeZone,
+    ...options,
+  });
+};
+
+/**
+ * Format a start/end pair in a time zone; the date is shown once when both
+ * fall on the same day (e.g., "Tue, Oct 21, 10:00 – 10:45 AM PDT")
+ */
+export const formatTimeRange = (
+  start: string,
+  end: string,
+  timeZone: string = getLocalTimeZone()
+): string => {
+  const dayKey = (date: string) =>
+    new Date(date).toLocaleDateString("en-CA", { timeZone });
+
+  if (dayKey(start) !== dayKey(end)) {
+    return `${formatDateTimeInZone(start, timeZone)} – ${formatDateTimeInZone(end, timeZone)}`;
+  }
+
+  const day = new Date(start).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone,
+  });
+  const time = (date: string, withZone: boolean) =>
+    new Date(date).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+      ...(withZone && { timeZoneName: "short" }),
+    });
+
+  return `${day}, ${time(start, false)} – ${time(end, true)}`;
+};
+
+/**
+ * Readable time zone name (e.g., "America/New_York" -> "Eastern Daylight Time")
+ */
+export const formatTimeZoneName = (timeZone: string, date: Date = new Date()): string => {
+  try {
+    const part = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      timeZoneName: "long",
+    })
+      .formatToParts(date)
+      .find((p) => p.type === "timeZoneName");
+    return part?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+/**
+ * Value for <input type="datetime-local"> in the browser's time zone
+ */
+export const toDateTimeLocalValue = (dateString: string): string => {
+  const date = new Date(dateString);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * ISO (UTC) string from a datetime-local input value, read in the browser's time zone
+ */
+export const fromDateTimeLocalValue = (value: string): string => {
+  return new Date(value).toISOString();
+};
+
+/**
+ * iCalendar UTC date-time (e.g., "20261021T170000Z")
+ */
+export const formatIcsDateTime = (dateString: string): string => {
+  return new Date(dateString).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+};
+
 /**
  * Format number with commas (e.g., 1,234,567)
  */